@@ -5,9 +5,11 @@
 
 import React from 'react';
 import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { Alert } from 'react-native';
 import LocationSearchBar from '../../src/components/LocationSearchBar';
 import { useLocationSearch } from '../../src/hooks';
-import { SearchResult } from '../../src/types';
+import { SearchHistoryEntry, SearchResult } from '../../src/types';
+import { createMockAttraction } from '../fixtures/attractions';
 
 jest.mock('../../src/hooks');
 jest.mock('react-i18next', () => ({
@@ -48,10 +50,13 @@ describe('LocationSearchBar', () => {
     loading: false,
     error: null,
     selectedResult: null,
+    history: [],
     setQuery: jest.fn(),
     selectResult: jest.fn(),
     clearSearch: jest.fn(),
     getSelectedCityInfo: jest.fn(),
+    removeHistoryEntry: jest.fn(),
+    pinHistoryEntry: jest.fn(),
   };
 
   beforeEach(() => {
@@ -349,4 +354,180 @@ describe('LocationSearchBar', () => {
       // Secondary text should not be rendered when empty
     });
   });
+
+  describe('Search history', () => {
+    const history: SearchHistoryEntry[] = [
+      { result: mockSearchResults[1], count: 1, lastSelectedAt: 2000, pinned: 'hotel' },
+      { result: mockSearchResults[0], count: 3, lastSelectedAt: 1000 },
+    ];
+
+    const renderWithHistory = (overrides = {}) => {
+      const handlers = { ...defaultMockReturn, history, ...overrides };
+      mockedUseLocationSearch.mockReturnValue(handlers);
+      const utils = render(<LocationSearchBar onSelectLocation={mockOnSelectLocation} />);
+      fireEvent(utils.getByTestId('location-search-input'), 'focus');
+      return { ...utils, handlers };
+    };
+
+    it('should offer recent and pinned places while the query is empty', () => {
+      const { getByTestId, getByText } = renderWithHistory();
+
+      expect(getByTestId('search-history-list')).toBeTruthy();
+      expect(getByText('recentLocations')).toBeTruthy();
+      expect(getByText('pinnedHotel: Munich')).toBeTruthy();
+      expect(getByText('Berlin')).toBeTruthy();
+    });
+
+    it('should not offer the history before the input is focused', () => {
+      mockedUseLocationSearch.mockReturnValue({ ...defaultMockReturn, history });
+
+      const { queryByTestId } = render(<LocationSearchBar onSelectLocation={mockOnSelectLocation} />);
+
+      expect(queryByTestId('search-history-list')).toBeNull();
+    });
+
+    it('should hide the history while typing', () => {
+      const { queryByTestId } = renderWithHistory({ query: 'Ber', results: [mockSearchResults[0]] });
+
+      expect(queryByTestId('search-history-list')).toBeNull();
+      expect(queryByTestId('search-results-list')).toBeTruthy();
+    });
+
+    it('should select a place from the history', () => {
+      const { getByTestId, handlers } = renderWithHistory();
+
+      fireEvent.press(getByTestId('search-history-1'));
+
+      expect(handlers.selectResult).toHaveBeenCalledWith(mockSearchResults[0]);
+      expect(mockOnSelectLocation).toHaveBeenCalledWith(mockSearchResults[0]);
+    });
+
+    it('should remove a place from the history', () => {
+      const { getByTestId, handlers } = renderWithHistory();
+
+      fireEvent.press(getByTestId('search-history-remove-1'));
+
+      expect(handlers.removeHistoryEntry).toHaveBeenCalledWith('1');
+      expect(mockOnSelectLocation).not.toHaveBeenCalled();
+    });
+
+    it('should pin a place as home', () => {
+      const alertSpy = jest.spyOn(Alert, 'alert');
+      const { getByTestId, handlers } = renderWithHistory();
+
+      fireEvent.press(getByTestId('search-history-pin-1'));
+      const buttons = alertSpy.mock.calls[0][2]!;
+      buttons.find(button => button.text === 'pinAsHome')?.onPress?.();
+
+      expect(handlers.pinHistoryEntry).toHaveBeenCalledWith('1', 'home');
+      expect(buttons.some(button => button.text === 'unpinLocation')).toBe(false);
+      alertSpy.mockRestore();
+    });
+
+    it('should unpin a pinned place', () => {
+      const alertSpy = jest.spyOn(Alert, 'alert');
+      const { getByTestId, handlers } = renderWithHistory();
+
+      fireEvent.press(getByTestId('search-history-pin-2'));
+      alertSpy.mock.calls[0][2]!.find(button => button.text === 'unpinLocation')?.onPress?.();
+
+      expect(handlers.pinHistoryEntry).toHaveBeenCalledWith('2', null);
+      alertSpy.mockRestore();
+    });
+  });
+
+  describe('Attractions', () => {
+    const fernsehturm = createMockAttraction({ id: 'osm:way:24906893', name: 'Berliner Fernsehturm', type: 'tower' });
+    const reichstag = createMockAttraction({ id: '2', name: 'Reichstag', type: 'museum', description: '' });
+    const attractionResults: SearchResult[] = [
+      {
+        id: '345678',
+        displayName: 'Berliner Fernsehturm, Berlin, Deutschland',
+        primaryName: 'Berliner Fernsehturm',
+        secondaryInfo: 'Berlin, Deutschland',
+        coordinates: { latitude: 52.5208, longitude: 13.4094 },
+        type: 'tower',
+        importance: 0.6,
+        kind: 'attraction',
+        attraction: fernsehturm,
+      },
+      {
+        id: '2',
+        displayName: 'Reichstag',
+        primaryName: 'Reichstag',
+        secondaryInfo: '',
+        coordinates: { latitude: 52.5186, longitude: 13.3762 },
+        type: 'museum',
+        importance: 0,
+        kind: 'nearby',
+        attraction: reichstag,
+      },
+    ];
+
+    it('should pass loaded attractions to the search', () => {
+      mockedUseLocationSearch.mockReturnValue(defaultMockReturn);
+
+      render(<LocationSearchBar onSelectLocation={mockOnSelectLocation} attractions={[reichstag]} />);
+
+      expect(mockedUseLocationSearch).toHaveBeenCalledWith(undefined, [reichstag]);
+    });
+
+    it('should show typed icons for places and attractions', () => {
+      mockedUseLocationSearch.mockReturnValue({
+        ...defaultMockReturn,
+        query: 'Berlin',
+        results: [mockSearchResults[0], ...attractionResults],
+      });
+
+      const { getByTestId } = render(<LocationSearchBar onSelectLocation={mockOnSelectLocation} />);
+
+      expect(getByTestId('search-result-icon-1')).toHaveTextContent('📍');
+      expect(getByTestId('search-result-icon-345678')).toHaveTextContent('🗼');
+    });
+
+    it('should label loaded attractions as nearby', () => {
+      mockedUseLocationSearch.mockReturnValue({
+        ...defaultMockReturn,
+        query: 'Reichs',
+        results: [attractionResults[1]],
+      });
+
+      const { getByText } = render(<LocationSearchBar onSelectLocation={mockOnSelectLocation} />);
+
+      expect(getByText('searchResultNearby')).toBeTruthy();
+    });
+
+    it('should open attractions instead of selecting a location', () => {
+      const onSelectAttraction = jest.fn();
+      const selectResultMock = jest.fn();
+      mockedUseLocationSearch.mockReturnValue({
+        ...defaultMockReturn,
+        query: 'Fernsehturm',
+        results: attractionResults,
+        selectResult: selectResultMock,
+      });
+
+      const { getByTestId } = render(
+        <LocationSearchBar onSelectLocation={mockOnSelectLocation} onSelectAttraction={onSelectAttraction} />
+      );
+      fireEvent.press(getByTestId('search-result-345678'));
+
+      expect(onSelectAttraction).toHaveBeenCalledWith(fernsehturm);
+      expect(selectResultMock).toHaveBeenCalledWith(attractionResults[0]);
+      expect(mockOnSelectLocation).not.toHaveBeenCalled();
+    });
+
+    it('should select attractions as locations without an attraction handler', () => {
+      mockedUseLocationSearch.mockReturnValue({
+        ...defaultMockReturn,
+        query: 'Fernsehturm',
+        results: attractionResults,
+      });
+
+      const { getByTestId } = render(<LocationSearchBar onSelectLocation={mockOnSelectLocation} />);
+      fireEvent.press(getByTestId('search-result-345678'));
+
+      expect(mockOnSelectLocation).toHaveBeenCalledWith(attractionResults[0]);
+    });
+  });
 });
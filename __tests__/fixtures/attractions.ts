@@ -1,12 +1,6 @@
-export interface Attraction {
-  id: string | number;
-  name: string;
-  latitude: number;
-  longitude: number;
-  type: string;
-  distance: number;
-  rating: number;
-  description?: string;
+import { Attraction as AppAttraction } from '../../src/types';
+
+export interface Attraction extends AppAttraction {
   wikiUrl?: string;
 }
 
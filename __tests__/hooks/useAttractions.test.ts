@@ -5,7 +5,7 @@
 
 import { renderHook, act, waitFor } from '@testing-library/react-native';
 import { useAttractions } from '../../src/hooks/useAttractions';
-import { attractionsService, openaiService, interestsService } from '../../src/services';
+import { attractionsService, openaiService, interestsService, ratingService } from '../../src/services';
 import { berlinCoordinates } from '../fixtures/locations';
 import { mockAttractions, createMockAttraction } from '../fixtures/attractions';
 
@@ -14,14 +14,20 @@ jest.mock('../../src/services');
 const mockedAttractionsService = attractionsService as jest.Mocked<typeof attractionsService>;
 const mockedOpenAIService = openaiService as jest.Mocked<typeof openaiService>;
 const mockedInterestsService = interestsService as jest.Mocked<typeof interestsService>;
+const mockedRatingService = ratingService as jest.Mocked<typeof ratingService>;
 
 describe('useAttractions', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockedInterestsService.getInterests.mockResolvedValue([]);
     mockedAttractionsService.getCachedAttractions.mockResolvedValue(null);
-    mockedAttractionsService.getNearbyAttractions.mockResolvedValue(mockAttractions);
+    mockedAttractionsService.searchAttractions.mockResolvedValue({
+      attractions: mockAttractions,
+      remaining: [],
+      radius: 5000,
+    });
     mockedAttractionsService.cacheAttractions.mockResolvedValue(true);
+    mockedRatingService.applyWikipediaMetadata.mockImplementation(async list => list);
   });
 
   describe('Initial state', () => {
@@ -37,7 +43,11 @@ describe('useAttractions', () => {
   describe('loadAttractions', () => {
     it('should load attractions from cache when available', async () => {
       const cachedAttractions = mockAttractions.slice(0, 2);
-      mockedAttractionsService.getCachedAttractions.mockResolvedValueOnce(cachedAttractions);
+      mockedAttractionsService.getCachedAttractions.mockResolvedValueOnce({
+        attractions: cachedAttractions,
+        remaining: [],
+        radius: 2500,
+      });
 
       const { result } = renderHook(() => useAttractions());
 
@@ -46,8 +56,9 @@ describe('useAttractions', () => {
       });
 
       expect(result.current.attractions).toEqual(cachedAttractions);
+      expect(result.current.radius).toBe(2500);
       expect(result.current.loading).toBe(false);
-      expect(mockedAttractionsService.getNearbyAttractions).not.toHaveBeenCalled();
+      expect(mockedAttractionsService.searchAttractions).not.toHaveBeenCalled();
     });
 
     it('should fetch from API when cache is empty', async () => {
@@ -61,8 +72,62 @@ describe('useAttractions', () => {
         expect(result.current.loading).toBe(false);
       });
 
-      expect(mockedAttractionsService.getNearbyAttractions).toHaveBeenCalledWith(berlinCoordinates);
+      expect(mockedAttractionsService.searchAttractions).toHaveBeenCalledWith(
+        berlinCoordinates,
+        [],
+        'auto'
+      );
       expect(result.current.attractions).toEqual(mockAttractions);
+      expect(result.current.radius).toBe(5000);
+    });
+
+    it('should pass the radius setting to the search and cache', async () => {
+      mockedAttractionsService.searchAttractions.mockResolvedValueOnce({
+        attractions: mockAttractions,
+        remaining: [],
+        radius: 10000,
+      });
+
+      const { result } = renderHook(() => useAttractions());
+
+      await act(async () => {
+        await result.current.loadAttractions(berlinCoordinates, 10000);
+      });
+
+      expect(mockedAttractionsService.getCachedAttractions).toHaveBeenCalledWith(
+        berlinCoordinates,
+        [],
+        10000
+      );
+      expect(mockedAttractionsService.searchAttractions).toHaveBeenCalledWith(
+        berlinCoordinates,
+        [],
+        10000
+      );
+      expect(mockedAttractionsService.cacheAttractions).toHaveBeenCalledWith(
+        berlinCoordinates,
+        { attractions: mockAttractions, remaining: [], radius: 10000 },
+        [],
+        10000
+      );
+    });
+
+    it('should pass user interests to the attractions query', async () => {
+      mockedInterestsService.getInterests.mockResolvedValueOnce(['food', 'beaches']);
+      mockedOpenAIService.classifyAttractions.mockResolvedValueOnce(mockAttractions);
+      mockedAttractionsService.sortByInterestScore.mockReturnValueOnce(mockAttractions);
+
+      const { result } = renderHook(() => useAttractions());
+
+      await act(async () => {
+        await result.current.loadAttractions(berlinCoordinates);
+      });
+
+      expect(mockedAttractionsService.searchAttractions).toHaveBeenCalledWith(
+        berlinCoordinates,
+        ['food', 'beaches'],
+        'auto'
+      );
     });
 
     it('should set loading state during fetch', async () => {
@@ -89,8 +154,9 @@ describe('useAttractions', () => {
       await waitFor(() => {
         expect(mockedAttractionsService.cacheAttractions).toHaveBeenCalledWith(
           berlinCoordinates,
-          mockAttractions,
-          []
+          { attractions: mockAttractions, remaining: [], radius: 5000 },
+          [],
+          'auto'
         );
       });
     });
@@ -125,6 +191,95 @@ describe('useAttractions', () => {
       });
     });
 
+    it('should show results before their ratings are refined', async () => {
+      let refine: (attractions: typeof mockAttractions) => void = () => {};
+      mockedRatingService.applyWikipediaMetadata.mockReturnValueOnce(
+        new Promise(resolve => {
+          refine = resolve;
+        })
+      );
+      const refined = mockAttractions.map(a => ({ ...a, rating: 4.8 }));
+
+      const { result } = renderHook(() => useAttractions());
+
+      await act(async () => {
+        await result.current.loadAttractions(berlinCoordinates);
+      });
+
+      expect(result.current.attractions).toEqual(mockAttractions);
+      expect(result.current.loading).toBe(false);
+
+      await act(async () => {
+        refine(refined);
+      });
+
+      expect(result.current.attractions).toEqual(refined);
+      expect(mockedAttractionsService.cacheAttractions).toHaveBeenCalledWith(
+        berlinCoordinates,
+        { attractions: refined, remaining: [], radius: 5000 },
+        [],
+        'auto'
+      );
+    });
+
+    it('should keep refined ratings of classified attractions', async () => {
+      mockedInterestsService.getInterests.mockResolvedValueOnce(['history']);
+      mockedRatingService.applyWikipediaMetadata.mockImplementationOnce(async list =>
+        list.map(a => ({ ...a, rating: 4.8 }))
+      );
+      mockedOpenAIService.classifyAttractions.mockImplementationOnce(async list =>
+        list.map(a => ({ ...a, interestScore: 7 }))
+      );
+      mockedAttractionsService.sortByInterestScore.mockImplementationOnce(list => list);
+
+      const { result } = renderHook(() => useAttractions());
+
+      await act(async () => {
+        await result.current.loadAttractions(berlinCoordinates);
+      });
+
+      await waitFor(() => {
+        expect(result.current.attractions[0]).toMatchObject({ rating: 4.8, interestScore: 7 });
+      });
+    });
+
+    it('should not replace newer results with classified older ones', async () => {
+      const newerAttractions = [createMockAttraction({ id: 'newer', name: 'Newer' })];
+      let classify: (attractions: typeof mockAttractions) => void = () => {};
+      mockedInterestsService.getInterests.mockResolvedValue(['history']);
+      mockedOpenAIService.classifyAttractions
+        .mockReturnValueOnce(
+          new Promise(resolve => {
+            classify = resolve;
+          })
+        )
+        .mockImplementationOnce(async list => list);
+      mockedAttractionsService.sortByInterestScore.mockImplementation(list => list);
+      mockedAttractionsService.searchAttractions
+        .mockResolvedValueOnce({ attractions: mockAttractions, remaining: [], radius: 5000 })
+        .mockResolvedValueOnce({ attractions: newerAttractions, remaining: [], radius: 5000 });
+
+      const { result } = renderHook(() => useAttractions());
+
+      await act(async () => {
+        await result.current.loadAttractions(berlinCoordinates);
+      });
+      await act(async () => {
+        await result.current.loadAttractions({ latitude: 48.137, longitude: 11.575 });
+      });
+      await act(async () => {
+        classify(mockAttractions.map(a => ({ ...a, interestScore: 9 })));
+      });
+
+      expect(result.current.attractions).toEqual(newerAttractions);
+      expect(mockedAttractionsService.cacheAttractions).toHaveBeenCalledWith(
+        berlinCoordinates,
+        expect.objectContaining({ attractions: expect.arrayContaining([expect.objectContaining({ interestScore: 9 })]) }),
+        ['history'],
+        'auto'
+      );
+    });
+
     it('should handle classification errors gracefully', async () => {
       const consoleLog = jest.spyOn(console, 'log').mockImplementation();
       mockedInterestsService.getInterests.mockResolvedValueOnce(['history']);
@@ -146,7 +301,7 @@ describe('useAttractions', () => {
 
     it('should handle fetch errors', async () => {
       const errorMessage = 'Network error';
-      mockedAttractionsService.getNearbyAttractions.mockRejectedValueOnce(new Error(errorMessage));
+      mockedAttractionsService.searchAttractions.mockRejectedValueOnce(new Error(errorMessage));
 
       const { result } = renderHook(() => useAttractions());
 
@@ -161,7 +316,7 @@ describe('useAttractions', () => {
     });
 
     it('should clear previous error on new load', async () => {
-      mockedAttractionsService.getNearbyAttractions.mockRejectedValueOnce(new Error('First error'));
+      mockedAttractionsService.searchAttractions.mockRejectedValueOnce(new Error('First error'));
 
       const { result } = renderHook(() => useAttractions());
 
@@ -171,7 +326,11 @@ describe('useAttractions', () => {
 
       expect(result.current.error).toBe('First error');
 
-      mockedAttractionsService.getNearbyAttractions.mockResolvedValueOnce(mockAttractions);
+      mockedAttractionsService.searchAttractions.mockResolvedValueOnce({
+        attractions: mockAttractions,
+        remaining: [],
+        radius: 5000,
+      });
 
       await act(async () => {
         await result.current.loadAttractions(berlinCoordinates);
@@ -183,6 +342,137 @@ describe('useAttractions', () => {
     });
   });
 
+  describe('loadMoreAttractions', () => {
+    const nextPage = [
+      createMockAttraction({ id: 'far-1', name: 'Far One', distance: 6000 }),
+      createMockAttraction({ id: 'far-2', name: 'Far Two', distance: 7000 }),
+    ];
+    const lastPlace = createMockAttraction({ id: 'far-3', name: 'Far Three', distance: 8000 });
+
+    beforeEach(() => {
+      mockedAttractionsService.searchAttractions.mockResolvedValue({
+        attractions: mockAttractions,
+        remaining: [...nextPage, lastPlace],
+        radius: 5000,
+      });
+      mockedAttractionsService.getNextPage.mockResolvedValue({
+        attractions: nextPage,
+        remaining: [lastPlace],
+      });
+    });
+
+    it('should append the next page of retained results', async () => {
+      const { result } = renderHook(() => useAttractions());
+
+      await act(async () => {
+        await result.current.loadAttractions(berlinCoordinates);
+      });
+
+      expect(result.current.hasMore).toBe(true);
+
+      await act(async () => {
+        await result.current.loadMoreAttractions();
+      });
+
+      expect(mockedAttractionsService.getNextPage).toHaveBeenCalledWith([...nextPage, lastPlace]);
+      expect(mockedAttractionsService.searchAttractions).toHaveBeenCalledTimes(1);
+      expect(result.current.attractions).toEqual([...mockAttractions, ...nextPage]);
+      expect(result.current.hasMore).toBe(true);
+      expect(result.current.loadingMore).toBe(false);
+      expect(mockedAttractionsService.cacheAttractions).toHaveBeenLastCalledWith(
+        berlinCoordinates,
+        { attractions: [...mockAttractions, ...nextPage], remaining: [lastPlace], radius: 5000 },
+        [],
+        'auto'
+      );
+    });
+
+    it('should keep loaded pages cached when the first page is refined later', async () => {
+      let refine: (attractions: typeof mockAttractions) => void = () => {};
+      mockedRatingService.applyWikipediaMetadata.mockReturnValueOnce(
+        new Promise(resolve => {
+          refine = resolve;
+        })
+      );
+      const refined = mockAttractions.map(a => ({ ...a, rating: 4.8 }));
+      const { result } = renderHook(() => useAttractions());
+
+      await act(async () => {
+        await result.current.loadAttractions(berlinCoordinates);
+      });
+      await act(async () => {
+        await result.current.loadMoreAttractions();
+      });
+      await act(async () => {
+        refine(refined);
+      });
+
+      expect(result.current.attractions).toEqual([...refined, ...nextPage]);
+      expect(mockedAttractionsService.cacheAttractions).toHaveBeenLastCalledWith(
+        berlinCoordinates,
+        { attractions: [...refined, ...nextPage], remaining: [lastPlace], radius: 5000 },
+        [],
+        'auto'
+      );
+    });
+
+    it('should continue paging from cached results', async () => {
+      mockedAttractionsService.getCachedAttractions.mockResolvedValueOnce({
+        attractions: mockAttractions,
+        remaining: [...nextPage, lastPlace],
+        radius: 5000,
+      });
+      const { result } = renderHook(() => useAttractions());
+
+      await act(async () => {
+        await result.current.loadAttractions(berlinCoordinates);
+      });
+      await act(async () => {
+        await result.current.loadMoreAttractions();
+      });
+
+      expect(mockedAttractionsService.searchAttractions).not.toHaveBeenCalled();
+      expect(result.current.attractions).toHaveLength(mockAttractions.length + nextPage.length);
+    });
+
+    it('should classify each new page when the user has interests', async () => {
+      mockedInterestsService.getInterests.mockResolvedValue(['history']);
+      mockedOpenAIService.classifyAttractions.mockImplementation(async list => list);
+      mockedAttractionsService.sortByInterestScore.mockImplementation(list => [...list].reverse());
+
+      const { result } = renderHook(() => useAttractions());
+
+      await act(async () => {
+        await result.current.loadAttractions(berlinCoordinates);
+      });
+      await act(async () => {
+        await result.current.loadMoreAttractions();
+      });
+
+      expect(mockedOpenAIService.classifyAttractions).toHaveBeenLastCalledWith(nextPage, ['history']);
+      expect(result.current.attractions.slice(-2).map(a => a.id)).toEqual(['far-2', 'far-1']);
+    });
+
+    it('should do nothing when all results are loaded', async () => {
+      mockedAttractionsService.searchAttractions.mockResolvedValueOnce({
+        attractions: mockAttractions,
+        remaining: [],
+        radius: 5000,
+      });
+      const { result } = renderHook(() => useAttractions());
+
+      await act(async () => {
+        await result.current.loadAttractions(berlinCoordinates);
+      });
+      await act(async () => {
+        await result.current.loadMoreAttractions();
+      });
+
+      expect(result.current.hasMore).toBe(false);
+      expect(mockedAttractionsService.getNextPage).not.toHaveBeenCalled();
+    });
+  });
+
   describe('classifyAttractions', () => {
     it('should classify current attractions', async () => {
       const { result } = renderHook(() => useAttractions());
@@ -6,18 +6,23 @@
 import { renderHook, act, waitFor } from '@testing-library/react-native';
 import { useFavorites } from '../../src/hooks/useFavorites';
 import { favoritesService } from '../../src/services';
+import { Favorite } from '../../src/types';
 import { createMockAttraction, mockAttractions } from '../fixtures/attractions';
 
 jest.mock('../../src/services');
 
 const mockedFavoritesService = favoritesService as jest.Mocked<typeof favoritesService>;
 
+const defaultCollection = { id: 'default', name: '', createdAt: new Date(0).toISOString() };
+const rostock = { id: 'collection:rostock', name: 'Rostock weekend', createdAt: '2026-01-01T00:00:00.000Z' };
+
 describe('useFavorites', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockedFavoritesService.getFavorites.mockResolvedValue([]);
     mockedFavoritesService.addFavorite.mockImplementation(async (attraction) => [attraction]);
     mockedFavoritesService.removeFavorite.mockResolvedValue([]);
+    mockedFavoritesService.getCollections.mockResolvedValue([defaultCollection]);
   });
 
   describe('Initial load', () => {
@@ -70,6 +75,30 @@ describe('useFavorites', () => {
       expect(consoleError).toHaveBeenCalled();
       consoleError.mockRestore();
     });
+
+    it('should show favorites before migrating legacy ids', async () => {
+      const unresolved = createMockAttraction({ id: 'legacy:osm:100' });
+      const migrated = createMockAttraction({ id: 'osm:node:100' });
+      let finishMigration: (migrated: boolean) => void = () => {};
+      mockedFavoritesService.migrateFavorites.mockReturnValueOnce(
+        new Promise(resolve => {
+          finishMigration = resolve;
+        })
+      );
+      mockedFavoritesService.getFavorites.mockResolvedValueOnce([unresolved]).mockResolvedValueOnce([migrated]);
+
+      const { result } = renderHook(() => useFavorites());
+
+      await waitFor(() => {
+        expect(result.current.favorites).toEqual([unresolved]);
+      });
+      await act(async () => {
+        finishMigration(true);
+      });
+      await waitFor(() => {
+        expect(result.current.favorites).toEqual([migrated]);
+      });
+    });
   });
 
   describe('addFavorite', () => {
@@ -143,8 +172,11 @@ describe('useFavorites', () => {
       expect(mockedFavoritesService.removeFavorite).toHaveBeenCalledWith('1');
     });
 
-    it('should handle numeric IDs', async () => {
-      const favorites = [createMockAttraction({ id: 100 })];
+    it('should tell OSM elements of different types apart', async () => {
+      const favorites = [
+        createMockAttraction({ id: 'osm:node:100' }),
+        createMockAttraction({ id: 'osm:way:100' }),
+      ];
       mockedFavoritesService.getFavorites.mockResolvedValueOnce(favorites);
 
       const { result } = renderHook(() => useFavorites());
@@ -153,14 +185,15 @@ describe('useFavorites', () => {
         expect(result.current.loading).toBe(false);
       });
 
-      mockedFavoritesService.removeFavorite.mockResolvedValueOnce([]);
+      mockedFavoritesService.removeFavorite.mockResolvedValueOnce([favorites[1]]);
 
       await act(async () => {
-        await result.current.removeFavorite(100);
+        await result.current.removeFavorite('osm:node:100');
       });
 
-      expect(result.current.favorites).toEqual([]);
-      expect(result.current.favoriteIds.has(100)).toBe(false);
+      expect(result.current.favorites).toEqual([favorites[1]]);
+      expect(result.current.favoriteIds.has('osm:node:100')).toBe(false);
+      expect(result.current.favoriteIds.has('osm:way:100')).toBe(true);
     });
   });
 
@@ -264,4 +297,309 @@ describe('useFavorites', () => {
       });
     });
   });
+
+  describe('Collections', () => {
+    const renderLoaded = async () => {
+      const hook = renderHook(() => useFavorites());
+      await waitFor(() => {
+        expect(hook.result.current.loading).toBe(false);
+      });
+      return hook;
+    };
+
+    it('should load collections on mount', async () => {
+      mockedFavoritesService.getCollections.mockResolvedValueOnce([defaultCollection, rostock]);
+
+      const { result } = await renderLoaded();
+
+      expect(result.current.collections).toEqual([defaultCollection, rostock]);
+    });
+
+    it('should add a favorite to a collection', async () => {
+      const attraction = createMockAttraction({ id: '1' });
+      const { result } = await renderLoaded();
+
+      await act(async () => {
+        await result.current.addFavorite(attraction, rostock.id);
+      });
+
+      expect(mockedFavoritesService.addFavorite).toHaveBeenCalledWith(attraction, rostock.id);
+    });
+
+    it('should create a collection', async () => {
+      mockedFavoritesService.createCollection.mockResolvedValueOnce(rostock);
+      const { result } = await renderLoaded();
+
+      let created;
+      await act(async () => {
+        created = await result.current.createCollection('Rostock weekend');
+      });
+
+      expect(created).toEqual(rostock);
+      expect(result.current.collections).toEqual([defaultCollection, rostock]);
+    });
+
+    it('should not add a collection that was not created', async () => {
+      mockedFavoritesService.createCollection.mockResolvedValueOnce(null);
+      const { result } = await renderLoaded();
+
+      await act(async () => {
+        await result.current.createCollection(' ');
+      });
+
+      expect(result.current.collections).toEqual([defaultCollection]);
+    });
+
+    it('should rename a collection', async () => {
+      const renamed = { ...rostock, name: 'Rostock long weekend' };
+      mockedFavoritesService.renameCollection.mockResolvedValueOnce([defaultCollection, renamed]);
+      const { result } = await renderLoaded();
+
+      await act(async () => {
+        await result.current.renameCollection(rostock.id, renamed.name);
+      });
+
+      expect(mockedFavoritesService.renameCollection).toHaveBeenCalledWith(rostock.id, renamed.name);
+      expect(result.current.collections[1].name).toBe('Rostock long weekend');
+    });
+
+    it('should reload favorites after deleting a collection', async () => {
+      const kept = { ...createMockAttraction({ id: '1' }), collectionId: 'default' };
+      mockedFavoritesService.getFavorites.mockResolvedValueOnce([
+        kept,
+        { ...createMockAttraction({ id: '2' }), collectionId: rostock.id },
+      ]);
+      mockedFavoritesService.getCollections.mockResolvedValueOnce([defaultCollection, rostock]);
+      mockedFavoritesService.deleteCollection.mockResolvedValueOnce([defaultCollection]);
+      const { result } = await renderLoaded();
+
+      mockedFavoritesService.getFavorites.mockResolvedValueOnce([kept]);
+      await act(async () => {
+        await result.current.deleteCollection(rostock.id);
+      });
+
+      expect(result.current.collections).toEqual([defaultCollection]);
+      expect(result.current.favorites).toEqual([kept]);
+      expect(result.current.isFavorite('2')).toBe(false);
+    });
+
+    it('should move a favorite', async () => {
+      const moved = { ...createMockAttraction({ id: '1' }), collectionId: rostock.id };
+      mockedFavoritesService.moveFavorite.mockResolvedValueOnce([moved]);
+      const { result } = await renderLoaded();
+
+      await act(async () => {
+        await result.current.moveFavorite('1', rostock.id);
+      });
+
+      expect(result.current.favorites).toEqual([moved]);
+    });
+
+    it('should update a favorite', async () => {
+      const updated = { ...createMockAttraction({ id: '1' }), note: 'Sunset', visitStatus: 'visited' as const };
+      mockedFavoritesService.updateFavorite.mockResolvedValueOnce([updated]);
+      const { result } = await renderLoaded();
+
+      await act(async () => {
+        await result.current.updateFavorite('1', { note: 'Sunset', visitStatus: 'visited' });
+      });
+
+      expect(mockedFavoritesService.updateFavorite).toHaveBeenCalledWith('1', { note: 'Sunset', visitStatus: 'visited' });
+      expect(result.current.favorites).toEqual([updated]);
+    });
+  });
+
+  describe('File export and import', () => {
+    it('should export through the service', async () => {
+      mockedFavoritesService.exportFavorites.mockResolvedValueOnce('<gpx/>');
+      const { result } = renderHook(() => useFavorites());
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+
+      const content = await result.current.exportFavorites('gpx', 'Favorites', rostock.id);
+
+      expect(content).toBe('<gpx/>');
+      expect(mockedFavoritesService.exportFavorites).toHaveBeenCalledWith('gpx', 'Favorites', rostock.id);
+    });
+
+    it('should show imported favorites', async () => {
+      const imported = [createMockAttraction({ id: 'import:52.50000,13.40000' })];
+      mockedFavoritesService.importFavorites.mockResolvedValueOnce({
+        favorites: imported,
+        added: 1,
+        duplicates: 0,
+        invalid: 0,
+      });
+      const { result } = renderHook(() => useFavorites());
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+
+      await act(async () => {
+        await result.current.importFavorites('{}');
+      });
+
+      expect(result.current.favorites).toEqual(imported);
+      expect(result.current.isFavorite('import:52.50000,13.40000')).toBe(true);
+    });
+
+    it('should keep favorites when the file is not supported', async () => {
+      const initial = [createMockAttraction({ id: '1' })];
+      mockedFavoritesService.getFavorites.mockResolvedValueOnce(initial);
+      mockedFavoritesService.importFavorites.mockResolvedValueOnce(null);
+      const { result } = renderHook(() => useFavorites());
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+
+      let importResult;
+      await act(async () => {
+        importResult = await result.current.importFavorites('nope');
+      });
+
+      expect(importResult).toBeNull();
+      expect(result.current.favorites).toEqual(initial);
+    });
+  });
+
+  describe('Shared store', () => {
+    const deferred = <T,>() => {
+      let resolve!: (value: T) => void;
+      const promise = new Promise<T>(done => {
+        resolve = done;
+      });
+      return { promise, resolve };
+    };
+
+    const renderLoaded = async () => {
+      const hook = renderHook(() => useFavorites());
+      await waitFor(() => {
+        expect(hook.result.current.loading).toBe(false);
+      });
+      return hook;
+    };
+
+    it('should show a change in every hook', async () => {
+      const { result: list } = await renderLoaded();
+      const { result: details } = renderHook(() => useFavorites());
+      const attraction = createMockAttraction({ id: '1' });
+
+      await act(async () => {
+        await details.current.toggleFavorite(attraction);
+      });
+
+      expect(list.current.isFavorite('1')).toBe(true);
+      expect(details.current.isFavorite('1')).toBe(true);
+      expect(mockedFavoritesService.getFavorites).toHaveBeenCalledTimes(1);
+    });
+
+    it('should show a change before it is saved', async () => {
+      const { result } = await renderLoaded();
+      const attraction = createMockAttraction({ id: '1' });
+      const save = deferred<Favorite[]>();
+      mockedFavoritesService.addFavorite.mockReturnValueOnce(save.promise);
+
+      let adding: Promise<void>;
+      act(() => {
+        adding = result.current.addFavorite(attraction);
+      });
+
+      expect(result.current.isFavorite('1')).toBe(true);
+      expect(result.current.favorites[0]).toMatchObject({ id: '1', collectionId: 'default' });
+
+      await act(async () => {
+        save.resolve([attraction]);
+        await adding;
+      });
+
+      expect(result.current.favorites).toEqual([attraction]);
+    });
+
+    it('should roll a change back when saving fails', async () => {
+      const { result } = await renderLoaded();
+      // The service returns the unchanged favorites when storage fails
+      mockedFavoritesService.addFavorite.mockResolvedValueOnce([]);
+
+      await act(async () => {
+        await result.current.addFavorite(createMockAttraction({ id: '1' }));
+      });
+
+      expect(result.current.favorites).toEqual([]);
+      expect(result.current.isFavorite('1')).toBe(false);
+    });
+
+    it('should roll a change back and log when saving throws', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      const initial = [createMockAttraction({ id: '1' })];
+      mockedFavoritesService.getFavorites.mockResolvedValueOnce(initial);
+      mockedFavoritesService.removeFavorite.mockRejectedValueOnce(new Error('Save error'));
+      const { result } = await renderLoaded();
+
+      await act(async () => {
+        await result.current.removeFavorite('1');
+      });
+
+      expect(result.current.favorites).toEqual(initial);
+      expect(consoleError).toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+
+    it('should save changes one after another', async () => {
+      const { result } = await renderLoaded();
+      const first = createMockAttraction({ id: '1' });
+      const second = createMockAttraction({ id: '2' });
+      const save = deferred<Favorite[]>();
+      mockedFavoritesService.addFavorite
+        .mockReturnValueOnce(save.promise)
+        .mockResolvedValueOnce([first, second]);
+
+      let adding: Promise<void>[] = [];
+      act(() => {
+        adding = [result.current.addFavorite(first), result.current.addFavorite(second)];
+      });
+
+      expect(result.current.favoriteIds.size).toBe(2);
+      await waitFor(() => {
+        expect(mockedFavoritesService.addFavorite).toHaveBeenCalledTimes(1);
+      });
+
+      await act(async () => {
+        save.resolve([first]);
+        await Promise.all(adding);
+      });
+
+      expect(mockedFavoritesService.addFavorite).toHaveBeenCalledTimes(2);
+      expect(result.current.favorites).toEqual([first, second]);
+    });
+
+    it('should keep earlier unsaved changes when a later one is saved', async () => {
+      const { result } = await renderLoaded();
+      const attraction = createMockAttraction({ id: '1' });
+      const save = deferred<Favorite[]>();
+      mockedFavoritesService.addFavorite.mockReturnValueOnce(save.promise);
+      mockedFavoritesService.getCollections.mockResolvedValueOnce([defaultCollection, rostock]);
+
+      let adding: Promise<void>;
+      act(() => {
+        adding = result.current.addFavorite(attraction);
+      });
+      // Reloading waits for the save, so the favorite stays visible
+      let refreshing: Promise<void>;
+      act(() => {
+        refreshing = result.current.refreshFavorites();
+      });
+
+      expect(result.current.isFavorite('1')).toBe(true);
+
+      mockedFavoritesService.getFavorites.mockResolvedValueOnce([attraction]);
+      await act(async () => {
+        save.resolve([attraction]);
+        await Promise.all([adding, refreshing]);
+      });
+
+      expect(result.current.favorites).toEqual([attraction]);
+      expect(result.current.collections).toEqual([defaultCollection, rostock]);
+    });
+  });
 });
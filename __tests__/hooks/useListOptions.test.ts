@@ -0,0 +1,90 @@
+/**
+ * Tests for useListOptions hook
+ * Coverage target: 85%
+ */
+
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { useListOptions } from '../../src/hooks/useListOptions';
+import { storageService } from '../../src/services';
+import { STORAGE_KEYS } from '../../src/constants';
+import { DEFAULT_LIST_OPTIONS } from '../../src/utils/attractionList';
+
+jest.mock('../../src/services');
+
+const mockedStorageService = storageService as jest.Mocked<typeof storageService>;
+
+describe('useListOptions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedStorageService.get.mockResolvedValue(null);
+    mockedStorageService.set.mockResolvedValue(true);
+  });
+
+  it('should start with the default options', async () => {
+    const { result } = renderHook(() => useListOptions());
+
+    await waitFor(() => {
+      expect(mockedStorageService.get).toHaveBeenCalledWith(STORAGE_KEYS.LIST_OPTIONS);
+    });
+    expect(result.current.listOptions).toEqual(DEFAULT_LIST_OPTIONS);
+  });
+
+  it('should restore stored options', async () => {
+    mockedStorageService.get.mockResolvedValueOnce({ sortBy: 'rating', favoritesOnly: true });
+
+    const { result } = renderHook(() => useListOptions());
+
+    await waitFor(() => {
+      expect(result.current.listOptions.sortBy).toBe('rating');
+    });
+    expect(result.current.listOptions).toEqual({ ...DEFAULT_LIST_OPTIONS, sortBy: 'rating', favoritesOnly: true });
+  });
+
+  it('should persist updates', async () => {
+    const { result } = renderHook(() => useListOptions());
+    await waitFor(() => expect(mockedStorageService.get).toHaveBeenCalled());
+
+    act(() => {
+      result.current.updateListOptions({ sortBy: 'name' });
+    });
+
+    expect(result.current.listOptions.sortBy).toBe('name');
+    expect(mockedStorageService.set).toHaveBeenCalledWith(
+      STORAGE_KEYS.LIST_OPTIONS,
+      { ...DEFAULT_LIST_OPTIONS, sortBy: 'name' }
+    );
+  });
+
+  it('should toggle types and clear filters', async () => {
+    const { result } = renderHook(() => useListOptions());
+    await waitFor(() => expect(mockedStorageService.get).toHaveBeenCalled());
+
+    act(() => {
+      result.current.toggleType('museum');
+      result.current.toggleType('castle');
+      result.current.toggleType('museum');
+      result.current.updateListOptions({ sortBy: 'rating', minMatchScore: 7 });
+    });
+    expect(result.current.listOptions.types).toEqual(['castle']);
+
+    act(() => {
+      result.current.clearFilters();
+    });
+    expect(result.current.listOptions).toEqual({ ...DEFAULT_LIST_OPTIONS, sortBy: 'rating' });
+  });
+
+  it('should not overwrite choices made while loading', async () => {
+    let resolveStored: (value: any) => void = () => {};
+    mockedStorageService.get.mockReturnValueOnce(new Promise(resolve => { resolveStored = resolve; }));
+
+    const { result } = renderHook(() => useListOptions());
+    act(() => {
+      result.current.updateListOptions({ sortBy: 'name' });
+    });
+    await act(async () => {
+      resolveStored({ sortBy: 'rating' });
+    });
+
+    expect(result.current.listOptions.sortBy).toBe('name');
+  });
+});
@@ -5,8 +5,10 @@
 
 import { renderHook, act, waitFor } from '@testing-library/react-native';
 import * as Location from 'expo-location';
+import { AppState, AppStateStatus } from 'react-native';
 import { useLocation } from '../../src/hooks/useLocation';
-import { locationService } from '../../src/services';
+import locationStore from '../../src/hooks/locationStore';
+import { locationService, trackingService } from '../../src/services';
 import { berlinCoordinates, tokyoCoordinates, createMockPosition } from '../fixtures/locations';
 
 jest.mock('../../src/services');
@@ -18,11 +20,26 @@ jest.mock('expo-location', () => ({
   requestForegroundPermissionsAsync: jest.fn().mockResolvedValue({ status: 'granted' }),
 }));
 
+// Language of the app, changed by tests switching it
+let mockLanguage = 'de';
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key, i18n: { language: mockLanguage } }),
+}));
+
 const mockedLocationService = locationService as jest.Mocked<typeof locationService>;
+const mockedTrackingService = trackingService as jest.Mocked<typeof trackingService>;
 
 describe('useLocation', () => {
+  const walkingOptions = { accuracy: Location.Accuracy.High, distanceInterval: 10, timeInterval: 10000 };
+  const stationaryOptions = { accuracy: Location.Accuracy.Low, distanceInterval: 25, timeInterval: 60000 };
+
   beforeEach(() => {
     jest.clearAllMocks();
+    mockLanguage = 'de';
+    mockedTrackingService.selectProfile.mockImplementation(async speed => (speed === 0 ? 'stationary' : 'walking'));
+    mockedTrackingService.getWatchOptions.mockImplementation(profile =>
+      profile === 'stationary' ? stationaryOptions : walkingOptions
+    );
     mockedLocationService.getCurrentLocation.mockResolvedValue(createMockPosition(berlinCoordinates));
     mockedLocationService.reverseGeocode.mockResolvedValue({
       city: 'Berlin',
@@ -110,7 +127,9 @@ describe('useLocation', () => {
       });
 
       unmount();
-      expect(mockSubscription.remove).toHaveBeenCalled();
+      await waitFor(() => {
+        expect(mockSubscription.remove).toHaveBeenCalled();
+      });
     });
 
     it('should not start tracking when enableTracking is false', async () => {
@@ -187,6 +206,48 @@ describe('useLocation', () => {
       expect(mockedLocationService.reverseGeocode).toHaveBeenCalledTimes(reverseGeocodeCalls);
     });
 
+    it('should report small moves without looking up the city again', async () => {
+      const { hasSignificantMovement } = require('../../src/utils/distance');
+      hasSignificantMovement.mockReturnValue(false);
+      const nearby = { latitude: 52.5205, longitude: 13.405 };
+
+      let watchCallback: ((location: Location.LocationObject) => void) | null = null;
+      const mockSubscription = { remove: jest.fn() };
+      mockedLocationService.watchPosition.mockImplementation(async (callback) => {
+        watchCallback = callback;
+        return mockSubscription;
+      });
+
+      const { result } = renderHook(() => useLocation(true));
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+
+      const reverseGeocodeCalls = mockedLocationService.reverseGeocode.mock.calls.length;
+
+      // Simulate minor location update
+      act(() => {
+        watchCallback!(createMockPosition(nearby));
+      });
+
+      expect(result.current.location).toEqual(nearby);
+      expect(result.current.areaLocation).toEqual(berlinCoordinates);
+      // Should not trigger additional reverse geocode
+      expect(mockedLocationService.reverseGeocode).toHaveBeenCalledTimes(reverseGeocodeCalls);
+    });
+
+    it('should only follow larger moves by default', async () => {
+      const { result } = renderHook(() => useLocation(true));
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+
+      expect(mockedLocationService.watchPosition).toHaveBeenCalledTimes(1);
+      expect(mockedLocationService.watchPosition).toHaveBeenCalledWith(expect.any(Function));
+    });
+
     it('should cleanup subscription on unmount', async () => {
       const mockSubscription = { remove: jest.fn() };
       mockedLocationService.watchPosition.mockResolvedValueOnce(mockSubscription);
@@ -199,7 +260,9 @@ describe('useLocation', () => {
 
       unmount();
 
-      expect(mockSubscription.remove).toHaveBeenCalled();
+      await waitFor(() => {
+        expect(mockSubscription.remove).toHaveBeenCalled();
+      });
     });
 
     it('should handle null subscription gracefully', async () => {
@@ -216,6 +279,145 @@ describe('useLocation', () => {
     });
   });
 
+  describe('Watched places', () => {
+    let stopWatchingPlaces: () => void;
+    let watchCallback: ((location: Location.LocationObject) => void) | null;
+    const mockSubscription = { remove: jest.fn() };
+
+    beforeEach(() => {
+      watchCallback = null;
+      mockedLocationService.watchPosition.mockImplementation(async (callback) => {
+        watchCallback = callback;
+        return mockSubscription;
+      });
+      const { calculateDistance } = require('../../src/utils/distance');
+      calculateDistance.mockImplementation(jest.requireActual('../../src/utils/distance').calculateDistance);
+      stopWatchingPlaces = locationStore.watchPlaces([{ latitude: 52.521, longitude: 13.406 }]);
+    });
+
+    afterEach(() => {
+      stopWatchingPlaces();
+    });
+
+    const watchClosely = async () => {
+      renderHook(() => useLocation(true));
+      await waitFor(() => {
+        expect(mockedLocationService.watchPosition).toHaveBeenLastCalledWith(expect.any(Function), walkingOptions);
+      });
+    };
+
+    const moveTo = (coords: typeof berlinCoordinates, speed: number | null = null) => {
+      const position = createMockPosition(coords);
+      watchCallback!({ ...position, coords: { ...position.coords, speed } });
+    };
+
+    it('should watch precisely near a watched place', async () => {
+      await watchClosely();
+    });
+
+    it('should follow only larger moves again away from watched places', async () => {
+      await watchClosely();
+
+      act(() => {
+        moveTo(tokyoCoordinates);
+      });
+
+      await waitFor(() => {
+        expect(mockedLocationService.watchPosition).toHaveBeenLastCalledWith(expect.any(Function));
+      });
+    });
+
+    it('should follow only larger moves once the places are no longer watched', async () => {
+      await watchClosely();
+
+      stopWatchingPlaces();
+
+      await waitFor(() => {
+        expect(mockedLocationService.watchPosition).toHaveBeenLastCalledWith(expect.any(Function));
+      });
+    });
+
+    it('should watch less often while standing still', async () => {
+      await watchClosely();
+
+      act(() => {
+        moveTo(berlinCoordinates, 0);
+      });
+
+      await waitFor(() => {
+        expect(mockedLocationService.watchPosition).toHaveBeenLastCalledWith(expect.any(Function), stationaryOptions);
+      });
+    });
+
+    it('should keep the watch while the speed stays similar', async () => {
+      await watchClosely();
+      const watchCalls = mockedLocationService.watchPosition.mock.calls.length;
+      const removeCalls = mockSubscription.remove.mock.calls.length;
+
+      await act(async () => {
+        moveTo(berlinCoordinates, 1.4);
+        moveTo(berlinCoordinates, 1.1);
+      });
+
+      expect(mockSubscription.remove).toHaveBeenCalledTimes(removeCalls);
+      expect(mockedLocationService.watchPosition).toHaveBeenCalledTimes(watchCalls);
+    });
+  });
+
+  describe('Shared position', () => {
+    it('should look up the position once for all callers', async () => {
+      const first = renderHook(() => useLocation(true));
+      const second = renderHook(() => useLocation(true));
+
+      await waitFor(() => {
+        expect(second.result.current.cityInfo?.city).toBe('Berlin');
+      });
+
+      expect(first.result.current.location).toEqual(berlinCoordinates);
+      expect(mockedLocationService.getCurrentLocation).toHaveBeenCalledTimes(1);
+      expect(mockedLocationService.reverseGeocode).toHaveBeenCalledTimes(1);
+      expect(mockedLocationService.watchPosition).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a move to every caller', async () => {
+      const { hasSignificantMovement } = require('../../src/utils/distance');
+      hasSignificantMovement.mockReturnValue(true);
+      let watchCallback: ((location: Location.LocationObject) => void) | null = null;
+      mockedLocationService.watchPosition.mockImplementation(async (callback) => {
+        watchCallback = callback;
+        return { remove: jest.fn() };
+      });
+
+      const first = renderHook(() => useLocation(true));
+      const second = renderHook(() => useLocation(false));
+      await waitFor(() => {
+        expect(watchCallback).not.toBeNull();
+      });
+
+      act(() => {
+        watchCallback!(createMockPosition(tokyoCoordinates));
+      });
+
+      expect(first.result.current.location).toEqual(tokyoCoordinates);
+      expect(second.result.current.location).toEqual(tokyoCoordinates);
+    });
+
+    it('should keep watching while another caller tracks', async () => {
+      const mockSubscription = { remove: jest.fn() };
+      mockedLocationService.watchPosition.mockResolvedValue(mockSubscription);
+
+      const first = renderHook(() => useLocation(true));
+      renderHook(() => useLocation(true));
+      await waitFor(() => {
+        expect(mockedLocationService.watchPosition).toHaveBeenCalled();
+      });
+
+      first.unmount();
+
+      expect(mockSubscription.remove).not.toHaveBeenCalled();
+    });
+  });
+
   describe('refreshLocation', () => {
     it('should reload location and city info', async () => {
       const { result } = renderHook(() => useLocation(false));
@@ -316,4 +518,216 @@ describe('useLocation', () => {
       });
     });
   });
+
+  describe('Walking tours', () => {
+    let positionCallback: ((location: Location.LocationObject) => void) | null;
+    let appStateListener: ((state: AppStateStatus) => void) | null;
+    const stopListening = jest.fn();
+    const appStateSubscription = { remove: jest.fn() };
+
+    const moveTo = (coordinates: typeof berlinCoordinates) =>
+      act(() => {
+        positionCallback!(createMockPosition(coordinates));
+      });
+
+    beforeEach(() => {
+      positionCallback = null;
+      appStateListener = null;
+      mockedLocationService.watchPosition.mockResolvedValue({ remove: jest.fn() });
+      mockedTrackingService.startBackgroundUpdates.mockResolvedValue(true);
+      mockedTrackingService.stopBackgroundUpdates.mockResolvedValue(undefined);
+      mockedTrackingService.isTrackingInBackground.mockResolvedValue(true);
+      mockedTrackingService.subscribeToPositions.mockImplementation(listener => {
+        positionCallback = listener;
+        return stopListening;
+      });
+      jest.spyOn(AppState, 'addEventListener').mockImplementation((_type, listener) => {
+        appStateListener = listener;
+        return appStateSubscription;
+      });
+      const { hasSignificantMovement } = require('../../src/utils/distance');
+      hasSignificantMovement.mockReturnValue(false);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const renderTour = async () => {
+      const hook = renderHook(() => useLocation(true, true));
+      await waitFor(() => {
+        expect(positionCallback).not.toBeNull();
+      });
+      await waitFor(() => {
+        expect(hook.result.current.loading).toBe(false);
+      });
+      return hook;
+    };
+
+    it('should track with the walking tour task instead of a watch', async () => {
+      await renderTour();
+
+      expect(mockedTrackingService.startBackgroundUpdates).toHaveBeenCalledTimes(1);
+      expect(mockedLocationService.watchPosition).not.toHaveBeenCalled();
+    });
+
+    it('should report every position', async () => {
+      const { result } = await renderTour();
+      const nearby = { latitude: 52.5205, longitude: 13.405 };
+
+      moveTo(nearby);
+
+      expect(result.current.location).toEqual(nearby);
+      // City info is only looked up again after larger moves
+      expect(mockedLocationService.reverseGeocode).toHaveBeenCalledTimes(1);
+    });
+
+    it('should move the area position only after larger moves', async () => {
+      const { hasSignificantMovement } = require('../../src/utils/distance');
+      const { result } = await renderTour();
+
+      moveTo({ latitude: 52.5205, longitude: 13.405 });
+      expect(result.current.areaLocation).toEqual(berlinCoordinates);
+
+      hasSignificantMovement.mockReturnValue(true);
+      moveTo(tokyoCoordinates);
+      expect(result.current.areaLocation).toEqual(tokyoCoordinates);
+    });
+
+    it('should watch the position when the task cannot start', async () => {
+      mockedTrackingService.startBackgroundUpdates.mockResolvedValue(false);
+
+      renderHook(() => useLocation(true, true));
+
+      await waitFor(() => {
+        expect(mockedLocationService.watchPosition).toHaveBeenCalled();
+      });
+      expect(mockedTrackingService.subscribeToPositions).not.toHaveBeenCalled();
+    });
+
+    it('should report tracking in the background', async () => {
+      const { result } = await renderTour();
+      expect(result.current.gpsStatus).toBe('ACTIVE');
+
+      await act(() => appStateListener!('background'));
+      expect(result.current.gpsStatus).toBe('BACKGROUND');
+
+      await act(() => appStateListener!('active'));
+      expect(result.current.gpsStatus).toBe('ACTIVE');
+    });
+
+    it('should not report background tracking while the task is stopped', async () => {
+      mockedTrackingService.isTrackingInBackground.mockResolvedValue(false);
+      const { result } = await renderTour();
+
+      await act(() => appStateListener!('background'));
+
+      expect(result.current.gpsStatus).toBe('ACTIVE');
+    });
+
+    it('should not report background tracking without a position', async () => {
+      mockedLocationService.getCurrentLocation.mockResolvedValueOnce(null);
+      const { result } = await renderTour();
+
+      await act(() => appStateListener!('background'));
+
+      expect(result.current.gpsStatus).toBe('UNAVAILABLE');
+    });
+
+    it('should stop the task when the tour ends', async () => {
+      const { rerender } = renderHook(({ tour }: { tour: boolean }) => useLocation(true, tour), {
+        initialProps: { tour: true },
+      });
+      await waitFor(() => {
+        expect(positionCallback).not.toBeNull();
+      });
+
+      rerender({ tour: false });
+
+      expect(appStateSubscription.remove).toHaveBeenCalled();
+      await waitFor(() => {
+        expect(mockedLocationService.watchPosition).toHaveBeenLastCalledWith(expect.any(Function));
+      });
+      expect(stopListening).toHaveBeenCalled();
+      expect(mockedTrackingService.stopBackgroundUpdates).toHaveBeenCalled();
+    });
+
+    it('should start one source for the latest of quick changes', async () => {
+      const { rerender } = renderHook(({ tour }: { tour: boolean }) => useLocation(true, tour), {
+        initialProps: { tour: false },
+      });
+
+      rerender({ tour: true });
+      rerender({ tour: false });
+      rerender({ tour: true });
+
+      await waitFor(() => {
+        expect(positionCallback).not.toBeNull();
+      });
+      expect(mockedTrackingService.startBackgroundUpdates).toHaveBeenCalledTimes(1);
+      expect(mockedTrackingService.subscribeToPositions).toHaveBeenCalledTimes(1);
+      expect(mockedLocationService.watchPosition).not.toHaveBeenCalled();
+    });
+
+    it('should not watch the app state outside walking tours', async () => {
+      renderHook(() => useLocation(true));
+      await waitFor(() => {
+        expect(mockedLocationService.watchPosition).toHaveBeenCalled();
+      });
+
+      expect(AppState.addEventListener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Language', () => {
+    const munich = {
+      city: 'Munich',
+      country: 'Germany',
+      state: 'Bavaria',
+      fullAddress: 'Munich, Bavaria, Germany',
+      latitude: 48.137,
+      longitude: 11.575,
+    };
+
+    it('should name the city in the new language after a switch', async () => {
+      const { result, rerender } = renderHook(() => useLocation(false));
+      await waitFor(() => {
+        expect(result.current.cityInfo?.city).toBe('Berlin');
+      });
+
+      mockedLocationService.reverseGeocode.mockResolvedValueOnce(munich);
+      mockLanguage = 'en';
+      rerender({});
+
+      await waitFor(() => {
+        expect(result.current.cityInfo).toEqual(munich);
+      });
+      expect(mockedLocationService.reverseGeocode).toHaveBeenCalledTimes(2);
+      expect(mockedLocationService.reverseGeocode).toHaveBeenLastCalledWith(berlinCoordinates);
+    });
+
+    it('should not geocode again while the language stays the same', async () => {
+      const { result, rerender } = renderHook(() => useLocation(false));
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+
+      rerender({});
+
+      expect(mockedLocationService.reverseGeocode).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for a position before geocoding', async () => {
+      mockedLocationService.getCurrentLocation.mockResolvedValueOnce(null);
+      const { result, rerender } = renderHook(() => useLocation(false));
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+
+      mockLanguage = 'en';
+      rerender({});
+
+      expect(mockedLocationService.reverseGeocode).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -6,10 +6,17 @@
 import { renderHook, act, waitFor } from '@testing-library/react-native';
 import { useLocationSearch } from '../../src/hooks/useLocationSearch';
 import locationService from '../../src/services/location.service';
-import { SearchResult } from '../../src/types';
+import searchHistoryService from '../../src/services/search-history.service';
+import wikiService from '../../src/services/wiki.service';
+import { SearchHistoryEntry, SearchResult } from '../../src/types';
+import { mockAttractions } from '../fixtures/attractions';
 
 jest.mock('../../src/services/location.service');
+jest.mock('../../src/services/search-history.service');
+jest.mock('../../src/services/wiki.service');
 const mockedLocationService = locationService as jest.Mocked<typeof locationService>;
+const mockedWikiService = wikiService as jest.Mocked<typeof wikiService>;
+const mockedSearchHistoryService = searchHistoryService as jest.Mocked<typeof searchHistoryService>;
 
 describe('useLocationSearch', () => {
   const mockSearchResults: SearchResult[] = [
@@ -36,6 +43,10 @@ describe('useLocationSearch', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     jest.useFakeTimers();
+    mockedSearchHistoryService.getHistory.mockResolvedValue([]);
+    mockedSearchHistoryService.recordSelection.mockResolvedValue([]);
+    mockedLocationService.searchCachedLocations.mockResolvedValue([]);
+    mockedWikiService.searchGeotaggedArticles.mockResolvedValue([]);
   });
 
   afterEach(() => {
@@ -333,4 +344,211 @@ describe('useLocationSearch', () => {
     // State should still reflect the second search
     expect(result.current.query).toBe('Munich');
   });
+
+  describe('Search history', () => {
+    const berlinEntry: SearchHistoryEntry = { result: mockSearchResults[0], count: 2, lastSelectedAt: 1000 };
+    const munichEntry: SearchHistoryEntry = { result: mockSearchResults[1], count: 1, lastSelectedAt: 2000, pinned: 'hotel' };
+
+    it('should load the history', async () => {
+      mockedSearchHistoryService.getHistory.mockResolvedValueOnce([munichEntry, berlinEntry]);
+
+      const { result } = renderHook(() => useLocationSearch());
+
+      await waitFor(() => {
+        expect(result.current.history).toEqual([munichEntry, berlinEntry]);
+      });
+    });
+
+    it('should keep selected results', async () => {
+      mockedSearchHistoryService.recordSelection.mockResolvedValueOnce([berlinEntry]);
+      const { result } = renderHook(() => useLocationSearch());
+
+      await act(async () => {
+        result.current.selectResult(mockSearchResults[0]);
+      });
+
+      expect(mockedSearchHistoryService.recordSelection).toHaveBeenCalledWith(mockSearchResults[0]);
+      expect(result.current.history).toEqual([berlinEntry]);
+    });
+
+    it('should keep the history after clearing the search', async () => {
+      mockedSearchHistoryService.recordSelection.mockResolvedValueOnce([berlinEntry]);
+      const { result } = renderHook(() => useLocationSearch());
+
+      await act(async () => {
+        result.current.selectResult(mockSearchResults[0]);
+      });
+      act(() => {
+        result.current.clearSearch();
+      });
+
+      expect(result.current.history).toEqual([berlinEntry]);
+    });
+
+    it('should remove and pin entries', async () => {
+      mockedSearchHistoryService.removeEntry.mockResolvedValueOnce([munichEntry]);
+      mockedSearchHistoryService.pinEntry.mockResolvedValueOnce([{ ...munichEntry, pinned: 'home' }]);
+      const { result } = renderHook(() => useLocationSearch());
+
+      await act(async () => {
+        result.current.removeHistoryEntry('1');
+      });
+      expect(result.current.history).toEqual([munichEntry]);
+
+      await act(async () => {
+        result.current.pinHistoryEntry('2', 'home');
+      });
+      expect(mockedSearchHistoryService.pinEntry).toHaveBeenCalledWith('2', 'home');
+      expect(result.current.history[0].pinned).toBe('home');
+    });
+
+    it('should log history errors', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockedSearchHistoryService.getHistory.mockRejectedValueOnce(new Error('Storage error'));
+
+      const { result } = renderHook(() => useLocationSearch());
+
+      await waitFor(() => {
+        expect(consoleSpy).toHaveBeenCalledWith('Error updating search history:', expect.any(Error));
+      });
+      expect(result.current.history).toEqual([]);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('Cached results', () => {
+    it('should show places found before at once', async () => {
+      mockedLocationService.searchCachedLocations.mockResolvedValueOnce([mockSearchResults[1]]);
+      mockedLocationService.searchLocations.mockReturnValue(new Promise(() => {}));
+      const { result } = renderHook(() => useLocationSearch(300));
+
+      await act(async () => {
+        result.current.setQuery('muen');
+      });
+
+      expect(mockedLocationService.searchCachedLocations).toHaveBeenCalledWith('muen', 5);
+      expect(result.current.results).toEqual([mockSearchResults[1]]);
+      expect(result.current.loading).toBe(true);
+    });
+
+    it('should replace them with the network results', async () => {
+      mockedLocationService.searchCachedLocations.mockResolvedValueOnce([mockSearchResults[1]]);
+      mockedLocationService.searchLocations.mockResolvedValueOnce(mockSearchResults);
+      const { result } = renderHook(() => useLocationSearch(300));
+
+      await act(async () => {
+        result.current.setQuery('M');
+      });
+      act(() => {
+        jest.advanceTimersByTime(300);
+      });
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+      expect(result.current.results).toEqual(mockSearchResults);
+    });
+
+    it('should ignore cached results arriving after the network results', async () => {
+      let resolveCached: (results: SearchResult[]) => void;
+      mockedLocationService.searchCachedLocations.mockReturnValueOnce(
+        new Promise(resolve => {
+          resolveCached = resolve;
+        })
+      );
+      mockedLocationService.searchLocations.mockResolvedValueOnce([mockSearchResults[0]]);
+      const { result } = renderHook(() => useLocationSearch(300));
+
+      act(() => {
+        result.current.setQuery('Berlin');
+      });
+      act(() => {
+        jest.advanceTimersByTime(300);
+      });
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+      await act(async () => {
+        resolveCached!([mockSearchResults[1]]);
+      });
+
+      expect(result.current.results).toEqual([mockSearchResults[0]]);
+    });
+
+    it('should ignore cached results for an older query', async () => {
+      let resolveCached: (results: SearchResult[]) => void;
+      mockedLocationService.searchCachedLocations
+        .mockReturnValueOnce(
+          new Promise(resolve => {
+            resolveCached = resolve;
+          })
+        )
+        .mockResolvedValueOnce([]);
+      mockedLocationService.searchLocations.mockReturnValue(new Promise(() => {}));
+      const { result } = renderHook(() => useLocationSearch(300));
+
+      act(() => {
+        result.current.setQuery('Mu');
+      });
+      await act(async () => {
+        result.current.setQuery('Be');
+      });
+      await act(async () => {
+        resolveCached!([mockSearchResults[1]]);
+      });
+
+      expect(result.current.results).toEqual([]);
+    });
+  });
+
+  describe('Attractions', () => {
+    it('should show matching loaded attractions at once', async () => {
+      mockedLocationService.searchLocations.mockReturnValue(new Promise(() => {}));
+      const { result } = renderHook(() => useLocationSearch(300, mockAttractions));
+
+      await act(async () => {
+        result.current.setQuery('Reichs');
+      });
+
+      expect(result.current.results).toEqual([
+        expect.objectContaining({ id: '2', kind: 'nearby', attraction: mockAttractions[1] }),
+      ]);
+      expect(result.current.loading).toBe(true);
+    });
+
+    it('should list loaded attractions before places and Wikipedia articles', async () => {
+      mockedLocationService.searchLocations.mockResolvedValueOnce(mockSearchResults);
+      mockedWikiService.searchGeotaggedArticles.mockResolvedValueOnce([
+        { title: 'Berliner Dom', latitude: 52.519, longitude: 13.401 },
+      ]);
+      const { result } = renderHook(() => useLocationSearch(300, mockAttractions));
+
+      await act(async () => {
+        result.current.setQuery('Berlin');
+      });
+      act(() => {
+        jest.advanceTimersByTime(300);
+      });
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+      expect(result.current.results.map(item => item.id)).toEqual(['3', '1', '2', 'wiki:de:Berliner Dom']);
+    });
+
+    it('should search the latest attractions', async () => {
+      mockedLocationService.searchLocations.mockReturnValue(new Promise(() => {}));
+      const { result, rerender } = renderHook(
+        ({ attractions }) => useLocationSearch(300, attractions),
+        { initialProps: { attractions: [mockAttractions[0]] } }
+      );
+
+      rerender({ attractions: mockAttractions });
+      await act(async () => {
+        result.current.setQuery('Reichs');
+      });
+
+      expect(result.current.results.map(item => item.id)).toEqual(['2']);
+    });
+  });
 });
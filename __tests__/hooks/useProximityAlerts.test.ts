@@ -0,0 +1,140 @@
+/**
+ * Tests for useProximityAlerts hook
+ * Coverage target: 85%
+ */
+
+import { renderHook, waitFor } from '@testing-library/react-native';
+import { AppState } from 'react-native';
+import { useProximityAlerts } from '../../src/hooks/useProximityAlerts';
+import { proximityService } from '../../src/services';
+import { createMockAttraction, mockAttractions } from '../fixtures/attractions';
+import { berlinCoordinates } from '../fixtures/locations';
+import { Coordinates } from '../../src/types';
+
+jest.mock('../../src/services');
+
+const mockedProximityService = proximityService as jest.Mocked<typeof proximityService>;
+
+describe('useProximityAlerts', () => {
+  const favorites = [createMockAttraction({ id: 'favorite' })];
+  const alerts = [{ attraction: favorites[0], reason: 'favorite' as const, distance: 120 }];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedProximityService.checkPosition.mockResolvedValue([]);
+  });
+
+  const nearby = { latitude: 52.5205, longitude: 13.405 };
+
+  const renderMoving = (onAlert = jest.fn()) =>
+    renderHook(
+      ({ location, attractions }: { location: Coordinates; attractions: typeof mockAttractions }) =>
+        useProximityAlerts(location, favorites, attractions, onAlert),
+      { initialProps: { location: berlinCoordinates, attractions: mockAttractions } }
+    );
+
+  it('should report places the position comes near', async () => {
+    mockedProximityService.checkPosition.mockResolvedValueOnce(alerts);
+    const onAlert = jest.fn();
+    const { rerender } = renderMoving(onAlert);
+
+    rerender({ location: nearby, attractions: mockAttractions });
+
+    await waitFor(() => {
+      expect(onAlert).toHaveBeenCalledWith(alerts);
+    });
+    expect(mockedProximityService.checkPosition).toHaveBeenCalledWith(
+      nearby,
+      favorites,
+      mockAttractions,
+      berlinCoordinates
+    );
+  });
+
+  it('should not report when nothing is near', async () => {
+    const onAlert = jest.fn();
+    const { rerender } = renderMoving(onAlert);
+
+    rerender({ location: nearby, attractions: mockAttractions });
+
+    await waitFor(() => {
+      expect(mockedProximityService.checkPosition).toHaveBeenCalled();
+    });
+    expect(onAlert).not.toHaveBeenCalled();
+  });
+
+  it('should not check positions tracked in the background', () => {
+    const { rerender } = renderMoving();
+    const appState = AppState.currentState;
+    AppState.currentState = 'background';
+
+    rerender({ location: nearby, attractions: mockAttractions });
+    AppState.currentState = appState;
+
+    expect(mockedProximityService.checkPosition).not.toHaveBeenCalled();
+  });
+
+  it('should check from the last foreground position when back in the app', async () => {
+    const moved = { latitude: 52.53, longitude: 13.41 };
+    const { rerender } = renderMoving();
+    const appState = AppState.currentState;
+    AppState.currentState = 'background';
+    rerender({ location: nearby, attractions: mockAttractions });
+    AppState.currentState = appState;
+
+    rerender({ location: moved, attractions: mockAttractions });
+
+    await waitFor(() => {
+      expect(mockedProximityService.checkPosition).toHaveBeenCalledWith(
+        moved,
+        favorites,
+        mockAttractions,
+        berlinCoordinates
+      );
+    });
+  });
+
+  it('should wait for a position', () => {
+    renderHook(() => useProximityAlerts(null, favorites, mockAttractions, jest.fn()));
+
+    expect(mockedProximityService.checkPosition).not.toHaveBeenCalled();
+  });
+
+  it('should wait for a move from the first position', () => {
+    renderMoving();
+
+    expect(mockedProximityService.checkPosition).not.toHaveBeenCalled();
+  });
+
+  it('should only check again when the position changes', async () => {
+    const { rerender } = renderMoving();
+
+    rerender({ location: { ...berlinCoordinates }, attractions: mockAttractions });
+    rerender({ location: nearby, attractions: mockAttractions });
+    rerender({ location: nearby, attractions: mockAttractions.slice(1) });
+    rerender({ location: { latitude: 52.53, longitude: 13.41 }, attractions: mockAttractions.slice(1) });
+
+    await waitFor(() => {
+      expect(mockedProximityService.checkPosition).toHaveBeenCalledTimes(2);
+    });
+    expect(mockedProximityService.checkPosition).toHaveBeenLastCalledWith(
+      { latitude: 52.53, longitude: 13.41 },
+      favorites,
+      mockAttractions.slice(1),
+      nearby
+    );
+  });
+
+  it('should log errors', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation();
+    mockedProximityService.checkPosition.mockRejectedValueOnce(new Error('Storage error'));
+    const { rerender } = renderMoving();
+
+    rerender({ location: nearby, attractions: mockAttractions });
+
+    await waitFor(() => {
+      expect(consoleError).toHaveBeenCalled();
+    });
+    consoleError.mockRestore();
+  });
+});
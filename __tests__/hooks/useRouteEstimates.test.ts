@@ -0,0 +1,67 @@
+/**
+ * Tests for useRouteEstimates hook
+ * Coverage target: 85%
+ */
+
+import { renderHook, waitFor } from '@testing-library/react-native';
+import { useRouteEstimates } from '../../src/hooks/useRouteEstimates';
+import { routingService } from '../../src/services';
+import { mockAttractions } from '../fixtures/attractions';
+import { berlinCoordinates } from '../fixtures/locations';
+import { TravelMode } from '../../src/types';
+
+jest.mock('../../src/services');
+
+const mockedRoutingService = routingService as jest.Mocked<typeof routingService>;
+
+describe('useRouteEstimates', () => {
+  const estimate = { distance: 800, duration: 600, estimated: false };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedRoutingService.estimateRoutes.mockResolvedValue(new Map([['1', estimate]]));
+  });
+
+  it('should estimate routes to the attractions', async () => {
+    const { result } = renderHook(() => useRouteEstimates(berlinCoordinates, mockAttractions, 'walking'));
+
+    await waitFor(() => {
+      expect(result.current.estimates.get('1')).toEqual(estimate);
+    });
+    expect(result.current.loading).toBe(false);
+    expect(mockedRoutingService.estimateRoutes).toHaveBeenCalledWith(berlinCoordinates, mockAttractions, 'walking');
+  });
+
+  it('should not estimate without an origin', () => {
+    const { result } = renderHook(() => useRouteEstimates(null, mockAttractions, 'walking'));
+
+    expect(result.current.estimates.size).toBe(0);
+    expect(mockedRoutingService.estimateRoutes).not.toHaveBeenCalled();
+  });
+
+  it('should not request again when the list is only reordered', async () => {
+    const { rerender } = renderHook(
+      ({ attractions }) => useRouteEstimates(berlinCoordinates, attractions, 'walking'),
+      { initialProps: { attractions: mockAttractions } }
+    );
+    await waitFor(() => expect(mockedRoutingService.estimateRoutes).toHaveBeenCalledTimes(1));
+
+    rerender({ attractions: [...mockAttractions].reverse() });
+
+    expect(mockedRoutingService.estimateRoutes).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop estimates when the travel mode changes', async () => {
+    const { result, rerender } = renderHook(
+      ({ mode }: { mode: TravelMode }) => useRouteEstimates(berlinCoordinates, mockAttractions, mode),
+      { initialProps: { mode: 'walking' as TravelMode } }
+    );
+    await waitFor(() => expect(result.current.estimates.size).toBe(1));
+
+    mockedRoutingService.estimateRoutes.mockReturnValueOnce(new Promise(() => {}));
+    rerender({ mode: 'driving' });
+
+    await waitFor(() => expect(result.current.estimates.size).toBe(0));
+    expect(mockedRoutingService.estimateRoutes).toHaveBeenLastCalledWith(berlinCoordinates, mockAttractions, 'driving');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for useVisitTracking hook
+ * Coverage target: 85%
+ */
+
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import * as Location from 'expo-location';
+import { useVisitTracking } from '../../src/hooks/useVisitTracking';
+import { useFavorites } from '../../src/hooks/useFavorites';
+import { useLocation } from '../../src/hooks/useLocation';
+import { favoritesService, locationService, trackingService } from '../../src/services';
+import { createMockAttraction } from '../fixtures/attractions';
+import { berlinCoordinates, createMockPosition } from '../fixtures/locations';
+import { Coordinates } from '../../src/types';
+import { FAVORITES_CONFIG } from '../../src/constants';
+import { calculateDistance } from '../../src/utils/distance';
+
+jest.mock('../../src/services');
+
+jest.mock('expo-location', () => ({
+  ...jest.requireActual('expo-location'),
+  requestForegroundPermissionsAsync: jest.fn().mockResolvedValue({ status: 'granted' }),
+}));
+
+const mockedFavoritesService = favoritesService as jest.Mocked<typeof favoritesService>;
+const mockedLocationService = locationService as jest.Mocked<typeof locationService>;
+const mockedTrackingService = trackingService as jest.Mocked<typeof trackingService>;
+
+describe('useVisitTracking', () => {
+  const visited = [{ ...createMockAttraction({ id: '1' }), visitStatus: 'visited' as const }];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedFavoritesService.getFavorites.mockResolvedValue([]);
+    mockedFavoritesService.getCollections.mockResolvedValue([]);
+    mockedFavoritesService.recordVisitsNear.mockResolvedValue([]);
+  });
+
+  it('should report favorites visited at the position', async () => {
+    mockedFavoritesService.recordVisitsNear.mockResolvedValueOnce(visited);
+    const onVisited = jest.fn();
+
+    renderHook(() => useVisitTracking(berlinCoordinates, onVisited));
+
+    await waitFor(() => {
+      expect(onVisited).toHaveBeenCalledWith(visited);
+    });
+    expect(mockedFavoritesService.recordVisitsNear).toHaveBeenCalledWith(berlinCoordinates);
+  });
+
+  it('should not report when nothing was visited', async () => {
+    const onVisited = jest.fn();
+
+    renderHook(() => useVisitTracking(berlinCoordinates, onVisited));
+
+    await waitFor(() => {
+      expect(mockedFavoritesService.recordVisitsNear).toHaveBeenCalled();
+    });
+    expect(onVisited).not.toHaveBeenCalled();
+  });
+
+  it('should wait for a position', () => {
+    renderHook(() => useVisitTracking(null));
+
+    expect(mockedFavoritesService.recordVisitsNear).not.toHaveBeenCalled();
+  });
+
+  it('should only check again when the position changes', async () => {
+    const { rerender } = renderHook(({ location }: { location: Coordinates }) => useVisitTracking(location), {
+      initialProps: { location: berlinCoordinates },
+    });
+
+    rerender({ location: { ...berlinCoordinates } });
+    rerender({ location: { latitude: 52.53, longitude: 13.41 } });
+
+    await waitFor(() => {
+      expect(mockedFavoritesService.recordVisitsNear).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('should log errors', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation();
+    mockedFavoritesService.recordVisitsNear.mockRejectedValueOnce(new Error('Storage error'));
+
+    renderHook(() => useVisitTracking(berlinCoordinates, jest.fn()));
+
+    await waitFor(() => {
+      expect(consoleError).toHaveBeenCalled();
+    });
+    consoleError.mockRestore();
+  });
+
+  it('should show recorded visits in favorites', async () => {
+    const planned = { ...visited[0], visitStatus: 'planned' as const };
+    mockedFavoritesService.getFavorites.mockResolvedValueOnce([planned]);
+    mockedFavoritesService.getCollections.mockResolvedValueOnce([]);
+    const { result } = renderHook(() => useFavorites());
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    mockedFavoritesService.recordVisitsNear.mockResolvedValueOnce(visited);
+
+    renderHook(() => useVisitTracking(berlinCoordinates));
+
+    await waitFor(() => {
+      expect(result.current.favorites[0].visitStatus).toBe('visited');
+    });
+  });
+
+  describe('With the GPS position', () => {
+    const favorite = { ...visited[0], ...berlinCoordinates, visitStatus: 'planned' as const };
+    // About 300 m and 40 m south of the favorite
+    const approaching = { latitude: 52.5173, longitude: 13.405 };
+    const arrived = { latitude: 52.51964, longitude: 13.405 };
+    const walkingOptions = { accuracy: Location.Accuracy.High, distanceInterval: 10, timeInterval: 10000 };
+    let watchCallback: ((location: Location.LocationObject) => void) | null;
+
+    beforeEach(() => {
+      watchCallback = null;
+      mockedFavoritesService.getFavorites.mockResolvedValue([favorite]);
+      mockedTrackingService.getWatchOptions.mockReturnValue(walkingOptions);
+      mockedLocationService.getCurrentLocation.mockResolvedValue(createMockPosition(approaching));
+      mockedLocationService.reverseGeocode.mockResolvedValue(null);
+      mockedLocationService.watchPosition.mockImplementation(async callback => {
+        watchCallback = callback;
+        return { remove: jest.fn() };
+      });
+      mockedTrackingService.selectProfile.mockResolvedValue('walking');
+      mockedFavoritesService.recordVisitsNear.mockImplementation(async position =>
+        calculateDistance(position, favorite) <= FAVORITES_CONFIG.VISIT_GEOFENCE_RADIUS
+          ? [{ ...favorite, visitStatus: 'visited' }]
+          : []
+      );
+    });
+
+    it('should mark a favorite visited when walking up to it', async () => {
+      const onVisited = jest.fn();
+      renderHook(() => useVisitTracking(useLocation(true).location, onVisited));
+      await waitFor(() => {
+        expect(watchCallback).not.toBeNull();
+      });
+      expect(mockedFavoritesService.recordVisitsNear).toHaveBeenCalledWith(approaching);
+      expect(onVisited).not.toHaveBeenCalled();
+
+      act(() => {
+        watchCallback!(createMockPosition(arrived));
+      });
+
+      await waitFor(() => {
+        expect(onVisited).toHaveBeenCalledWith([expect.objectContaining({ id: favorite.id, visitStatus: 'visited' })]);
+      });
+    });
+
+    it('should watch the position closely near a favorite to visit', async () => {
+      renderHook(() => useVisitTracking(useLocation(true).location));
+
+      await waitFor(() => {
+        expect(mockedLocationService.watchPosition).toHaveBeenLastCalledWith(expect.any(Function), walkingOptions);
+      });
+    });
+
+    it('should only follow larger moves without favorites to visit', async () => {
+      mockedFavoritesService.getFavorites.mockResolvedValue([{ ...favorite, visitStatus: 'visited' }]);
+      const { result } = renderHook(() => useFavorites());
+      renderHook(() => useVisitTracking(useLocation(true).location));
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+      await waitFor(() => {
+        expect(watchCallback).not.toBeNull();
+      });
+      expect(mockedLocationService.watchPosition).not.toHaveBeenCalledWith(expect.any(Function), walkingOptions);
+    });
+  });
+});
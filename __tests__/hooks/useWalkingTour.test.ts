@@ -0,0 +1,68 @@
+/**
+ * Tests for useWalkingTour hook
+ * Coverage target: 85%
+ */
+
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { useWalkingTour } from '../../src/hooks/useWalkingTour';
+import { trackingService } from '../../src/services';
+
+jest.mock('../../src/services');
+
+const mockedTrackingService = trackingService as jest.Mocked<typeof trackingService>;
+
+describe('useWalkingTour', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedTrackingService.isWalkingTourEnabled.mockResolvedValue(false);
+    mockedTrackingService.getTrack.mockResolvedValue([]);
+  });
+
+  it('should load whether walking tours are on', async () => {
+    mockedTrackingService.isWalkingTourEnabled.mockResolvedValueOnce(true);
+
+    const { result } = renderHook(() => useWalkingTour());
+
+    await waitFor(() => {
+      expect(result.current.enabled).toBe(true);
+    });
+  });
+
+  it('should turn walking tours on', async () => {
+    mockedTrackingService.setWalkingTourEnabled.mockResolvedValueOnce(true);
+    const { result } = renderHook(() => useWalkingTour());
+
+    await act(async () => {
+      await result.current.setEnabled(true);
+    });
+
+    expect(result.current.enabled).toBe(true);
+    expect(mockedTrackingService.setWalkingTourEnabled).toHaveBeenCalledWith(true);
+  });
+
+  it('should stay off when the service refuses', async () => {
+    mockedTrackingService.setWalkingTourEnabled.mockResolvedValueOnce(false);
+    const { result } = renderHook(() => useWalkingTour());
+
+    await act(async () => {
+      await result.current.setEnabled(true);
+    });
+
+    expect(result.current.enabled).toBe(false);
+  });
+
+  it('should export the track as GPX', async () => {
+    mockedTrackingService.getTrack.mockResolvedValueOnce([
+      { latitude: 52.5, longitude: 13.4, timestamp: Date.parse('2026-06-01T10:00:00.000Z') },
+    ]);
+    const { result } = renderHook(() => useWalkingTour());
+
+    let gpx = '';
+    await act(async () => {
+      gpx = await result.current.exportTrack('Harbour walk');
+    });
+
+    expect(gpx).toContain('<name>Harbour walk</name>');
+    expect(gpx).toContain('<trkpt lat="52.5" lon="13.4">');
+  });
+});
@@ -7,6 +7,8 @@ import React from 'react';
 import { render, fireEvent, waitFor } from '@testing-library/react-native';
 import DetailsScreen from '../../src/screens/DetailsScreen';
 import { createMockRoute } from '../setup/mocks';
+import { createMockAttraction } from '../fixtures/attractions';
+import { Linking } from 'react-native';
 
 // Mock services - must mock individual service files with named exports
 jest.mock('../../src/services/wiki.service', () => ({
@@ -90,6 +92,98 @@ describe('DetailsScreen', () => {
     });
   });
 
+  describe('Attraction facts', () => {
+    const richAttraction = createMockAttraction({
+      name: 'Brandenburger Tor',
+      names: { de: 'Brandenburger Tor', en: 'Brandenburg Gate' },
+      openingHours: 'Mo-Fr 10:00-18:00; Sa 10:00-14:00',
+      website: 'https://example.org',
+      phone: '+49 30 123456',
+      wheelchair: 'limited',
+      fee: false,
+      wikidata: 'Q82425',
+      address: { street: 'Pariser Platz', houseNumber: '1', postcode: '10117', city: 'Berlin' },
+    });
+
+    it('should not render facts without an attraction', async () => {
+      const route = createMockRoute('Details', { location: 'Berlin' });
+
+      const { queryByTestId, getByText } = render(<DetailsScreen route={route} />);
+
+      await waitFor(() => {
+        expect(getByText('Berlin')).toBeTruthy();
+      });
+      expect(queryByTestId('attraction-facts')).toBeNull();
+    });
+
+    it('should render metadata of the attraction', async () => {
+      const route = createMockRoute('Details', {
+        location: richAttraction.name,
+        attraction: richAttraction,
+      });
+
+      const { getByText } = render(<DetailsScreen route={route} />);
+
+      await waitFor(() => {
+        expect(getByText('openingHours')).toBeTruthy();
+      });
+      expect(getByText('Mo-Fr 10:00-18:00\nSa 10:00-14:00')).toBeTruthy();
+      expect(getByText('Pariser Platz 1, 10117 Berlin')).toBeTruthy();
+      expect(getByText('https://example.org')).toBeTruthy();
+      expect(getByText('+49 30 123456')).toBeTruthy();
+      expect(getByText('wheelchairValues.limited')).toBeTruthy();
+      expect(getByText('admissionFree')).toBeTruthy();
+      expect(getByText('Q82425')).toBeTruthy();
+    });
+
+    it('should show the name in the current language', async () => {
+      const route = createMockRoute('Details', {
+        location: 'Brandenburg Gate',
+        attraction: richAttraction,
+      });
+
+      const { getByText, queryByText } = render(<DetailsScreen route={route} />);
+
+      await waitFor(() => {
+        expect(getByText('Brandenburger Tor')).toBeTruthy();
+      });
+      expect(queryByText('Brandenburg Gate')).toBeNull();
+    });
+
+    it('should open website and phone links', async () => {
+      const openURL = jest.spyOn(Linking, 'openURL').mockResolvedValue(true);
+      const route = createMockRoute('Details', {
+        location: richAttraction.name,
+        attraction: richAttraction,
+      });
+
+      const { getByText } = render(<DetailsScreen route={route} />);
+
+      await waitFor(() => {
+        expect(getByText('https://example.org')).toBeTruthy();
+      });
+      fireEvent.press(getByText('https://example.org'));
+      fireEvent.press(getByText('+49 30 123456'));
+
+      expect(openURL).toHaveBeenCalledWith('https://example.org');
+      expect(openURL).toHaveBeenCalledWith('tel:+4930123456');
+      openURL.mockRestore();
+    });
+
+    it('should show fee required when admission is charged', async () => {
+      const route = createMockRoute('Details', {
+        location: 'Museum',
+        attraction: createMockAttraction({ fee: true }),
+      });
+
+      const { getByText } = render(<DetailsScreen route={route} />);
+
+      await waitFor(() => {
+        expect(getByText('admissionFee')).toBeTruthy();
+      });
+    });
+  });
+
   describe('Tab navigation', () => {
     it('should render Wikipedia and AI tabs', async () => {
       const route = createMockRoute('Details', { location: 'Berlin' });
@@ -4,11 +4,14 @@
  */
 
 import React from 'react';
-import { render, fireEvent } from '@testing-library/react-native';
+import { Alert, Share } from 'react-native';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
 import FavoritesScreen from '../../src/screens/FavoritesScreen';
-import { useFavorites } from '../../src/hooks';
+import { useFavorites, useLocation } from '../../src/hooks';
+import { favoritesService } from '../../src/services';
 import { createMockNavigation } from '../setup/mocks';
 import { createMockAttraction, mockAttractions } from '../fixtures/attractions';
+import { berlinCoordinates } from '../fixtures/locations';
 
 // Mock hooks and navigation
 jest.mock('../../src/hooks');
@@ -17,11 +20,15 @@ jest.mock('@react-navigation/native', () => ({
 }));
 jest.mock('react-i18next', () => ({
   useTranslation: () => ({
-    t: (key: string) => key
+    t: (key: string) => key,
+    i18n: { language: 'en' }
   })
 }));
 
 const mockedUseFavorites = useFavorites as jest.MockedFunction<typeof useFavorites>;
+const mockedUseLocation = useLocation as jest.MockedFunction<typeof useLocation>;
+
+const mockCollections = [{ id: 'default', name: '', createdAt: new Date(0).toISOString() }];
 
 describe('FavoritesScreen', () => {
   const mockNavigation = createMockNavigation();
@@ -30,6 +37,15 @@ describe('FavoritesScreen', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     useNavigation.mockReturnValue(mockNavigation);
+    mockedUseLocation.mockReturnValue({
+      location: null,
+      areaLocation: null,
+      cityInfo: null,
+      loading: false,
+      error: null,
+      gpsStatus: 'SEARCHING',
+      refreshLocation: jest.fn()
+    });
   });
 
   describe('Empty state', () => {
@@ -42,6 +58,14 @@ describe('FavoritesScreen', () => {
         removeFavorite: jest.fn(),
         toggleFavorite: jest.fn(),
         isFavorite: jest.fn(),
+        collections: mockCollections,
+        updateFavorite: jest.fn(),
+        moveFavorite: jest.fn(),
+        createCollection: jest.fn(),
+        renameCollection: jest.fn(),
+        deleteCollection: jest.fn(),
+        exportFavorites: jest.fn(),
+        importFavorites: jest.fn(),
         refreshFavorites: jest.fn()
       });
 
@@ -62,6 +86,14 @@ describe('FavoritesScreen', () => {
         removeFavorite: jest.fn(),
         toggleFavorite: jest.fn(),
         isFavorite: jest.fn(),
+        collections: mockCollections,
+        updateFavorite: jest.fn(),
+        moveFavorite: jest.fn(),
+        createCollection: jest.fn(),
+        renameCollection: jest.fn(),
+        deleteCollection: jest.fn(),
+        exportFavorites: jest.fn(),
+        importFavorites: jest.fn(),
         refreshFavorites: jest.fn()
       });
 
@@ -71,8 +103,8 @@ describe('FavoritesScreen', () => {
         expect(getByText(fav.name)).toBeTruthy();
       });
       
-      // Check that type appears (may be multiple times if duplicates)
-      const types = getAllByText(favorites[0].type);
+      // Type is shown with its icon and translated label
+      const types = getAllByText('🗿 attractionTypes.monument');
       expect(types.length).toBeGreaterThan(0);
     });
 
@@ -86,6 +118,14 @@ describe('FavoritesScreen', () => {
         removeFavorite: jest.fn(),
         toggleFavorite: jest.fn(),
         isFavorite: jest.fn(),
+        collections: mockCollections,
+        updateFavorite: jest.fn(),
+        moveFavorite: jest.fn(),
+        createCollection: jest.fn(),
+        renameCollection: jest.fn(),
+        deleteCollection: jest.fn(),
+        exportFavorites: jest.fn(),
+        importFavorites: jest.fn(),
         refreshFavorites: jest.fn()
       });
 
@@ -104,6 +144,14 @@ describe('FavoritesScreen', () => {
         removeFavorite: jest.fn(),
         toggleFavorite: jest.fn(),
         isFavorite: jest.fn(),
+        collections: mockCollections,
+        updateFavorite: jest.fn(),
+        moveFavorite: jest.fn(),
+        createCollection: jest.fn(),
+        renameCollection: jest.fn(),
+        deleteCollection: jest.fn(),
+        exportFavorites: jest.fn(),
+        importFavorites: jest.fn(),
         refreshFavorites: jest.fn()
       });
 
@@ -113,6 +161,45 @@ describe('FavoritesScreen', () => {
     });
   });
 
+  describe('Trip planning', () => {
+    const mockFavorites = (favorites: typeof mockAttractions) =>
+      mockedUseFavorites.mockReturnValue({
+        favorites,
+        favoriteIds: new Set(favorites.map(f => f.id)),
+        loading: false,
+        addFavorite: jest.fn(),
+        removeFavorite: jest.fn(),
+        toggleFavorite: jest.fn(),
+        isFavorite: jest.fn(),
+        collections: mockCollections,
+        updateFavorite: jest.fn(),
+        moveFavorite: jest.fn(),
+        createCollection: jest.fn(),
+        renameCollection: jest.fn(),
+        deleteCollection: jest.fn(),
+        exportFavorites: jest.fn(),
+        importFavorites: jest.fn(),
+        refreshFavorites: jest.fn()
+      });
+
+    it('should plan a trip through the favorites', () => {
+      mockFavorites(mockAttractions);
+
+      const { getByTestId } = render(<FavoritesScreen />);
+      fireEvent.press(getByTestId('plan-trip-button'));
+
+      expect(mockNavigation.navigate).toHaveBeenCalledWith('Itinerary', { attractions: mockAttractions });
+    });
+
+    it('should not offer a trip for a single favorite', () => {
+      mockFavorites(mockAttractions.slice(0, 1));
+
+      const { queryByTestId } = render(<FavoritesScreen />);
+
+      expect(queryByTestId('plan-trip-button')).toBeNull();
+    });
+  });
+
   describe('Favorite interactions', () => {
     it('should navigate to WebView when favorite is pressed', () => {
       const favorites = [mockAttractions[0]];
@@ -124,6 +211,14 @@ describe('FavoritesScreen', () => {
         removeFavorite: jest.fn(),
         toggleFavorite: jest.fn(),
         isFavorite: jest.fn(),
+        collections: mockCollections,
+        updateFavorite: jest.fn(),
+        moveFavorite: jest.fn(),
+        createCollection: jest.fn(),
+        renameCollection: jest.fn(),
+        deleteCollection: jest.fn(),
+        exportFavorites: jest.fn(),
+        importFavorites: jest.fn(),
         refreshFavorites: jest.fn()
       });
 
@@ -148,6 +243,14 @@ describe('FavoritesScreen', () => {
         removeFavorite: jest.fn(),
         toggleFavorite: mockToggleFavorite,
         isFavorite: jest.fn(),
+        collections: mockCollections,
+        updateFavorite: jest.fn(),
+        moveFavorite: jest.fn(),
+        createCollection: jest.fn(),
+        renameCollection: jest.fn(),
+        deleteCollection: jest.fn(),
+        exportFavorites: jest.fn(),
+        importFavorites: jest.fn(),
         refreshFavorites: jest.fn()
       });
 
@@ -172,6 +275,14 @@ describe('FavoritesScreen', () => {
         removeFavorite: jest.fn(),
         toggleFavorite: mockToggleFavorite,
         isFavorite: jest.fn(),
+        collections: mockCollections,
+        updateFavorite: jest.fn(),
+        moveFavorite: jest.fn(),
+        createCollection: jest.fn(),
+        renameCollection: jest.fn(),
+        deleteCollection: jest.fn(),
+        exportFavorites: jest.fn(),
+        importFavorites: jest.fn(),
         refreshFavorites: jest.fn()
       });
 
@@ -186,6 +297,387 @@ describe('FavoritesScreen', () => {
     });
   });
 
+  describe('Collections', () => {
+    const rostock = { id: 'collection:rostock', name: 'Rostock weekend', createdAt: '2026-01-01T00:00:00.000Z' };
+    const berlin = { id: 'collection:berlin', name: 'Berlin 2027', createdAt: '2026-01-02T00:00:00.000Z' };
+    const favorites = [
+      { ...mockAttractions[0], collectionId: 'default' },
+      { ...mockAttractions[1], collectionId: rostock.id, note: 'Book tickets', visitStatus: 'visited' as const },
+      { ...mockAttractions[2], collectionId: rostock.id },
+    ];
+    const actions = {
+      updateFavorite: jest.fn(),
+      moveFavorite: jest.fn(),
+      createCollection: jest.fn(),
+      renameCollection: jest.fn(),
+      deleteCollection: jest.fn(),
+      exportFavorites: jest.fn(),
+      importFavorites: jest.fn(),
+    };
+
+    const mockFavorites = (overrides: Partial<ReturnType<typeof useFavorites>> = {}) =>
+      mockedUseFavorites.mockReturnValue({
+        favorites,
+        favoriteIds: new Set(favorites.map(f => f.id)),
+        collections: [...mockCollections, rostock, berlin],
+        loading: false,
+        addFavorite: jest.fn(),
+        removeFavorite: jest.fn(),
+        toggleFavorite: jest.fn(),
+        isFavorite: jest.fn(),
+        ...actions,
+        refreshFavorites: jest.fn(),
+        ...overrides,
+      });
+
+    it('should group favorites by collection', () => {
+      mockFavorites();
+
+      const { getByText } = render(<FavoritesScreen />);
+
+      expect(getByText('defaultCollection (1)')).toBeTruthy();
+      expect(getByText('Rostock weekend (2)')).toBeTruthy();
+      expect(getByText('Berlin 2027 (0)')).toBeTruthy();
+    });
+
+    it('should hide the empty default collection', () => {
+      mockFavorites({ favorites: favorites.slice(1) });
+
+      const { queryByTestId } = render(<FavoritesScreen />);
+
+      expect(queryByTestId('collection-default')).toBeNull();
+      expect(queryByTestId(`collection-${rostock.id}`)).toBeTruthy();
+    });
+
+    it('should list favorites of unknown collections in the default collection', () => {
+      mockFavorites({ favorites: [{ ...mockAttractions[0], collectionId: 'collection:deleted' }] });
+
+      const { getByText } = render(<FavoritesScreen />);
+
+      expect(getByText('defaultCollection (1)')).toBeTruthy();
+    });
+
+    it('should create a collection', async () => {
+      actions.createCollection.mockResolvedValue(berlin);
+      mockFavorites();
+
+      const { getByTestId } = render(<FavoritesScreen />);
+      fireEvent.changeText(getByTestId('new-collection-input'), 'Berlin 2027');
+      fireEvent.press(getByTestId('create-collection-button'));
+
+      expect(actions.createCollection).toHaveBeenCalledWith('Berlin 2027');
+    });
+
+    it('should rename a collection', () => {
+      mockFavorites();
+
+      const { getByTestId } = render(<FavoritesScreen />);
+      fireEvent.press(getByTestId(`rename-collection-${rostock.id}`));
+      fireEvent.changeText(getByTestId('collection-name-input'), 'Rostock long weekend');
+      fireEvent(getByTestId('collection-name-input'), 'endEditing');
+
+      expect(actions.renameCollection).toHaveBeenCalledTimes(1);
+      expect(actions.renameCollection).toHaveBeenCalledWith(rostock.id, 'Rostock long weekend');
+    });
+
+    it('should delete a collection after confirmation', () => {
+      const alertSpy = jest.spyOn(Alert, 'alert');
+      mockFavorites();
+
+      const { getByTestId } = render(<FavoritesScreen />);
+      fireEvent.press(getByTestId(`delete-collection-${rostock.id}`));
+
+      expect(actions.deleteCollection).not.toHaveBeenCalled();
+      const buttons = alertSpy.mock.calls[0][2]!;
+      buttons.find(button => button.style === 'destructive')!.onPress!();
+      expect(actions.deleteCollection).toHaveBeenCalledWith(rostock.id);
+    });
+
+    it('should not offer deleting the default collection', () => {
+      mockFavorites();
+
+      const { queryByTestId } = render(<FavoritesScreen />);
+
+      expect(queryByTestId('delete-collection-default')).toBeNull();
+    });
+
+    it('should move a favorite to another collection', () => {
+      mockFavorites();
+
+      const { getByTestId, queryByTestId } = render(<FavoritesScreen />);
+      fireEvent.press(getByTestId(`move-favorite-${favorites[0].id}`));
+
+      expect(queryByTestId(`move-to-${favorites[0].id}-default`)).toBeNull();
+      fireEvent.press(getByTestId(`move-to-${favorites[0].id}-${berlin.id}`));
+      expect(actions.moveFavorite).toHaveBeenCalledWith(favorites[0].id, berlin.id);
+    });
+
+    it('should toggle the visit status', () => {
+      mockFavorites();
+
+      const { getByTestId } = render(<FavoritesScreen />);
+      fireEvent.press(getByTestId(`visit-status-${favorites[0].id}`));
+      fireEvent.press(getByTestId(`visit-status-${favorites[1].id}`));
+
+      expect(actions.updateFavorite).toHaveBeenCalledWith(favorites[0].id, { visitStatus: 'visited' });
+      expect(actions.updateFavorite).toHaveBeenCalledWith(favorites[1].id, { visitStatus: 'planned' });
+    });
+
+    it('should show and edit notes', () => {
+      mockFavorites();
+
+      const { getByTestId, getByText } = render(<FavoritesScreen />);
+      expect(getByText('📝 Book tickets')).toBeTruthy();
+
+      fireEvent.press(getByTestId(`edit-note-${favorites[1].id}`));
+      fireEvent.changeText(getByTestId(`note-input-${favorites[1].id}`), '  Book tickets online ');
+      fireEvent(getByTestId(`note-input-${favorites[1].id}`), 'submitEditing');
+
+      expect(actions.updateFavorite).toHaveBeenCalledWith(favorites[1].id, { note: 'Book tickets online' });
+    });
+
+    it('should open the journal of a collection', () => {
+      mockFavorites();
+
+      const { getByTestId } = render(<FavoritesScreen />);
+      fireEvent.press(getByTestId(`journal-${rostock.id}`));
+
+      expect(mockNavigation.navigate).toHaveBeenCalledWith('Journal', { collectionId: rostock.id });
+    });
+
+    it('should show the visit date of visited favorites', () => {
+      mockFavorites({ favorites: [{ ...favorites[1], visitedAt: '2027-05-01T10:00:00.000Z' }] });
+
+      const { getByTestId } = render(<FavoritesScreen />);
+
+      expect(getByTestId(`visit-status-${favorites[1].id}`)).toHaveTextContent('✅ visitedOn');
+    });
+
+    it('should plan a trip through one collection', () => {
+      mockFavorites();
+
+      const { getByTestId } = render(<FavoritesScreen />);
+      fireEvent.press(getByTestId(`plan-trip-${rostock.id}`));
+
+      expect(mockNavigation.navigate).toHaveBeenCalledWith('Itinerary', { attractions: favorites.slice(1) });
+    });
+  });
+
+  describe('File export and import', () => {
+    const exportFavorites = jest.fn();
+    const importFavorites = jest.fn();
+
+    beforeEach(() => {
+      mockedUseFavorites.mockReturnValue({
+        favorites: mockAttractions,
+        favoriteIds: new Set(mockAttractions.map(f => f.id)),
+        collections: mockCollections,
+        loading: false,
+        addFavorite: jest.fn(),
+        removeFavorite: jest.fn(),
+        toggleFavorite: jest.fn(),
+        isFavorite: jest.fn(),
+        updateFavorite: jest.fn(),
+        moveFavorite: jest.fn(),
+        createCollection: jest.fn(),
+        renameCollection: jest.fn(),
+        deleteCollection: jest.fn(),
+        exportFavorites,
+        importFavorites,
+        refreshFavorites: jest.fn(),
+      });
+    });
+
+    it('should share favorites in the chosen format', async () => {
+      const shareSpy = jest.spyOn(Share, 'share').mockResolvedValue({ action: Share.sharedAction });
+      exportFavorites.mockResolvedValueOnce('<kml/>');
+
+      const { getByTestId, queryByTestId } = render(<FavoritesScreen />);
+      expect(queryByTestId('export-format-kml')).toBeNull();
+      fireEvent.press(getByTestId('export-favorites-button'));
+      fireEvent.press(getByTestId('export-format-kml'));
+
+      await waitFor(() => {
+        expect(shareSpy).toHaveBeenCalledWith({ title: 'favorites', message: '<kml/>' });
+      });
+      expect(exportFavorites).toHaveBeenCalledWith('kml', 'favorites');
+    });
+
+    it('should show an error when the export cannot be shared', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      const alertSpy = jest.spyOn(Alert, 'alert');
+      const shareSpy = jest.spyOn(Share, 'share').mockRejectedValueOnce(new Error('Share failed'));
+      exportFavorites.mockResolvedValueOnce('<kml/>');
+
+      const { getByTestId, queryByTestId } = render(<FavoritesScreen />);
+      fireEvent.press(getByTestId('export-favorites-button'));
+      fireEvent.press(getByTestId('export-format-kml'));
+
+      await waitFor(() => {
+        expect(alertSpy).toHaveBeenCalledWith('errorTitle', 'exportFailed');
+      });
+      expect(queryByTestId('export-format-kml')).toBeNull();
+      shareSpy.mockRestore();
+      consoleError.mockRestore();
+    });
+
+    it('should import the picked file and report the result', async () => {
+      const alertSpy = jest.spyOn(Alert, 'alert');
+      jest.spyOn(favoritesService, 'pickFavoritesFile').mockResolvedValueOnce('<gpx>…</gpx>');
+      importFavorites.mockResolvedValueOnce({ favorites: [], added: 2, duplicates: 1, invalid: 0 });
+
+      const { getByTestId } = render(<FavoritesScreen />);
+      fireEvent.press(getByTestId('import-favorites-button'));
+
+      await waitFor(() => {
+        expect(alertSpy).toHaveBeenCalledWith('importFavorites', 'importResult');
+      });
+      expect(importFavorites).toHaveBeenCalledWith('<gpx>…</gpx>');
+    });
+
+    it('should report files that are not supported', async () => {
+      const alertSpy = jest.spyOn(Alert, 'alert');
+      jest.spyOn(favoritesService, 'pickFavoritesFile').mockResolvedValueOnce('name,lat,lon');
+      importFavorites.mockResolvedValueOnce(null);
+
+      const { getByTestId } = render(<FavoritesScreen />);
+      fireEvent.press(getByTestId('import-favorites-button'));
+
+      await waitFor(() => {
+        expect(alertSpy).toHaveBeenCalledWith('errorTitle', 'importInvalidFile');
+      });
+    });
+
+    it('should report files that cannot be read', async () => {
+      const alertSpy = jest.spyOn(Alert, 'alert');
+      jest.spyOn(console, 'error').mockImplementation();
+      jest.spyOn(favoritesService, 'pickFavoritesFile').mockRejectedValueOnce(new Error('Permission denied'));
+
+      const { getByTestId } = render(<FavoritesScreen />);
+      fireEvent.press(getByTestId('import-favorites-button'));
+
+      await waitFor(() => {
+        expect(alertSpy).toHaveBeenCalledWith('errorTitle', 'importFailed');
+      });
+      expect(importFavorites).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing when no file was picked', async () => {
+      const alertSpy = jest.spyOn(Alert, 'alert');
+      const pickSpy = jest.spyOn(favoritesService, 'pickFavoritesFile').mockResolvedValueOnce(null);
+
+      const { getByTestId } = render(<FavoritesScreen />);
+      fireEvent.press(getByTestId('import-favorites-button'));
+
+      await waitFor(() => {
+        expect(pickSpy).toHaveBeenCalled();
+      });
+      expect(importFavorites).not.toHaveBeenCalled();
+      expect(alertSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Sorting, search and distance', () => {
+    // Berlin Cathedral is a few hundred meters from the position, the others about 2 km
+    const favorites = [
+      { ...mockAttractions[0], savedAt: '2026-03-01T10:00:00.000Z', note: 'Sunset' },
+      { ...mockAttractions[1], savedAt: '2026-03-03T10:00:00.000Z' },
+      { ...mockAttractions[2], savedAt: '2026-03-02T10:00:00.000Z' },
+    ];
+    const names = /^(Brandenburg Gate|Reichstag|Berlin Cathedral)$/;
+
+    const renderScreen = (located: boolean) => {
+      if (located) {
+        mockedUseLocation.mockReturnValue({
+          location: berlinCoordinates,
+          areaLocation: berlinCoordinates,
+          cityInfo: null,
+          loading: false,
+          error: null,
+          gpsStatus: 'ACTIVE',
+          refreshLocation: jest.fn()
+        });
+      }
+      mockedUseFavorites.mockReturnValue({
+        favorites,
+        favoriteIds: new Set(favorites.map(f => f.id)),
+        loading: false,
+        addFavorite: jest.fn(),
+        removeFavorite: jest.fn(),
+        toggleFavorite: jest.fn(),
+        isFavorite: jest.fn(),
+        collections: mockCollections,
+        updateFavorite: jest.fn(),
+        moveFavorite: jest.fn(),
+        createCollection: jest.fn(),
+        renameCollection: jest.fn(),
+        deleteCollection: jest.fn(),
+        exportFavorites: jest.fn(),
+        importFavorites: jest.fn(),
+        refreshFavorites: jest.fn()
+      });
+      return render(<FavoritesScreen />);
+    };
+
+    const shownNames = (getAllByText: (text: RegExp) => Array<{ props: { children: unknown } }>) =>
+      getAllByText(names).map(element => element.props.children);
+
+    it('should show the distance from the current position', () => {
+      const { getByTestId } = renderScreen(true);
+
+      // The stored distance of 500 m is from when the favorite was saved
+      expect(getByTestId('favorite-distance-1').props.children).toEqual(['📍 ', '1.9 km']);
+    });
+
+    it('should not show distances without a position', () => {
+      const { queryByTestId } = renderScreen(false);
+
+      expect(queryByTestId('favorite-distance-1')).toBeNull();
+      expect(queryByTestId('favorites-sort-distance')).toBeNull();
+    });
+
+    it('should list favorites within walking distance first', () => {
+      const { getByTestId, getByText, getAllByText } = renderScreen(true);
+
+      expect(getByTestId('nearby-section')).toBeTruthy();
+      expect(getByText('🚶 nearbyFavorites (1)')).toBeTruthy();
+      expect(shownNames(getAllByText)).toEqual(['Berlin Cathedral', 'Berlin Cathedral', 'Brandenburg Gate', 'Reichstag']);
+    });
+
+    it('should not show the nearby section without a position', () => {
+      const { queryByTestId } = renderScreen(false);
+
+      expect(queryByTestId('nearby-section')).toBeNull();
+    });
+
+    it('should sort by date saved, newest first, without a position', () => {
+      const { getAllByText } = renderScreen(false);
+
+      expect(shownNames(getAllByText)).toEqual(['Reichstag', 'Berlin Cathedral', 'Brandenburg Gate']);
+    });
+
+    it('should sort by name', () => {
+      const { getByTestId, getAllByText } = renderScreen(false);
+
+      fireEvent.press(getByTestId('favorites-sort-name'));
+
+      expect(shownNames(getAllByText)).toEqual(['Berlin Cathedral', 'Brandenburg Gate', 'Reichstag']);
+    });
+
+    it('should search names, types and notes', () => {
+      const { getByTestId, getAllByText, queryByText } = renderScreen(false);
+
+      fireEvent.changeText(getByTestId('favorites-search-input'), 'REICH');
+      expect(shownNames(getAllByText)).toEqual(['Reichstag']);
+
+      fireEvent.changeText(getByTestId('favorites-search-input'), 'sunset');
+      expect(shownNames(getAllByText)).toEqual(['Brandenburg Gate']);
+
+      fireEvent.changeText(getByTestId('favorites-search-input'), 'museum');
+      expect(queryByText('noMatchingFavorites')).toBeTruthy();
+    });
+  });
+
   describe('Rating display', () => {
     it('should show rating with star emoji', () => {
       const favorites = [createMockAttraction({ rating: 4.5 })];
@@ -198,6 +690,14 @@ describe('FavoritesScreen', () => {
         removeFavorite: jest.fn(),
         toggleFavorite: jest.fn(),
         isFavorite: jest.fn(),
+        collections: mockCollections,
+        updateFavorite: jest.fn(),
+        moveFavorite: jest.fn(),
+        createCollection: jest.fn(),
+        renameCollection: jest.fn(),
+        deleteCollection: jest.fn(),
+        exportFavorites: jest.fn(),
+        importFavorites: jest.fn(),
         refreshFavorites: jest.fn()
       });
 
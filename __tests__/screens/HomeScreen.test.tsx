@@ -4,33 +4,55 @@
  */
 
 import React from 'react';
-import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { render, fireEvent, waitFor, act } from '@testing-library/react-native';
 import HomeScreen from '../../src/screens/HomeScreen';
-import { useLocation, useFavorites, useAttractions } from '../../src/hooks';
+import {
+  useLocation,
+  useFavorites,
+  useAttractions,
+  useListOptions,
+  useRouteEstimates,
+  useVisitTracking,
+  useProximityAlerts,
+  useWalkingTour,
+} from '../../src/hooks';
 import { locationService } from '../../src/services';
 import { createMockNavigation } from '../setup/mocks';
-import { mockAttractions } from '../fixtures/attractions';
+import { mockAttractions, createMockAttraction } from '../fixtures/attractions';
 import { berlinCoordinates } from '../fixtures/locations';
-import { Alert, Linking } from 'react-native';
+import { DEFAULT_LIST_OPTIONS } from '../../src/utils/attractionList';
+import { Alert, Linking, Share } from 'react-native';
+import Toast from 'react-native-toast-message';
 
 // Mock hooks and navigation
 jest.mock('../../src/hooks');
 jest.mock('../../src/services');
+// Props of the last rendered search bar
+const mockSearchBar: {
+  onSelectLocation?: (result: any) => Promise<void>;
+  onSelectAttraction?: (attraction: any) => void;
+  attractions?: any[];
+} = {};
 jest.mock('../../src/components/LocationSearchBar', () => {
   const React = require('react');
   const { View, Text } = require('react-native');
   return {
     __esModule: true,
-    default: ({ onSelectLocation }: any) => (
-      <View testID="location-search-bar">
-        <Text>LocationSearchBar Mock</Text>
-      </View>
-    ),
+    default: ({ onSelectLocation, onSelectAttraction, attractions }: any) => {
+      Object.assign(mockSearchBar, { onSelectLocation, onSelectAttraction, attractions });
+      return (
+        <View testID="location-search-bar">
+          <Text>LocationSearchBar Mock</Text>
+        </View>
+      );
+    },
   };
 });
 jest.mock('@react-navigation/native', () => ({
   useNavigation: jest.fn()
 }));
+// Language of the app, changed by tests switching it
+let mockLanguage = 'en';
 jest.mock('react-i18next', () => ({
   useTranslation: () => ({
     t: (key: string, options?: any) => {
@@ -51,13 +73,17 @@ jest.mock('react-i18next', () => ({
         'openSettings': 'Open Settings',
       };
       return translations[key] || key;
-    }
+    },
+    i18n: { language: mockLanguage }
   })
 }));
 
 const mockedUseLocation = useLocation as jest.MockedFunction<typeof useLocation>;
 const mockedUseFavorites = useFavorites as jest.MockedFunction<typeof useFavorites>;
 const mockedUseAttractions = useAttractions as jest.MockedFunction<typeof useAttractions>;
+const mockedUseListOptions = useListOptions as jest.MockedFunction<typeof useListOptions>;
+const mockedUseRouteEstimates = useRouteEstimates as jest.MockedFunction<typeof useRouteEstimates>;
+const mockedUseWalkingTour = useWalkingTour as jest.MockedFunction<typeof useWalkingTour>;
 const mockedLocationService = locationService as jest.Mocked<typeof locationService>;
 
 describe('HomeScreen', () => {
@@ -66,10 +92,12 @@ describe('HomeScreen', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockLanguage = 'en';
     useNavigation.mockReturnValue(mockNavigation);
     
     mockedUseLocation.mockReturnValue({
       location: berlinCoordinates,
+      areaLocation: berlinCoordinates,
       cityInfo: { city: 'Berlin', country: 'Germany', state: 'Berlin', fullAddress: 'Berlin, Germany', latitude: 52.52, longitude: 13.40 },
       loading: false,
       error: null,
@@ -85,6 +113,14 @@ describe('HomeScreen', () => {
       removeFavorite: jest.fn(),
       toggleFavorite: jest.fn(),
       isFavorite: jest.fn(),
+      collections: [],
+      updateFavorite: jest.fn(),
+      moveFavorite: jest.fn(),
+      createCollection: jest.fn(),
+      renameCollection: jest.fn(),
+      deleteCollection: jest.fn(),
+      exportFavorites: jest.fn(),
+      importFavorites: jest.fn(),
       refreshFavorites: jest.fn()
     });
 
@@ -92,15 +128,31 @@ describe('HomeScreen', () => {
       attractions: mockAttractions,
       loading: false,
       error: null,
+      radius: null,
+      loadingMore: false,
+      hasMore: false,
       loadAttractions: jest.fn(),
+      loadMoreAttractions: jest.fn(),
       classifyAttractions: jest.fn()
     });
+
+    mockedUseListOptions.mockReturnValue({
+      listOptions: DEFAULT_LIST_OPTIONS,
+      updateListOptions: jest.fn(),
+      toggleType: jest.fn(),
+      clearFilters: jest.fn()
+    });
+
+    mockedUseRouteEstimates.mockReturnValue({ estimates: new Map(), loading: false });
+
+    mockedUseWalkingTour.mockReturnValue({ enabled: false, setEnabled: jest.fn(), exportTrack: jest.fn() });
   });
 
   describe('Loading state', () => {
     it('should show loading indicator when location is loading', () => {
       mockedUseLocation.mockReturnValue({
         location: null,
+        areaLocation: null,
         cityInfo: null,
         loading: true,
         error: null,
@@ -141,13 +193,21 @@ describe('HomeScreen', () => {
         removeFavorite: jest.fn(),
         toggleFavorite: mockToggleFavorite,
         isFavorite: jest.fn(),
+        collections: [],
+        updateFavorite: jest.fn(),
+        moveFavorite: jest.fn(),
+        createCollection: jest.fn(),
+        renameCollection: jest.fn(),
+        deleteCollection: jest.fn(),
+        exportFavorites: jest.fn(),
+        importFavorites: jest.fn(),
         refreshFavorites: jest.fn()
       });
 
       const { getAllByText } = render(<HomeScreen />);
       
       // Find favorite button (🤍 or ❤️)
-      const favoriteButtons = getAllByText(/🤍|❤️/);
+      const favoriteButtons = getAllByText(/^(🤍|❤️)$/);
       if (favoriteButtons.length > 0) {
         fireEvent.press(favoriteButtons[0]);
         expect(mockToggleFavorite).toHaveBeenCalled();
@@ -155,11 +215,543 @@ describe('HomeScreen', () => {
     });
   });
 
+  describe('Attraction details', () => {
+    it('should navigate to Details with the attraction when info button is pressed', () => {
+      const { getByTestId } = render(<HomeScreen />);
+
+      fireEvent.press(getByTestId(`details-button-${mockAttractions[0].id}`));
+
+      expect(mockNavigation.navigate).toHaveBeenCalledWith('Details', {
+        location: mockAttractions[0].name,
+        coordinates: {
+          latitude: mockAttractions[0].latitude,
+          longitude: mockAttractions[0].longitude,
+        },
+        attraction: mockAttractions[0],
+      });
+    });
+
+    it('should search the loaded attractions and open selected ones in Details', () => {
+      render(<HomeScreen />);
+
+      expect(mockSearchBar.attractions).toBe(mockAttractions);
+      act(() => {
+        mockSearchBar.onSelectAttraction?.(mockAttractions[1]);
+      });
+
+      expect(mockNavigation.navigate).toHaveBeenCalledWith('Details', {
+        location: mockAttractions[1].name,
+        coordinates: {
+          latitude: mockAttractions[1].latitude,
+          longitude: mockAttractions[1].longitude,
+        },
+        attraction: mockAttractions[1],
+      });
+    });
+  });
+
+  describe('Trip planning', () => {
+    it('should plan a trip through the listed attractions from the current location', () => {
+      const { getByTestId } = render(<HomeScreen />);
+
+      fireEvent.press(getByTestId('plan-trip-button'));
+
+      expect(mockNavigation.navigate).toHaveBeenCalledWith('Itinerary', {
+        attractions: mockAttractions,
+        origin: berlinCoordinates,
+      });
+    });
+  });
+
+  describe('Visit tracking', () => {
+    it('should track visits at the GPS position', () => {
+      render(<HomeScreen />);
+
+      expect(useVisitTracking).toHaveBeenCalledWith(berlinCoordinates, expect.any(Function));
+    });
+
+    it('should announce favorites marked as visited', () => {
+      const toastSpy = jest.spyOn(Toast, 'show').mockImplementation();
+      render(<HomeScreen />);
+
+      const onVisited = (useVisitTracking as jest.Mock).mock.calls[0][1];
+      onVisited([mockAttractions[0], mockAttractions[1]]);
+
+      expect(toastSpy).toHaveBeenCalledWith({ type: 'success', text1: 'visitRecorded' });
+      toastSpy.mockRestore();
+    });
+  });
+
+  describe('Proximity alerts', () => {
+    const highMatch = createMockAttraction({ id: 'match', name: 'Pergamon Museum', interestScore: 9 });
+
+    const triggerAlerts = () => {
+      const onAlert = (useProximityAlerts as jest.Mock).mock.calls[0][3];
+      onAlert([
+        { attraction: highMatch, reason: 'highMatch', distance: 240 },
+        { attraction: mockAttractions[1], reason: 'favorite', distance: 450 },
+      ]);
+    };
+
+    it('should check attractions near the GPS position', () => {
+      render(<HomeScreen />);
+
+      expect(useProximityAlerts).toHaveBeenCalledWith(berlinCoordinates, [], mockAttractions, expect.any(Function));
+    });
+
+    it('should announce the closest place and list the others', () => {
+      const toastSpy = jest.spyOn(Toast, 'show').mockImplementation();
+      render(<HomeScreen />);
+
+      triggerAlerts();
+
+      expect(toastSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'info',
+          text1: 'proximityHighMatch',
+          text2: 'proximityDistance · proximityAlsoNearby',
+        })
+      );
+      toastSpy.mockRestore();
+    });
+
+    it('should open the details of the announced place', () => {
+      const toastSpy = jest.spyOn(Toast, 'show').mockImplementation();
+      jest.spyOn(Toast, 'hide').mockImplementation();
+      render(<HomeScreen />);
+
+      triggerAlerts();
+      toastSpy.mock.calls[0][0].onPress?.();
+
+      expect(mockNavigation.navigate).toHaveBeenCalledWith('Details', {
+        location: 'Pergamon Museum',
+        coordinates: { latitude: highMatch.latitude, longitude: highMatch.longitude },
+        attraction: highMatch,
+      });
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('Walking tour', () => {
+    it('should only track in the background during a walking tour', () => {
+      const { rerender } = render(<HomeScreen />);
+      expect(mockedUseLocation).toHaveBeenLastCalledWith(true, false);
+
+      mockedUseWalkingTour.mockReturnValue({ enabled: true, setEnabled: jest.fn(), exportTrack: jest.fn() });
+      rerender(<HomeScreen />);
+
+      expect(mockedUseLocation).toHaveBeenLastCalledWith(true, true);
+    });
+
+    it('should only reload attractions after larger moves', () => {
+      const loadAttractions = jest.fn();
+      mockedUseAttractions.mockReturnValue({
+        attractions: mockAttractions,
+        loading: false,
+        error: null,
+        radius: 2500,
+        loadingMore: false,
+        hasMore: false,
+        loadAttractions,
+        loadMoreAttractions: jest.fn(),
+        classifyAttractions: jest.fn()
+      });
+      const nearby = { latitude: 52.5205, longitude: 13.405 };
+      const { rerender } = render(<HomeScreen />);
+
+      mockedUseLocation.mockReturnValue({ ...mockedUseLocation(true, true), location: nearby, gpsStatus: 'BACKGROUND' });
+      rerender(<HomeScreen />);
+
+      expect(loadAttractions).toHaveBeenCalledTimes(1);
+      expect(mockedUseRouteEstimates).toHaveBeenLastCalledWith(berlinCoordinates, mockAttractions, 'walking');
+      expect(useVisitTracking).toHaveBeenLastCalledWith(nearby, expect.any(Function));
+    });
+
+    it('should start a walking tour', () => {
+      const setEnabled = jest.fn();
+      mockedUseWalkingTour.mockReturnValue({ enabled: false, setEnabled, exportTrack: jest.fn() });
+      const { getByTestId, queryByTestId } = render(<HomeScreen />);
+
+      fireEvent.press(getByTestId('walking-tour-button'));
+
+      expect(setEnabled).toHaveBeenCalledWith(true);
+      expect(queryByTestId('share-track-button')).toBeNull();
+    });
+
+    it('should share the walked track as GPX', async () => {
+      const shareSpy = jest.spyOn(Share, 'share').mockResolvedValue({ action: 'sharedAction' });
+      const exportTrack = jest.fn().mockResolvedValue('<gpx />');
+      mockedUseWalkingTour.mockReturnValue({ enabled: true, setEnabled: jest.fn(), exportTrack });
+      const { getByTestId } = render(<HomeScreen />);
+
+      fireEvent.press(getByTestId('share-track-button'));
+
+      await waitFor(() => {
+        expect(shareSpy).toHaveBeenCalledWith({ title: 'walkingTour', message: '<gpx />' });
+      });
+      expect(exportTrack).toHaveBeenCalled();
+      shareSpy.mockRestore();
+    });
+
+    it('should show an error when the track cannot be shared', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      const alertSpy = jest.spyOn(Alert, 'alert');
+      const shareSpy = jest.spyOn(Share, 'share').mockRejectedValue(new Error('Share failed'));
+      const exportTrack = jest.fn().mockResolvedValue('<gpx />');
+      mockedUseWalkingTour.mockReturnValue({ enabled: true, setEnabled: jest.fn(), exportTrack });
+      const { getByTestId } = render(<HomeScreen />);
+
+      fireEvent.press(getByTestId('share-track-button'));
+
+      await waitFor(() => {
+        expect(alertSpy).toHaveBeenCalledWith('errorTitle', 'shareFailed');
+      });
+      shareSpy.mockRestore();
+      alertSpy.mockRestore();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('Opening hours', () => {
+    const openAttraction = createMockAttraction({ id: 'open', name: 'Always Open', openingHours: '24/7' });
+    const closedAttraction = createMockAttraction({ id: 'closed', name: 'Never Open', openingHours: 'off' });
+    const unknownAttraction = createMockAttraction({ id: 'unknown', name: 'No Hours' });
+
+    beforeEach(() => {
+      mockedUseAttractions.mockReturnValue({
+        attractions: [openAttraction, closedAttraction, unknownAttraction],
+        loading: false,
+        error: null,
+        radius: null,
+        loadingMore: false,
+        hasMore: false,
+        loadAttractions: jest.fn(),
+        loadMoreAttractions: jest.fn(),
+        classifyAttractions: jest.fn()
+      });
+    });
+
+    it('should show an open/closed badge for attractions with opening hours', () => {
+      const { getByTestId, queryByTestId } = render(<HomeScreen />);
+
+      expect(getByTestId('opening-status-open').props.children).toContain('openNow');
+      expect(getByTestId('opening-status-closed').props.children).toContain('closedNow');
+      expect(queryByTestId('opening-status-unknown')).toBeNull();
+    });
+
+    it('should only list open attractions when the open-now filter is active', () => {
+      const { getByTestId, getByText, queryByText } = render(<HomeScreen />);
+
+      fireEvent.press(getByTestId('open-now-filter'));
+
+      expect(getByText('Always Open')).toBeTruthy();
+      expect(queryByText('Never Open')).toBeNull();
+      expect(queryByText('No Hours')).toBeNull();
+
+      fireEvent.press(getByTestId('open-now-filter'));
+
+      expect(getByText('Never Open')).toBeTruthy();
+    });
+
+    it('should explain an empty list when nothing is open', () => {
+      mockedUseAttractions.mockReturnValue({
+        attractions: [closedAttraction],
+        loading: false,
+        error: null,
+        radius: null,
+        loadingMore: false,
+        hasMore: false,
+        loadAttractions: jest.fn(),
+        loadMoreAttractions: jest.fn(),
+        classifyAttractions: jest.fn()
+      });
+      const { getByTestId, getByText } = render(<HomeScreen />);
+
+      fireEvent.press(getByTestId('open-now-filter'));
+
+      expect(getByText('noOpenAttractions')).toBeTruthy();
+    });
+  });
+
+  describe('Search radius', () => {
+    it('should load attractions with an adaptive radius by default', () => {
+      const loadAttractions = jest.fn();
+      mockedUseAttractions.mockReturnValue({
+        attractions: mockAttractions,
+        loading: false,
+        error: null,
+        radius: 2500,
+        loadingMore: false,
+        hasMore: false,
+        loadAttractions,
+        loadMoreAttractions: jest.fn(),
+        classifyAttractions: jest.fn()
+      });
+
+      const { getByText } = render(<HomeScreen />);
+
+      expect(loadAttractions).toHaveBeenCalledWith(berlinCoordinates, 'auto');
+      expect(getByText('radiusAuto (2.5 km)')).toBeTruthy();
+    });
+
+    it('should reload attractions when a fixed radius is selected', () => {
+      const loadAttractions = jest.fn();
+      mockedUseAttractions.mockReturnValue({
+        attractions: mockAttractions,
+        loading: false,
+        error: null,
+        radius: 5000,
+        loadingMore: false,
+        hasMore: false,
+        loadAttractions,
+        loadMoreAttractions: jest.fn(),
+        classifyAttractions: jest.fn()
+      });
+
+      const { getByTestId, getByText } = render(<HomeScreen />);
+
+      expect(getByText('radiusAuto (5 km)')).toBeTruthy();
+
+      fireEvent.press(getByTestId('radius-option-10000'));
+
+      expect(loadAttractions).toHaveBeenLastCalledWith(berlinCoordinates, 10000);
+      expect(getByText('radiusAuto')).toBeTruthy();
+    });
+
+    it('should store the effective radius for the map', async () => {
+      const { storageService } = require('../../src/services');
+      mockedUseAttractions.mockReturnValue({
+        attractions: mockAttractions,
+        loading: false,
+        error: null,
+        radius: 20000,
+        loadingMore: false,
+        hasMore: false,
+        loadAttractions: jest.fn(),
+        loadMoreAttractions: jest.fn(),
+        classifyAttractions: jest.fn()
+      });
+
+      render(<HomeScreen />);
+
+      await waitFor(() => {
+        expect(storageService.set).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.objectContaining({ location: berlinCoordinates, radius: 20000 })
+        );
+      });
+    });
+  });
+
+  describe('Sort and filter', () => {
+    const scoredAttractions = [
+      createMockAttraction({ id: '1', name: 'Zoo', type: 'zoo', distance: 100, interestScore: 6 }),
+      createMockAttraction({ id: '2', name: 'Museum', type: 'museum', distance: 200, interestScore: 9 }),
+      createMockAttraction({ id: '3', name: 'Castle', type: 'castle', distance: 300 }),
+    ];
+
+    const mockListOptions = (listOptions: Partial<typeof DEFAULT_LIST_OPTIONS>) => {
+      const handlers = { updateListOptions: jest.fn(), toggleType: jest.fn(), clearFilters: jest.fn() };
+      mockedUseListOptions.mockReturnValue({ listOptions: { ...DEFAULT_LIST_OPTIONS, ...listOptions }, ...handlers });
+      return handlers;
+    };
+
+    beforeEach(() => {
+      mockedUseAttractions.mockReturnValue({
+        attractions: scoredAttractions,
+        loading: false,
+        error: null,
+        radius: null,
+        loadingMore: false,
+        hasMore: false,
+        loadAttractions: jest.fn(),
+        loadMoreAttractions: jest.fn(),
+        classifyAttractions: jest.fn()
+      });
+    });
+
+    it('should sort the list by the chosen key', () => {
+      mockListOptions({ sortBy: 'name' });
+
+      const { getAllByText } = render(<HomeScreen />);
+      const names = getAllByText(/^(Zoo|Museum|Castle)$/).map(node => node.props.children);
+
+      expect(names).toEqual(['Castle', 'Museum', 'Zoo']);
+    });
+
+    it('should update the sort key when a sort option is pressed', () => {
+      const { updateListOptions } = mockListOptions({});
+
+      const { getByTestId } = render(<HomeScreen />);
+      fireEvent.press(getByTestId('sort-option-rating'));
+
+      expect(updateListOptions).toHaveBeenCalledWith({ sortBy: 'rating' });
+    });
+
+    it('should offer the loaded types and toggle them', () => {
+      const { toggleType } = mockListOptions({});
+
+      const { getByTestId } = render(<HomeScreen />);
+      fireEvent.press(getByTestId('type-filter-museum'));
+
+      expect(getByTestId('type-filter-zoo')).toBeTruthy();
+      expect(getByTestId('type-filter-castle')).toBeTruthy();
+      expect(toggleType).toHaveBeenCalledWith('museum');
+    });
+
+    it('should apply type, match score and favorite filters', () => {
+      mockListOptions({ types: ['museum', 'zoo'], minMatchScore: 7 });
+
+      const { queryByText } = render(<HomeScreen />);
+
+      expect(queryByText('Museum')).toBeTruthy();
+      expect(queryByText('Zoo')).toBeNull();
+      expect(queryByText('Castle')).toBeNull();
+    });
+
+    it('should show only favorites when requested', () => {
+      mockListOptions({ favoritesOnly: true });
+      mockedUseFavorites.mockReturnValue({
+        ...mockedUseFavorites(),
+        favoriteIds: new Set(['3']),
+      });
+
+      const { queryByText } = render(<HomeScreen />);
+
+      expect(queryByText('Castle')).toBeTruthy();
+      expect(queryByText('Zoo')).toBeNull();
+    });
+
+    it('should toggle the minimum match score', () => {
+      const { updateListOptions } = mockListOptions({ minMatchScore: 7 });
+
+      const { getByTestId } = render(<HomeScreen />);
+      fireEvent.press(getByTestId('match-filter-7'));
+      fireEvent.press(getByTestId('match-filter-8'));
+
+      expect(updateListOptions).toHaveBeenNthCalledWith(1, { minMatchScore: 0 });
+      expect(updateListOptions).toHaveBeenNthCalledWith(2, { minMatchScore: 8 });
+    });
+
+    it('should hide match score filters before classification', () => {
+      mockListOptions({});
+      mockedUseAttractions.mockReturnValue({
+        ...mockedUseAttractions(),
+        attractions: mockAttractions,
+      });
+
+      const { queryByTestId } = render(<HomeScreen />);
+
+      expect(queryByTestId('match-filter-7')).toBeNull();
+    });
+
+    it('should explain an empty filtered list and allow clearing the filters', () => {
+      const { clearFilters } = mockListOptions({ favoritesOnly: true });
+
+      const { getByText, getByTestId } = render(<HomeScreen />);
+
+      expect(getByText('noMatchingAttractions')).toBeTruthy();
+      fireEvent.press(getByTestId('clear-filters'));
+      expect(clearFilters).toHaveBeenCalled();
+    });
+
+    it('should store the filtered attractions for the map', async () => {
+      const { storageService } = require('../../src/services');
+      mockListOptions({ types: ['castle'] });
+
+      render(<HomeScreen />);
+
+      await waitFor(() => {
+        expect(storageService.set).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.objectContaining({ attractions: [scoredAttractions[2]] })
+        );
+      });
+    });
+  });
+
+  describe('Route estimates', () => {
+    it('should show the straight-line distance until routes are estimated', () => {
+      const { getByTestId } = render(<HomeScreen />);
+
+      expect(getByTestId('route-estimate-1').props.children).toBe('distance: 500 m');
+      expect(mockedUseRouteEstimates).toHaveBeenCalledWith(berlinCoordinates, mockAttractions, 'walking');
+    });
+
+    it('should show route time and distance', () => {
+      mockedUseRouteEstimates.mockReturnValue({
+        estimates: new Map([
+          ['1', { distance: 1240, duration: 900, estimated: false }],
+          ['2', { distance: 700, duration: 500, estimated: true }],
+        ]),
+        loading: false,
+      });
+
+      const { getByTestId } = render(<HomeScreen />);
+
+      expect(getByTestId('route-estimate-1').props.children).toBe('🚶 15 min · 1.2 km');
+      expect(getByTestId('route-estimate-2').props.children).toBe('🚶 ~8 min · ~700 m');
+    });
+
+    it('should estimate for the selected travel mode', () => {
+      const { getByTestId } = render(<HomeScreen />);
+
+      fireEvent.press(getByTestId('travel-mode-cycling'));
+
+      expect(mockedUseRouteEstimates).toHaveBeenLastCalledWith(berlinCoordinates, mockAttractions, 'cycling');
+    });
+  });
+
+  describe('Load more', () => {
+    const mockPagedAttractions = (overrides: Partial<ReturnType<typeof useAttractions>>) => {
+      const loadMoreAttractions = jest.fn();
+      mockedUseAttractions.mockReturnValue({
+        attractions: mockAttractions,
+        loading: false,
+        error: null,
+        radius: 5000,
+        loadingMore: false,
+        hasMore: true,
+        loadAttractions: jest.fn(),
+        loadMoreAttractions,
+        classifyAttractions: jest.fn(),
+        ...overrides,
+      });
+      return loadMoreAttractions;
+    };
+
+    it('should load more attractions when the end of the list is reached', () => {
+      const loadMoreAttractions = mockPagedAttractions({});
+      const { getByTestId } = render(<HomeScreen />);
+
+      fireEvent(getByTestId('attractions-list'), 'onEndReached');
+
+      expect(loadMoreAttractions).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not load more when all attractions are shown', () => {
+      const loadMoreAttractions = mockPagedAttractions({ hasMore: false });
+      const { getByTestId } = render(<HomeScreen />);
+
+      fireEvent(getByTestId('attractions-list'), 'onEndReached');
+
+      expect(loadMoreAttractions).not.toHaveBeenCalled();
+    });
+
+    it('should show an indicator below the list while loading more', () => {
+      mockPagedAttractions({ loadingMore: true });
+      const { getByTestId } = render(<HomeScreen />);
+
+      expect(getByTestId('load-more-indicator')).toBeTruthy();
+    });
+  });
+
   describe('Pull to refresh', () => {
     it('should refresh location on pull down', async () => {
       const mockRefreshLocation = jest.fn().mockResolvedValue(undefined);
       mockedUseLocation.mockReturnValue({
         location: berlinCoordinates,
+        areaLocation: berlinCoordinates,
         cityInfo: null,
         loading: false,
         gpsStatus: 'ACTIVE',
@@ -188,6 +780,92 @@ describe('HomeScreen', () => {
       
       expect(getByTestId('location-search-bar')).toBeTruthy();
     });
+
+    it('should name a searched place in the new language after a switch', async () => {
+      const munich = { latitude: 48.1351, longitude: 11.582 };
+      mockedLocationService.selectSearchResult.mockResolvedValueOnce({
+        city: 'Munich',
+        country: 'Germany',
+        fullAddress: 'Munich, Bavaria, Germany',
+        ...munich,
+      });
+      mockedLocationService.reverseGeocode.mockResolvedValueOnce({
+        city: 'München',
+        country: 'Deutschland',
+        state: 'Bayern',
+        fullAddress: 'München, Bayern, Deutschland',
+        latitude: 48.1372,
+        longitude: 11.5755,
+      });
+      const { getByText, rerender } = render(<HomeScreen />);
+
+      await act(async () => {
+        await mockSearchBar.onSelectLocation?.({ coordinates: munich });
+      });
+      expect(getByText('🔍 Munich')).toBeTruthy();
+
+      mockLanguage = 'de';
+      rerender(<HomeScreen />);
+
+      await waitFor(() => {
+        expect(getByText('🔍 München')).toBeTruthy();
+      });
+      expect(mockedLocationService.reverseGeocode).toHaveBeenCalledWith(munich);
+    });
+
+    it('should store a searched place for the map while GPS is unavailable', async () => {
+      const { storageService } = require('../../src/services');
+      const munich = { latitude: 48.1351, longitude: 11.582 };
+      mockedUseLocation.mockReturnValue({
+        location: null,
+        areaLocation: null,
+        cityInfo: null,
+        loading: false,
+        gpsStatus: 'UNAVAILABLE',
+        error: null,
+        refreshLocation: jest.fn(),
+      });
+      mockedLocationService.selectSearchResult.mockResolvedValueOnce({
+        city: 'Munich',
+        country: 'Germany',
+        fullAddress: 'Munich, Bavaria, Germany',
+        ...munich,
+      });
+      const { rerender } = render(<HomeScreen />);
+
+      await act(async () => {
+        await mockSearchBar.onSelectLocation?.({ coordinates: munich });
+      });
+      storageService.set.mockClear();
+      mockedUseAttractions.mockReturnValue({
+        attractions: mockAttractions,
+        loading: false,
+        error: null,
+        radius: 5000,
+        loadingMore: false,
+        hasMore: false,
+        loadAttractions: jest.fn(),
+        loadMoreAttractions: jest.fn(),
+        classifyAttractions: jest.fn(),
+      });
+      rerender(<HomeScreen />);
+
+      await waitFor(() => {
+        expect(storageService.set).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.objectContaining({ location: munich, attractions: mockAttractions, useGPS: false })
+        );
+      });
+    });
+
+    it('should leave the GPS city to the location hook', () => {
+      const { rerender } = render(<HomeScreen />);
+
+      mockLanguage = 'de';
+      rerender(<HomeScreen />);
+
+      expect(mockedLocationService.reverseGeocode).not.toHaveBeenCalled();
+    });
   });
 
   describe('Interest score highlighting', () => {
@@ -202,7 +880,11 @@ describe('HomeScreen', () => {
         attractions: highInterestAttractions,
         loading: false,
         error: null,
+        radius: null,
+        loadingMore: false,
+        hasMore: false,
         loadAttractions: jest.fn(),
+        loadMoreAttractions: jest.fn(),
         classifyAttractions: jest.fn()
       });
 
@@ -236,6 +918,7 @@ describe('HomeScreen', () => {
     it('should not show cityInfo link when cityInfo is null', () => {
       mockedUseLocation.mockReturnValue({
         location: berlinCoordinates,
+        areaLocation: berlinCoordinates,
         cityInfo: null,
         loading: false,
         error: null,
@@ -251,6 +934,7 @@ describe('HomeScreen', () => {
     it('should show error message when location fails', () => {
       mockedUseLocation.mockReturnValue({
         location: null,
+        areaLocation: null,
         cityInfo: null,
         loading: false,
         error: 'Location permission denied',
@@ -273,6 +957,7 @@ describe('HomeScreen', () => {
       const mockRefreshLocation = jest.fn().mockResolvedValue(undefined);
       mockedUseLocation.mockReturnValue({
         location: berlinCoordinates,
+        areaLocation: berlinCoordinates,
         cityInfo: null,
         loading: false,
         error: null,
@@ -292,6 +977,7 @@ describe('HomeScreen', () => {
     it('should disable GPS button when status is SEARCHING', () => {
       mockedUseLocation.mockReturnValue({
         location: null,
+        areaLocation: null,
         cityInfo: null,
         loading: false,
         error: null,
@@ -312,6 +998,7 @@ describe('HomeScreen', () => {
       
       mockedUseLocation.mockReturnValue({
         location: berlinCoordinates,
+        areaLocation: berlinCoordinates,
         cityInfo: null,
         loading: false,
         error: null,
@@ -342,6 +1029,7 @@ describe('HomeScreen', () => {
     it('should match snapshot with loading state', () => {
       mockedUseLocation.mockReturnValue({
         location: null,
+        areaLocation: null,
         cityInfo: null,
         loading: true,
         gpsStatus: 'SEARCHING',
@@ -353,7 +1041,11 @@ describe('HomeScreen', () => {
         attractions: [],
         loading: true,
         error: null,
+        radius: null,
+        loadingMore: false,
+        hasMore: false,
         loadAttractions: jest.fn(),
+        loadMoreAttractions: jest.fn(),
         classifyAttractions: jest.fn()
       });
 
@@ -367,7 +1059,11 @@ describe('HomeScreen', () => {
         attractions: [],
         loading: false,
         error: null,
+        radius: null,
+        loadingMore: false,
+        hasMore: false,
         loadAttractions: jest.fn(),
+        loadMoreAttractions: jest.fn(),
         classifyAttractions: jest.fn()
       });
 
@@ -0,0 +1,157 @@
+/**
+ * Tests for ItineraryScreen component
+ * Coverage target: 75%
+ */
+
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { Alert, Linking, Share } from 'react-native';
+import ItineraryScreen from '../../src/screens/ItineraryScreen';
+import { locationService } from '../../src/services';
+import { createMockRoute } from '../setup/mocks';
+import { createMockAttraction } from '../fixtures/attractions';
+import { ITINERARY_CONFIG } from '../../src/constants';
+
+jest.mock('../../src/services');
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => key,
+    i18n: { language: 'en' }
+  })
+}));
+
+const mockedLocationService = locationService as jest.Mocked<typeof locationService>;
+
+const origin = { latitude: 52.52, longitude: 13.4 };
+const candidates = [
+  createMockAttraction({ id: 'osm:node:2', name: 'Far Stop', latitude: 52.54, longitude: 13.4 }),
+  createMockAttraction({ id: 'osm:node:1', name: 'Near Stop', latitude: 52.525, longitude: 13.4 }),
+  createMockAttraction({ id: 'osm:node:3', name: 'Evening Bar', latitude: 52.53, longitude: 13.4, openingHours: 'Mo-Su 23:00-23:30' }),
+];
+
+const renderScreen = (params: any = { attractions: candidates, origin }) =>
+  render(<ItineraryScreen route={createMockRoute('Itinerary', params)} />);
+
+describe('ItineraryScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date(2026, 0, 5, 10, 0), doNotFake: ['nextTick', 'setImmediate'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should order the selected stops from the origin', () => {
+    const { getByTestId } = renderScreen();
+
+    expect(getByTestId('itinerary-stop-0')).toHaveTextContent(/Near Stop/);
+    expect(getByTestId('itinerary-stop-1')).toHaveTextContent(/Far Stop/);
+  });
+
+  it('should list stops that are closed on arrival', () => {
+    const { getByTestId } = renderScreen();
+
+    expect(getByTestId('itinerary-skipped-osm:node:3')).toHaveTextContent(/skippedClosed/);
+  });
+
+  it('should replan when a stop is deselected', () => {
+    const { getByTestId, queryByTestId } = renderScreen();
+
+    fireEvent.press(getByTestId('itinerary-candidate-osm:node:1'));
+
+    expect(getByTestId('itinerary-stop-0')).toHaveTextContent(/Far Stop/);
+    expect(queryByTestId('itinerary-stop-1')).toBeNull();
+  });
+
+  it('should skip stops outside a smaller time budget', () => {
+    const extraStop = createMockAttraction({ id: 'osm:node:4', name: 'Last Stop', latitude: 52.55, longitude: 13.4 });
+    const { getByTestId, queryByTestId } = renderScreen({ attractions: [...candidates, extraStop], origin });
+
+    expect(getByTestId('itinerary-stop-2')).toHaveTextContent(/Last Stop/);
+
+    fireEvent.press(getByTestId(`time-budget-${ITINERARY_CONFIG.TIME_BUDGETS[0]}`));
+
+    expect(queryByTestId('itinerary-stop-2')).toBeNull();
+    expect(getByTestId('itinerary-skipped-osm:node:4')).toHaveTextContent(/skippedTimeBudget/);
+  });
+
+  it('should show a hint without selected stops', () => {
+    const { getByTestId, getByText } = renderScreen();
+
+    candidates.forEach(candidate => fireEvent.press(getByTestId(`itinerary-candidate-${candidate.id}`)));
+
+    expect(getByText('itineraryEmpty')).toBeTruthy();
+  });
+
+  it('should open the route in Google Maps', () => {
+    const openURL = jest.spyOn(Linking, 'openURL').mockResolvedValue(true);
+    const { getByTestId } = renderScreen();
+
+    fireEvent.press(getByTestId('itinerary-mode-cycling'));
+    fireEvent.press(getByTestId('export-google-maps'));
+
+    expect(openURL).toHaveBeenCalledWith(expect.stringContaining('origin=52.52,13.4'));
+    expect(openURL).toHaveBeenCalledWith(expect.stringContaining('travelmode=bicycling'));
+  });
+
+  it('should open the route in Apple Maps', () => {
+    const openURL = jest.spyOn(Linking, 'openURL').mockResolvedValue(true);
+    const { getByTestId } = renderScreen();
+
+    fireEvent.press(getByTestId('export-apple-maps'));
+
+    expect(openURL).toHaveBeenCalledWith(expect.stringMatching(/^https:\/\/maps\.apple\.com\/\?saddr=52\.52,13\.4/));
+  });
+
+  it('should share the itinerary as GPX', () => {
+    const share = jest.spyOn(Share, 'share').mockResolvedValue({ action: 'sharedAction' });
+    const { getByTestId } = renderScreen();
+
+    fireEvent.press(getByTestId('export-gpx'));
+
+    expect(share).toHaveBeenCalledWith({
+      title: 'itinerary',
+      message: expect.stringContaining('<name>Near Stop</name>'),
+    });
+  });
+
+  it('should show an error when the GPX cannot be shared', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation();
+    const alert = jest.spyOn(Alert, 'alert');
+    const share = jest.spyOn(Share, 'share').mockRejectedValue(new Error('Share failed'));
+    const { getByTestId } = renderScreen();
+
+    fireEvent.press(getByTestId('export-gpx'));
+
+    await waitFor(() => {
+      expect(alert).toHaveBeenCalledWith('errorTitle', 'shareFailed');
+    });
+    share.mockRestore();
+    alert.mockRestore();
+    consoleError.mockRestore();
+  });
+
+  it('should start from the current position without an origin', async () => {
+    mockedLocationService.getCurrentLocation.mockResolvedValue({
+      coords: { latitude: 52.56, longitude: 13.4 },
+    } as any);
+
+    const { getByTestId } = renderScreen({ attractions: candidates });
+
+    expect(getByTestId('itinerary-locating')).toBeTruthy();
+    await waitFor(() => {
+      expect(getByTestId('itinerary-stop-0')).toHaveTextContent(/Far Stop/);
+    });
+  });
+
+  it('should start at the first stop when the position is unavailable', async () => {
+    mockedLocationService.getCurrentLocation.mockResolvedValue(null);
+
+    const { getByTestId } = renderScreen({ attractions: candidates });
+
+    await waitFor(() => {
+      expect(getByTestId('itinerary-stop-0')).toHaveTextContent(/Far Stop/);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Tests for JournalScreen component
+ * Coverage target: 75%
+ */
+
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react-native';
+import JournalScreen from '../../src/screens/JournalScreen';
+import { useFavorites } from '../../src/hooks';
+import { createMockRoute } from '../setup/mocks';
+import { createMockAttraction } from '../fixtures/attractions';
+import { Favorite } from '../../src/types';
+
+jest.mock('../../src/hooks');
+jest.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => key,
+    i18n: { language: 'en' }
+  })
+}));
+
+const mockedUseFavorites = useFavorites as jest.MockedFunction<typeof useFavorites>;
+
+const rostock = { id: 'collection:rostock', name: 'Rostock weekend', createdAt: '2027-01-01T00:00:00.000Z' };
+
+const favorites: Favorite[] = [
+  {
+    ...createMockAttraction({ id: 'harbour', name: 'Stadthafen' }),
+    collectionId: rostock.id,
+    visitStatus: 'visited',
+    visitSource: 'geofence',
+    visitedAt: new Date(2027, 4, 2, 11, 0).toISOString(),
+    personalRating: 4,
+    note: 'Fish sandwich',
+  },
+  {
+    ...createMockAttraction({ id: 'church', name: 'Marienkirche' }),
+    collectionId: rostock.id,
+    visitStatus: 'visited',
+    visitSource: 'manual',
+    visitedAt: new Date(2027, 4, 1, 15, 0).toISOString(),
+  },
+  { ...createMockAttraction({ id: 'beach', name: 'Warnemünde' }), collectionId: rostock.id, visitStatus: 'planned' },
+  { ...createMockAttraction({ id: 'gate', name: 'Brandenburg Gate' }), collectionId: 'default', visitStatus: 'visited' },
+];
+
+describe('JournalScreen', () => {
+  const updateFavorite = jest.fn();
+
+  const renderScreen = (overrides: Partial<ReturnType<typeof useFavorites>> = {}) => {
+    mockedUseFavorites.mockReturnValue({
+      favorites,
+      favoriteIds: new Set(favorites.map(f => f.id)),
+      collections: [{ id: 'default', name: '', createdAt: rostock.createdAt }, rostock],
+      loading: false,
+      addFavorite: jest.fn(),
+      removeFavorite: jest.fn(),
+      toggleFavorite: jest.fn(),
+      isFavorite: jest.fn(),
+      updateFavorite,
+      moveFavorite: jest.fn(),
+      createCollection: jest.fn(),
+      renameCollection: jest.fn(),
+      deleteCollection: jest.fn(),
+      exportFavorites: jest.fn(),
+      importFavorites: jest.fn(),
+      refreshFavorites: jest.fn(),
+      ...overrides,
+    });
+    return render(<JournalScreen route={createMockRoute('Journal', { collectionId: rostock.id })} />);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should show the trip name and progress', () => {
+    const { getByText, getByTestId } = renderScreen();
+
+    expect(getByText('Rostock weekend')).toBeTruthy();
+    expect(getByTestId('journal-progress')).toHaveTextContent('journalProgress');
+  });
+
+  it('should list visits of the trip by day', () => {
+    const { getByTestId, queryByTestId } = renderScreen();
+
+    expect(getByTestId('journal-day-2027-05-01')).toHaveTextContent(/Marienkirche/);
+    expect(getByTestId('journal-day-2027-05-02')).toHaveTextContent(/Stadthafen/);
+    expect(queryByTestId('journal-entry-beach')).toBeNull();
+    expect(queryByTestId('journal-entry-gate')).toBeNull();
+  });
+
+  it('should mark visits recorded nearby', () => {
+    const { getByTestId } = renderScreen();
+
+    expect(getByTestId('journal-entry-harbour')).toHaveTextContent(/visitedAutomatically/);
+    expect(getByTestId('journal-entry-church')).not.toHaveTextContent(/visitedAutomatically/);
+  });
+
+  it('should show and set the personal rating', () => {
+    const { getByTestId } = renderScreen();
+
+    expect(getByTestId('rating-harbour-4')).toHaveTextContent('★');
+    expect(getByTestId('rating-harbour-5')).toHaveTextContent('☆');
+
+    fireEvent.press(getByTestId('rating-church-3'));
+    expect(updateFavorite).toHaveBeenCalledWith('church', { personalRating: 3 });
+  });
+
+  it('should edit notes', () => {
+    const { getByTestId } = renderScreen();
+
+    expect(getByTestId('journal-note-harbour')).toHaveTextContent(/Fish sandwich/);
+    fireEvent.press(getByTestId('journal-note-harbour'));
+    fireEvent.changeText(getByTestId('journal-note-input-harbour'), 'Fish sandwich at the pier ');
+    fireEvent(getByTestId('journal-note-input-harbour'), 'submitEditing');
+
+    expect(updateFavorite).toHaveBeenCalledWith('harbour', { note: 'Fish sandwich at the pier' });
+  });
+
+  it('should show a hint without visits', () => {
+    const { getByText } = renderScreen({ favorites: favorites.slice(2, 3) });
+
+    expect(getByText('journalEmpty')).toBeTruthy();
+  });
+});
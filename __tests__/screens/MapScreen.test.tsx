@@ -8,7 +8,7 @@ import { render, waitFor, fireEvent } from '@testing-library/react-native';
 import { Alert, Platform } from 'react-native';
 import MapScreen from '../../src/screens/MapScreen';
 import { createMockNavigation } from '../setup/mocks';
-import { mockAttractions } from '../fixtures/attractions';
+import { mockAttractions, createMockAttraction } from '../fixtures/attractions';
 import { berlinCoordinates } from '../fixtures/locations';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
@@ -30,6 +30,7 @@ jest.mock('react-native-maps', () => {
     __esModule: true,
     default: (props: any) => React.createElement('MapView', props),
     Marker: (props: any) => React.createElement('Marker', props),
+    Circle: (props: any) => React.createElement('Circle', props),
     PROVIDER_GOOGLE: 'google'
   };
 });
@@ -145,6 +146,40 @@ describe('MapScreen', () => {
       });
     });
 
+    it('should draw the search radius stored by the home screen', async () => {
+      const savedData = JSON.stringify({
+        location: berlinCoordinates,
+        attractions: mockAttractions,
+        useGPS: true,
+        radius: 2500
+      });
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(savedData);
+
+      const { getByTestId } = render(<MapScreen navigation={mockNavigation} />);
+
+      await waitFor(() => {
+        const circle = getByTestId('search-radius');
+        expect(circle.props.radius).toBe(2500);
+        expect(circle.props.center).toEqual(berlinCoordinates);
+      });
+    });
+
+    it('should not draw a radius for map data without one', async () => {
+      const savedData = JSON.stringify({
+        location: berlinCoordinates,
+        attractions: mockAttractions,
+        useGPS: true
+      });
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(savedData);
+
+      const { UNSAFE_getByProps, queryByTestId } = render(<MapScreen navigation={mockNavigation} />);
+
+      await waitFor(() => {
+        expect(UNSAFE_getByProps({ title: mockAttractions[0].name })).toBeTruthy();
+      });
+      expect(queryByTestId('search-radius')).toBeNull();
+    });
+
     it('should show user location marker', async () => {
       const savedData = JSON.stringify({
         location: berlinCoordinates,
@@ -209,6 +244,80 @@ describe('MapScreen', () => {
     });
   });
 
+  describe('Attraction types', () => {
+    const MarkerType = 'Marker' as unknown as React.ComponentType<any>;
+
+    it('should describe markers and the info card with the localized type', async () => {
+      const castle = createMockAttraction({ id: 'osm:way:1', type: 'castle' });
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(
+        JSON.stringify({ location: berlinCoordinates, attractions: [castle], useGPS: true })
+      );
+
+      const { getByText, UNSAFE_getAllByType } = render(<MapScreen navigation={mockNavigation} />);
+
+      await waitFor(() => {
+        expect(UNSAFE_getAllByType(MarkerType)).toHaveLength(1);
+      });
+      const [marker] = UNSAFE_getAllByType(MarkerType);
+      expect(marker.props.description).toBe('🏰 attractionTypes.castle - 500m');
+
+      fireEvent.press(marker);
+
+      expect(getByText('🏰 attractionTypes.castle · attractionCategories.history')).toBeTruthy();
+    });
+  });
+
+  describe('Rating breakdown', () => {
+    // Host component name rendered by the react-native-maps mock
+    const MarkerType = 'Marker' as unknown as React.ComponentType<any>;
+
+    it('should show why the selected attraction got its rating', async () => {
+      const ratedAttraction = createMockAttraction({
+        rating: 3.8,
+        ratingBreakdown: [
+          { signal: 'wikipedia', points: 0.5 },
+          { signal: 'wikidata', points: 0.3 },
+        ],
+      });
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(JSON.stringify({
+        location: berlinCoordinates,
+        attractions: [ratedAttraction],
+        useGPS: true
+      }));
+
+      const { getByText, getByTestId, UNSAFE_getAllByType } = render(<MapScreen navigation={mockNavigation} />);
+
+      await waitFor(() => {
+        expect(UNSAFE_getAllByType(MarkerType).length).toBe(1);
+      });
+      fireEvent.press(UNSAFE_getAllByType(MarkerType)[0]);
+
+      await waitFor(() => {
+        expect(getByTestId('rating-breakdown')).toBeTruthy();
+      });
+      expect(getByText('⭐ 3.8')).toBeTruthy();
+      expect(getByText('ratingSignals.wikipedia +0.5')).toBeTruthy();
+      expect(getByText('ratingSignals.wikidata +0.3')).toBeTruthy();
+    });
+
+    it('should not render a breakdown when none is available', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(JSON.stringify({
+        location: berlinCoordinates,
+        attractions: mockAttractions,
+        useGPS: true
+      }));
+
+      const { queryByTestId, UNSAFE_getAllByType } = render(<MapScreen navigation={mockNavigation} />);
+
+      await waitFor(() => {
+        expect(UNSAFE_getAllByType(MarkerType).length).toBeGreaterThan(0);
+      });
+      fireEvent.press(UNSAFE_getAllByType(MarkerType)[0]);
+
+      expect(queryByTestId('rating-breakdown')).toBeNull();
+    });
+  });
+
   describe('Permission handling', () => {
     it('should show error when location permission denied', async () => {
       const Location = require('expo-location');
@@ -18,6 +18,11 @@ jest.mock('../../src/services/interests.service', () => ({
   saveInterests: jest.fn()
 }));
 
+jest.mock('../../src/services/proximity.service', () => ({
+  getSettings: jest.fn(),
+  saveSettings: jest.fn()
+}));
+
 jest.mock('react-i18next', () => {
   const mockChangeLanguage = jest.fn();
   return {
@@ -34,12 +39,15 @@ jest.mock('react-i18next', () => {
 });
 
 const { getInterests, saveInterests } = require('../../src/services/interests.service');
+const proximityService = require('../../src/services/proximity.service');
 
 describe('SettingsScreen', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     getInterests.mockResolvedValue([]);
     saveInterests.mockResolvedValue(true);
+    proximityService.getSettings.mockResolvedValue({ enabled: true, radius: 500 });
+    proximityService.saveSettings.mockResolvedValue(true);
   });
 
   describe('Language selection', () => {
@@ -137,4 +145,36 @@ describe('SettingsScreen', () => {
       });
     });
   });
+
+  describe('Proximity alerts', () => {
+    it('should turn alerts off', async () => {
+      const { findByTestId, queryByTestId } = render(<SettingsScreen />);
+
+      fireEvent(await findByTestId('proximity-alerts-switch'), 'valueChange', false);
+
+      await waitFor(() => {
+        expect(proximityService.saveSettings).toHaveBeenCalledWith({ enabled: false, radius: 500 });
+      });
+      expect(queryByTestId('proximity-radius-250')).toBeNull();
+    });
+
+    it('should change the alert distance', async () => {
+      const { findByTestId } = render(<SettingsScreen />);
+
+      fireEvent.press(await findByTestId('proximity-radius-1000'));
+
+      await waitFor(() => {
+        expect(proximityService.saveSettings).toHaveBeenCalledWith({ enabled: true, radius: 1000 });
+      });
+    });
+
+    it('should hide the alert distance while alerts are off', async () => {
+      proximityService.getSettings.mockResolvedValueOnce({ enabled: false, radius: 500 });
+
+      const { findByTestId, queryByTestId } = render(<SettingsScreen />);
+
+      expect((await findByTestId('proximity-alerts-switch')).props.value).toBe(false);
+      expect(queryByTestId('proximity-radius-500')).toBeNull();
+    });
+  });
 });
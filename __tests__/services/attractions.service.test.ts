@@ -6,10 +6,21 @@
 import axios from 'axios';
 import attractionsService, { getNearbyAttractions } from '../../src/services/attractions.service';
 import storageService from '../../src/services/storage.service';
+import ratingService from '../../src/services/rating.service';
+import i18n from '../../src/config/i18n';
 import errorNotificationService from '../../src/services/error-notification.service';
+import { wikipediaProvider, localProvider } from '../../src/services/providers';
+import overpassService, { OverpassBusyError } from '../../src/services/overpass.service';
 import { berlinCoordinates, tokyoCoordinates } from '../fixtures/locations';
 import { createMockAttraction, mockAttractions } from '../fixtures/attractions';
-import { API_ENDPOINTS, APP_CONFIG, LOCATION_CONFIG, STORAGE_KEYS, CACHE_DURATION } from '../../src/constants';
+import {
+  API_ENDPOINTS,
+  APP_CONFIG,
+  LOCATION_CONFIG,
+  RADIUS_CONFIG,
+  STORAGE_KEYS,
+  CACHE_DURATION,
+} from '../../src/constants';
 
 jest.mock('axios');
 jest.mock('../../src/services/storage.service');
@@ -19,6 +30,11 @@ const mockedAxios = axios as jest.Mocked<typeof axios>;
 describe('AttractionsService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    jest.restoreAllMocks();
+    // Exercise the Overpass path in isolation; multi-source behaviour is tested below
+    attractionsService.setProviderEnabled('overpass', true);
+    attractionsService.setProviderEnabled('wikipedia', false);
+    attractionsService.setProviderEnabled('local', false);
   });
 
   describe('getNearbyAttractions', () => {
@@ -54,7 +70,7 @@ describe('AttractionsService', () => {
 
       expect(result).toHaveLength(2);
       expect(result[0]).toMatchObject({
-        id: 1,
+        id: 'osm:node:1',
         name: 'Brandenburg Gate',
         type: 'monument',
         latitude: 52.5163,
@@ -83,6 +99,126 @@ describe('AttractionsService', () => {
       expect(callArgs[1]).toMatch(/around%3A10000/);
     });
 
+    it('should query nodes, ways and relations', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { elements: [] } });
+
+      await attractionsService.getNearbyAttractions(berlinCoordinates);
+
+      const query = decodeURIComponent(mockedAxios.post.mock.calls[0][1] as string);
+      expect(query).toContain('nwr["tourism"]');
+      expect(query).toContain('nwr["historic"]');
+      expect(query).not.toContain('amenity');
+    });
+
+    it('should extend the query with filters for selected interests', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { elements: [] } });
+
+      await attractionsService.getNearbyAttractions(berlinCoordinates, 5000, ['food', 'beaches']);
+
+      const query = decodeURIComponent(mockedAxios.post.mock.calls[0][1] as string);
+      expect(query).toContain('nwr["amenity"~"^(biergarten|cafe|food_court|ice_cream|restaurant)$"]');
+      expect(query).toContain('nwr["natural"="beach"]');
+      expect(query).toContain('nwr["leisure"="beach_resort"]');
+    });
+
+    it('should compute a deterministic rating from tags', async () => {
+      const elements = [
+        {
+          id: 1,
+          lat: 52.5163,
+          lon: 13.3777,
+          tags: { name: 'Brandenburger Tor', tourism: 'attraction', wikidata: 'Q82425', heritage: '2' },
+        },
+      ];
+      mockedAxios.post.mockResolvedValue({ data: { elements } });
+
+      const first = await attractionsService.getNearbyAttractions(berlinCoordinates);
+      const second = await attractionsService.getNearbyAttractions(berlinCoordinates);
+
+      expect(first[0].rating).toBe(3.7);
+      expect(second[0].rating).toBe(first[0].rating);
+      expect(first[0].ratingBreakdown).toEqual([
+        { signal: 'wikidata', points: 0.3 },
+        { signal: 'heritage', points: 0.4 },
+      ]);
+    });
+
+    it('should keep the wikipedia reference from tags', async () => {
+      const elements = [
+        { id: 1, lat: 52.5, lon: 13.4, tags: { name: 'Dom', wikipedia: 'de:Berliner Dom' } },
+        { id: 2, lat: 52.5, lon: 13.4, tags: { name: 'Tor', 'wikipedia:de': 'Brandenburger Tor' } },
+      ];
+      mockedAxios.post.mockResolvedValueOnce({ data: { elements } });
+      mockedAxios.get.mockResolvedValueOnce({ data: { query: { pages: {} } } });
+
+      const result = await attractionsService.getNearbyAttractions(berlinCoordinates);
+
+      expect(result[0].wikipedia).toBe('de:Berliner Dom');
+      expect(result[1].wikipedia).toBe('de:Brandenburger Tor');
+    });
+
+    it('should parse metadata from tags', async () => {
+      const elements = [
+        {
+          id: 1,
+          lat: 52.5163,
+          lon: 13.3777,
+          tags: {
+            name: 'Brandenburger Tor',
+            'name:en': 'Brandenburg Gate',
+            'name:de': 'Brandenburger Tor',
+            tourism: 'attraction',
+            wikidata: 'Q82425',
+            opening_hours: ' 24/7 ',
+            'contact:website': 'https://example.org',
+            phone: '+49 30 123456',
+            wheelchair: 'yes',
+            fee: 'no',
+            'addr:street': 'Pariser Platz',
+            'addr:housenumber': '1',
+            'addr:postcode': '10117',
+            'addr:city': 'Berlin',
+            'addr:country': 'DE',
+          },
+        },
+      ];
+      mockedAxios.post.mockResolvedValueOnce({ data: { elements } });
+
+      const [result] = await attractionsService.getNearbyAttractions(berlinCoordinates);
+
+      expect(result).toMatchObject({
+        names: { en: 'Brandenburg Gate', de: 'Brandenburger Tor' },
+        wikidata: 'Q82425',
+        openingHours: '24/7',
+        website: 'https://example.org',
+        phone: '+49 30 123456',
+        wheelchair: 'yes',
+        fee: false,
+        address: {
+          street: 'Pariser Platz',
+          houseNumber: '1',
+          postcode: '10117',
+          city: 'Berlin',
+          country: 'DE',
+        },
+      });
+    });
+
+    it('should omit metadata that is not tagged or invalid', async () => {
+      const elements = [
+        { id: 1, lat: 52.5, lon: 13.4, tags: { name: 'Plain', tourism: 'attraction', wheelchair: 'maybe', fee: '5 EUR' } },
+      ];
+      mockedAxios.post.mockResolvedValueOnce({ data: { elements } });
+
+      const [result] = await attractionsService.getNearbyAttractions(berlinCoordinates);
+
+      expect(result.fee).toBe(true);
+      expect(result).not.toHaveProperty('wheelchair');
+      expect(result).not.toHaveProperty('names');
+      expect(result).not.toHaveProperty('address');
+      expect(result).not.toHaveProperty('openingHours');
+    });
+
     it('should filter out elements without names', async () => {
       const mockResponse = {
         data: {
@@ -197,6 +333,23 @@ describe('AttractionsService', () => {
       expect(result[3].type).toBe('attraction');
     });
 
+    it('should determine type from natural, leisure and shop tags', async () => {
+      const mockResponse = {
+        data: {
+          elements: [
+            { id: 1, lat: 52.5, lon: 13.4, tags: { name: 'Beach', natural: 'beach' } },
+            { id: 2, lat: 52.5, lon: 13.4, tags: { name: 'Park', leisure: 'park' } },
+            { id: 3, lat: 52.5, lon: 13.4, tags: { name: 'Mall', shop: 'mall' } },
+          ],
+        },
+      };
+      mockedAxios.post.mockResolvedValueOnce(mockResponse);
+
+      const result = await attractionsService.getNearbyAttractions(berlinCoordinates);
+
+      expect(result.map(a => a.type)).toEqual(['beach', 'park', 'mall']);
+    });
+
     it('should sort attractions by distance', async () => {
       const mockResponse = {
         data: {
@@ -253,6 +406,17 @@ describe('AttractionsService', () => {
       expect(errorNotificationService.showError).toHaveBeenCalled();
     });
 
+    it('should show a rate limit message when all Overpass mirrors are busy', async () => {
+      jest.spyOn(overpassService, 'runQuery').mockRejectedValueOnce(new OverpassBusyError(Date.now() + 30000));
+
+      const result = await attractionsService.getNearbyAttractions(berlinCoordinates);
+
+      expect(result).toEqual([]);
+      expect(errorNotificationService.showError).toHaveBeenCalledWith(
+        expect.objectContaining({ messageKey: 'errors.api.rateLimited' })
+      );
+    });
+
     it('should return empty array when no elements in response', async () => {
       mockedAxios.post.mockResolvedValueOnce({ data: { elements: [] } });
 
@@ -270,16 +434,362 @@ describe('AttractionsService', () => {
     });
   });
 
+  describe('Multiple providers', () => {
+    const osmDom = {
+      id: 10,
+      lat: 52.519,
+      lon: 13.401,
+      tags: { name: 'Berliner Dom', amenity: 'place_of_worship', opening_hours: 'Mo-Su 09:00-19:00' },
+    };
+
+    beforeEach(() => {
+      attractionsService.setProviderEnabled('wikipedia', true);
+      attractionsService.setProviderEnabled('local', true);
+    });
+
+    it('should merge duplicates from different providers into one attraction', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { elements: [osmDom] } });
+      jest.spyOn(wikipediaProvider, 'fetchAttractions').mockResolvedValueOnce([
+        createMockAttraction({
+          id: 'wiki:de:Berliner Dom',
+          name: 'Berliner Dom',
+          latitude: 52.5192,
+          longitude: 13.4011,
+          wikipedia: 'de:Berliner Dom',
+          ratingBreakdown: [{ signal: 'wikipedia', points: 0.5 }],
+          sources: ['wikipedia'],
+        }),
+      ]);
+      jest.spyOn(localProvider, 'fetchAttractions').mockResolvedValueOnce([]);
+      mockedAxios.get.mockResolvedValueOnce({ data: { query: { pages: {} } } });
+
+      const result = await attractionsService.getNearbyAttractions(berlinCoordinates);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        id: 'osm:node:10',
+        type: 'place_of_worship',
+        openingHours: 'Mo-Su 09:00-19:00',
+        wikipedia: 'de:Berliner Dom',
+        sources: ['overpass', 'wikipedia'],
+      });
+      // Base 3.0 + opening hours 0.1 + wikipedia 0.5
+      expect(result[0].rating).toBe(3.6);
+    });
+
+    it('should keep distinct places from all providers', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { elements: [osmDom] } });
+      jest.spyOn(wikipediaProvider, 'fetchAttractions').mockResolvedValueOnce([
+        createMockAttraction({ id: 'wiki:de:Altes Museum', name: 'Altes Museum', distance: 300 }),
+      ]);
+      jest.spyOn(localProvider, 'fetchAttractions').mockResolvedValueOnce([
+        createMockAttraction({ id: 'local:fernsehturm', name: 'Fernsehturm', distance: 100 }),
+      ]);
+
+      const result = await attractionsService.getNearbyAttractions(berlinCoordinates);
+
+      expect(result.map(a => a.id)).toEqual(expect.arrayContaining(['osm:node:10', 'wiki:de:Altes Museum', 'local:fernsehturm']));
+      expect(result[0].id).toBe('local:fernsehturm');
+    });
+
+    it('should pass the query to every enabled provider', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { elements: [] } });
+      const wikiSpy = jest.spyOn(wikipediaProvider, 'fetchAttractions').mockResolvedValueOnce([]);
+      const localSpy = jest.spyOn(localProvider, 'fetchAttractions').mockResolvedValueOnce([]);
+
+      await attractionsService.getNearbyAttractions(berlinCoordinates, 2000, ['art']);
+
+      const query = { coordinates: berlinCoordinates, radius: 2000, interests: ['art'], language: 'de' };
+      expect(wikiSpy).toHaveBeenCalledWith(query);
+      expect(localSpy).toHaveBeenCalledWith(query);
+    });
+
+    it('should ask providers for content in the app language', async () => {
+      i18n.language = 'en';
+      mockedAxios.post.mockResolvedValueOnce({ data: { elements: [] } });
+      const wikiSpy = jest.spyOn(wikipediaProvider, 'fetchAttractions').mockResolvedValueOnce([]);
+      jest.spyOn(localProvider, 'fetchAttractions').mockResolvedValueOnce([]);
+
+      try {
+        await attractionsService.getNearbyAttractions(berlinCoordinates);
+      } finally {
+        i18n.language = 'de';
+      }
+
+      expect(wikiSpy).toHaveBeenCalledWith(expect.objectContaining({ language: 'en' }));
+    });
+
+    it('should skip disabled providers', async () => {
+      attractionsService.setProviderEnabled('overpass', false);
+      attractionsService.setProviderEnabled('wikipedia', false);
+      const localSpy = jest.spyOn(localProvider, 'fetchAttractions').mockResolvedValueOnce([]);
+
+      await attractionsService.getNearbyAttractions(berlinCoordinates);
+
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+      expect(localSpy).toHaveBeenCalled();
+      expect(attractionsService.isProviderEnabled('overpass')).toBe(false);
+    });
+
+    it('should return partial results without an error when one provider fails', async () => {
+      mockedAxios.post.mockRejectedValueOnce(new Error('Overpass down'));
+      jest.spyOn(wikipediaProvider, 'fetchAttractions').mockResolvedValueOnce([]);
+      jest.spyOn(localProvider, 'fetchAttractions').mockResolvedValueOnce([
+        createMockAttraction({ id: 'local:dom', name: 'Berliner Dom' }),
+      ]);
+
+      const result = await attractionsService.getNearbyAttractions(berlinCoordinates);
+
+      expect(result).toHaveLength(1);
+      expect(errorNotificationService.showError).not.toHaveBeenCalled();
+      expect(errorNotificationService.logDebugInfo).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: 'overpass' })
+      );
+    });
+
+    it('should show an error when all providers fail', async () => {
+      mockedAxios.post.mockRejectedValueOnce(new Error('Overpass down'));
+      jest.spyOn(wikipediaProvider, 'fetchAttractions').mockRejectedValueOnce(new Error('Wiki down'));
+      jest.spyOn(localProvider, 'fetchAttractions').mockRejectedValueOnce(new Error('Broken'));
+
+      const result = await attractionsService.getNearbyAttractions(berlinCoordinates);
+
+      expect(result).toEqual([]);
+      expect(errorNotificationService.showError).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('searchAttractions', () => {
+    // Local provider answering with all places within the queried radius
+    const mockPlacesAt = (distances: number[]) =>
+      jest.spyOn(localProvider, 'fetchAttractions').mockImplementation(async ({ radius }) =>
+        distances
+          .filter(distance => distance <= radius)
+          .map(distance => createMockAttraction({ id: `local:${distance}`, distance }))
+      );
+
+    beforeEach(() => {
+      attractionsService.setProviderEnabled('overpass', false);
+      attractionsService.setProviderEnabled('local', true);
+    });
+
+    it('should use a fixed radius as is', async () => {
+      const fetchSpy = mockPlacesAt([3000, 8000]);
+
+      const result = await attractionsService.searchAttractions(berlinCoordinates, [], 10000);
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(fetchSpy).toHaveBeenCalledWith({ coordinates: berlinCoordinates, radius: 10000, interests: [], language: 'de' });
+      expect(result).toEqual({ attractions: expect.any(Array), remaining: [], radius: 10000 });
+      expect(result.attractions).toHaveLength(2);
+    });
+
+    it('should keep the default radius when enough attractions are found', async () => {
+      const fetchSpy = mockPlacesAt([500, 1500, 2500, 3500, 4500, 9000]);
+
+      const result = await attractionsService.searchAttractions(berlinCoordinates);
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(result.radius).toBe(LOCATION_CONFIG.DEFAULT_RADIUS);
+      expect(result.attractions).toHaveLength(5);
+    });
+
+    it('should expand the radius in sparse areas', async () => {
+      const fetchSpy = mockPlacesAt([3000, 8000, 9000, 15000, 18000, 30000]);
+
+      const result = await attractionsService.searchAttractions(berlinCoordinates, ['history']);
+
+      expect(fetchSpy.mock.calls.map(([query]) => query.radius)).toEqual([5000, 10000, 20000]);
+      expect(result.radius).toBe(20000);
+      expect(result.attractions).toHaveLength(5);
+    });
+
+    it('should not expand beyond the maximum radius', async () => {
+      const fetchSpy = mockPlacesAt([45000]);
+
+      const result = await attractionsService.searchAttractions(berlinCoordinates);
+
+      expect(fetchSpy.mock.calls.map(([query]) => query.radius)).toEqual([
+        5000,
+        10000,
+        20000,
+        40000,
+        RADIUS_CONFIG.MAX,
+      ]);
+      expect(result.radius).toBe(RADIUS_CONFIG.MAX);
+      expect(result.attractions).toHaveLength(1);
+    });
+
+    it('should shrink the radius in dense areas', async () => {
+      const distances = Array.from({ length: 60 }, (_, index) => (index + 1) * 20);
+      const fetchSpy = mockPlacesAt(distances);
+
+      const result = await attractionsService.searchAttractions(berlinCoordinates);
+
+      // 20th place at 400 m: dense at 5 km and 2.5 km, not at 1.25 km
+      expect(fetchSpy.mock.calls.map(([query]) => query.radius)).toEqual([5000]);
+      expect(result.radius).toBe(1250);
+      expect(result.attractions).toHaveLength(LOCATION_CONFIG.MAX_ATTRACTIONS);
+      // Places within 1250 m beyond the first page are retained for paging
+      expect(result.remaining).toHaveLength(60 - LOCATION_CONFIG.MAX_ATTRACTIONS);
+      expect(result.remaining[0].distance).toBe((LOCATION_CONFIG.MAX_ATTRACTIONS + 1) * 20);
+    });
+
+    it('should leave out places beyond the shrunk radius', async () => {
+      const distances = Array.from({ length: 150 }, (_, index) => (index + 1) * 20);
+      mockPlacesAt(distances);
+
+      const result = await attractionsService.searchAttractions(berlinCoordinates);
+
+      expect(result.radius).toBe(1250);
+      expect([...result.attractions, ...result.remaining].every(a => a.distance <= 1250)).toBe(true);
+      expect(result.attractions.length + result.remaining.length).toBe(62);
+    });
+
+    it('should not shrink below the minimum radius', async () => {
+      const distances = Array.from({ length: 30 }, (_, index) => index + 1);
+      const fetchSpy = mockPlacesAt(distances);
+
+      const result = await attractionsService.searchAttractions(berlinCoordinates);
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(result.radius).toBe(RADIUS_CONFIG.MIN);
+    });
+
+    it('should stop and report once when all providers fail', async () => {
+      const fetchSpy = jest.spyOn(localProvider, 'fetchAttractions').mockRejectedValue(new Error('Unavailable'));
+
+      const result = await attractionsService.searchAttractions(berlinCoordinates);
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({ attractions: [], remaining: [], radius: LOCATION_CONFIG.DEFAULT_RADIUS });
+      expect(errorNotificationService.showError).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the last result when a later step fails', async () => {
+      jest
+        .spyOn(localProvider, 'fetchAttractions')
+        .mockResolvedValueOnce([createMockAttraction({ id: 'local:far', distance: 4000 })])
+        .mockRejectedValueOnce(new Error('Unavailable'));
+
+      const result = await attractionsService.searchAttractions(berlinCoordinates);
+
+      expect(result.radius).toBe(LOCATION_CONFIG.DEFAULT_RADIUS);
+      expect(result.attractions.map(a => a.id)).toEqual(['local:far']);
+      expect(errorNotificationService.showError).not.toHaveBeenCalled();
+    });
+
+    it('should stop adjusting once the search budget is used up', async () => {
+      let now = 0;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+      const fetchSpy = jest.spyOn(localProvider, 'fetchAttractions').mockImplementation(async () => {
+        now += RADIUS_CONFIG.SEARCH_BUDGET / 2;
+        return [createMockAttraction({ id: 'local:far', distance: 4000 })];
+      });
+
+      const result = await attractionsService.searchAttractions(berlinCoordinates);
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(fetchSpy).toHaveBeenLastCalledWith(
+        expect.objectContaining({ deadline: RADIUS_CONFIG.SEARCH_BUDGET })
+      );
+      expect(result.attractions.map(a => a.id)).toEqual(['local:far']);
+    });
+  });
+
+  describe('getNextPage', () => {
+    const places = Array.from({ length: 50 }, (_, index) =>
+      createMockAttraction({ id: `place-${index}`, distance: index * 100 })
+    );
+
+    it('should split off the next page from the retained results', async () => {
+      const page = await attractionsService.getNextPage(places);
+
+      expect(page.attractions).toEqual(places.slice(0, LOCATION_CONFIG.MAX_ATTRACTIONS));
+      expect(page.remaining).toEqual(places.slice(LOCATION_CONFIG.MAX_ATTRACTIONS));
+    });
+
+    it('should return the last partial page', async () => {
+      const page = await attractionsService.getNextPage(places.slice(45));
+
+      expect(page.attractions.map(a => a.id)).toEqual(['place-45', 'place-46', 'place-47', 'place-48', 'place-49']);
+      expect(page.remaining).toEqual([]);
+    });
+
+    it('should limit the number of retained results', async () => {
+      const many = Array.from({ length: LOCATION_CONFIG.MAX_RETAINED_ATTRACTIONS + 50 }, (_, index) =>
+        createMockAttraction({ id: `place-${index}`, distance: index })
+      );
+
+      const page = await attractionsService.getNextPage(many);
+
+      expect(page.attractions.length + page.remaining.length).toBe(LOCATION_CONFIG.MAX_RETAINED_ATTRACTIONS);
+    });
+
+    it('should leave refining the ratings to the caller', async () => {
+      const applySpy = jest.spyOn(ratingService, 'applyWikipediaMetadata');
+
+      await attractionsService.getNextPage(places);
+
+      expect(applySpy).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getCachedAttractions', () => {
     it('should retrieve cached attractions with correct key', async () => {
-      (storageService.getCached as jest.Mock).mockResolvedValueOnce(mockAttractions);
+      const cached = { attractions: mockAttractions, remaining: [], radius: 10000 };
+      (storageService.getCached as jest.Mock).mockResolvedValueOnce(cached);
 
       const result = await attractionsService.getCachedAttractions(berlinCoordinates, ['history', 'art']);
 
       expect(storageService.getCached).toHaveBeenCalledWith(
         expect.stringContaining('52.52_13.40_art,history')
       );
-      expect(result).toEqual(mockAttractions);
+      expect(result).toEqual(cached);
+    });
+
+    it('should default the retained results of entries cached before paging', async () => {
+      (storageService.getCached as jest.Mock).mockResolvedValueOnce({ attractions: mockAttractions, radius: 5000 });
+
+      const result = await attractionsService.getCachedAttractions(berlinCoordinates, []);
+
+      expect(result).toEqual({ attractions: mockAttractions, remaining: [], radius: 5000 });
+    });
+
+    it('should ignore entries cached with bare OSM ids', async () => {
+      (storageService.getCached as jest.Mock).mockResolvedValueOnce({
+        attractions: [{ ...mockAttractions[0], id: 1 }],
+        remaining: [],
+        radius: 5000,
+      });
+
+      const result = await attractionsService.getCachedAttractions(berlinCoordinates, []);
+
+      expect(result).toBeNull();
+    });
+
+    it('should ignore entries cached without a radius', async () => {
+      (storageService.getCached as jest.Mock).mockResolvedValueOnce(mockAttractions);
+
+      const result = await attractionsService.getCachedAttractions(berlinCoordinates, []);
+
+      expect(result).toBeNull();
+    });
+
+    it('should include the radius setting in the cache key', async () => {
+      (storageService.getCached as jest.Mock).mockResolvedValue(null);
+
+      await attractionsService.getCachedAttractions(berlinCoordinates, []);
+      await attractionsService.getCachedAttractions(berlinCoordinates, [], 2000);
+
+      expect(storageService.getCached).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining(`${STORAGE_KEYS.ATTRACTIONS_CACHE}_auto_52.52_13.40`)
+      );
+      expect(storageService.getCached).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining(`${STORAGE_KEYS.ATTRACTIONS_CACHE}_2000_52.52_13.40`)
+      );
     });
 
     it('should sort interests in cache key for consistency', async () => {
@@ -291,21 +801,69 @@ describe('AttractionsService', () => {
         expect.stringContaining('art,food,history')
       );
     });
+
+    it('should not mutate the passed interests array', async () => {
+      (storageService.getCached as jest.Mock).mockResolvedValueOnce(null);
+      const interests = ['history', 'art'];
+
+      await attractionsService.getCachedAttractions(berlinCoordinates, interests);
+
+      expect(interests).toEqual(['history', 'art']);
+    });
+
+    it('should include the generated filter set in the cache key', async () => {
+      (storageService.getCached as jest.Mock).mockResolvedValue(null);
+
+      await attractionsService.getCachedAttractions(berlinCoordinates, []);
+      await attractionsService.getCachedAttractions(berlinCoordinates, ['food']);
+
+      const [emptyKey] = (storageService.getCached as jest.Mock).mock.calls[0];
+      const [foodKey] = (storageService.getCached as jest.Mock).mock.calls[1];
+      expect(emptyKey).toMatch(/_52\.52_13\.40__[0-9a-z]+_de_overpass$/);
+      expect(foodKey).toMatch(/_food_[0-9a-z]+_de_overpass$/);
+      expect(emptyKey.split('_').at(-3)).not.toBe(foodKey.split('_').at(-3));
+    });
+
+    it('should include the app language in the cache key', async () => {
+      (storageService.getCached as jest.Mock).mockResolvedValue(null);
+
+      i18n.language = 'en';
+      try {
+        await attractionsService.getCachedAttractions(berlinCoordinates, []);
+      } finally {
+        i18n.language = 'de';
+      }
+
+      expect(storageService.getCached).toHaveBeenCalledWith(expect.stringMatching(/_en_overpass$/));
+    });
+
+    it('should include the enabled providers in the cache key', async () => {
+      (storageService.getCached as jest.Mock).mockResolvedValue(null);
+      attractionsService.setProviderEnabled('wikipedia', true);
+
+      await attractionsService.getCachedAttractions(berlinCoordinates, []);
+
+      expect(storageService.getCached).toHaveBeenCalledWith(
+        expect.stringMatching(/_overpass\+wikipedia$/)
+      );
+    });
   });
 
   describe('cacheAttractions', () => {
     it('should cache attractions with correct key and duration', async () => {
       (storageService.setCached as jest.Mock).mockResolvedValueOnce(true);
 
+      const searchResult = { attractions: mockAttractions, remaining: [], radius: 5000 };
+
       const result = await attractionsService.cacheAttractions(
         berlinCoordinates,
-        mockAttractions,
+        searchResult,
         ['history']
       );
 
       expect(storageService.setCached).toHaveBeenCalledWith(
         expect.stringContaining('52.52_13.40_history'),
-        mockAttractions,
+        searchResult,
         CACHE_DURATION.ATTRACTIONS
       );
       expect(result).toBe(true);
@@ -318,7 +876,11 @@ describe('AttractionsService', () => {
       };
       (storageService.setCached as jest.Mock).mockResolvedValueOnce(true);
 
-      await attractionsService.cacheAttractions(preciseCoords, mockAttractions, []);
+      await attractionsService.cacheAttractions(
+        preciseCoords,
+        { attractions: mockAttractions, remaining: [], radius: 5000 },
+        []
+      );
 
       expect(storageService.setCached).toHaveBeenCalledWith(
         expect.stringContaining('52.52_13.40'),
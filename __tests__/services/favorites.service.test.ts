@@ -3,12 +3,20 @@
  * Coverage target: 90%
  */
 
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
 import favoritesService from '../../src/services/favorites.service';
 import storageService from '../../src/services/storage.service';
-import { STORAGE_KEYS } from '../../src/constants';
+import overpassService from '../../src/services/overpass.service';
+import { FAVORITES_CONFIG, STORAGE_KEYS } from '../../src/constants';
 import { createMockAttraction, mockAttractions } from '../fixtures/attractions';
 
 jest.mock('../../src/services/storage.service');
+jest.mock('../../src/services/overpass.service');
+jest.mock('expo-document-picker', () => ({ getDocumentAsync: jest.fn() }));
+jest.mock('expo-file-system', () => ({ File: jest.fn() }));
+
+const mockedRunQuery = overpassService.runQuery as jest.Mock;
 
 describe('FavoritesService', () => {
   beforeEach(() => {
@@ -22,7 +30,9 @@ describe('FavoritesService', () => {
       const result = await favoritesService.getFavorites();
 
       expect(storageService.get).toHaveBeenCalledWith(STORAGE_KEYS.FAVORITES);
-      expect(result).toEqual(mockAttractions);
+      expect(result).toEqual(
+        mockAttractions.map(attraction => ({ ...attraction, collectionId: 'default', visitStatus: 'planned' }))
+      );
     });
 
     it('should return empty array when no favorites exist', async () => {
@@ -121,18 +131,18 @@ describe('FavoritesService', () => {
       expect(storageService.set).toHaveBeenCalledWith(STORAGE_KEYS.FAVORITES, []);
     });
 
-    it('should handle numeric IDs', async () => {
+    it('should only remove the OSM element of the given type', async () => {
       const favorites = [
-        createMockAttraction({ id: 100, name: 'Numeric ID' }),
-        createMockAttraction({ id: 200, name: 'Keep' }),
+        createMockAttraction({ id: 'osm:node:100', name: 'Node' }),
+        createMockAttraction({ id: 'osm:way:100', name: 'Keep' }),
       ];
       (storageService.get as jest.Mock).mockResolvedValueOnce(favorites);
       (storageService.set as jest.Mock).mockResolvedValueOnce(true);
 
-      const result = await favoritesService.removeFavorite(100);
+      const result = await favoritesService.removeFavorite('osm:node:100');
 
       expect(result).toHaveLength(1);
-      expect(result[0].id).toBe(200);
+      expect(result[0].id).toBe('osm:way:100');
     });
   });
 
@@ -188,7 +198,7 @@ describe('FavoritesService', () => {
       const favorites = [
         createMockAttraction({ id: '1' }),
         createMockAttraction({ id: '2' }),
-        createMockAttraction({ id: 100 }),
+        createMockAttraction({ id: 'osm:way:100' }),
       ];
       (storageService.get as jest.Mock).mockResolvedValueOnce(favorites);
 
@@ -198,7 +208,7 @@ describe('FavoritesService', () => {
       expect(result.size).toBe(3);
       expect(result.has('1')).toBe(true);
       expect(result.has('2')).toBe(true);
-      expect(result.has(100)).toBe(true);
+      expect(result.has('osm:way:100')).toBe(true);
     });
 
     it('should return empty Set when no favorites', async () => {
@@ -210,4 +220,566 @@ describe('FavoritesService', () => {
       expect(result.size).toBe(0);
     });
   });
+  describe('Legacy id migration', () => {
+    // Favorites saved before ids were namespaced carry the bare OSM element id
+    const legacyFavorite = { ...createMockAttraction({ name: 'Reichstag' }), id: 100 };
+
+    // Serves favorites by storage key, starting out unmigrated
+    const mockStorage = (favorites: unknown[], migrated: boolean | null = null) => {
+      (storageService.get as jest.Mock).mockImplementation(async (key: string) =>
+        key === STORAGE_KEYS.FAVORITES ? favorites : migrated
+      );
+      (storageService.set as jest.Mock).mockResolvedValue(true);
+    };
+
+    afterEach(() => {
+      (storageService.get as jest.Mock).mockReset();
+      (storageService.set as jest.Mock).mockReset();
+    });
+
+    it('should read bare ids as unresolved without looking them up', async () => {
+      mockStorage([legacyFavorite, mockAttractions[1]]);
+
+      const result = await favoritesService.getFavorites();
+
+      expect(result.map(favorite => favorite.id)).toEqual(['legacy:osm:100', '2']);
+      expect(mockedRunQuery).not.toHaveBeenCalled();
+      expect(storageService.set).not.toHaveBeenCalled();
+    });
+
+    it('should resolve the element type at the stored position', async () => {
+      mockStorage([legacyFavorite, mockAttractions[1]]);
+      mockedRunQuery.mockResolvedValueOnce({
+        elements: [
+          { type: 'node', id: 100, lat: 48.137, lon: 11.575 },
+          { type: 'way', id: 100, center: { lat: 52.5163, lon: 13.3777 } },
+        ],
+      });
+
+      expect(await favoritesService.migrateFavorites()).toBe(true);
+
+      expect(storageService.set).toHaveBeenCalledWith(STORAGE_KEYS.FAVORITES, [
+        expect.objectContaining({ id: 'osm:way:100', name: 'Reichstag' }),
+        expect.objectContaining({ id: '2' }),
+      ]);
+      expect(storageService.set).toHaveBeenCalledWith(STORAGE_KEYS.FAVORITES_MIGRATED, true);
+      const buildQuery = mockedRunQuery.mock.calls[0][0];
+      expect(buildQuery(25)).toContain('way(id:100)');
+    });
+
+    it('should assume a node for elements that no longer exist', async () => {
+      mockStorage([legacyFavorite]);
+      mockedRunQuery.mockResolvedValueOnce({ elements: [] });
+
+      await favoritesService.migrateFavorites();
+
+      expect(storageService.set).toHaveBeenCalledWith(STORAGE_KEYS.FAVORITES, [
+        expect.objectContaining({ id: 'osm:node:100' }),
+      ]);
+    });
+
+    it('should resolve ids marked as unresolved by earlier versions', async () => {
+      mockStorage([{ ...legacyFavorite, id: 'legacy:osm:100' }]);
+      mockedRunQuery.mockResolvedValueOnce({ elements: [] });
+
+      await favoritesService.migrateFavorites();
+
+      expect(storageService.set).toHaveBeenCalledWith(STORAGE_KEYS.FAVORITES, [
+        expect.objectContaining({ id: 'osm:node:100' }),
+      ]);
+    });
+
+    it('should keep favorites changed during the lookup', async () => {
+      const added = createMockAttraction({ id: 'osm:node:7' });
+      (storageService.get as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce([legacyFavorite])
+        .mockResolvedValueOnce([legacyFavorite, added]);
+      (storageService.set as jest.Mock).mockResolvedValue(true);
+      mockedRunQuery.mockResolvedValueOnce({ elements: [] });
+
+      await favoritesService.migrateFavorites();
+
+      expect(storageService.set).toHaveBeenCalledWith(STORAGE_KEYS.FAVORITES, [
+        expect.objectContaining({ id: 'osm:node:100' }),
+        added,
+      ]);
+    });
+
+    it('should retry after a delay when the lookup fails', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+      mockStorage([legacyFavorite]);
+      mockedRunQuery.mockRejectedValueOnce(new Error('Network Error'));
+
+      expect(await favoritesService.migrateFavorites()).toBe(false);
+      expect(storageService.set).not.toHaveBeenCalled();
+
+      now.mockReturnValue(FAVORITES_CONFIG.MIGRATION_RETRY_DELAY - 1);
+      await favoritesService.migrateFavorites();
+      expect(mockedRunQuery).toHaveBeenCalledTimes(1);
+
+      now.mockReturnValue(FAVORITES_CONFIG.MIGRATION_RETRY_DELAY);
+      mockedRunQuery.mockResolvedValueOnce({ elements: [{ type: 'node', id: 100, lat: 52.5163, lon: 13.3777 }] });
+      expect(await favoritesService.migrateFavorites()).toBe(true);
+      now.mockRestore();
+    });
+
+    it('should not migrate again once done', async () => {
+      mockStorage([legacyFavorite], true);
+
+      expect(await favoritesService.migrateFavorites()).toBe(false);
+
+      expect(mockedRunQuery).not.toHaveBeenCalled();
+    });
+
+    it('should mark as migrated without looking up anything when all ids are namespaced', async () => {
+      mockStorage(mockAttractions);
+
+      expect(await favoritesService.migrateFavorites()).toBe(false);
+
+      expect(mockedRunQuery).not.toHaveBeenCalled();
+      expect(storageService.set).toHaveBeenCalledWith(STORAGE_KEYS.FAVORITES_MIGRATED, true);
+      expect(storageService.set).not.toHaveBeenCalledWith(STORAGE_KEYS.FAVORITES, expect.anything());
+    });
+
+    it('should run one migration for concurrent calls', async () => {
+      mockStorage([legacyFavorite]);
+      mockedRunQuery.mockResolvedValueOnce({ elements: [] });
+
+      const [first, second] = await Promise.all([
+        favoritesService.migrateFavorites(),
+        favoritesService.migrateFavorites(),
+      ]);
+
+      expect(mockedRunQuery).toHaveBeenCalledTimes(1);
+      expect(second).toBe(first);
+    });
+  });
+
+  describe('Collections', () => {
+    const rostock = { id: 'collection:rostock', name: 'Rostock weekend', createdAt: '2026-01-01T00:00:00.000Z' };
+
+    // Serves favorites and collections by storage key
+    const mockStorage = (favorites: unknown[] | null, collections: unknown[] | null) => {
+      (storageService.get as jest.Mock).mockImplementation(async (key: string) =>
+        key === STORAGE_KEYS.FAVORITES ? favorites : collections
+      );
+      (storageService.set as jest.Mock).mockResolvedValue(true);
+    };
+
+    const getStored = (key: string) =>
+      (storageService.set as jest.Mock).mock.calls.filter(([storedKey]) => storedKey === key).pop()?.[1];
+
+    afterEach(() => {
+      (storageService.get as jest.Mock).mockReset();
+      (storageService.set as jest.Mock).mockReset();
+    });
+
+    it('should migrate existing favorites into the default collection', async () => {
+      mockStorage([createMockAttraction({ id: '1' })], null);
+
+      const [favorite] = await favoritesService.getFavorites();
+      const collections = await favoritesService.getCollections();
+
+      expect(favorite).toMatchObject({ collectionId: 'default', visitStatus: 'planned' });
+      expect(collections).toEqual([expect.objectContaining({ id: 'default', name: '' })]);
+    });
+
+    it('should list the default collection first', async () => {
+      mockStorage([], [rostock, { id: 'default', name: 'Wishlist', createdAt: rostock.createdAt }]);
+
+      const collections = await favoritesService.getCollections();
+
+      expect(collections.map(collection => collection.name)).toEqual(['Wishlist', 'Rostock weekend']);
+    });
+
+    it('should create a collection with a trimmed name', async () => {
+      mockStorage([], [rostock]);
+
+      const created = await favoritesService.createCollection('  Berlin 2027 ');
+
+      expect(created).toMatchObject({ id: expect.stringMatching(/^collection:/), name: 'Berlin 2027' });
+      expect(getStored(STORAGE_KEYS.FAVORITE_COLLECTIONS).map((c: { name: string }) => c.name)).toEqual([
+        '',
+        'Rostock weekend',
+        'Berlin 2027',
+      ]);
+    });
+
+    it('should not create a collection without a name', async () => {
+      mockStorage([], null);
+
+      expect(await favoritesService.createCollection('   ')).toBeNull();
+      expect(storageService.set).not.toHaveBeenCalled();
+    });
+
+    it('should rename a collection', async () => {
+      mockStorage([], [rostock]);
+
+      const collections = await favoritesService.renameCollection(rostock.id, 'Rostock long weekend');
+
+      expect(collections[1].name).toBe('Rostock long weekend');
+      expect(getStored(STORAGE_KEYS.FAVORITE_COLLECTIONS)).toEqual(collections);
+    });
+
+    it('should ignore renaming to an empty name', async () => {
+      mockStorage([], [rostock]);
+
+      const collections = await favoritesService.renameCollection(rostock.id, ' ');
+
+      expect(collections[1].name).toBe('Rostock weekend');
+      expect(storageService.set).not.toHaveBeenCalled();
+    });
+
+    it('should move the favorites of a deleted collection to the default collection', async () => {
+      mockStorage(
+        [createMockAttraction({ id: '1' }), { ...createMockAttraction({ id: '2' }), collectionId: rostock.id }],
+        [rostock]
+      );
+
+      const collections = await favoritesService.deleteCollection(rostock.id);
+
+      expect(collections.map(collection => collection.id)).toEqual(['default']);
+      expect(
+        getStored(STORAGE_KEYS.FAVORITES).map((f: { id: string; collectionId: string }) => [f.id, f.collectionId])
+      ).toEqual([
+        ['1', 'default'],
+        ['2', 'default'],
+      ]);
+    });
+
+    it('should not delete the default collection', async () => {
+      mockStorage([createMockAttraction({ id: '1' })], [rostock]);
+
+      const collections = await favoritesService.deleteCollection('default');
+
+      expect(collections).toHaveLength(2);
+      expect(storageService.set).not.toHaveBeenCalled();
+    });
+
+    it('should add a favorite to a collection', async () => {
+      mockStorage([], [rostock]);
+
+      const [favorite] = await favoritesService.addFavorite(createMockAttraction({ id: '1' }), rostock.id);
+
+      expect(favorite.collectionId).toBe(rostock.id);
+    });
+
+    it('should add a favorite to the default collection when the collection is unknown', async () => {
+      mockStorage([], [rostock]);
+
+      const [favorite] = await favoritesService.addFavorite(createMockAttraction({ id: '1' }), 'collection:gone');
+
+      expect(favorite.collectionId).toBe('default');
+    });
+
+    it('should move a favorite between collections', async () => {
+      mockStorage([createMockAttraction({ id: '1' }), createMockAttraction({ id: '2' })], [rostock]);
+
+      const favorites = await favoritesService.moveFavorite('2', rostock.id);
+
+      expect(favorites.map(favorite => favorite.collectionId)).toEqual(['default', rostock.id]);
+      expect(getStored(STORAGE_KEYS.FAVORITES)).toEqual(favorites);
+    });
+
+    it('should not move a favorite to an unknown collection', async () => {
+      mockStorage([createMockAttraction({ id: '1' })], [rostock]);
+
+      const [favorite] = await favoritesService.moveFavorite('1', 'collection:gone');
+
+      expect(favorite.collectionId).toBe('default');
+      expect(storageService.set).not.toHaveBeenCalled();
+    });
+
+    it('should update the note and visit status of a favorite', async () => {
+      mockStorage([createMockAttraction({ id: '1' }), createMockAttraction({ id: '2' })], null);
+
+      const favorites = await favoritesService.updateFavorite('1', { note: 'Sunset', visitStatus: 'visited' });
+
+      expect(favorites[0]).toMatchObject({ note: 'Sunset', visitStatus: 'visited' });
+      expect(favorites[1]).toMatchObject({ visitStatus: 'planned' });
+      expect(getStored(STORAGE_KEYS.FAVORITES)).toEqual(favorites);
+    });
+  });
+
+  describe('File export and import', () => {
+    const rostock = { id: 'collection:rostock', name: 'Rostock weekend', createdAt: '2026-01-01T00:00:00.000Z' };
+    const saved = [
+      createMockAttraction({ id: 'osm:node:1', name: 'Brandenburg Gate' }),
+      { ...createMockAttraction({ id: 'osm:node:2', name: 'Stadthafen', latitude: 54.09, longitude: 12.13 }), collectionId: rostock.id },
+    ];
+
+    const mockStorage = (favorites: unknown[], collections: unknown[] | null = [rostock]) => {
+      (storageService.get as jest.Mock).mockImplementation(async (key: string) =>
+        key === STORAGE_KEYS.FAVORITES ? favorites : collections
+      );
+      (storageService.set as jest.Mock).mockResolvedValue(true);
+    };
+
+    const geojson = (...places: Array<{ name: string; coordinates: [number, number]; id?: string }>) =>
+      JSON.stringify({
+        type: 'FeatureCollection',
+        features: places.map(({ name, coordinates, id }) => ({
+          type: 'Feature',
+          id,
+          geometry: { type: 'Point', coordinates },
+          properties: { name },
+        })),
+      });
+
+    afterEach(() => {
+      (storageService.get as jest.Mock).mockReset();
+      (storageService.set as jest.Mock).mockReset();
+    });
+
+    it('should export all favorites', async () => {
+      mockStorage(saved);
+
+      const content = await favoritesService.exportFavorites('geojson', 'Favorites');
+
+      expect(JSON.parse(content).features.map((feature: { id: string }) => feature.id)).toEqual([
+        'osm:node:1',
+        'osm:node:2',
+      ]);
+    });
+
+    it('should export a single collection', async () => {
+      mockStorage(saved);
+
+      const content = await favoritesService.exportFavorites('gpx', 'Rostock', rostock.id);
+
+      expect(content).toContain('Stadthafen');
+      expect(content).not.toContain('Brandenburg Gate');
+    });
+
+    it('should import new places into a collection', async () => {
+      mockStorage(saved);
+
+      const result = await favoritesService.importFavorites(
+        geojson({ name: 'Warnemünde Lighthouse', coordinates: [12.0853, 54.1817] }),
+        rostock.id
+      );
+
+      expect(result).toMatchObject({ added: 1, duplicates: 0, invalid: 0 });
+      expect(result!.favorites[2]).toMatchObject({
+        name: 'Warnemünde Lighthouse',
+        collectionId: rostock.id,
+        visitStatus: 'planned',
+        savedAt: expect.any(String),
+      });
+      expect(storageService.set).toHaveBeenCalledWith(STORAGE_KEYS.FAVORITES, result!.favorites);
+    });
+
+    it('should skip places that are already saved or repeated in the file', async () => {
+      mockStorage(saved);
+
+      const result = await favoritesService.importFavorites(
+        geojson(
+          { name: 'Somewhere else', coordinates: [0, 0], id: 'osm:node:1' },
+          { name: 'Brandenburger Gate', coordinates: [13.3778, 52.5164] },
+          { name: 'Fernsehturm', coordinates: [13.4094, 52.5208] },
+          { name: 'Fernsehturm', coordinates: [13.4094, 52.5208] }
+        )
+      );
+
+      expect(result).toMatchObject({ added: 1, duplicates: 3 });
+      expect(result!.favorites.map(favorite => favorite.name)).toEqual([
+        'Brandenburg Gate',
+        'Stadthafen',
+        'Fernsehturm',
+      ]);
+    });
+
+    it('should import into the default collection when the collection is unknown', async () => {
+      mockStorage([]);
+
+      const result = await favoritesService.importFavorites(
+        geojson({ name: 'Fernsehturm', coordinates: [13.4094, 52.5208] }),
+        'collection:gone'
+      );
+
+      expect(result!.favorites[0].collectionId).toBe('default');
+    });
+
+    it('should not write anything when nothing is new', async () => {
+      mockStorage(saved);
+
+      const result = await favoritesService.importFavorites(geojson({ name: 'Nowhere', coordinates: [200, 0] }));
+
+      expect(result).toMatchObject({ added: 0, duplicates: 0, invalid: 1 });
+      expect(storageService.set).not.toHaveBeenCalled();
+    });
+
+    it('should return null for unsupported content', async () => {
+      mockStorage(saved);
+
+      expect(await favoritesService.importFavorites('not a file')).toBeNull();
+      expect(storageService.get).not.toHaveBeenCalled();
+    });
+
+    it('should read the picked file', async () => {
+      (DocumentPicker.getDocumentAsync as jest.Mock).mockResolvedValueOnce({
+        canceled: false,
+        assets: [{ uri: 'file:///cache/places.gpx', name: 'places.gpx' }],
+      });
+      (File as unknown as jest.Mock).mockImplementationOnce(() => ({ text: async () => '<gpx/>' }));
+
+      expect(await favoritesService.pickFavoritesFile()).toBe('<gpx/>');
+      expect(File).toHaveBeenCalledWith('file:///cache/places.gpx');
+      expect(DocumentPicker.getDocumentAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ type: expect.arrayContaining(['application/gpx+xml']) })
+      );
+    });
+
+    it('should return null when no file was picked', async () => {
+      (DocumentPicker.getDocumentAsync as jest.Mock).mockResolvedValueOnce({ canceled: true, assets: null });
+
+      expect(await favoritesService.pickFavoritesFile()).toBeNull();
+      expect(File).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Visits', () => {
+    const position = { latitude: 52.5163, longitude: 13.3777 };
+    // About 40 m and 1.1 km north of the position
+    const near = createMockAttraction({ id: 'near', latitude: 52.5167, longitude: 13.3777 });
+    const far = createMockAttraction({ id: 'far', latitude: 52.5263, longitude: 13.3777 });
+
+    const mockStorage = (favorites: unknown[]) => {
+      (storageService.get as jest.Mock).mockImplementation(async (key: string) =>
+        key === STORAGE_KEYS.FAVORITES ? favorites : null
+      );
+      (storageService.set as jest.Mock).mockResolvedValue(true);
+    };
+
+    afterEach(() => {
+      (storageService.get as jest.Mock).mockReset();
+      (storageService.set as jest.Mock).mockReset();
+    });
+
+    it('should record the date when a favorite is marked as visited', async () => {
+      mockStorage([near]);
+
+      const [favorite] = await favoritesService.updateFavorite('near', { visitStatus: 'visited' });
+
+      expect(favorite).toMatchObject({ visitStatus: 'visited', visitSource: 'manual', visitedAt: expect.any(String) });
+    });
+
+    it('should keep an explicit or earlier visit date', async () => {
+      mockStorage([{ ...near, visitStatus: 'visited', visitedAt: '2027-05-01T10:00:00.000Z' }]);
+
+      const [kept] = await favoritesService.updateFavorite('near', { visitStatus: 'visited' });
+      const [explicit] = await favoritesService.updateFavorite('near', {
+        visitStatus: 'visited',
+        visitedAt: '2027-05-02T10:00:00.000Z',
+      });
+
+      expect(kept.visitedAt).toBe('2027-05-01T10:00:00.000Z');
+      expect(explicit.visitedAt).toBe('2027-05-02T10:00:00.000Z');
+    });
+
+    it('should clear the visit date when a favorite is planned again', async () => {
+      mockStorage([{ ...near, visitStatus: 'visited', visitedAt: '2027-05-01T10:00:00.000Z' }]);
+
+      const [favorite] = await favoritesService.updateFavorite('near', { visitStatus: 'planned' });
+
+      expect(favorite.visitedAt).toBeUndefined();
+      expect(favorite.visitSource).toBe('manual');
+    });
+
+    it('should keep personal ratings within one to five stars', async () => {
+      mockStorage([near]);
+
+      const [high] = await favoritesService.updateFavorite('near', { personalRating: 7 });
+      const [low] = await favoritesService.updateFavorite('near', { personalRating: 0.2 });
+
+      expect(high.personalRating).toBe(5);
+      expect(low.personalRating).toBe(1);
+    });
+
+    it('should mark favorites within the geofence as visited', async () => {
+      mockStorage([near, far]);
+
+      const visited = await favoritesService.recordVisitsNear(position);
+
+      expect(visited).toEqual([
+        expect.objectContaining({ id: 'near', visitStatus: 'visited', visitSource: 'geofence', visitedAt: expect.any(String) }),
+      ]);
+      const stored = (storageService.set as jest.Mock).mock.calls[0][1];
+      expect(stored.map((favorite: { visitStatus: string }) => favorite.visitStatus)).toEqual(['visited', 'planned']);
+    });
+
+    it('should not override visits or manual choices', async () => {
+      mockStorage([
+        { ...near, visitStatus: 'visited', visitedAt: '2027-05-01T10:00:00.000Z' },
+        { ...near, id: 'reverted', visitStatus: 'planned', visitSource: 'manual' },
+      ]);
+
+      const visited = await favoritesService.recordVisitsNear(position);
+
+      expect(visited).toEqual([]);
+      expect(storageService.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Failed saves', () => {
+    const saved = createMockAttraction({ id: 'saved' });
+    const rostock = { id: 'collection:rostock', name: 'Rostock weekend', createdAt: '2026-01-01T00:00:00.000Z' };
+
+    beforeEach(() => {
+      (storageService.get as jest.Mock).mockImplementation(async (key: string) =>
+        key === STORAGE_KEYS.FAVORITES ? [saved] : [rostock]
+      );
+      (storageService.set as jest.Mock).mockResolvedValue(false);
+    });
+
+    afterEach(() => {
+      (storageService.get as jest.Mock).mockReset();
+      (storageService.set as jest.Mock).mockReset();
+    });
+
+    it('should return the stored favorites when adding fails', async () => {
+      const result = await favoritesService.addFavorite(createMockAttraction({ id: 'new' }));
+
+      expect(result.map(favorite => favorite.id)).toEqual(['saved']);
+    });
+
+    it('should return the stored favorites when removing fails', async () => {
+      const result = await favoritesService.removeFavorite('saved');
+
+      expect(result.map(favorite => favorite.id)).toEqual(['saved']);
+    });
+
+    it('should return the stored favorites when updating fails', async () => {
+      const [favorite] = await favoritesService.updateFavorite('saved', { note: 'Lunch' });
+
+      expect(favorite.note).toBeUndefined();
+    });
+
+    it('should not return a collection that was not saved', async () => {
+      expect(await favoritesService.createCollection('Hamburg')).toBeNull();
+    });
+
+    it('should keep the collection name when renaming fails', async () => {
+      const collections = await favoritesService.renameCollection(rostock.id, 'Rostock');
+
+      expect(collections).toContainEqual(rostock);
+    });
+
+    it('should keep the collection and its favorites when deleting fails', async () => {
+      const result = await favoritesService.deleteCollection(rostock.id);
+
+      expect(result).toContainEqual(rostock);
+      expect(storageService.set).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not report visits that were not saved', async () => {
+      const visited = await favoritesService.recordVisitsNear({
+        latitude: saved.latitude,
+        longitude: saved.longitude,
+      });
+
+      expect(visited).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,117 @@
+/**
+ * Tests for GeocodingCacheService
+ * Coverage target: 90%
+ */
+
+import storageService from '../../src/services/storage.service';
+import { GEOCODING_CONFIG, STORAGE_KEYS } from '../../src/constants';
+import { SearchResult } from '../../src/types';
+
+jest.mock('../../src/services/storage.service');
+
+const mockedGet = storageService.get as jest.Mock;
+const mockedSet = storageService.set as jest.Mock;
+
+const place = (id: string, primaryName: string, importance = 0.5): SearchResult => ({
+  id,
+  displayName: `${primaryName}, Deutschland`,
+  primaryName,
+  secondaryInfo: 'Deutschland',
+  coordinates: { latitude: 48.1, longitude: 11.5 },
+  type: 'city',
+  importance,
+});
+
+const muenchen = place('1', 'München', 0.8);
+const muenster = place('2', 'Münster', 0.6);
+const berlin = place('3', 'Berlin', 0.9);
+
+describe('GeocodingCacheService', () => {
+  // Fresh instance per test, as the entries are kept in memory
+  let geocodingCacheService: typeof import('../../src/services/geocoding-cache.service').default;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.isolateModules(() => {
+      geocodingCacheService = require('../../src/services/geocoding-cache.service').default;
+    });
+    mockedGet.mockResolvedValue(null);
+    mockedSet.mockResolvedValue(true);
+  });
+
+  it('should find stored places by fuzzy prefix', async () => {
+    await geocodingCacheService.store([muenchen, berlin], 'de', 1000);
+
+    expect(await geocodingCacheService.search('muen', 'de')).toEqual([muenchen]);
+    expect(await geocodingCacheService.search('brl', 'de')).toEqual([]);
+  });
+
+  it('should rank better matches first, then by importance', async () => {
+    await geocodingCacheService.store([muenster, muenchen, place('4', 'Bad Münder', 0.9)], 'de', 1000);
+
+    const results = await geocodingCacheService.search('mün', 'de');
+
+    expect(results.map(result => result.id)).toEqual(['1', '2', '4']);
+  });
+
+  it('should limit the results', async () => {
+    await geocodingCacheService.store([muenster, muenchen], 'de', 1000);
+
+    expect(await geocodingCacheService.search('mu', 'de', 1)).toEqual([muenchen]);
+  });
+
+  it('should load places stored in an earlier session', async () => {
+    mockedGet.mockResolvedValueOnce([
+      { result: muenchen, language: 'de', cachedAt: 1000 },
+      { result: { id: 'broken' }, language: 'de', cachedAt: 1000 },
+    ]);
+
+    expect(await geocodingCacheService.search('muen', 'de')).toEqual([muenchen]);
+    expect(mockedGet).toHaveBeenCalledWith(STORAGE_KEYS.GEOCODING_CACHE);
+  });
+
+  it('should prefer the names in the requested language', async () => {
+    const munich = { ...muenchen, primaryName: 'Munich', displayName: 'Munich, Germany' };
+    await geocodingCacheService.store([munich], 'en', 1000);
+    await geocodingCacheService.store([muenchen, muenster], 'de', 2000);
+
+    expect(await geocodingCacheService.search('mu', 'en')).toEqual([munich, muenster]);
+    expect(await geocodingCacheService.search('mu', 'de')).toEqual([muenchen, muenster]);
+  });
+
+  it('should replace older copies and persist newest first', async () => {
+    await geocodingCacheService.store([muenchen, berlin], 'de', 1000);
+    await geocodingCacheService.store([{ ...berlin, importance: 1 }], 'de', 2000);
+
+    expect(mockedSet).toHaveBeenLastCalledWith(STORAGE_KEYS.GEOCODING_CACHE, [
+      { result: { ...berlin, importance: 1 }, language: 'de', cachedAt: 2000 },
+      { result: muenchen, language: 'de', cachedAt: 1000 },
+    ]);
+  });
+
+  it('should drop the oldest places beyond the cache size', async () => {
+    const places = Array.from({ length: GEOCODING_CONFIG.OFFLINE_CACHE_SIZE }, (_, index) => place(`p${index}`, `Place ${index}`));
+    await geocodingCacheService.store(places, 'de', 1000);
+
+    await geocodingCacheService.store([berlin], 'de', 2000);
+
+    const stored = mockedSet.mock.calls[mockedSet.mock.calls.length - 1][1];
+    expect(stored).toHaveLength(GEOCODING_CONFIG.OFFLINE_CACHE_SIZE);
+    expect(stored[0].result).toEqual(berlin);
+  });
+
+  it('should not write for empty results', async () => {
+    await geocodingCacheService.store([], 'de');
+
+    expect(mockedSet).not.toHaveBeenCalled();
+  });
+
+  it('should forget everything when cleared', async () => {
+    await geocodingCacheService.store([muenchen], 'de', 1000);
+
+    await geocodingCacheService.clear();
+
+    expect(await geocodingCacheService.search('muen', 'de')).toEqual([]);
+    expect(storageService.remove).toHaveBeenCalledWith(STORAGE_KEYS.GEOCODING_CACHE);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for NominatimGeocoder
+ * Coverage target: 90%
+ */
+
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { NominatimGeocoder } from '../../../src/services/geocoding/nominatim.geocoder';
+import { APP_CONFIG } from '../../../src/constants';
+import { berlinCoordinates } from '../../fixtures/locations';
+
+describe('NominatimGeocoder', () => {
+  let mock: MockAdapter;
+  const geocoder = new NominatimGeocoder('https://nominatim.test');
+  const options = { languages: ['de', 'en'] };
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  describe('search', () => {
+    it('should request places with address details and extra tags', async () => {
+      mock.onGet('https://nominatim.test/search').reply(200, []);
+
+      await geocoder.search('Berlin', { ...options, limit: 3 });
+
+      const request = mock.history.get[0];
+      expect(request.params).toEqual({
+        q: 'Berlin',
+        format: 'json',
+        limit: 3,
+        'accept-language': 'de,en;q=0.9',
+        addressdetails: 1,
+        extratags: 1,
+      });
+      expect(request.headers?.['User-Agent']).toBe(APP_CONFIG.USER_AGENT);
+      expect(request.timeout).toBe(APP_CONFIG.REQUEST_TIMEOUT);
+    });
+
+    it('should name places by their city', async () => {
+      mock.onGet(/search/).reply(200, [
+        {
+          place_id: 123456,
+          osm_type: 'relation',
+          osm_id: 62422,
+          class: 'boundary',
+          type: 'administrative',
+          display_name: 'Berlin, Deutschland',
+          lat: '52.5200',
+          lon: '13.4050',
+          importance: 0.9,
+          address: { city: 'Berlin', state: 'Berlin', country: 'Deutschland' },
+        },
+      ]);
+
+      const results = await geocoder.search('Berlin', options);
+
+      expect(results).toEqual([
+        {
+          id: '123456',
+          displayName: 'Berlin, Deutschland',
+          primaryName: 'Berlin',
+          secondaryInfo: 'Berlin, Deutschland',
+          coordinates: { latitude: 52.52, longitude: 13.405 },
+          type: 'administrative',
+          importance: 0.9,
+        },
+      ]);
+    });
+
+    it('should return an empty list for unexpected responses', async () => {
+      mock.onGet(/search/).reply(200, { error: 'Bad request' });
+
+      expect(await geocoder.search('Berlin', options)).toEqual([]);
+    });
+
+    it('should throw on network errors', async () => {
+      mock.onGet(/search/).networkError();
+
+      await expect(geocoder.search('Berlin', options)).rejects.toThrow();
+    });
+  });
+
+  describe('reverse', () => {
+    it('should return the city of the position', async () => {
+      mock.onGet('https://nominatim.test/reverse').reply(200, {
+        display_name: 'Unter den Linden, Mitte, Berlin, Deutschland',
+        lat: '52.5170',
+        lon: '13.3889',
+        address: { city: 'Berlin', state: 'Berlin', country: 'Deutschland' },
+      });
+
+      const cityInfo = await geocoder.reverse(berlinCoordinates, options);
+
+      expect(cityInfo).toEqual({
+        city: 'Berlin',
+        country: 'Deutschland',
+        state: 'Berlin',
+        fullAddress: 'Unter den Linden, Mitte, Berlin, Deutschland',
+        latitude: 52.517,
+        longitude: 13.3889,
+      });
+      expect(mock.history.get[0].params).toEqual({
+        lat: berlinCoordinates.latitude,
+        lon: berlinCoordinates.longitude,
+        format: 'json',
+        'accept-language': 'de,en;q=0.9',
+      });
+    });
+
+    it('should fall back to the county', async () => {
+      mock.onGet(/reverse/).reply(200, {
+        display_name: 'Feldweg, Landkreis Rostock, Deutschland',
+        lat: '54.1',
+        lon: '11.9',
+        address: { county: 'Landkreis Rostock', country: 'Deutschland' },
+      });
+
+      const cityInfo = await geocoder.reverse({ latitude: 54.1, longitude: 11.9 }, options);
+
+      expect(cityInfo?.city).toBe('Landkreis Rostock');
+    });
+
+    it('should return null for positions without an address', async () => {
+      mock.onGet(/reverse/).reply(200, { error: 'Unable to geocode' });
+
+      expect(await geocoder.reverse({ latitude: 0, longitude: 0 }, options)).toBeNull();
+    });
+  });
+});
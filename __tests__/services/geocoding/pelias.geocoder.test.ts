@@ -0,0 +1,124 @@
+/**
+ * Tests for PeliasGeocoder
+ * Coverage target: 90%
+ */
+
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { PeliasGeocoder } from '../../../src/services/geocoding/pelias.geocoder';
+import { berlinCoordinates } from '../../fixtures/locations';
+
+const berlin = {
+  type: 'Feature',
+  geometry: { type: 'Point', coordinates: [13.4, 52.52] },
+  properties: {
+    gid: 'whosonfirst:locality:101748799',
+    layer: 'locality',
+    name: 'Berlin',
+    confidence: 0.9,
+    locality: 'Berlin',
+    region: 'Berlin',
+    country: 'Germany',
+    label: 'Berlin, Germany',
+  },
+};
+
+describe('PeliasGeocoder', () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  describe('search', () => {
+    it('should request places with the API key', async () => {
+      mock.onGet('https://pelias.test/v1/search').reply(200, { features: [] });
+      const geocoder = new PeliasGeocoder('https://pelias.test/v1', 'ge-secret');
+
+      await geocoder.search('Berlin', { languages: ['de', 'en'], limit: 3 });
+
+      expect(mock.history.get[0].params).toEqual({ text: 'Berlin', size: 3, lang: 'de', api_key: 'ge-secret' });
+    });
+
+    it('should leave out a missing API key', async () => {
+      mock.onGet(/search/).reply(200, { features: [] });
+      const geocoder = new PeliasGeocoder('https://pelias.test/v1');
+
+      await geocoder.search('Berlin', { languages: ['de'] });
+
+      expect(mock.history.get[0].params).not.toHaveProperty('api_key');
+    });
+
+    it('should convert features to places', async () => {
+      mock.onGet(/search/).reply(200, { features: [berlin] });
+      const geocoder = new PeliasGeocoder('https://pelias.test/v1');
+
+      const results = await geocoder.search('Berlin', { languages: ['en'] });
+
+      expect(results).toEqual([
+        {
+          id: 'whosonfirst:locality:101748799',
+          displayName: 'Berlin, Germany',
+          primaryName: 'Berlin',
+          secondaryInfo: 'Berlin, Germany',
+          coordinates: { latitude: 52.52, longitude: 13.4 },
+          type: 'locality',
+          importance: 0.9,
+        },
+      ]);
+    });
+
+    it('should throw when the key is rejected', async () => {
+      mock.onGet(/search/).reply(401, { message: 'Unauthorized' });
+      const geocoder = new PeliasGeocoder('https://pelias.test/v1');
+
+      await expect(geocoder.search('Berlin', { languages: ['en'] })).rejects.toThrow();
+    });
+  });
+
+  describe('reverse', () => {
+    it('should return the city of the position', async () => {
+      mock.onGet('https://pelias.test/v1/reverse').reply(200, { features: [berlin] });
+      const geocoder = new PeliasGeocoder('https://pelias.test/v1', 'ge-secret');
+
+      const cityInfo = await geocoder.reverse(berlinCoordinates, { languages: ['en'] });
+
+      expect(cityInfo).toEqual({
+        city: 'Berlin',
+        country: 'Germany',
+        state: 'Berlin',
+        fullAddress: 'Berlin, Germany',
+        latitude: 52.52,
+        longitude: 13.4,
+      });
+      expect(mock.history.get[0].params).toEqual({
+        'point.lat': berlinCoordinates.latitude,
+        'point.lon': berlinCoordinates.longitude,
+        size: 1,
+        lang: 'en',
+        api_key: 'ge-secret',
+      });
+    });
+
+    it('should leave the country empty when the place has none', async () => {
+      const { country, ...properties } = berlin.properties;
+      mock.onGet(/reverse/).reply(200, { features: [{ ...berlin, properties }] });
+      const geocoder = new PeliasGeocoder('https://pelias.test/v1');
+
+      const cityInfo = await geocoder.reverse(berlinCoordinates, { languages: ['en'] });
+
+      expect(cityInfo?.country).toBe('');
+    });
+
+    it('should return null without a feature', async () => {
+      mock.onGet(/reverse/).reply(200, { features: [] });
+      const geocoder = new PeliasGeocoder('https://pelias.test/v1');
+
+      expect(await geocoder.reverse(berlinCoordinates, { languages: ['en'] })).toBeNull();
+    });
+  });
+});
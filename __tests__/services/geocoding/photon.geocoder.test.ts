@@ -0,0 +1,130 @@
+/**
+ * Tests for PhotonGeocoder
+ * Coverage target: 90%
+ */
+
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { PhotonGeocoder } from '../../../src/services/geocoding/photon.geocoder';
+import { berlinCoordinates } from '../../fixtures/locations';
+
+const berlin = {
+  type: 'Feature',
+  geometry: { type: 'Point', coordinates: [13.3888599, 52.5170365] },
+  properties: {
+    osm_type: 'R',
+    osm_id: 62422,
+    osm_key: 'place',
+    osm_value: 'city',
+    name: 'Berlin',
+    state: 'Berlin',
+    country: 'Deutschland',
+  },
+};
+
+const fernsehturm = {
+  type: 'Feature',
+  geometry: { type: 'Point', coordinates: [13.4094, 52.5208] },
+  properties: {
+    osm_type: 'W',
+    osm_id: 24906893,
+    osm_key: 'man_made',
+    osm_value: 'tower',
+    name: 'Berliner Fernsehturm',
+    street: 'Panoramastraße',
+    city: 'Berlin',
+    state: 'Berlin',
+    country: 'Deutschland',
+  },
+};
+
+describe('PhotonGeocoder', () => {
+  let mock: MockAdapter;
+  const geocoder = new PhotonGeocoder('https://photon.test');
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  describe('search', () => {
+    it('should request places in the first supported language', async () => {
+      mock.onGet('https://photon.test/api').reply(200, { features: [] });
+
+      await geocoder.search('Berlin', { languages: ['pl', 'de-at', 'de', 'en'], limit: 3 });
+
+      expect(mock.history.get[0].params).toEqual({ q: 'Berlin', limit: 3, lang: 'de' });
+    });
+
+    it('should leave out unsupported languages', async () => {
+      mock.onGet(/api/).reply(200, { features: [] });
+
+      await geocoder.search('Berlin', { languages: ['pl'] });
+
+      expect(mock.history.get[0].params.lang).toBeUndefined();
+    });
+
+    it('should convert features to results ranked by their order', async () => {
+      mock.onGet(/api/).reply(200, { features: [berlin, fernsehturm] });
+
+      const [city, tower] = await geocoder.search('Berlin', { languages: ['de'] });
+
+      expect(city).toEqual({
+        id: 'relation:62422',
+        displayName: 'Berlin, Deutschland',
+        primaryName: 'Berlin',
+        secondaryInfo: 'Berlin, Deutschland',
+        coordinates: { latitude: 52.5170365, longitude: 13.3888599 },
+        type: 'city',
+        importance: 1,
+      });
+      expect(tower).toMatchObject({
+        id: 'way:24906893',
+        displayName: 'Berliner Fernsehturm, Panoramastraße, Berlin, Deutschland',
+        primaryName: 'Berliner Fernsehturm',
+        secondaryInfo: 'Berlin, Deutschland',
+        importance: 0.5,
+        kind: 'attraction',
+        attraction: { id: 'osm:way:24906893', type: 'tower' },
+      });
+    });
+
+    it('should throw on error responses', async () => {
+      mock.onGet(/api/).reply(400, { message: 'language not supported' });
+
+      await expect(geocoder.search('Berlin', { languages: ['de'] })).rejects.toThrow();
+    });
+  });
+
+  describe('reverse', () => {
+    it('should return the city of the position', async () => {
+      mock.onGet('https://photon.test/reverse').reply(200, { features: [fernsehturm] });
+
+      const cityInfo = await geocoder.reverse(berlinCoordinates, { languages: ['en'] });
+
+      expect(cityInfo).toEqual({
+        city: 'Berlin',
+        country: 'Deutschland',
+        state: 'Berlin',
+        fullAddress: 'Berliner Fernsehturm, Panoramastraße, Berlin, Deutschland',
+        latitude: 52.5208,
+        longitude: 13.4094,
+      });
+      expect(mock.history.get[0].params).toEqual({
+        lat: berlinCoordinates.latitude,
+        lon: berlinCoordinates.longitude,
+        limit: 1,
+        lang: 'en',
+      });
+    });
+
+    it('should return null without a feature', async () => {
+      mock.onGet(/reverse/).reply(200, { features: [] });
+
+      expect(await geocoder.reverse(berlinCoordinates, { languages: ['en'] })).toBeNull();
+    });
+  });
+});
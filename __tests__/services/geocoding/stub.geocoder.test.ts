@@ -0,0 +1,88 @@
+/**
+ * Tests for StubGeocoder and geocoder selection
+ * Coverage target: 90%
+ */
+
+import {
+  createGeocoder,
+  nominatimGeocoder,
+  photonGeocoder,
+  NominatimGeocoder,
+  PeliasGeocoder,
+  StubGeocoder,
+} from '../../../src/services/geocoding';
+import { SearchResult } from '../../../src/types';
+
+const place = (id: string, primaryName: string, latitude: number, longitude: number, importance = 0.5): SearchResult => ({
+  id,
+  displayName: `${primaryName}, Deutschland`,
+  primaryName,
+  secondaryInfo: 'Bayern, Deutschland',
+  coordinates: { latitude, longitude },
+  type: 'city',
+  importance,
+});
+
+const muenchen = place('1', 'München', 48.1351, 11.582, 0.8);
+const muenster = place('2', 'Münster', 51.9607, 7.6261, 0.6);
+const nuernberg = place('3', 'Nürnberg', 49.4521, 11.0767, 0.7);
+
+describe('StubGeocoder', () => {
+  const options = { languages: ['de'] };
+
+  it('should find places by fuzzy prefix, more important first', async () => {
+    const geocoder = new StubGeocoder([muenster, muenchen, nuernberg]);
+
+    expect(await geocoder.search('mün', options)).toEqual([muenchen, muenster]);
+    expect(await geocoder.search('muen', { ...options, limit: 1 })).toEqual([muenchen]);
+  });
+
+  it('should reverse geocode to the closest place', async () => {
+    const geocoder = new StubGeocoder([muenster, muenchen, nuernberg]);
+
+    expect(await geocoder.reverse({ latitude: 48.2, longitude: 11.6 }, options)).toEqual({
+      city: 'München',
+      country: 'Deutschland',
+      state: 'Bayern',
+      fullAddress: 'München, Deutschland',
+      latitude: 48.1351,
+      longitude: 11.582,
+    });
+  });
+
+  it('should return null without places', async () => {
+    expect(await new StubGeocoder().reverse({ latitude: 48.2, longitude: 11.6 }, options)).toBeNull();
+  });
+
+  it('should record requests', async () => {
+    const geocoder = new StubGeocoder();
+
+    await geocoder.search('Berlin', options);
+
+    expect(geocoder.requests).toEqual([{ query: 'Berlin', options }]);
+  });
+});
+
+describe('createGeocoder', () => {
+  it('should use the public instances without an endpoint', () => {
+    expect(createGeocoder('nominatim')).toBe(nominatimGeocoder);
+    expect(createGeocoder('photon', '')).toBe(photonGeocoder);
+  });
+
+  it('should fall back to Nominatim for missing or unknown ids', () => {
+    expect(createGeocoder()).toBe(nominatimGeocoder);
+    expect(createGeocoder('google')).toBe(nominatimGeocoder);
+  });
+
+  it('should create geocoders for other endpoints', () => {
+    const geocoder = createGeocoder('nominatim', 'https://nominatim.example.org');
+
+    expect(geocoder).toBeInstanceOf(NominatimGeocoder);
+    expect(geocoder).not.toBe(nominatimGeocoder);
+  });
+
+  it('should create Pelias and stub geocoders', () => {
+    expect(createGeocoder('pelias', '', 'ge-secret')).toBeInstanceOf(PeliasGeocoder);
+    expect(createGeocoder('stub').id).toBe('stub');
+  });
+});
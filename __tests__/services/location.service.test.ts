@@ -7,16 +7,24 @@ import * as Location from 'expo-location';
 import axios from 'axios';
 import locationService from '../../src/services/location.service';
 import errorNotificationService from '../../src/services/error-notification.service';
+import geocodingCacheService from '../../src/services/geocoding-cache.service';
 import { berlinCoordinates, tokyoCoordinates, permissionGranted, permissionDenied } from '../fixtures/locations';
 import { mockLocationPermission, mockCurrentLocation } from '../setup/mocks';
-import { API_ENDPOINTS, APP_CONFIG } from '../../src/constants';
+import { API_ENDPOINTS, APP_CONFIG, GEOCODING_CONFIG } from '../../src/constants';
+import i18n from '../../src/config/i18n';
+import { StubGeocoder } from '../../src/services/geocoding';
 
 jest.mock('axios');
+jest.mock('../../src/services/geocoding-cache.service');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockedGeocodingCache = geocodingCacheService as jest.Mocked<typeof geocodingCacheService>;
 
 describe('LocationService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    locationService.clearCache();
+    i18n.language = 'de';
+    mockedGeocodingCache.search.mockResolvedValue([]);
   });
 
   describe('requestPermissions', () => {
@@ -346,7 +354,7 @@ describe('LocationService', () => {
         importance: 0.9,
       });
       expect(mockedAxios.get).toHaveBeenCalledWith(
-        API_ENDPOINTS.NOMINATIM_SEARCH,
+        `${API_ENDPOINTS.NOMINATIM}/search`,
         expect.objectContaining({
           params: expect.objectContaining({
             q: 'Berlin',
@@ -443,6 +451,89 @@ describe('LocationService', () => {
         })
       );
     });
+
+    describe('Attractions', () => {
+      const mockFernsehturm = {
+        place_id: 345678,
+        osm_type: 'way',
+        osm_id: 24906893,
+        class: 'man_made',
+        type: 'tower',
+        name: 'Berliner Fernsehturm',
+        display_name: 'Berliner Fernsehturm, Panoramastraße, Mitte, Berlin, Deutschland',
+        lat: '52.5208',
+        lon: '13.4094',
+        importance: 0.6,
+        address: {
+          tourism: 'Berliner Fernsehturm',
+          city: 'Berlin',
+          country: 'Deutschland',
+        },
+        extratags: {
+          wikipedia: 'de:Berliner Fernsehturm',
+          wikidata: 'Q151342',
+          opening_hours: 'Mo-Su 09:00-24:00 ',
+          website: 'https://tv-turm.de',
+        },
+      };
+
+      it('should request extra tags', async () => {
+        mockedAxios.get.mockResolvedValueOnce({ data: [] });
+
+        await locationService.searchLocations('Fernsehturm');
+
+        expect(mockedAxios.get).toHaveBeenCalledWith(
+          expect.anything(),
+          expect.objectContaining({
+            params: expect.objectContaining({ extratags: 1 }),
+          })
+        );
+      });
+
+      it('should return sights as attraction results', async () => {
+        mockedAxios.get.mockResolvedValueOnce({ data: [mockFernsehturm] });
+
+        const [result] = await locationService.searchLocations('Fernsehturm');
+
+        expect(result).toMatchObject({
+          id: '345678',
+          primaryName: 'Berliner Fernsehturm',
+          secondaryInfo: 'Berlin, Deutschland',
+          kind: 'attraction',
+          attraction: {
+            id: 'osm:way:24906893',
+            name: 'Berliner Fernsehturm',
+            latitude: 52.5208,
+            longitude: 13.4094,
+            type: 'tower',
+            wikipedia: 'de:Berliner Fernsehturm',
+            wikidata: 'Q151342',
+            openingHours: 'Mo-Su 09:00-24:00',
+            website: 'https://tv-turm.de',
+          },
+        });
+        expect(result.attraction!.rating).toBeGreaterThan(0);
+      });
+
+      it('should keep other places as places', async () => {
+        mockedAxios.get.mockResolvedValueOnce({
+          data: [{ ...mockNominatimSearchResponse[0], class: 'boundary', osm_type: 'relation', osm_id: 62422 }],
+        });
+
+        const [result] = await locationService.searchLocations('Berlin');
+
+        expect(result.kind).toBeUndefined();
+        expect(result.attraction).toBeUndefined();
+      });
+
+      it('should skip attractions without an OSM element', async () => {
+        mockedAxios.get.mockResolvedValueOnce({ data: [{ ...mockFernsehturm, osm_id: undefined }] });
+
+        const [result] = await locationService.searchLocations('Fernsehturm');
+
+        expect(result.attraction).toBeUndefined();
+      });
+    });
   });
 
   describe('selectSearchResult', () => {
@@ -508,4 +599,253 @@ describe('LocationService', () => {
       });
     });
   });
+
+  describe('Language', () => {
+    const berlinResponse = (city: string) => ({
+      data: {
+        address: { city, country: 'Deutschland', state: city },
+        display_name: `${city}, Deutschland`,
+        lat: '52.520008',
+        lon: '13.404954',
+      },
+    });
+
+    const acceptLanguage = () => mockedAxios.get.mock.calls[mockedAxios.get.mock.calls.length - 1][1]?.params['accept-language'];
+
+    it('should ask for the app language before the fallback', async () => {
+      mockedAxios.get.mockResolvedValueOnce(berlinResponse('Berlin'));
+
+      await locationService.reverseGeocode(berlinCoordinates);
+
+      expect(acceptLanguage()).toBe('de,en;q=0.9');
+    });
+
+    it('should fall back from a regional language to its base language', async () => {
+      i18n.language = 'de-AT';
+      mockedAxios.get.mockResolvedValueOnce({ data: [{ lat: '48.2082', lon: '16.3738' }] });
+
+      await locationService.searchLocation('Wien');
+
+      expect(acceptLanguage()).toBe('de-at,de;q=0.9,en;q=0.8');
+    });
+
+    it('should search in the app language', async () => {
+      i18n.language = 'en';
+      mockedAxios.get.mockResolvedValueOnce({ data: [] });
+
+      await locationService.searchLocations('Munich');
+
+      expect(acceptLanguage()).toBe('en');
+    });
+
+    it('should reuse results for the same language', async () => {
+      mockedAxios.get.mockResolvedValueOnce(berlinResponse('Berlin'));
+
+      const first = await locationService.reverseGeocode(berlinCoordinates);
+      const second = await locationService.reverseGeocode({
+        latitude: berlinCoordinates.latitude + 0.00001,
+        longitude: berlinCoordinates.longitude,
+      });
+
+      expect(second).toEqual(first);
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep results per language', async () => {
+      mockedAxios.get
+        .mockResolvedValueOnce(berlinResponse('München'))
+        .mockResolvedValueOnce(berlinResponse('Munich'));
+
+      const german = await locationService.reverseGeocode(berlinCoordinates);
+      i18n.language = 'en';
+      const english = await locationService.reverseGeocode(berlinCoordinates);
+      i18n.language = 'de';
+      const germanAgain = await locationService.reverseGeocode(berlinCoordinates);
+
+      expect(german?.city).toBe('München');
+      expect(english?.city).toBe('Munich');
+      expect(germanAgain).toEqual(german);
+      expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cache search results by query and language', async () => {
+      mockedAxios.get.mockResolvedValueOnce({ data: [{ lat: '48.1351', lon: '11.5820' }] });
+
+      await locationService.searchLocation('München');
+      const cached = await locationService.searchLocation(' münchen ');
+
+      expect(cached).toEqual({ latitude: 48.1351, longitude: 11.582 });
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache failed requests', async () => {
+      mockedAxios.get.mockRejectedValueOnce(new Error('API error')).mockResolvedValueOnce(berlinResponse('Berlin'));
+
+      await locationService.reverseGeocode(berlinCoordinates);
+      const result = await locationService.reverseGeocode(berlinCoordinates);
+
+      expect(result?.city).toBe('Berlin');
+      expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should evict the oldest results beyond the cache size', async () => {
+      mockedAxios.get.mockResolvedValue(berlinResponse('Berlin'));
+      const position = (index: number) => ({ latitude: index * 0.01, longitude: 0 });
+      // Let a clock in the past advance beyond the rate limit with every request
+      let now = 0;
+      const dateSpy = jest.spyOn(Date, 'now').mockImplementation(() => (now += GEOCODING_CONFIG.MIN_REQUEST_INTERVAL));
+
+      for (let index = 0; index <= GEOCODING_CONFIG.CACHE_SIZE; index++) {
+        await locationService.reverseGeocode(position(index));
+      }
+      await locationService.reverseGeocode(position(GEOCODING_CONFIG.CACHE_SIZE));
+      await locationService.reverseGeocode(position(0));
+
+      expect(mockedAxios.get).toHaveBeenCalledTimes(GEOCODING_CONFIG.CACHE_SIZE + 2);
+      dateSpy.mockRestore();
+    });
+  });
+
+  describe('Offline cache', () => {
+    const muenchen = {
+      id: '789012',
+      displayName: 'München, Bayern, Deutschland',
+      primaryName: 'München',
+      secondaryInfo: 'Bayern, Deutschland',
+      coordinates: { latitude: 48.1351, longitude: 11.582 },
+      type: 'city',
+      importance: 0.85,
+    };
+
+    it('should keep found places on the device', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: [
+          {
+            place_id: 789012,
+            display_name: 'München, Bayern, Deutschland',
+            lat: '48.1351',
+            lon: '11.5820',
+            type: 'city',
+            importance: 0.85,
+            address: { city: 'München', state: 'Bayern', country: 'Deutschland' },
+          },
+        ],
+      });
+
+      await locationService.searchLocations('München');
+
+      expect(mockedGeocodingCache.store).toHaveBeenCalledWith([muenchen], 'de');
+    });
+
+    it('should answer from the device when offline', async () => {
+      mockedAxios.get.mockRejectedValueOnce({ isAxiosError: true, message: 'Network Error' });
+      mockedGeocodingCache.search.mockResolvedValueOnce([muenchen]);
+
+      const result = await locationService.searchLocations(' muen ');
+
+      expect(result).toEqual([muenchen]);
+      expect(mockedGeocodingCache.search).toHaveBeenCalledWith('muen', 'de', 5);
+      expect(errorNotificationService.showError).not.toHaveBeenCalled();
+    });
+
+    it('should search the device without a request', async () => {
+      mockedGeocodingCache.search.mockResolvedValueOnce([muenchen]);
+      i18n.language = 'en';
+
+      const result = await locationService.searchCachedLocations('muen', 3);
+
+      expect(result).toEqual([muenchen]);
+      expect(mockedGeocodingCache.search).toHaveBeenCalledWith('muen', 'en', 3);
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+
+    it('should not search the device for an empty query', async () => {
+      expect(await locationService.searchCachedLocations('  ')).toEqual([]);
+      expect(mockedGeocodingCache.search).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Geocoder', () => {
+    const defaultGeocoder = locationService.getGeocoder();
+    const berlinPlace = {
+      id: '240109189',
+      displayName: 'Berlin, Deutschland',
+      primaryName: 'Berlin',
+      secondaryInfo: 'Berlin, Deutschland',
+      coordinates: { latitude: 52.517, longitude: 13.3889 },
+      type: 'city',
+      importance: 0.9,
+    };
+
+    afterEach(() => {
+      locationService.setGeocoder(defaultGeocoder);
+    });
+
+    it('should use Nominatim by default', () => {
+      expect(defaultGeocoder.id).toBe('nominatim');
+    });
+
+    it('should search with the selected geocoder in the app language', async () => {
+      const geocoder = new StubGeocoder([berlinPlace]);
+      locationService.setGeocoder(geocoder);
+      i18n.language = 'en';
+
+      const results = await locationService.searchLocations('Berl', 3);
+
+      expect(results).toEqual([berlinPlace]);
+      expect(geocoder.requests).toEqual([{ query: 'Berl', options: { languages: ['en'], limit: 3 } }]);
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+
+    it('should forget cached results of the previous geocoder', async () => {
+      const first = new StubGeocoder([berlinPlace]);
+      const second = new StubGeocoder();
+      locationService.setGeocoder(first);
+      await locationService.reverseGeocode(berlinCoordinates);
+
+      locationService.setGeocoder(second);
+      const cityInfo = await locationService.reverseGeocode(berlinCoordinates);
+
+      expect(cityInfo).toBeNull();
+      expect(second.requests).toHaveLength(1);
+    });
+
+    it('should apply the rate limit to every request', async () => {
+      locationService.setGeocoder(new StubGeocoder([berlinPlace]));
+
+      await locationService.reverseGeocode(berlinCoordinates);
+      const start = Date.now();
+      await locationService.searchLocation('Berlin');
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(900);
+    }, 3000);
+
+    it('should space out concurrent requests', async () => {
+      const geocoder = new StubGeocoder([berlinPlace]);
+      const requestTimes: number[] = [];
+      jest.spyOn(geocoder, 'search').mockImplementation(async () => {
+        requestTimes.push(Date.now());
+        return [];
+      });
+      locationService.setGeocoder(geocoder);
+
+      await Promise.all([locationService.searchLocations('Berlin'), locationService.searchLocations('Hamburg')]);
+
+      expect(requestTimes).toHaveLength(2);
+      expect(requestTimes[1] - requestTimes[0]).toBeGreaterThanOrEqual(900);
+    }, 4000);
+
+    it('should show the same errors for every geocoder', async () => {
+      const geocoder = new StubGeocoder();
+      jest.spyOn(geocoder, 'reverse').mockRejectedValue(new Error('Unauthorized'));
+      locationService.setGeocoder(geocoder);
+
+      const result = await locationService.reverseGeocode(berlinCoordinates);
+
+      expect(result).toBeNull();
+      expect(errorNotificationService.showError).toHaveBeenCalledWith(
+        expect.objectContaining({ source: 'locationService', error: expect.any(Error) })
+      );
+    });
+  });
 });
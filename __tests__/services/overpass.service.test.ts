@@ -0,0 +1,267 @@
+/**
+ * Tests for OverpassService
+ * Coverage target: 90%
+ */
+
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import overpassService, { OverpassBusyError } from '../../src/services/overpass.service';
+import { OVERPASS_CONFIG } from '../../src/constants';
+
+const [PRIMARY, SECONDARY, TERTIARY] = OVERPASS_CONFIG.MIRRORS;
+const PRIMARY_STATUS = PRIMARY.replace(/\/interpreter$/, '/status');
+
+describe('OverpassService', () => {
+  let mock: MockAdapter;
+  let now: number;
+  const buildQuery = jest.fn((timeout: number) => `[out:json][timeout:${timeout}];`);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mock = new MockAdapter(axios);
+    now = Date.parse('2024-06-05T10:00:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    overpassService.reset();
+  });
+
+  afterEach(() => {
+    mock.restore();
+    jest.restoreAllMocks();
+  });
+
+  describe('runQuery', () => {
+    it('should return data from the first mirror', async () => {
+      mock.onPost(PRIMARY).reply(200, { elements: [{ id: 1 }] });
+
+      const result = await overpassService.runQuery(buildQuery);
+
+      expect(result).toEqual({ elements: [{ id: 1 }] });
+      expect(mock.history.post).toHaveLength(1);
+      expect(mock.history.post[0].timeout).toBe(OVERPASS_CONFIG.ATTEMPT_TIMEOUT);
+      expect(buildQuery).toHaveBeenCalledWith(OVERPASS_CONFIG.ATTEMPT_TIMEOUT / 1000);
+    });
+
+    it('should shorten attempts to end by the given time', async () => {
+      mock.onPost(PRIMARY).reply(200, { elements: [] });
+
+      await overpassService.runQuery(buildQuery, Date.now() + 8000);
+
+      expect(mock.history.post[0].timeout).toBeLessThanOrEqual(8000);
+      expect(buildQuery).toHaveBeenCalledWith(expect.any(Number));
+      expect(buildQuery.mock.calls[0][0]).toBeLessThanOrEqual(8);
+    });
+
+    it('should fail over to the next mirror on server errors', async () => {
+      mock.onPost(PRIMARY).reply(504);
+      mock.onPost(SECONDARY).reply(200, { elements: [] });
+
+      const result = await overpassService.runQuery(buildQuery);
+
+      expect(result).toEqual({ elements: [] });
+      expect(overpassService.getMirrorStatus()[0]).toMatchObject({
+        consecutiveFailures: 1,
+        blockedUntil: now + OVERPASS_CONFIG.BACKOFF_BASE,
+        rateLimited: false,
+      });
+    });
+
+    it('should fail over on network errors and timeouts', async () => {
+      mock.onPost(PRIMARY).networkError();
+      mock.onPost(SECONDARY).timeout();
+      mock.onPost(TERTIARY).reply(200, { elements: [] });
+
+      await expect(overpassService.runQuery(buildQuery)).resolves.toEqual({ elements: [] });
+      expect(mock.history.post.map(request => request.url)).toEqual([PRIMARY, SECONDARY, TERTIARY]);
+    });
+
+    it('should respect Retry-After in seconds', async () => {
+      mock.onPost(PRIMARY).reply(429, {}, { 'retry-after': '120' });
+      mock.onPost(SECONDARY).reply(200, {});
+
+      await overpassService.runQuery(buildQuery);
+
+      expect(overpassService.getMirrorStatus()[0]).toMatchObject({
+        blockedUntil: now + 120000,
+        rateLimited: true,
+      });
+    });
+
+    it('should respect Retry-After as HTTP date', async () => {
+      const retryAt = new Date(now + 90000).toUTCString();
+      mock.onPost(PRIMARY).reply(429, {}, { 'retry-after': retryAt });
+      mock.onPost(SECONDARY).reply(200, {});
+
+      await overpassService.runQuery(buildQuery);
+
+      expect(overpassService.getMirrorStatus()[0].blockedUntil).toBe(now + 90000);
+    });
+
+    it('should double the backoff for consecutive failures', async () => {
+      mock.onPost(PRIMARY).reply(503);
+      mock.onPost(SECONDARY).reply(503);
+      mock.onPost(TERTIARY).reply(200, {});
+
+      await overpassService.runQuery(buildQuery);
+      now += OVERPASS_CONFIG.BACKOFF_BASE;
+      await overpassService.runQuery(buildQuery);
+
+      // Tertiary is healthiest now and answered, so failing mirrors were not retried
+      expect(mock.history.post.map(request => request.url)).toEqual([
+        PRIMARY,
+        SECONDARY,
+        TERTIARY,
+        TERTIARY,
+      ]);
+
+      mock.resetHandlers();
+      mock.onPost(TERTIARY).reply(503);
+      mock.onPost(PRIMARY).reply(503);
+      mock.onPost(SECONDARY).reply(200, {});
+      await overpassService.runQuery(buildQuery);
+
+      expect(overpassService.getMirrorStatus()[0]).toMatchObject({
+        consecutiveFailures: 2,
+        blockedUntil: now + OVERPASS_CONFIG.BACKOFF_BASE * 2,
+      });
+    });
+
+    it('should not fail over on client errors', async () => {
+      mock.onPost(PRIMARY).reply(400, 'syntax error');
+
+      await expect(overpassService.runQuery(buildQuery)).rejects.toThrow('400');
+      expect(mock.history.post).toHaveLength(1);
+      expect(overpassService.getMirrorStatus()[0].consecutiveFailures).toBe(0);
+    });
+
+    it('should throw the last error when all mirrors fail', async () => {
+      mock.onPost(PRIMARY).reply(504);
+      mock.onPost(SECONDARY).reply(502);
+      mock.onPost(TERTIARY).reply(500);
+
+      await expect(overpassService.runQuery(buildQuery)).rejects.toThrow('500');
+    });
+
+    it('should skip mirrors that are backing off', async () => {
+      mock.onPost(PRIMARY).reply(504);
+      mock.onPost(SECONDARY).reply(200, {});
+      await overpassService.runQuery(buildQuery);
+
+      await overpassService.runQuery(buildQuery);
+
+      expect(mock.history.post.map(request => request.url)).toEqual([PRIMARY, SECONDARY, SECONDARY]);
+    });
+
+    it('should throw OverpassBusyError when every mirror is backing off', async () => {
+      mock.onPost(PRIMARY).reply(429, {}, { 'retry-after': '60' });
+      mock.onPost(SECONDARY).reply(429, {}, { 'retry-after': '30' });
+      mock.onPost(TERTIARY).reply(429, {}, { 'retry-after': '90' });
+      await expect(overpassService.runQuery(buildQuery)).rejects.toThrow();
+
+      const error = await overpassService
+        .runQuery(buildQuery)
+        .then(() => null, (e: OverpassBusyError) => e);
+
+      expect(error).toBeInstanceOf(OverpassBusyError);
+      expect(error?.retryAt).toBe(now + 30000);
+      expect(mock.history.post).toHaveLength(3);
+    });
+
+    it('should reset health after a successful query', async () => {
+      mock.onPost(PRIMARY).replyOnce(504);
+      mock.onPost(SECONDARY).replyOnce(200, {});
+      await overpassService.runQuery(buildQuery);
+      now += OVERPASS_CONFIG.BACKOFF_BASE;
+
+      // Healthy mirrors go first; the primary is reached once they fail
+      mock.onPost(SECONDARY).replyOnce(504);
+      mock.onPost(TERTIARY).replyOnce(504);
+      mock.onPost(PRIMARY).replyOnce(200, {});
+      await overpassService.runQuery(buildQuery);
+
+      expect(mock.history.post.at(-1)?.url).toBe(PRIMARY);
+      expect(overpassService.getMirrorStatus()[0]).toMatchObject({
+        consecutiveFailures: 0,
+        blockedUntil: 0,
+      });
+    });
+  });
+
+  describe('Slot status', () => {
+    // Primary is rate limited for 10s, the other mirrors back off longer
+    const rateLimitPrimary = async () => {
+      mock.onPost(PRIMARY).replyOnce(429, {}, { 'retry-after': '10' });
+      mock.onPost(SECONDARY).reply(503);
+      mock.onPost(TERTIARY).reply(503);
+      await expect(overpassService.runQuery(buildQuery)).rejects.toThrow();
+      now += 10000;
+    };
+
+    it('should query a rate-limited mirror again when a slot is free', async () => {
+      await rateLimitPrimary();
+      mock.onGet(PRIMARY_STATUS).reply(200, 'Connected as: 1\nRate limit: 2\n2 slots available now.\n');
+      mock.onPost(PRIMARY).reply(200, { elements: [] });
+
+      await expect(overpassService.runQuery(buildQuery)).resolves.toEqual({ elements: [] });
+
+      expect(mock.history.get).toHaveLength(1);
+      expect(overpassService.getMirrorStatus()[0].rateLimited).toBe(false);
+    });
+
+    it('should back off until the next slot when none is free', async () => {
+      await rateLimitPrimary();
+      mock.onGet(PRIMARY_STATUS).reply(
+        200,
+        'Rate limit: 2\n' +
+          'Slot available after: 2024-06-05T10:00:55Z, in 45 seconds.\n' +
+          'Slot available after: 2024-06-05T10:00:40Z, in 30 seconds.\n'
+      );
+
+      await expect(overpassService.runQuery(buildQuery)).rejects.toBeInstanceOf(OverpassBusyError);
+
+      expect(mock.history.post).toHaveLength(3);
+      expect(overpassService.getMirrorStatus()[0].blockedUntil).toBe(now + 30000);
+    });
+
+    it('should assume a free slot when the status is unavailable', async () => {
+      await rateLimitPrimary();
+      mock.onGet(PRIMARY_STATUS).reply(404);
+      mock.onPost(PRIMARY).reply(200, {});
+
+      await expect(overpassService.runQuery(buildQuery)).resolves.toEqual({});
+    });
+
+    it('should not check the status of healthy mirrors', async () => {
+      mock.onPost(PRIMARY).reply(200, {});
+
+      await overpassService.runQuery(buildQuery);
+
+      expect(mock.history.get).toHaveLength(0);
+    });
+  });
+
+  describe('Timeout budget', () => {
+    it('should give later attempts only the remaining budget', async () => {
+      mock.onPost(PRIMARY).reply(() => {
+        now += 30000;
+        return [504];
+      });
+      mock.onPost(SECONDARY).reply(200, {});
+
+      await overpassService.runQuery(buildQuery);
+
+      const remaining = OVERPASS_CONFIG.REQUEST_BUDGET - 30000;
+      expect(mock.history.post[1].timeout).toBe(remaining);
+      expect(buildQuery).toHaveBeenLastCalledWith(Math.floor(remaining / 1000));
+    });
+
+    it('should stop when the budget is exhausted', async () => {
+      mock.onPost(PRIMARY).reply(() => {
+        now += OVERPASS_CONFIG.REQUEST_BUDGET - OVERPASS_CONFIG.MIN_ATTEMPT_TIME + 1;
+        return [504];
+      });
+
+      await expect(overpassService.runQuery(buildQuery)).rejects.toThrow('504');
+      expect(mock.history.post).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests for LocalProvider
+ * Coverage target: 90%
+ */
+
+import localProvider, { LocalProvider } from '../../../src/services/providers/local.provider';
+import { berlinCoordinates, tokyoCoordinates } from '../../fixtures/locations';
+
+describe('LocalProvider', () => {
+  it('should return bundled landmarks within the radius', async () => {
+    const result = await localProvider.fetchAttractions({
+      coordinates: berlinCoordinates,
+      radius: 5000,
+      interests: [],
+    });
+
+    expect(result.map(a => a.name)).toContain('Brandenburger Tor');
+    expect(result.every(a => a.distance <= 5000)).toBe(true);
+    expect(result.every(a => a.sources?.includes('local'))).toBe(true);
+  });
+
+  it('should return nothing far away from bundled landmarks', async () => {
+    const result = await localProvider.fetchAttractions({
+      coordinates: tokyoCoordinates,
+      radius: 5000,
+      interests: [],
+    });
+
+    expect(result).toEqual([]);
+  });
+
+  it('should rate entries with a wikipedia reference', async () => {
+    const provider = new LocalProvider([
+      { id: 'local:a', name: 'A', latitude: 52.52, longitude: 13.405, type: 'museum', wikipedia: 'de:A' },
+      { id: 'local:b', name: 'B', latitude: 52.52, longitude: 13.405, type: 'museum' },
+    ]);
+
+    const [withArticle, withoutArticle] = await provider.fetchAttractions({
+      coordinates: berlinCoordinates,
+      radius: 100,
+      interests: [],
+    });
+
+    expect(withArticle.wikipedia).toBe('de:A');
+    expect(withArticle.rating).toBeGreaterThan(withoutArticle.rating);
+    expect(withoutArticle).not.toHaveProperty('wikipedia');
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Tests for OverpassProvider
+ * Coverage target: 90%
+ */
+
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import overpassProvider from '../../../src/services/providers/overpass.provider';
+import overpassService from '../../../src/services/overpass.service';
+import { API_ENDPOINTS, LOCATION_CONFIG } from '../../../src/constants';
+import { berlinCoordinates } from '../../fixtures/locations';
+
+describe('OverpassProvider', () => {
+  let mock: MockAdapter;
+  const query = { coordinates: berlinCoordinates, radius: 1000, interests: [] };
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    overpassService.reset();
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should post the query and parse elements', async () => {
+    mock.onPost(API_ENDPOINTS.OVERPASS).reply(200, {
+      elements: [
+        { type: 'node', id: 1, lat: 52.5163, lon: 13.3777, tags: { name: 'Brandenburger Tor', tourism: 'attraction' } },
+        { type: 'way', id: 2, center: { lat: 52.5186, lon: 13.3762 }, tags: { name: 'Reichstag', historic: 'building' } },
+      ],
+    });
+
+    const result = await overpassProvider.fetchAttractions(query);
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({
+      id: 'osm:node:1',
+      name: 'Brandenburger Tor',
+      type: 'attraction',
+      sources: ['overpass'],
+    });
+    expect(result[1]).toMatchObject({ id: 'osm:way:2', latitude: 52.5186, longitude: 13.3762 });
+    expect(mock.history.post[0].data).toMatch(/around%3A1000/);
+  });
+
+  it('should give elements of different types with the same id distinct ids', async () => {
+    mock.onPost(API_ENDPOINTS.OVERPASS).reply(200, {
+      elements: [
+        { type: 'node', id: 7, lat: 52.5163, lon: 13.3777, tags: { name: 'Eingang', tourism: 'attraction' } },
+        { type: 'relation', id: 7, center: { lat: 52.5186, lon: 13.3762 }, tags: { name: 'Park', leisure: 'park' } },
+        { id: 0, lat: 52.5, lon: 13.4, tags: { name: 'Broken' } },
+      ],
+    });
+
+    const result = await overpassProvider.fetchAttractions(query);
+
+    expect(result.map(attraction => attraction.id)).toEqual(['osm:node:7', 'osm:relation:7']);
+  });
+
+  it('should keep the nearest elements, sorted by distance', async () => {
+    const count = LOCATION_CONFIG.MAX_RETAINED_ATTRACTIONS + 10;
+    mock.onPost(API_ENDPOINTS.OVERPASS).reply(200, {
+      // Farthest first, as Overpass may return them in any order
+      elements: Array.from({ length: count }, (_, index) => ({
+        type: 'node',
+        id: index + 1,
+        lat: berlinCoordinates.latitude + (count - index) * 0.0001,
+        lon: berlinCoordinates.longitude,
+        tags: { name: `Place ${index + 1}`, tourism: 'attraction' },
+      })),
+    });
+
+    const result = await overpassProvider.fetchAttractions(query);
+
+    expect(result).toHaveLength(LOCATION_CONFIG.MAX_RETAINED_ATTRACTIONS);
+    expect(result[0].id).toBe(`osm:node:${count}`);
+    expect(result.map(a => a.distance)).toEqual([...result.map(a => a.distance)].sort((a, b) => a - b));
+    expect(result.map(a => a.id)).not.toContain('osm:node:1');
+  });
+
+  it('should include interest filters in the query', async () => {
+    mock.onPost(API_ENDPOINTS.OVERPASS).reply(200, { elements: [] });
+
+    await overpassProvider.fetchAttractions({ ...query, interests: ['beaches'] });
+
+    expect(decodeURIComponent(mock.history.post[0].data)).toContain('nwr["natural"="beach"]');
+  });
+
+  it('should return an empty list when the response has no elements', async () => {
+    mock.onPost(API_ENDPOINTS.OVERPASS).reply(200, {});
+
+    await expect(overpassProvider.fetchAttractions(query)).resolves.toEqual([]);
+  });
+
+  it('should reject when all mirrors fail', async () => {
+    mock.onPost().reply(504);
+
+    await expect(overpassProvider.fetchAttractions(query)).rejects.toThrow();
+  });
+
+  it('should reject on network errors', async () => {
+    mock.onPost().networkError();
+
+    await expect(overpassProvider.fetchAttractions(query)).rejects.toThrow('Network Error');
+  });
+});
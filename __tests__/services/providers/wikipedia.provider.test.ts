@@ -0,0 +1,130 @@
+/**
+ * Tests for WikipediaProvider
+ * Coverage target: 90%
+ */
+
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import wikipediaProvider from '../../../src/services/providers/wikipedia.provider';
+import { ATTRACTION_PROVIDERS_CONFIG, RATING_CONFIG } from '../../../src/constants';
+import { berlinCoordinates } from '../../fixtures/locations';
+
+describe('WikipediaProvider', () => {
+  let mock: MockAdapter;
+  const query = { coordinates: berlinCoordinates, radius: 1000, interests: [] };
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should map geosearch results to attractions', async () => {
+    mock.onGet('https://de.wikipedia.org/w/api.php').reply(200, {
+      query: {
+        geosearch: [
+          { pageid: 1, ns: 0, title: 'Berliner Dom', lat: 52.519, lon: 13.401, dist: 123.4 },
+        ],
+      },
+    });
+
+    const result = await wikipediaProvider.fetchAttractions(query);
+
+    expect(result).toEqual([
+      {
+        id: 'wiki:de:Berliner Dom',
+        name: 'Berliner Dom',
+        latitude: 52.519,
+        longitude: 13.401,
+        type: 'attraction',
+        distance: 123,
+        rating: RATING_CONFIG.BASE + RATING_CONFIG.WIKIPEDIA,
+        ratingBreakdown: [{ signal: 'wikipedia', points: RATING_CONFIG.WIKIPEDIA }],
+        description: '',
+        wikipedia: 'de:Berliner Dom',
+        sources: ['wikipedia'],
+      },
+    ]);
+  });
+
+  it('should drop articles of types unrelated to the interests', async () => {
+    mock.onGet('https://de.wikipedia.org/w/api.php').reply(200, {
+      query: {
+        geosearch: [
+          { pageid: 1, ns: 0, title: 'Berliner Dom', lat: 52.519, lon: 13.401, dist: 120, type: 'landmark' },
+          { pageid: 2, ns: 0, title: 'Berlin', lat: 52.52, lon: 13.405, dist: 200, type: 'city' },
+          { pageid: 3, ns: 0, title: 'Müggelberge', lat: 52.42, lon: 13.63, dist: 900, type: 'mountain' },
+          { pageid: 4, ns: 0, title: 'Nikolaikirche', lat: 52.517, lon: 13.407, dist: 400, type: null },
+        ],
+      },
+    });
+
+    const sights = await wikipediaProvider.fetchAttractions(query);
+    const withNature = await wikipediaProvider.fetchAttractions({ ...query, interests: ['nature'] });
+
+    expect(sights.map(a => a.name)).toEqual(['Berliner Dom', 'Nikolaikirche']);
+    expect(withNature.map(a => a.name)).toEqual(['Berliner Dom', 'Müggelberge', 'Nikolaikirche']);
+  });
+
+  it('should send geosearch parameters', async () => {
+    mock.onGet('https://de.wikipedia.org/w/api.php').reply(200, { query: { geosearch: [] } });
+
+    await wikipediaProvider.fetchAttractions(query);
+
+    expect(mock.history.get[0].params).toMatchObject({
+      list: 'geosearch',
+      gscoord: `${berlinCoordinates.latitude}|${berlinCoordinates.longitude}`,
+      gsradius: 1000,
+      gslimit: ATTRACTION_PROVIDERS_CONFIG.WIKIPEDIA_RESULT_LIMIT,
+      gsprop: 'type',
+    });
+  });
+
+  it('should shorten the request to end by the deadline', async () => {
+    mock.onGet('https://de.wikipedia.org/w/api.php').reply(200, { query: { geosearch: [] } });
+
+    await wikipediaProvider.fetchAttractions({ ...query, deadline: Date.now() + 3000 });
+
+    expect(mock.history.get[0].timeout).toBeLessThanOrEqual(3000);
+  });
+
+  it('should cap the radius at the API limit', async () => {
+    mock.onGet('https://de.wikipedia.org/w/api.php').reply(200, { query: { geosearch: [] } });
+
+    await wikipediaProvider.fetchAttractions({ ...query, radius: 50000 });
+
+    expect(mock.history.get[0].params.gsradius).toBe(ATTRACTION_PROVIDERS_CONFIG.WIKIPEDIA_MAX_RADIUS);
+  });
+
+  it('should use the requested language edition', async () => {
+    mock.onGet('https://en.wikipedia.org/w/api.php').reply(200, {
+      query: { geosearch: [{ pageid: 2, ns: 0, title: 'Berlin Cathedral', lat: 52.519, lon: 13.401, dist: 10 }] },
+    });
+
+    const result = await wikipediaProvider.fetchAttractions({ ...query, language: 'en' });
+
+    expect(result[0].wikipedia).toBe('en:Berlin Cathedral');
+  });
+
+  it('should skip pages outside the article namespace', async () => {
+    mock.onGet('https://de.wikipedia.org/w/api.php').reply(200, {
+      query: { geosearch: [{ pageid: 3, ns: 6, title: 'Datei:Dom.jpg', lat: 52.5, lon: 13.4, dist: 5 }] },
+    });
+
+    await expect(wikipediaProvider.fetchAttractions(query)).resolves.toEqual([]);
+  });
+
+  it('should return an empty list for responses without results', async () => {
+    mock.onGet('https://de.wikipedia.org/w/api.php').reply(200, {});
+
+    await expect(wikipediaProvider.fetchAttractions(query)).resolves.toEqual([]);
+  });
+
+  it('should reject on request errors', async () => {
+    mock.onGet('https://de.wikipedia.org/w/api.php').timeout();
+
+    await expect(wikipediaProvider.fetchAttractions(query)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for ProximityService
+ * Coverage target: 90%
+ */
+
+import proximityService from '../../src/services/proximity.service';
+import storageService from '../../src/services/storage.service';
+import { STORAGE_KEYS, PROXIMITY_ALERT_CONFIG } from '../../src/constants';
+import { createMockAttraction } from '../fixtures/attractions';
+
+jest.mock('../../src/services/storage.service');
+
+const mockedGet = storageService.get as jest.Mock;
+const mockedSet = storageService.set as jest.Mock;
+
+// About 110 m and 1.1 km north of the position
+const position = { latitude: 52.5, longitude: 13.4 };
+const near = createMockAttraction({ id: 'near', latitude: 52.501, longitude: 13.4 });
+const far = createMockAttraction({ id: 'far', latitude: 52.51, longitude: 13.4 });
+
+const NOW = Date.parse('2026-06-01T12:00:00.000Z');
+
+describe('ProximityService', () => {
+  let stored: Record<string, unknown>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stored = {};
+    mockedGet.mockImplementation(async (key: string) => stored[key] ?? null);
+    mockedSet.mockImplementation(async (key: string, value: unknown) => {
+      stored[key] = value;
+      return true;
+    });
+  });
+
+  describe('Settings', () => {
+    it('should use defaults when nothing is stored', async () => {
+      expect(await proximityService.getSettings()).toEqual({
+        enabled: PROXIMITY_ALERT_CONFIG.ENABLED_BY_DEFAULT,
+        radius: PROXIMITY_ALERT_CONFIG.DEFAULT_RADIUS,
+      });
+    });
+
+    it('should save and restore settings', async () => {
+      await proximityService.saveSettings({ enabled: false, radius: 250 });
+
+      expect(await proximityService.getSettings()).toEqual({ enabled: false, radius: 250 });
+    });
+
+    it('should replace invalid stored fields', async () => {
+      stored[STORAGE_KEYS.PROXIMITY_ALERT_SETTINGS] = { enabled: 'yes', radius: -5 };
+
+      expect(await proximityService.getSettings()).toEqual({
+        enabled: PROXIMITY_ALERT_CONFIG.ENABLED_BY_DEFAULT,
+        radius: PROXIMITY_ALERT_CONFIG.DEFAULT_RADIUS,
+      });
+    });
+  });
+
+  describe('checkPosition', () => {
+    it('should alert about nearby favorites', async () => {
+      const alerts = await proximityService.checkPosition(position, [near, far], [], null, NOW);
+
+      expect(alerts.map(alert => alert.attraction.id)).toEqual(['near']);
+      expect(stored[STORAGE_KEYS.PROXIMITY_ALERT_HISTORY]).toEqual({ near: NOW });
+    });
+
+    it('should use the radius from the settings', async () => {
+      stored[STORAGE_KEYS.PROXIMITY_ALERT_SETTINGS] = { enabled: true, radius: 2000 };
+
+      const alerts = await proximityService.checkPosition(position, [near, far], [], null, NOW);
+
+      expect(alerts.map(alert => alert.attraction.id)).toEqual(['near', 'far']);
+    });
+
+    it('should not alert while turned off', async () => {
+      stored[STORAGE_KEYS.PROXIMITY_ALERT_SETTINGS] = { enabled: false, radius: 500 };
+
+      expect(await proximityService.checkPosition(position, [near], [], null, NOW)).toEqual([]);
+      expect(mockedSet).not.toHaveBeenCalled();
+    });
+
+    it('should not alert about the same place again during the cooldown', async () => {
+      await proximityService.checkPosition(position, [near], [], null, NOW);
+
+      const again = await proximityService.checkPosition(position, [near], [], null, NOW + 60 * 1000);
+
+      expect(again).toEqual([]);
+    });
+
+    it('should alert again after the cooldown', async () => {
+      await proximityService.checkPosition(position, [near], [], null, NOW);
+
+      const again = await proximityService.checkPosition(
+        position,
+        [near],
+        [],
+        null,
+        NOW + PROXIMITY_ALERT_CONFIG.COOLDOWN
+      );
+
+      expect(again).toHaveLength(1);
+      expect(stored[STORAGE_KEYS.PROXIMITY_ALERT_HISTORY]).toEqual({ near: NOW + PROXIMITY_ALERT_CONFIG.COOLDOWN });
+    });
+
+    it('should drop expired entries from the history', async () => {
+      stored[STORAGE_KEYS.PROXIMITY_ALERT_HISTORY] = {
+        old: NOW - PROXIMITY_ALERT_CONFIG.COOLDOWN,
+        recent: NOW - 1000,
+      };
+
+      await proximityService.checkPosition(position, [near], [], null, NOW);
+
+      expect(stored[STORAGE_KEYS.PROXIMITY_ALERT_HISTORY]).toEqual({ recent: NOW - 1000, near: NOW });
+    });
+
+    it('should only alert about places the position just came near', async () => {
+      // About 560 m south of the position: near was out of range there, far too
+      const before = { latitude: 52.495, longitude: 13.4 };
+      const stillNear = createMockAttraction({ id: 'stillNear', latitude: 52.4975, longitude: 13.4 });
+
+      const alerts = await proximityService.checkPosition(position, [near, far, stillNear], [], before, NOW);
+
+      expect(alerts.map(alert => alert.attraction.id)).toEqual(['near']);
+    });
+
+    it('should not touch the history when nothing is nearby', async () => {
+      expect(await proximityService.checkPosition(position, [far], [], null, NOW)).toEqual([]);
+      expect(mockedSet).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Tests for RatingService
+ * Coverage target: 90%
+ */
+
+import ratingService from '../../src/services/rating.service';
+import wikiService from '../../src/services/wiki.service';
+import { createMockAttraction } from '../fixtures/attractions';
+import { RATING_CONFIG } from '../../src/constants';
+
+jest.mock('../../src/services/wiki.service');
+
+const mockedWikiService = wikiService as jest.Mocked<typeof wikiService>;
+
+describe('RatingService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('rateTags', () => {
+    it('should return the base rating for a bare place', () => {
+      const result = ratingService.rateTags({ name: 'Bench', tourism: 'viewpoint' });
+
+      expect(result.rating).toBe(RATING_CONFIG.BASE);
+      expect(result.breakdown).toEqual([]);
+    });
+
+    it('should be deterministic for the same tags', () => {
+      const tags = { name: 'Dom', wikipedia: 'de:Dom', heritage: '2', website: 'https://dom.de' };
+
+      expect(ratingService.rateTags(tags)).toEqual(ratingService.rateTags(tags));
+    });
+
+    it('should add points for wikipedia and wikidata references', () => {
+      const result = ratingService.rateTags({ wikipedia: 'de:Brandenburger Tor', wikidata: 'Q82425' });
+
+      expect(result.breakdown).toEqual([
+        { signal: 'wikipedia', points: RATING_CONFIG.WIKIPEDIA },
+        { signal: 'wikidata', points: RATING_CONFIG.WIKIDATA },
+      ]);
+      expect(result.rating).toBe(3.8);
+    });
+
+    it('should accept language-specific wikipedia tags', () => {
+      const result = ratingService.rateTags({ 'wikipedia:de': 'Berliner Dom' });
+
+      expect(result.breakdown[0].signal).toBe('wikipedia');
+    });
+
+    it('should weight heritage levels', () => {
+      const national = ratingService.rateTags({ heritage: '1' });
+      const regional = ratingService.rateTags({ heritage: '2' });
+      const local = ratingService.rateTags({ heritage: '4' });
+
+      expect(national.breakdown[0].points).toBe(RATING_CONFIG.HERITAGE_NATIONAL);
+      expect(regional.breakdown[0].points).toBe(RATING_CONFIG.HERITAGE_REGIONAL);
+      expect(local.breakdown[0].points).toBe(RATING_CONFIG.HERITAGE_OTHER);
+    });
+
+    it('should add points for known opening hours', () => {
+      const result = ratingService.rateTags({ opening_hours: 'Mo-Fr 09:00-17:00' });
+
+      expect(result.breakdown).toEqual([
+        { signal: 'openingHours', points: RATING_CONFIG.OPENING_HOURS },
+      ]);
+    });
+
+    it('should cap tag richness points', () => {
+      const result = ratingService.rateTags({
+        description: 'x',
+        website: 'x',
+        phone: 'x',
+        email: 'x',
+        image: 'x',
+        wheelchair: 'yes',
+        fee: 'no',
+        start_date: '1791',
+        architect: 'x',
+        'addr:street': 'x',
+      });
+
+      expect(result.breakdown).toEqual([
+        { signal: 'tagRichness', points: RATING_CONFIG.TAG_RICHNESS_MAX },
+      ]);
+    });
+
+    it('should never exceed the maximum rating', () => {
+      const result = ratingService.rateTags({
+        wikipedia: 'de:X',
+        wikidata: 'Q1',
+        heritage: '1',
+        opening_hours: '24/7',
+        description: 'x',
+        website: 'x',
+        phone: 'x',
+        image: 'x',
+        fee: 'no',
+        wheelchair: 'yes',
+        start_date: '1200',
+        architect: 'x',
+      });
+
+      expect(result.rating).toBeLessThanOrEqual(RATING_CONFIG.MAX);
+    });
+  });
+
+  describe('applyWikipediaMetadata', () => {
+    it('should return attractions unchanged when none reference Wikipedia', async () => {
+      const attractions = [createMockAttraction()];
+
+      const result = await ratingService.applyWikipediaMetadata(attractions);
+
+      expect(result).toBe(attractions);
+      expect(mockedWikiService.getArticleLengths).not.toHaveBeenCalled();
+    });
+
+    it('should batch titles per language', async () => {
+      mockedWikiService.getArticleLengths.mockResolvedValue(new Map());
+      const attractions = [
+        createMockAttraction({ id: '1', wikipedia: 'de:Berliner Dom' }),
+        createMockAttraction({ id: '2', wikipedia: 'de:Reichstagsgebäude' }),
+        createMockAttraction({ id: '3', wikipedia: 'en:Brandenburg Gate' }),
+      ];
+
+      await ratingService.applyWikipediaMetadata(attractions);
+
+      expect(mockedWikiService.getArticleLengths).toHaveBeenCalledWith(
+        ['Berliner Dom', 'Reichstagsgebäude'],
+        'de'
+      );
+      expect(mockedWikiService.getArticleLengths).toHaveBeenCalledWith(['Brandenburg Gate'], 'en');
+    });
+
+    it('should request all languages at once', async () => {
+      mockedWikiService.getArticleLengths.mockReturnValue(new Promise(() => {}));
+      const attractions = [
+        createMockAttraction({ id: '1', wikipedia: 'de:Berliner Dom' }),
+        createMockAttraction({ id: '2', wikipedia: 'en:Brandenburg Gate' }),
+      ];
+
+      ratingService.applyWikipediaMetadata(attractions);
+      await Promise.resolve();
+
+      expect(mockedWikiService.getArticleLengths).toHaveBeenCalledTimes(2);
+    });
+
+    it('should add article points and recompute the rating', async () => {
+      mockedWikiService.getArticleLengths.mockResolvedValueOnce(
+        new Map([
+          ['Berliner Dom', 50000],
+          ['Kleine Kapelle', 12000],
+          ['Stub', 800],
+        ])
+      );
+      const breakdown = [{ signal: 'wikipedia' as const, points: RATING_CONFIG.WIKIPEDIA }];
+      const attractions = [
+        createMockAttraction({ id: '1', wikipedia: 'de:Berliner Dom', rating: 3.5, ratingBreakdown: breakdown }),
+        createMockAttraction({ id: '2', wikipedia: 'de:Kleine Kapelle', rating: 3.5, ratingBreakdown: breakdown }),
+        createMockAttraction({ id: '3', wikipedia: 'de:Stub', rating: 3.5, ratingBreakdown: breakdown }),
+      ];
+
+      const result = await ratingService.applyWikipediaMetadata(attractions);
+
+      expect(result[0].rating).toBe(3.9);
+      expect(result[0].ratingBreakdown).toContainEqual({
+        signal: 'wikipediaArticle',
+        points: RATING_CONFIG.ARTICLE_VERY_LONG,
+      });
+      expect(result[1].rating).toBe(3.7);
+      expect(result[2]).toBe(attractions[2]);
+    });
+
+    it('should ignore malformed wikipedia references', async () => {
+      const attractions = [createMockAttraction({ wikipedia: 'Berliner Dom' })];
+
+      const result = await ratingService.applyWikipediaMetadata(attractions);
+
+      expect(result).toBe(attractions);
+      expect(mockedWikiService.getArticleLengths).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('computeRating', () => {
+    it('should round to one decimal', () => {
+      expect(
+        ratingService.computeRating([
+          { signal: 'tagRichness', points: 0.15 },
+          { signal: 'openingHours', points: 0.1 },
+        ])
+      ).toBe(3.3);
+    });
+  });
+});
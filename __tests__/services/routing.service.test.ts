@@ -0,0 +1,101 @@
+/**
+ * Tests for RoutingService
+ * Coverage target: 85%
+ */
+
+import routingService from '../../src/services/routing.service';
+import { StubRoutingBackend } from '../../src/services/routing';
+import errorNotificationService from '../../src/services/error-notification.service';
+import { estimateLegHeuristic } from '../../src/utils/routing';
+import { ROUTING_CONFIG } from '../../src/constants';
+import { RoutingBackend } from '../../src/types';
+import { berlinCoordinates } from '../fixtures/locations';
+
+const destinations = [
+  { id: 'osm:node:1', latitude: 52.52, longitude: 13.41 },
+  { id: 'osm:node:2', latitude: 52.53, longitude: 13.42 },
+];
+
+describe('RoutingService', () => {
+  const originalBackend = routingService.getBackend();
+
+  beforeEach(() => {
+    jest.spyOn(errorNotificationService, 'logDebugInfo').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    routingService.setBackend(originalBackend);
+    jest.restoreAllMocks();
+  });
+
+  it('should return backend estimates by destination id', async () => {
+    const backend = new StubRoutingBackend(() => ({ distance: 1500, duration: 1000 }));
+    routingService.setBackend(backend);
+
+    const estimates = await routingService.estimateRoutes(berlinCoordinates, destinations, 'walking');
+
+    expect(estimates.get('osm:node:1')).toEqual({ distance: 1500, duration: 1000, estimated: false });
+    expect(estimates.get('osm:node:2')).toEqual({ distance: 1500, duration: 1000, estimated: false });
+    expect(backend.requests[0].mode).toBe('walking');
+  });
+
+  it('should serve repeated requests from the cache', async () => {
+    const backend = new StubRoutingBackend();
+    routingService.setBackend(backend);
+
+    await routingService.estimateRoutes(berlinCoordinates, destinations, 'cycling');
+    await routingService.estimateRoutes(berlinCoordinates, destinations, 'cycling');
+    await routingService.estimateRoutes(berlinCoordinates, destinations, 'driving');
+
+    expect(backend.requests).toHaveLength(2);
+  });
+
+  it('should estimate unroutable destinations heuristically', async () => {
+    routingService.setBackend(
+      new StubRoutingBackend((_, destination) =>
+        destination.latitude === 52.52 ? { distance: 900, duration: 600 } : null
+      )
+    );
+
+    const estimates = await routingService.estimateRoutes(berlinCoordinates, destinations, 'walking');
+
+    expect(estimates.get('osm:node:1')?.estimated).toBe(false);
+    expect(estimates.get('osm:node:2')).toEqual({
+      ...estimateLegHeuristic(berlinCoordinates, destinations[1], 'walking'),
+      estimated: true,
+    });
+  });
+
+  it('should fall back to the heuristic when the backend fails', async () => {
+    const getLegs = jest.fn().mockRejectedValue(new Error('offline'));
+    const backend: RoutingBackend = { id: 'failing', getLegs };
+    routingService.setBackend(backend);
+
+    const estimates = await routingService.estimateRoutes(berlinCoordinates, destinations, 'driving');
+
+    expect(estimates.get('osm:node:1')?.estimated).toBe(true);
+    expect(errorNotificationService.logDebugInfo).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'estimateRoutes', backend: 'failing' })
+    );
+
+    // Heuristic estimates are not cached
+    await routingService.estimateRoutes(berlinCoordinates, destinations, 'driving');
+    expect(getLegs).toHaveBeenCalledTimes(2);
+  });
+
+  it('should split large requests and stop after a failure', async () => {
+    const getLegs = jest.fn().mockRejectedValue(new Error('timeout'));
+    routingService.setBackend({ id: 'failing', getLegs });
+    const many = Array.from({ length: ROUTING_CONFIG.MAX_DESTINATIONS + 1 }, (_, index) => ({
+      id: `osm:node:${index}`,
+      latitude: 52.5 + index * 0.001,
+      longitude: 13.4,
+    }));
+
+    const estimates = await routingService.estimateRoutes(berlinCoordinates, many, 'walking');
+
+    expect(estimates.size).toBe(many.length);
+    expect(getLegs).toHaveBeenCalledTimes(1);
+    expect(getLegs.mock.calls[0][1]).toHaveLength(ROUTING_CONFIG.MAX_DESTINATIONS);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Tests for OsrmBackend
+ * Coverage target: 90%
+ */
+
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { OsrmBackend } from '../../../src/services/routing/osrm.backend';
+import { berlinCoordinates } from '../../fixtures/locations';
+
+describe('OsrmBackend', () => {
+  let mock: MockAdapter;
+  const backend = new OsrmBackend({
+    walking: 'https://osrm.test/foot',
+    cycling: 'https://osrm.test/bike',
+    driving: 'https://osrm.test/car',
+  });
+  const destinations = [
+    { latitude: 52.52, longitude: 13.41 },
+    { latitude: 52.53, longitude: 13.42 },
+  ];
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should request a matrix from the origin to all destinations', async () => {
+    mock.onGet(/osrm\.test\/bike\/table\/v1\/bike\//).reply(200, {
+      code: 'Ok',
+      durations: [[0, 300, null]],
+      distances: [[0, 1200, null]],
+    });
+
+    const legs = await backend.getLegs(berlinCoordinates, destinations, 'cycling');
+
+    expect(legs).toEqual([{ distance: 1200, duration: 300 }, null]);
+    const request = mock.history.get[0];
+    expect(request.url).toBe(
+      `https://osrm.test/bike/table/v1/bike/${berlinCoordinates.longitude},${berlinCoordinates.latitude};13.41,52.52;13.42,52.53`
+    );
+    expect(request.params).toEqual({ sources: 0, annotations: 'duration,distance' });
+  });
+
+  it('should throw on error responses', async () => {
+    mock.onGet(/osrm\.test/).reply(200, { code: 'NoTable', message: 'Too many coordinates' });
+
+    await expect(backend.getLegs(berlinCoordinates, destinations, 'walking')).rejects.toThrow(
+      'Too many coordinates'
+    );
+  });
+
+  it('should throw on network errors', async () => {
+    mock.onGet(/osrm\.test/).networkError();
+
+    await expect(backend.getLegs(berlinCoordinates, destinations, 'driving')).rejects.toThrow();
+  });
+});
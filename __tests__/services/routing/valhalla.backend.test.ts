@@ -0,0 +1,51 @@
+/**
+ * Tests for ValhallaBackend
+ * Coverage target: 90%
+ */
+
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { ValhallaBackend } from '../../../src/services/routing/valhalla.backend';
+import { berlinCoordinates } from '../../fixtures/locations';
+
+describe('ValhallaBackend', () => {
+  let mock: MockAdapter;
+  const backend = new ValhallaBackend('https://valhalla.test');
+  const destinations = [
+    { latitude: 52.52, longitude: 13.41 },
+    { latitude: 52.53, longitude: 13.42 },
+  ];
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should request a pedestrian matrix and convert kilometers', async () => {
+    mock.onPost('https://valhalla.test/sources_to_targets').reply(200, {
+      sources_to_targets: [[
+        { distance: null, time: null, to_index: 1 },
+        { distance: 1.25, time: 900, to_index: 0 },
+      ]],
+    });
+
+    const legs = await backend.getLegs(berlinCoordinates, destinations, 'walking');
+
+    expect(legs).toEqual([{ distance: 1250, duration: 900 }, null]);
+    expect(JSON.parse(mock.history.post[0].data)).toEqual({
+      sources: [{ lat: berlinCoordinates.latitude, lon: berlinCoordinates.longitude }],
+      targets: [{ lat: 52.52, lon: 13.41 }, { lat: 52.53, lon: 13.42 }],
+      costing: 'pedestrian',
+      units: 'kilometers',
+    });
+  });
+
+  it('should throw without a matrix in the response', async () => {
+    mock.onPost('https://valhalla.test/sources_to_targets').reply(200, {});
+
+    await expect(backend.getLegs(berlinCoordinates, destinations, 'driving')).rejects.toThrow();
+  });
+});
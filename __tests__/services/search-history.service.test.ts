@@ -0,0 +1,106 @@
+/**
+ * Tests for SearchHistoryService
+ * Coverage target: 90%
+ */
+
+import searchHistoryService from '../../src/services/search-history.service';
+import storageService from '../../src/services/storage.service';
+import { STORAGE_KEYS } from '../../src/constants';
+import { SearchHistoryEntry, SearchResult } from '../../src/types';
+
+jest.mock('../../src/services/storage.service');
+
+const mockedGet = storageService.get as jest.Mock;
+const mockedSet = storageService.set as jest.Mock;
+
+const NOW = Date.parse('2026-06-01T12:00:00.000Z');
+
+const place = (id: string, primaryName: string): SearchResult => ({
+  id,
+  displayName: `${primaryName}, Germany`,
+  primaryName,
+  secondaryInfo: 'Germany',
+  coordinates: { latitude: 52.5, longitude: 13.4 },
+  type: 'city',
+  importance: 0.5,
+});
+
+const berlin: SearchHistoryEntry = { result: place('1', 'Berlin'), count: 3, lastSelectedAt: NOW - 1000 };
+const munich: SearchHistoryEntry = { result: place('2', 'Munich'), count: 1, lastSelectedAt: NOW - 2000, pinned: 'hotel' };
+
+describe('SearchHistoryService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedGet.mockResolvedValue([berlin, munich]);
+    mockedSet.mockResolvedValue(true);
+  });
+
+  describe('getHistory', () => {
+    it('should return pinned places first', async () => {
+      expect(await searchHistoryService.getHistory(NOW)).toEqual([munich, berlin]);
+    });
+
+    it('should be empty without a stored history', async () => {
+      mockedGet.mockResolvedValueOnce(null);
+
+      expect(await searchHistoryService.getHistory(NOW)).toEqual([]);
+    });
+
+    it('should skip invalid entries', async () => {
+      mockedGet.mockResolvedValueOnce([
+        berlin,
+        { result: { id: 'x' }, count: 1, lastSelectedAt: NOW },
+        { ...munich, pinned: 'office' },
+        null,
+      ]);
+
+      expect(await searchHistoryService.getHistory(NOW)).toEqual([berlin]);
+    });
+  });
+
+  describe('recordSelection', () => {
+    it('should add the selected place and save', async () => {
+      const cologne = place('3', 'Cologne');
+
+      const history = await searchHistoryService.recordSelection(cologne, NOW);
+
+      expect(history.map(entry => entry.result.id)).toEqual(['2', '1', '3']);
+      expect(mockedSet).toHaveBeenCalledWith(STORAGE_KEYS.SEARCH_HISTORY, expect.arrayContaining([
+        { result: cologne, count: 1, lastSelectedAt: NOW },
+      ]));
+    });
+
+    it('should count places selected again', async () => {
+      const history = await searchHistoryService.recordSelection(berlin.result, NOW);
+
+      expect(history.find(entry => entry.result.id === '1')).toEqual({ ...berlin, count: 4, lastSelectedAt: NOW });
+    });
+
+    it('should keep the previous history if saving fails', async () => {
+      mockedSet.mockResolvedValueOnce(false);
+
+      expect(await searchHistoryService.recordSelection(place('3', 'Cologne'), NOW)).toEqual([munich, berlin]);
+    });
+  });
+
+  describe('removeEntry', () => {
+    it('should remove pinned places too', async () => {
+      expect(await searchHistoryService.removeEntry('2', NOW)).toEqual([berlin]);
+      expect(mockedSet).toHaveBeenCalledWith(STORAGE_KEYS.SEARCH_HISTORY, [berlin]);
+    });
+  });
+
+  describe('pinEntry', () => {
+    it('should pin a place as home', async () => {
+      const history = await searchHistoryService.pinEntry('1', 'home', NOW);
+
+      expect(history).toEqual([{ ...berlin, pinned: 'home' }, munich]);
+    });
+
+    it('should unpin a place', async () => {
+      const history = await searchHistoryService.pinEntry('2', null, NOW);
+
+      expect(history).toEqual([berlin, { ...munich, pinned: undefined }]);
+    });
+  });
+});
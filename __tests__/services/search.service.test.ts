@@ -0,0 +1,129 @@
+/**
+ * Tests for SearchService
+ * Coverage target: 90%
+ */
+
+import searchService from '../../src/services/search.service';
+import locationService from '../../src/services/location.service';
+import wikiService from '../../src/services/wiki.service';
+import i18n from '../../src/config/i18n';
+import { SearchResult } from '../../src/types';
+import { mockAttractions } from '../fixtures/attractions';
+
+jest.mock('../../src/services/location.service');
+jest.mock('../../src/services/wiki.service');
+
+const mockedSearchLocations = locationService.searchLocations as jest.Mock;
+const mockedSearchCachedLocations = locationService.searchCachedLocations as jest.Mock;
+const mockedSearchArticles = wikiService.searchGeotaggedArticles as jest.Mock;
+
+const berlin: SearchResult = {
+  id: '240109189',
+  displayName: 'Berlin, Deutschland',
+  primaryName: 'Berlin',
+  secondaryInfo: 'Deutschland',
+  coordinates: { latitude: 52.517, longitude: 13.3889 },
+  type: 'city',
+  importance: 0.9,
+};
+
+const fernsehturm = {
+  title: 'Berliner Fernsehturm',
+  description: 'Fernsehturm in Berlin',
+  latitude: 52.5208,
+  longitude: 13.4094,
+};
+
+describe('SearchService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    i18n.language = 'de';
+    mockedSearchLocations.mockResolvedValue([berlin]);
+    mockedSearchCachedLocations.mockResolvedValue([]);
+    mockedSearchArticles.mockResolvedValue([]);
+  });
+
+  describe('search', () => {
+    it('should search places and Wikipedia articles with the trimmed query', async () => {
+      const results = await searchService.search('  Berlin ');
+
+      expect(results).toEqual([berlin]);
+      expect(mockedSearchLocations).toHaveBeenCalledWith('Berlin', 5);
+      expect(mockedSearchArticles).toHaveBeenCalledWith('Berlin', 'de', 3);
+    });
+
+    it('should turn articles into attraction results', async () => {
+      mockedSearchArticles.mockResolvedValue([fernsehturm]);
+
+      const [, result] = await searchService.search('Berlin');
+
+      expect(result).toMatchObject({
+        id: 'wiki:de:Berliner Fernsehturm',
+        primaryName: 'Berliner Fernsehturm',
+        secondaryInfo: 'Fernsehturm in Berlin',
+        kind: 'attraction',
+        attraction: {
+          id: 'wiki:de:Berliner Fernsehturm',
+          wikipedia: 'de:Berliner Fernsehturm',
+          sources: ['wikipedia'],
+          latitude: 52.5208,
+          longitude: 13.4094,
+        },
+      });
+      expect(result.attraction!.rating).toBeGreaterThan(0);
+    });
+
+    it('should search the English Wikipedia in English', async () => {
+      i18n.language = 'en';
+
+      await searchService.search('Berlin');
+
+      expect(mockedSearchArticles).toHaveBeenCalledWith('Berlin', 'en', 3);
+    });
+
+    it('should list loaded attractions first', async () => {
+      const results = await searchService.search('Reichstag', mockAttractions);
+
+      expect(results[0]).toMatchObject({ id: '2', kind: 'nearby' });
+      expect(results[1]).toBe(berlin);
+    });
+
+    it('should drop articles about a place that was found', async () => {
+      mockedSearchArticles.mockResolvedValue([{ title: 'Berlin', latitude: 52.52, longitude: 13.405 }]);
+
+      const results = await searchService.search('Berlin');
+
+      expect(results).toEqual([berlin]);
+    });
+
+    it('should return nothing for an empty query', async () => {
+      const results = await searchService.search('   ');
+
+      expect(results).toEqual([]);
+      expect(mockedSearchLocations).not.toHaveBeenCalled();
+    });
+
+    it('should pass on place search errors', async () => {
+      mockedSearchLocations.mockRejectedValue(new Error('Network Error'));
+
+      await expect(searchService.search('Berlin')).rejects.toThrow('Network Error');
+    });
+  });
+
+  describe('searchOffline', () => {
+    it('should combine loaded attractions and cached places', async () => {
+      mockedSearchCachedLocations.mockResolvedValue([berlin]);
+
+      const results = await searchService.searchOffline('Berlin cath', mockAttractions);
+
+      expect(results.map(result => result.id)).toEqual(['3', berlin.id]);
+      expect(mockedSearchCachedLocations).toHaveBeenCalledWith('Berlin cath', 5);
+      expect(mockedSearchLocations).not.toHaveBeenCalled();
+      expect(mockedSearchArticles).not.toHaveBeenCalled();
+    });
+
+    it('should return nothing for an empty query', async () => {
+      expect(await searchService.searchOffline('')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Tests for TrackingService
+ * Coverage target: 90%
+ */
+
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import * as Battery from 'expo-battery';
+import storageService from '../../src/services/storage.service';
+import errorNotificationService from '../../src/services/error-notification.service';
+import { STORAGE_KEYS } from '../../src/constants';
+
+jest.mock('../../src/services/storage.service');
+jest.mock('../../src/services/error-notification.service');
+jest.mock('expo-location', () => ({
+  ...jest.requireActual('expo-location'),
+  requestBackgroundPermissionsAsync: jest.fn(),
+  startLocationUpdatesAsync: jest.fn(),
+  stopLocationUpdatesAsync: jest.fn(),
+  hasStartedLocationUpdatesAsync: jest.fn(),
+}));
+
+const mockedGet = storageService.get as jest.Mock;
+const mockedSet = storageService.set as jest.Mock;
+const mockedRemove = storageService.remove as jest.Mock;
+const mockedRequestBackground = Location.requestBackgroundPermissionsAsync as jest.Mock;
+const mockedStartUpdates = Location.startLocationUpdatesAsync as jest.Mock;
+const mockedStopUpdates = Location.stopLocationUpdatesAsync as jest.Mock;
+const mockedHasStarted = Location.hasStartedLocationUpdatesAsync as jest.Mock;
+const mockedBatteryLevel = Battery.getBatteryLevelAsync as jest.Mock;
+
+const first = { latitude: 52.5, longitude: 13.4, timestamp: 1000 };
+const second = { latitude: 52.501, longitude: 13.4, timestamp: 2000 };
+
+describe('TrackingService', () => {
+  // Fresh instance per test, as the track is kept in memory
+  let trackingService: typeof import('../../src/services/tracking.service').default;
+  let WALKING_TOUR_TASK: string;
+  let started: boolean;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.isolateModules(() => {
+      ({ default: trackingService, WALKING_TOUR_TASK } = require('../../src/services/tracking.service'));
+    });
+    mockedGet.mockResolvedValue(null);
+    mockedSet.mockResolvedValue(true);
+    mockedRemove.mockResolvedValue(true);
+    mockedRequestBackground.mockResolvedValue({ status: 'granted' });
+    started = false;
+    mockedStartUpdates.mockImplementation(async () => {
+      started = true;
+    });
+    mockedStopUpdates.mockImplementation(async () => {
+      started = false;
+    });
+    mockedHasStarted.mockImplementation(async () => started);
+    mockedBatteryLevel.mockResolvedValue(0.8);
+  });
+
+  describe('Walking tour opt-in', () => {
+    it('should be off by default', async () => {
+      expect(await trackingService.isWalkingTourEnabled()).toBe(false);
+    });
+
+    it('should ask for background access and start a new track when turned on', async () => {
+      expect(await trackingService.setWalkingTourEnabled(true)).toBe(true);
+
+      expect(mockedRequestBackground).toHaveBeenCalled();
+      expect(mockedSet).toHaveBeenCalledWith(STORAGE_KEYS.WALKING_TOUR, true);
+      expect(mockedRemove).toHaveBeenCalledWith(STORAGE_KEYS.WALKING_TOUR_TRACK);
+    });
+
+    it('should stay off without background access', async () => {
+      mockedRequestBackground.mockResolvedValueOnce({ status: 'denied' });
+
+      expect(await trackingService.setWalkingTourEnabled(true)).toBe(false);
+
+      expect(mockedSet).not.toHaveBeenCalled();
+      expect(errorNotificationService.showError).toHaveBeenCalledWith(
+        expect.objectContaining({ messageKey: 'errors.location.backgroundPermissionDenied' })
+      );
+    });
+
+    it('should stay off when asking for access fails', async () => {
+      mockedRequestBackground.mockRejectedValueOnce(new Error('Not supported'));
+
+      expect(await trackingService.setWalkingTourEnabled(true)).toBe(false);
+      expect(errorNotificationService.showError).toHaveBeenCalled();
+    });
+
+    it('should keep the previous state when saving fails', async () => {
+      mockedSet.mockResolvedValueOnce(false);
+
+      expect(await trackingService.setWalkingTourEnabled(true)).toBe(false);
+      expect(mockedRemove).not.toHaveBeenCalled();
+    });
+
+    it('should keep the track when turned off', async () => {
+      expect(await trackingService.setWalkingTourEnabled(false)).toBe(false);
+
+      expect(mockedRequestBackground).not.toHaveBeenCalled();
+      expect(mockedRemove).not.toHaveBeenCalled();
+    });
+
+    it('should stop tracking when turned off', async () => {
+      await trackingService.startBackgroundUpdates();
+
+      await trackingService.setWalkingTourEnabled(false);
+
+      expect(mockedStopUpdates).toHaveBeenCalledWith(WALKING_TOUR_TASK);
+    });
+  });
+
+  describe('Walking tour task', () => {
+    const position = (speed: number): Location.LocationObject => ({
+      coords: { ...first, altitude: null, accuracy: 5, altitudeAccuracy: null, heading: null, speed },
+      timestamp: first.timestamp,
+    });
+
+    it('should be defined when the app loads', () => {
+      expect(TaskManager.defineTask).toHaveBeenCalledWith(WALKING_TOUR_TASK, expect.any(Function));
+    });
+
+    it('should track walking precisely, also in the background', async () => {
+      expect(await trackingService.startBackgroundUpdates()).toBe(true);
+
+      expect(mockedStartUpdates).toHaveBeenCalledWith(
+        WALKING_TOUR_TASK,
+        expect.objectContaining({
+          accuracy: Location.Accuracy.High,
+          distanceInterval: 10,
+          foregroundService: expect.objectContaining({ notificationTitle: 'walkingTourOn' }),
+        })
+      );
+      expect(await trackingService.isTrackingInBackground()).toBe(true);
+    });
+
+    it('should not start a running task again', async () => {
+      await trackingService.startBackgroundUpdates();
+      await trackingService.startBackgroundUpdates();
+
+      expect(mockedStartUpdates).toHaveBeenCalledTimes(1);
+    });
+
+    it('should track less precisely on a low battery', async () => {
+      mockedBatteryLevel.mockResolvedValue(0.1);
+
+      await trackingService.startBackgroundUpdates();
+
+      expect(mockedStartUpdates).toHaveBeenCalledWith(
+        WALKING_TOUR_TASK,
+        expect.objectContaining({ accuracy: Location.Accuracy.Balanced, distanceInterval: 50 })
+      );
+    });
+
+    it('should report when tracking cannot start', async () => {
+      mockedStartUpdates.mockRejectedValueOnce(new Error('Not authorized'));
+
+      expect(await trackingService.startBackgroundUpdates()).toBe(false);
+      expect(errorNotificationService.showError).toHaveBeenCalledWith(
+        expect.objectContaining({ messageKey: 'errors.location.notAvailable' })
+      );
+    });
+
+    it('should record the positions it receives and pass them on', async () => {
+      const listener = jest.fn();
+      trackingService.subscribeToPositions(listener);
+      const executor = (TaskManager.defineTask as jest.Mock).mock.calls[0][1];
+
+      await executor({ data: { locations: [position(1.2)] }, error: null });
+
+      expect(await trackingService.getTrack()).toEqual([first]);
+      expect(listener).toHaveBeenCalledWith(position(1.2));
+    });
+
+    it('should track less often while standing still', async () => {
+      await trackingService.startBackgroundUpdates();
+
+      await trackingService.handleBackgroundPositions([position(0)]);
+
+      expect(mockedStartUpdates).toHaveBeenCalledTimes(2);
+      expect(mockedStartUpdates).toHaveBeenLastCalledWith(
+        WALKING_TOUR_TASK,
+        expect.objectContaining({ accuracy: Location.Accuracy.Low, distanceInterval: 25 })
+      );
+    });
+
+    it('should keep tracking alike while the speed stays similar', async () => {
+      await trackingService.startBackgroundUpdates();
+
+      await trackingService.handleBackgroundPositions([position(1.4), position(1.1)]);
+
+      expect(mockedStartUpdates).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not restart a stopped task for late positions', async () => {
+      await trackingService.startBackgroundUpdates();
+      const stopping = trackingService.stopBackgroundUpdates();
+
+      await trackingService.handleBackgroundPositions([position(0)]);
+      await stopping;
+
+      expect(mockedStartUpdates).toHaveBeenCalledTimes(1);
+      expect(await trackingService.isTrackingInBackground()).toBe(false);
+    });
+  });
+
+  describe('getWatchOptions', () => {
+    it('should track walking precisely and standing still sparingly', () => {
+      expect(trackingService.getWatchOptions('walking')).toEqual({
+        accuracy: Location.Accuracy.High,
+        distanceInterval: 10,
+        timeInterval: 10000,
+      });
+      expect(trackingService.getWatchOptions('stationary').accuracy).toBe(Location.Accuracy.Low);
+    });
+  });
+
+  describe('selectProfile', () => {
+    it('should follow the speed and spare a low battery', async () => {
+      expect(await trackingService.selectProfile(1.4)).toBe('walking');
+      expect(await trackingService.selectProfile(0)).toBe('stationary');
+
+      (Battery.isLowPowerModeEnabledAsync as jest.Mock).mockResolvedValueOnce(true);
+      expect(await trackingService.selectProfile(1.4)).toBe('saving');
+    });
+  });
+
+  describe('Track', () => {
+    it('should record positions and keep them', async () => {
+      await trackingService.recordPosition(first);
+      const track = await trackingService.recordPosition(second);
+
+      expect(track).toEqual([first, second]);
+      expect(mockedSet).toHaveBeenLastCalledWith(STORAGE_KEYS.WALKING_TOUR_TRACK, [first, second]);
+      expect(mockedGet).toHaveBeenCalledTimes(1);
+    });
+
+    it('should continue a stored track', async () => {
+      mockedGet.mockResolvedValueOnce([first]);
+
+      expect(await trackingService.recordPosition(second)).toEqual([first, second]);
+    });
+
+    it('should not save positions too close to the previous one', async () => {
+      await trackingService.recordPosition(first);
+      mockedSet.mockClear();
+
+      await trackingService.recordPosition({ ...first, timestamp: 3000 });
+
+      expect(mockedSet).not.toHaveBeenCalled();
+    });
+
+    it('should start over after clearing', async () => {
+      await trackingService.recordPosition(first);
+
+      await trackingService.clearTrack();
+
+      expect(await trackingService.getTrack()).toEqual([]);
+    });
+  });
+});
@@ -409,6 +409,118 @@ describe('WikiService', () => {
     });
   });
 
+  describe('getArticleLengths', () => {
+    it('should return lengths keyed by requested title', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: {
+          query: {
+            normalized: [{ from: 'berliner Dom', to: 'Berliner Dom' }],
+            redirects: [{ from: 'Reichstag', to: 'Reichstagsgebäude' }],
+            pages: {
+              '1': { title: 'Berliner Dom', length: 42000 },
+              '2': { title: 'Reichstagsgebäude', length: 30000 },
+              '-1': { title: 'Missing', missing: '' },
+            },
+          },
+        },
+      });
+
+      const result = await wikiService.getArticleLengths(
+        ['berliner Dom', 'Reichstag', 'Missing'],
+        'de'
+      );
+
+      expect(result.get('berliner Dom')).toBe(42000);
+      expect(result.get('Reichstag')).toBe(30000);
+      expect(result.has('Missing')).toBe(false);
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://de.wikipedia.org/w/api.php',
+        expect.objectContaining({
+          params: expect.objectContaining({
+            prop: 'info',
+            titles: 'berliner Dom|Reichstag|Missing',
+          }),
+        })
+      );
+    });
+
+    it('should split requests into batches of 50 titles', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { query: { pages: {} } } });
+      const titles = Array.from({ length: 60 }, (_, i) => `Title ${i}`);
+
+      await wikiService.getArticleLengths(titles, 'en');
+
+      expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return empty map silently on error', async () => {
+      mockedAxios.get.mockRejectedValueOnce(new Error('Network Error'));
+
+      const result = await wikiService.getArticleLengths(['Berlin'], 'de');
+
+      expect(result.size).toBe(0);
+      expect(errorNotificationService.showError).not.toHaveBeenCalled();
+      expect(errorNotificationService.logDebugInfo).toHaveBeenCalled();
+    });
+  });
+
+  describe('searchGeotaggedArticles', () => {
+    it('should return articles with coordinates in search order', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: {
+          query: {
+            pages: {
+              '1': {
+                title: 'Berliner Dom',
+                index: 2,
+                description: 'Kirche in Berlin',
+                coordinates: [{ lat: 52.519, lon: 13.401 }],
+              },
+              '2': { title: 'Dom', index: 3 },
+              '3': { title: 'Berliner Fernsehturm', index: 1, coordinates: [{ lat: 52.5208, lon: 13.4094 }] },
+            },
+          },
+        },
+      });
+
+      const result = await wikiService.searchGeotaggedArticles('Berlin', 'de', 3);
+
+      expect(result).toEqual([
+        { title: 'Berliner Fernsehturm', description: undefined, latitude: 52.5208, longitude: 13.4094 },
+        { title: 'Berliner Dom', description: 'Kirche in Berlin', latitude: 52.519, longitude: 13.401 },
+      ]);
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://de.wikipedia.org/w/api.php',
+        expect.objectContaining({
+          params: expect.objectContaining({
+            generator: 'search',
+            gsrsearch: 'Berlin',
+            gsrlimit: 3,
+            prop: 'coordinates|description',
+          }),
+        })
+      );
+    });
+
+    it('should return an empty list when nothing was found', async () => {
+      mockedAxios.get.mockResolvedValueOnce({ data: { batchcomplete: '' } });
+
+      const result = await wikiService.searchGeotaggedArticles('xyz', 'en');
+
+      expect(result).toEqual([]);
+    });
+
+    it('should return an empty list silently on error', async () => {
+      mockedAxios.get.mockRejectedValueOnce(new Error('Network Error'));
+
+      const result = await wikiService.searchGeotaggedArticles('Berlin', 'de');
+
+      expect(result).toEqual([]);
+      expect(errorNotificationService.showError).not.toHaveBeenCalled();
+      expect(errorNotificationService.logDebugInfo).toHaveBeenCalled();
+    });
+  });
+
   describe('Helper functions', () => {
     it('fetchWikitravelData should call fetchWikipediaData', async () => {
       mockedAxios.get.mockResolvedValueOnce({ data: mockWikipediaResponse });
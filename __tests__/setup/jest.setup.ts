@@ -45,6 +45,9 @@ jest.mock('expo-location', () => ({
   reverseGeocodeAsync: jest.fn(),
   geocodeAsync: jest.fn(),
   watchPositionAsync: jest.fn(),
+  startLocationUpdatesAsync: jest.fn(),
+  stopLocationUpdatesAsync: jest.fn(),
+  hasStartedLocationUpdatesAsync: jest.fn().mockResolvedValue(false),
   Accuracy: {
     Lowest: 1,
     Low: 2,
@@ -53,6 +56,13 @@ jest.mock('expo-location', () => ({
     Highest: 5,
     BestForNavigation: 6
   },
+  ActivityType: {
+    Other: 1,
+    AutomotiveNavigation: 2,
+    Fitness: 3,
+    OtherNavigation: 4,
+    Airborne: 5
+  },
   PermissionStatus: {
     GRANTED: 'granted',
     DENIED: 'denied',
@@ -60,6 +70,18 @@ jest.mock('expo-location', () => ({
   }
 }));
 
+// Mock expo-task-manager
+jest.mock('expo-task-manager', () => ({
+  defineTask: jest.fn(),
+  isTaskDefined: jest.fn(),
+}));
+
+// Mock expo-battery
+jest.mock('expo-battery', () => ({
+  getBatteryLevelAsync: jest.fn().mockResolvedValue(1),
+  isLowPowerModeEnabledAsync: jest.fn().mockResolvedValue(false),
+}));
+
 // Mock error notification service
 jest.mock('../../src/services/error-notification.service', () => ({
   __esModule: true,
@@ -0,0 +1,50 @@
+/**
+ * Tests for attraction id helpers
+ * Coverage target: 90%
+ */
+
+import {
+  importedAttractionId,
+  isNamespacedId,
+  osmAttractionId,
+  wikipediaAttractionId,
+} from '../../src/utils/attractionId';
+
+describe('osmAttractionId', () => {
+  it('should include the element type', () => {
+    expect(osmAttractionId('node', 123)).toBe('osm:node:123');
+    expect(osmAttractionId('way', 123)).not.toBe(osmAttractionId('node', 123));
+  });
+});
+
+describe('wikipediaAttractionId', () => {
+  it('should include the language edition', () => {
+    expect(wikipediaAttractionId('de', 'Berliner Dom')).toBe('wiki:de:Berliner Dom');
+    expect(wikipediaAttractionId('en', 'Berliner Dom')).toBe('wiki:en:Berliner Dom');
+  });
+
+  it('should treat underscores as spaces', () => {
+    expect(wikipediaAttractionId('de', 'Berliner_Dom')).toBe(wikipediaAttractionId('de', 'Berliner Dom'));
+  });
+});
+
+describe('importedAttractionId', () => {
+  it('should round the position to five decimals', () => {
+    expect(importedAttractionId(52.516275, 13.3777)).toBe('import:52.51628,13.37770');
+  });
+});
+
+describe('isNamespacedId', () => {
+  it('should accept the app namespaces', () => {
+    expect(isNamespacedId('osm:relation:42')).toBe(true);
+    expect(isNamespacedId('wiki:de:Berliner Dom')).toBe(true);
+    expect(isNamespacedId('local:berlin-cathedral')).toBe(true);
+    expect(isNamespacedId('import:52.50000,13.40000')).toBe(true);
+  });
+
+  it('should reject bare and foreign ids', () => {
+    expect(isNamespacedId('123')).toBe(false);
+    expect(isNamespacedId('osm:area:42')).toBe(false);
+    expect(isNamespacedId('google:abc')).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for attraction list sorting and filtering
+ * Coverage target: 90%
+ */
+
+import {
+  DEFAULT_LIST_OPTIONS,
+  applyListOptions,
+  getAttractionTypeCounts,
+  hasActiveFilters,
+  normalizeListOptions,
+} from '../../src/utils/attractionList';
+import { createMockAttraction } from '../fixtures/attractions';
+
+const attractions = [
+  createMockAttraction({ id: 'a', name: 'Zoo', type: 'zoo', distance: 100, rating: 3, interestScore: 6 }),
+  createMockAttraction({ id: 'b', name: 'Museum', type: 'museum', distance: 200, rating: 4.5, interestScore: 9 }),
+  createMockAttraction({ id: 'c', name: 'Castle', type: 'castle', distance: 300, rating: 4.5 }),
+  createMockAttraction({ id: 'd', name: 'Art Museum', type: 'museum', distance: 400, rating: 2, interestScore: 7 }),
+];
+
+const ids = (list: { id: string }[]) => list.map(attraction => attraction.id);
+
+describe('applyListOptions', () => {
+  const noFavorites = new Set<string>();
+
+  it('should keep distance order by default', () => {
+    expect(ids(applyListOptions(attractions, DEFAULT_LIST_OPTIONS, noFavorites))).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should sort by match score with unclassified attractions last', () => {
+    const options = { ...DEFAULT_LIST_OPTIONS, sortBy: 'match' as const };
+    expect(ids(applyListOptions(attractions, options, noFavorites))).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  it('should sort by rating and break ties by distance', () => {
+    const options = { ...DEFAULT_LIST_OPTIONS, sortBy: 'rating' as const };
+    expect(ids(applyListOptions(attractions, options, noFavorites))).toEqual(['b', 'c', 'a', 'd']);
+  });
+
+  it('should sort by name', () => {
+    const options = { ...DEFAULT_LIST_OPTIONS, sortBy: 'name' as const };
+    expect(ids(applyListOptions(attractions, options, noFavorites))).toEqual(['d', 'c', 'b', 'a']);
+  });
+
+  it('should filter by type', () => {
+    const options = { ...DEFAULT_LIST_OPTIONS, types: ['museum', 'zoo'] };
+    expect(ids(applyListOptions(attractions, options, noFavorites))).toEqual(['a', 'b', 'd']);
+  });
+
+  it('should filter by minimum match score', () => {
+    const options = { ...DEFAULT_LIST_OPTIONS, minMatchScore: 7 };
+    expect(ids(applyListOptions(attractions, options, noFavorites))).toEqual(['b', 'd']);
+  });
+
+  it('should filter to favorites', () => {
+    const options = { ...DEFAULT_LIST_OPTIONS, favoritesOnly: true };
+    expect(ids(applyListOptions(attractions, options, new Set(['c', 'a'])))).toEqual(['a', 'c']);
+  });
+
+  it('should not reorder the input', () => {
+    applyListOptions(attractions, { ...DEFAULT_LIST_OPTIONS, sortBy: 'name' }, noFavorites);
+    expect(ids(attractions)).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
+
+describe('normalizeListOptions', () => {
+  it('should return defaults without stored options', () => {
+    expect(normalizeListOptions(null)).toEqual(DEFAULT_LIST_OPTIONS);
+  });
+
+  it('should keep valid stored options', () => {
+    const stored = { sortBy: 'rating' as const, types: ['museum'], minMatchScore: 8, favoritesOnly: true };
+    expect(normalizeListOptions(stored)).toEqual(stored);
+  });
+
+  it('should replace invalid fields with defaults', () => {
+    expect(
+      normalizeListOptions({ sortBy: 'popularity', types: 'museum', minMatchScore: -1 } as any)
+    ).toEqual(DEFAULT_LIST_OPTIONS);
+  });
+});
+
+describe('hasActiveFilters', () => {
+  it('should ignore the sort order', () => {
+    expect(hasActiveFilters({ ...DEFAULT_LIST_OPTIONS, sortBy: 'name' })).toBe(false);
+    expect(hasActiveFilters({ ...DEFAULT_LIST_OPTIONS, favoritesOnly: true })).toBe(true);
+  });
+});
+
+describe('getAttractionTypeCounts', () => {
+  it('should count types most frequent first', () => {
+    expect(getAttractionTypeCounts(attractions)).toEqual([
+      ['museum', 2],
+      ['castle', 1],
+      ['zoo', 1],
+    ]);
+  });
+});
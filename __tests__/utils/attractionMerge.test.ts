@@ -0,0 +1,156 @@
+/**
+ * Tests for attraction merge utilities
+ * Coverage target: 90%
+ */
+
+import {
+  normalizeName,
+  nameSimilarity,
+  isSameAttraction,
+  combineAttractions,
+  mergeAttractions,
+} from '../../src/utils/attractionMerge';
+import { createMockAttraction } from '../fixtures/attractions';
+
+describe('normalizeName', () => {
+  it('should lowercase and strip diacritics and punctuation', () => {
+    expect(normalizeName('Kölner Dom!')).toBe('kolner dom');
+    expect(normalizeName('Reichstagsgebäude')).toBe('reichstagsgebaude');
+  });
+
+  it('should replace sharp s and drop parenthesized disambiguations', () => {
+    expect(normalizeName('Große Straße')).toBe('grosse strasse');
+    expect(normalizeName('Frauenkirche (Dresden)')).toBe('frauenkirche');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('should return 1 for names that normalize equally', () => {
+    expect(nameSimilarity('Kölner Dom', 'Kolner  dom')).toBe(1);
+  });
+
+  it('should rate contained names as highly similar', () => {
+    expect(nameSimilarity('Reichstag', 'Reichstagsgebäude')).toBe(0.9);
+  });
+
+  it('should rate small spelling differences as similar', () => {
+    expect(nameSimilarity('Brandenburger Tor', 'Brandenburg Tor')).toBeGreaterThan(0.8);
+  });
+
+  it('should rate unrelated names as dissimilar', () => {
+    expect(nameSimilarity('Berliner Dom', 'Fernsehturm')).toBeLessThan(0.3);
+  });
+
+  it('should return 0 for empty names', () => {
+    expect(nameSimilarity('', 'Dom')).toBe(0);
+    expect(nameSimilarity('!', '?')).toBe(0);
+  });
+});
+
+describe('isSameAttraction', () => {
+  const dom = createMockAttraction({ name: 'Berliner Dom', latitude: 52.519, longitude: 13.401 });
+
+  it('should match nearby places with similar names', () => {
+    const other = createMockAttraction({ name: 'Berliner Dom', latitude: 52.5195, longitude: 13.4012 });
+
+    expect(isSameAttraction(dom, other)).toBe(true);
+  });
+
+  it('should not match similar names far apart', () => {
+    const other = createMockAttraction({ name: 'Berliner Dom', latitude: 52.53, longitude: 13.401 });
+
+    expect(isSameAttraction(dom, other)).toBe(false);
+  });
+
+  it('should not match nearby places with different names', () => {
+    const other = createMockAttraction({ name: 'Lustgarten', latitude: 52.519, longitude: 13.401 });
+
+    expect(isSameAttraction(dom, other)).toBe(false);
+  });
+
+  it('should match shared wikipedia references regardless of distance', () => {
+    const a = createMockAttraction({ name: 'Tiergarten', wikipedia: 'de:Großer_Tiergarten' });
+    const b = createMockAttraction({ name: 'Großer Tiergarten', latitude: 60, wikipedia: 'de:Großer Tiergarten' });
+
+    expect(isSameAttraction(a, b)).toBe(true);
+  });
+
+  it('should decide by wikidata when both places have it', () => {
+    const a = createMockAttraction({ name: 'Dom', wikidata: 'Q1' });
+
+    expect(isSameAttraction(a, createMockAttraction({ name: 'Dom', wikidata: 'Q2' }))).toBe(false);
+    expect(isSameAttraction(a, createMockAttraction({ name: 'Other', latitude: 1, wikidata: 'Q1' }))).toBe(true);
+  });
+});
+
+describe('combineAttractions', () => {
+  it('should keep primary fields and fill missing ones from the secondary record', () => {
+    const primary = createMockAttraction({ id: 'osm:node:1', name: 'Dom', description: '', sources: ['overpass'] });
+    const secondary = createMockAttraction({
+      id: 'wiki:de:Dom',
+      name: 'Berliner Dom',
+      description: 'Kirche',
+      wikipedia: 'de:Berliner Dom',
+      sources: ['wikipedia'],
+    });
+
+    const result = combineAttractions(primary, secondary);
+
+    expect(result).toMatchObject({
+      id: 'osm:node:1',
+      name: 'Dom',
+      description: 'Kirche',
+      wikipedia: 'de:Berliner Dom',
+      sources: ['overpass', 'wikipedia'],
+    });
+  });
+
+  it('should merge names, address and rating breakdown', () => {
+    const primary = createMockAttraction({
+      names: { en: 'Cathedral' },
+      address: { street: 'Am Lustgarten' },
+      ratingBreakdown: [{ signal: 'tagRichness', points: 0.1 }],
+    });
+    const secondary = createMockAttraction({
+      names: { en: 'Berlin Cathedral', de: 'Berliner Dom' },
+      address: { city: 'Berlin' },
+      ratingBreakdown: [
+        { signal: 'wikipedia', points: 0.5 },
+        { signal: 'tagRichness', points: 0.2 },
+      ],
+    });
+
+    const result = combineAttractions(primary, secondary);
+
+    expect(result.names).toEqual({ en: 'Cathedral', de: 'Berliner Dom' });
+    expect(result.address).toEqual({ street: 'Am Lustgarten', city: 'Berlin' });
+    expect(result.ratingBreakdown).toEqual([
+      { signal: 'tagRichness', points: 0.2 },
+      { signal: 'wikipedia', points: 0.5 },
+    ]);
+  });
+});
+
+describe('mergeAttractions', () => {
+  it('should collapse duplicates across lists in priority order', () => {
+    const osm = createMockAttraction({ id: 'osm:node:1', name: 'Berliner Dom', sources: ['overpass'] });
+    const wiki = createMockAttraction({ id: 'wiki:de:Berliner Dom', name: 'Berliner Dom', sources: ['wikipedia'] });
+    const local = createMockAttraction({ id: 'local:tor', name: 'Brandenburger Tor', latitude: 52.5163, sources: ['local'] });
+
+    const result = mergeAttractions([[osm], [wiki], [local]]);
+
+    expect(result.map(a => a.id)).toEqual(['osm:node:1', 'local:tor']);
+    expect(result[0].sources).toEqual(['overpass', 'wikipedia']);
+  });
+
+  it('should not collapse places within the same list', () => {
+    const a = createMockAttraction({ id: 'osm:node:1', name: 'Eingang' });
+    const b = createMockAttraction({ id: 'osm:node:2', name: 'Eingang' });
+
+    expect(mergeAttractions([[a, b]])).toHaveLength(2);
+  });
+
+  it('should return an empty list without input', () => {
+    expect(mergeAttractions([])).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for the attraction type taxonomy
+ * Coverage target: 90%
+ */
+
+import {
+  ATTRACTION_TYPES,
+  getAttractionTypeInfo,
+  getAttractionTypeLabel,
+  formatAttractionType,
+  getCategoryLabel,
+  humanizeTagValue,
+} from '../../src/utils/attractionTypes';
+
+const t = (key: string) => `t:${key}`;
+
+describe('getAttractionTypeInfo', () => {
+  it('should return category and icon of known types', () => {
+    expect(getAttractionTypeInfo('castle')).toEqual({ category: 'history', icon: '🏰', known: true });
+    expect(getAttractionTypeInfo('place_of_worship')).toMatchObject({ category: 'religion' });
+    expect(getAttractionTypeInfo('peak')).toMatchObject({ category: 'nature' });
+  });
+
+  it('should fall back to the other category for unknown types', () => {
+    expect(getAttractionTypeInfo('bunker')).toEqual({ category: 'other', icon: '📍', known: false });
+  });
+
+  it('should not treat object prototype keys as types', () => {
+    expect(getAttractionTypeInfo('constructor').known).toBe(false);
+  });
+});
+
+describe('getAttractionTypeLabel', () => {
+  it('should translate known types', () => {
+    expect(getAttractionTypeLabel('viewpoint', t)).toBe('t:attractionTypes.viewpoint');
+  });
+
+  it('should humanize unknown types', () => {
+    expect(getAttractionTypeLabel('boundary_stone', t)).toBe('Boundary stone');
+  });
+});
+
+describe('formatAttractionType', () => {
+  it('should prefix the label with the icon', () => {
+    expect(formatAttractionType('museum', t)).toBe('🏛️ t:attractionTypes.museum');
+    expect(formatAttractionType('yes', t)).toBe('📍 Yes');
+  });
+});
+
+describe('getCategoryLabel', () => {
+  it('should translate categories', () => {
+    expect(getCategoryLabel('food', t)).toBe('t:attractionCategories.food');
+  });
+});
+
+describe('humanizeTagValue', () => {
+  it('should replace separators and capitalize', () => {
+    expect(humanizeTagValue('archaeological_site')).toBe('Archaeological site');
+    expect(humanizeTagValue('ruins;castle')).toBe('Ruins castle');
+  });
+});
+
+describe('Translations', () => {
+  it.each(['en', 'de'])('should have a %s label for every known type and category', language => {
+    // The setup file mocks i18n; check the real resources here
+    const i18n = jest.requireActual('../../src/config/i18n').default;
+    const translate = i18n.getFixedT(language);
+    Object.keys(ATTRACTION_TYPES).forEach(type => {
+      expect(translate(`attractionTypes.${type}`)).not.toBe(`attractionTypes.${type}`);
+    });
+    ['sights', 'history', 'culture', 'religion', 'nature', 'leisure', 'food', 'nightlife', 'shopping', 'accommodation', 'other'].forEach(
+      category => {
+        expect(translate(`attractionCategories.${category}`)).not.toBe(`attractionCategories.${category}`);
+      }
+    );
+  });
+});
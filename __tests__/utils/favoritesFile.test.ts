@@ -0,0 +1,159 @@
+/**
+ * Tests for favorites file import and export
+ * Coverage target: 90%
+ */
+
+import { parseFavoritesFile, serializeFavorites } from '../../src/utils/favoritesFile';
+import { Favorite, FavoritesFileFormat } from '../../src/types';
+import { createMockAttraction } from '../fixtures/attractions';
+
+const favorites: Favorite[] = [
+  {
+    ...createMockAttraction({ id: 'osm:way:518071791', name: 'Brandenburg Gate', rating: 4.5 }),
+    savedAt: '2026-03-01T10:00:00.000Z',
+    note: 'Sunrise & coffee <early>',
+    visitStatus: 'visited',
+    visitedAt: '2026-03-02T07:15:00.000Z',
+    personalRating: 4,
+    collectionId: 'default',
+  },
+  {
+    ...createMockAttraction({
+      id: 'wiki:de:Rostocker Stadthafen',
+      name: "Rostock's harbour",
+      latitude: 54.0924,
+      longitude: 12.1286,
+      type: 'harbour',
+      rating: 3,
+    }),
+    visitStatus: 'planned',
+    collectionId: 'collection:rostock',
+  },
+];
+
+const FORMATS: FavoritesFileFormat[] = ['gpx', 'kml', 'geojson'];
+
+describe('serializeFavorites / parseFavoritesFile', () => {
+  it.each(FORMATS)('should round-trip favorites as %s', format => {
+    const parsed = parseFavoritesFile(serializeFavorites(favorites, format, 'Trip'));
+
+    expect(parsed?.format).toBe(format);
+    expect(parsed?.invalid).toBe(0);
+    expect(parsed?.favorites).toEqual(
+      favorites.map(favorite => ({
+        id: favorite.id,
+        name: favorite.name,
+        latitude: favorite.latitude,
+        longitude: favorite.longitude,
+        type: favorite.type,
+        distance: 0,
+        rating: favorite.rating,
+        savedAt: favorite.savedAt,
+        note: favorite.note,
+        visitStatus: favorite.visitStatus,
+        visitedAt: favorite.visitedAt,
+        personalRating: favorite.personalRating,
+      }))
+    );
+  });
+
+  it('should write GPX waypoints with the file name', () => {
+    const gpx = serializeFavorites(favorites, 'gpx', 'Berlin & Rostock');
+
+    expect(gpx).toContain('<name>Berlin &amp; Rostock</name>');
+    expect(gpx).toContain('<wpt lat="52.5163" lon="13.3777">');
+    expect(gpx).toContain('<desc>Sunrise &amp; coffee &lt;early&gt;</desc>');
+  });
+
+  it('should write KML coordinates longitude first', () => {
+    expect(serializeFavorites(favorites, 'kml', 'Trip')).toContain('<coordinates>13.3777,52.5163</coordinates>');
+  });
+
+  it('should write a GeoJSON FeatureCollection of points', () => {
+    const geojson = JSON.parse(serializeFavorites(favorites, 'geojson', 'Trip'));
+
+    expect(geojson.type).toBe('FeatureCollection');
+    expect(geojson.features[0].geometry).toEqual({ type: 'Point', coordinates: [13.3777, 52.5163] });
+  });
+});
+
+describe('parseFavoritesFile', () => {
+  it('should read GPX from other apps', () => {
+    const parsed = parseFavoritesFile(`<?xml version="1.0"?>
+      <gpx version="1.1" creator="OtherApp">
+        <wpt lat='48.8584' lon='2.2945'><name><![CDATA[Tour Eiffel]]></name><cmt>Top floor</cmt></wpt>
+        <wpt lat="48.8606" lon="2.3376"><name>Mus&#233;e du Louvre</name></wpt>
+      </gpx>`);
+
+    expect(parsed?.favorites).toEqual([
+      expect.objectContaining({
+        id: 'import:48.85840,2.29450',
+        name: 'Tour Eiffel',
+        type: 'attraction',
+        rating: 0,
+        note: 'Top floor',
+      }),
+      expect.objectContaining({ name: 'Musée du Louvre' }),
+    ]);
+  });
+
+  it('should count places without name or valid coordinates as invalid', () => {
+    const parsed = parseFavoritesFile(`<gpx>
+      <wpt lat="52.5" lon="13.4"></wpt>
+      <wpt lat="95" lon="13.4"><name>Too far north</name></wpt>
+      <wpt lat="52.5" lon="13.4"><name>Valid</name></wpt>
+    </gpx>`);
+
+    expect(parsed?.favorites.map(favorite => favorite.name)).toEqual(['Valid']);
+    expect(parsed?.invalid).toBe(2);
+  });
+
+  it('should only import KML points', () => {
+    const parsed = parseFavoritesFile(`<kml><Document>
+      <Placemark><name>Walk</name><LineString><coordinates>13.1,52.1 13.2,52.2</coordinates></LineString></Placemark>
+      <Placemark><name>Cafe</name><description>Cake</description><Point><coordinates>13.4,52.5,34</coordinates></Point></Placemark>
+    </Document></kml>`);
+
+    expect(parsed?.favorites).toEqual([expect.objectContaining({ name: 'Cafe', latitude: 52.5, longitude: 13.4, note: 'Cake' })]);
+    expect(parsed?.invalid).toBe(1);
+  });
+
+  it('should read single GeoJSON features and skip other geometries', () => {
+    const point = {
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [13.4, 52.5] },
+      properties: { title: 'Fernsehturm', visitStatus: 'unknown', savedAt: 'yesterday', personalRating: 9 },
+    };
+
+    expect(parseFavoritesFile(JSON.stringify(point))?.favorites).toEqual([
+      expect.objectContaining({
+        name: 'Fernsehturm',
+        visitStatus: undefined,
+        savedAt: undefined,
+        personalRating: undefined,
+      }),
+    ]);
+
+    const line = { ...point, geometry: { type: 'LineString', coordinates: [[13.4, 52.5]] } };
+    expect(parseFavoritesFile(JSON.stringify({ type: 'FeatureCollection', features: [line] }))?.invalid).toBe(1);
+  });
+
+  it('should replace ids outside the app namespaces', () => {
+    const parsed = parseFavoritesFile(
+      JSON.stringify({
+        type: 'Feature',
+        id: 'abc',
+        geometry: { type: 'Point', coordinates: [13.4, 52.5] },
+        properties: { name: 'Somewhere' },
+      })
+    );
+
+    expect(parsed?.favorites[0].id).toBe('import:52.50000,13.40000');
+  });
+
+  it('should reject unsupported content', () => {
+    expect(parseFavoritesFile('name,lat,lon')).toBeNull();
+    expect(parseFavoritesFile('{ not json')).toBeNull();
+    expect(parseFavoritesFile('{"type": "Polygon"}')).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for favorites list sorting, search and distances
+ * Coverage target: 90%
+ */
+
+import {
+  getNearbyFavorites,
+  searchFavorites,
+  sortFavorites,
+  withDistanceFrom,
+} from '../../src/utils/favoritesList';
+import { Favorite } from '../../src/types';
+import { createMockAttraction } from '../fixtures/attractions';
+
+const favorites: Favorite[] = [
+  { ...createMockAttraction({ id: 'a', name: 'Zoo', type: 'zoo', distance: 1500 }), savedAt: '2026-03-02T10:00:00.000Z' },
+  { ...createMockAttraction({ id: 'b', name: 'Art Museum', type: 'museum', distance: 200 }), note: 'Free on Sundays' },
+  { ...createMockAttraction({ id: 'c', name: 'Castle', type: 'castle', distance: 900 }), savedAt: '2026-03-05T10:00:00.000Z' },
+  { ...createMockAttraction({ id: 'd', name: 'Lookout', type: 'viewpoint', distance: 200 }) },
+];
+
+const ids = (list: { id: string }[]) => list.map(favorite => favorite.id);
+
+describe('withDistanceFrom', () => {
+  it('should replace the stored distance with the distance from the position', () => {
+    const [favorite] = withDistanceFrom([favorites[0]], { latitude: 52.5163, longitude: 13.3777 });
+
+    expect(favorite.distance).toBe(0);
+    expect(favorites[0].distance).toBe(1500);
+  });
+
+  it('should measure in meters', () => {
+    // 0.01° of latitude is about 1.1 km
+    const [favorite] = withDistanceFrom([favorites[0]], { latitude: 52.5263, longitude: 13.3777 });
+
+    expect(favorite.distance).toBeCloseTo(1112, -1);
+  });
+});
+
+describe('searchFavorites', () => {
+  it('should return every favorite for an empty query', () => {
+    expect(searchFavorites(favorites, '  ')).toBe(favorites);
+  });
+
+  it('should match names ignoring case', () => {
+    expect(ids(searchFavorites(favorites, 'MUSEUM'))).toEqual(['b']);
+  });
+
+  it('should match types and notes', () => {
+    expect(ids(searchFavorites(favorites, 'viewpoint'))).toEqual(['d']);
+    expect(ids(searchFavorites(favorites, 'sundays'))).toEqual(['b']);
+  });
+
+  it('should match types written with spaces', () => {
+    const tower = { ...createMockAttraction({ id: 'e', type: 'observation_tower' }) };
+
+    expect(ids(searchFavorites([tower], 'observation tower'))).toEqual(['e']);
+  });
+});
+
+describe('sortFavorites', () => {
+  it('should sort by distance, then name', () => {
+    expect(ids(sortFavorites(favorites, 'distance'))).toEqual(['b', 'd', 'c', 'a']);
+  });
+
+  it('should sort newest first, keeping undated favorites in saved order', () => {
+    expect(ids(sortFavorites(favorites, 'savedAt'))).toEqual(['c', 'a', 'b', 'd']);
+  });
+
+  it('should sort by name', () => {
+    expect(ids(sortFavorites(favorites, 'name'))).toEqual(['b', 'c', 'd', 'a']);
+  });
+
+  it('should not change the input', () => {
+    sortFavorites(favorites, 'name');
+
+    expect(ids(favorites)).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
+
+describe('getNearbyFavorites', () => {
+  it('should return favorites within walking distance, closest first', () => {
+    expect(ids(getNearbyFavorites(favorites))).toEqual(['b', 'd', 'c']);
+  });
+
+  it('should accept a radius', () => {
+    expect(ids(getNearbyFavorites(favorites, 500))).toEqual(['b', 'd']);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Tests for fuzzy search matching
+ * Coverage target: 90%
+ */
+
+import { getSearchForms, matchSearchText, MatchQuality, normalizeSearchText } from '../../src/utils/fuzzySearch';
+
+describe('normalizeSearchText', () => {
+  it('should drop case, diacritics and punctuation', () => {
+    expect(normalizeSearchText('Frankfurt (Oder)')).toBe('frankfurt oder');
+    expect(normalizeSearchText('Île-de-France')).toBe('ile de france');
+    expect(normalizeSearchText('Straße')).toBe('strasse');
+  });
+});
+
+describe('getSearchForms', () => {
+  it('should offer umlauts stripped and transliterated', () => {
+    expect(getSearchForms('München')).toEqual(['munchen', 'muenchen']);
+    expect(getSearchForms('Berlin')).toEqual(['berlin']);
+  });
+});
+
+describe('matchSearchText', () => {
+  it('should find names starting with the query', () => {
+    expect(matchSearchText('ber', 'Berlin')).toBe(MatchQuality.NamePrefix);
+  });
+
+  it('should ignore diacritics and transliterated umlauts', () => {
+    expect(matchSearchText('muen', 'München')).toBe(MatchQuality.NamePrefix);
+    expect(matchSearchText('munch', 'München')).toBe(MatchQuality.NamePrefix);
+    expect(matchSearchText('MÜNCH', 'München')).toBe(MatchQuality.NamePrefix);
+    expect(matchSearchText('koeln', 'Köln')).toBe(MatchQuality.NamePrefix);
+  });
+
+  it('should match words in any order, also in the description', () => {
+    expect(matchSearchText('oder frank', 'Frankfurt (Oder)')).toBe(MatchQuality.WordPrefix);
+    expect(matchSearchText('paris tex', 'Paris', 'Paris, Lamar County, Texas, United States')).toBe(
+      MatchQuality.WordPrefix
+    );
+  });
+
+  it('should tolerate one typo in longer words', () => {
+    expect(matchSearchText('muncen', 'München')).toBe(MatchQuality.Fuzzy);
+    expect(matchSearchText('berlni', 'Berlin')).toBe(MatchQuality.Fuzzy);
+  });
+
+  it('should not tolerate typos in short words', () => {
+    expect(matchSearchText('bxr', 'Berlin')).toBeNull();
+  });
+
+  it('should not match unrelated places', () => {
+    expect(matchSearchText('hamburg', 'München', 'München, Bayern, Deutschland')).toBeNull();
+    expect(matchSearchText('berlin dresden', 'Berlin')).toBeNull();
+  });
+
+  it('should not match an empty query', () => {
+    expect(matchSearchText(' - ', 'Berlin')).toBeNull();
+  });
+});
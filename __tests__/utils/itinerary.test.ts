@@ -0,0 +1,104 @@
+/**
+ * Tests for the itinerary planner
+ * Coverage target: 90%
+ */
+
+import { orderStops, planItinerary } from '../../src/utils/itinerary';
+import { estimateLegHeuristic } from '../../src/utils/routing';
+import { ITINERARY_CONFIG } from '../../src/constants';
+import { createMockAttraction } from '../fixtures/attractions';
+
+// Points on the equator, 0.01° of longitude apart (about 1.1 km)
+const at = (step: number) => ({ latitude: 0, longitude: step * 0.01 });
+const origin = at(0);
+
+describe('orderStops', () => {
+  it('should keep single stops', () => {
+    expect(orderStops(origin, [])).toEqual([]);
+    expect(orderStops(origin, [at(1)])).toEqual([0]);
+  });
+
+  it('should visit points along a line in order', () => {
+    expect(orderStops(origin, [at(3), at(1), at(2)])).toEqual([1, 2, 0]);
+  });
+
+  it('should improve the nearest-neighbor path with 2-opt', () => {
+    // Nearest neighbor visits 1, 3, 0, 2 (about 11.6 steps); the shortest path is 2, 1, 3, 0 (about 9.1)
+    const grid = (x: number, y: number) => ({ latitude: y * 0.01, longitude: x * 0.01 });
+    const points = [grid(3, -3), grid(2, 0), grid(-1, 2), grid(3, -2)];
+
+    expect(orderStops(origin, points)).toEqual([2, 1, 3, 0]);
+  });
+});
+
+describe('planItinerary', () => {
+  const start = new Date(2026, 0, 5, 10, 0); // Monday, 10:00 local time
+  const nearby = (step: number, overrides = {}) =>
+    createMockAttraction({ id: `osm:node:${step}`, name: `Stop ${step}`, ...at(step * 0.02), ...overrides });
+
+  it('should schedule stops with travel and visit times', () => {
+    const first = nearby(1);
+    const second = nearby(2);
+    const itinerary = planItinerary(origin, [second, first], {
+      start,
+      timeBudget: 4 * 3600,
+      mode: 'walking',
+    });
+
+    const firstLeg = estimateLegHeuristic(origin, first, 'walking');
+    expect(itinerary.stops.map(stop => stop.attraction.id)).toEqual([first.id, second.id]);
+    expect(itinerary.stops[0].arrival.getTime()).toBe(start.getTime() + firstLeg.duration * 1000);
+    expect(itinerary.stops[0].departure.getTime() - itinerary.stops[0].arrival.getTime()).toBe(
+      ITINERARY_CONFIG.VISIT_DURATION * 1000
+    );
+    expect(itinerary.totalDistance).toBe(itinerary.stops[0].legDistance + itinerary.stops[1].legDistance);
+    expect(itinerary.totalDuration).toBe(
+      (itinerary.stops[1].departure.getTime() - start.getTime()) / 1000
+    );
+    expect(itinerary.skipped).toEqual([]);
+  });
+
+  it('should skip stops beyond the time budget', () => {
+    const itinerary = planItinerary(origin, [nearby(1), nearby(2)], {
+      start,
+      timeBudget: 3600,
+      mode: 'walking',
+    });
+
+    expect(itinerary.stops).toHaveLength(1);
+    expect(itinerary.skipped).toEqual([{ attraction: expect.objectContaining({ id: 'osm:node:2' }), reason: 'timeBudget' }]);
+  });
+
+  it('should skip stops closed on arrival', () => {
+    const closed = nearby(1, { openingHours: 'Mo-Su 18:00-20:00' });
+    const itinerary = planItinerary(origin, [closed, nearby(2)], {
+      start,
+      timeBudget: 4 * 3600,
+      mode: 'walking',
+    });
+
+    expect(itinerary.stops.map(stop => stop.attraction.id)).toEqual(['osm:node:2']);
+    expect(itinerary.skipped).toEqual([{ attraction: closed, reason: 'closed' }]);
+  });
+
+  it('should wait briefly for a stop to open', () => {
+    const opensSoon = nearby(1, { openingHours: 'Mo-Su 10:20-18:00' });
+    const itinerary = planItinerary(origin, [opensSoon], {
+      start,
+      timeBudget: 4 * 3600,
+      mode: 'walking',
+    });
+
+    expect(itinerary.stops[0].arrival).toEqual(new Date(2026, 0, 5, 10, 20));
+  });
+
+  it('should treat unparseable opening hours as open', () => {
+    const itinerary = planItinerary(origin, [nearby(1, { openingHours: 'by appointment' })], {
+      start,
+      timeBudget: 4 * 3600,
+      mode: 'walking',
+    });
+
+    expect(itinerary.stops).toHaveLength(1);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for itinerary export
+ * Coverage target: 90%
+ */
+
+import { buildAppleMapsUrl, buildGoogleMapsUrl, buildItineraryGpx } from '../../src/utils/itineraryExport';
+import { ITINERARY_CONFIG } from '../../src/constants';
+import { Itinerary } from '../../src/types';
+import { createMockAttraction } from '../fixtures/attractions';
+
+const origin = { latitude: 52.5, longitude: 13.4 };
+
+const createItinerary = (count: number): Itinerary => ({
+  stops: Array.from({ length: count }, (_, index) => ({
+    attraction: createMockAttraction({
+      id: `osm:node:${index}`,
+      name: `Stop ${index}`,
+      latitude: Number((52.51 + index / 100).toFixed(2)),
+      longitude: 13.41,
+    }),
+    arrival: new Date(Date.UTC(2026, 0, 5, 10 + index)),
+    departure: new Date(Date.UTC(2026, 0, 5, 10 + index, 45)),
+    legDistance: 1000,
+    legDuration: 600,
+  })),
+  skipped: [],
+  totalDistance: count * 1000,
+  totalDuration: count * 3600,
+});
+
+describe('buildGoogleMapsUrl', () => {
+  it('should route through all stops', () => {
+    expect(buildGoogleMapsUrl(origin, createItinerary(3), 'cycling')).toBe(
+      'https://www.google.com/maps/dir/?api=1&origin=52.5,13.4&destination=52.53,13.41' +
+        '&travelmode=bicycling&waypoints=52.51%2C13.41%7C52.52%2C13.41'
+    );
+  });
+
+  it('should omit waypoints for a single stop', () => {
+    expect(buildGoogleMapsUrl(origin, createItinerary(1), 'walking')).toBe(
+      'https://www.google.com/maps/dir/?api=1&origin=52.5,13.4&destination=52.51,13.41&travelmode=walking'
+    );
+  });
+
+  it('should limit the number of waypoints but keep the destination', () => {
+    const itinerary = createItinerary(ITINERARY_CONFIG.MAX_MAP_WAYPOINTS + 3);
+    const url = buildGoogleMapsUrl(origin, itinerary, 'walking')!;
+    const waypoints = decodeURIComponent(url.split('waypoints=')[1]).split('|');
+
+    expect(waypoints).toHaveLength(ITINERARY_CONFIG.MAX_MAP_WAYPOINTS);
+    expect(url).toContain(`destination=${itinerary.stops[itinerary.stops.length - 1].attraction.latitude},13.41`);
+  });
+
+  it('should include every stop of the largest itinerary', () => {
+    const itinerary = createItinerary(ITINERARY_CONFIG.MAX_STOPS);
+    const url = decodeURIComponent(buildGoogleMapsUrl(origin, itinerary, 'walking')!);
+
+    itinerary.stops.forEach(stop => {
+      expect(url).toContain(`${stop.attraction.latitude},${stop.attraction.longitude}`);
+    });
+  });
+
+  it('should return null without stops', () => {
+    expect(buildGoogleMapsUrl(origin, createItinerary(0), 'walking')).toBeNull();
+  });
+});
+
+describe('buildAppleMapsUrl', () => {
+  it('should chain stops as destinations', () => {
+    expect(buildAppleMapsUrl(origin, createItinerary(2), 'walking')).toBe(
+      'https://maps.apple.com/?saddr=52.5,13.4&daddr=52.51,13.41+to:52.52,13.41&dirflg=w'
+    );
+  });
+
+  it('should leave the mode to the app for cycling', () => {
+    expect(buildAppleMapsUrl(origin, createItinerary(1), 'cycling')).not.toContain('dirflg');
+  });
+});
+
+describe('buildItineraryGpx', () => {
+  it('should contain a waypoint and route point per stop', () => {
+    const gpx = buildItineraryGpx(createItinerary(2), 'Berlin & more');
+
+    expect(gpx).toContain('<gpx version="1.1"');
+    expect(gpx).toContain('<name>Berlin &amp; more</name>');
+    expect(gpx.match(/<wpt /g)).toHaveLength(2);
+    expect(gpx.match(/<rtept /g)).toHaveLength(2);
+    expect(gpx).toContain('<wpt lat="52.51" lon="13.41">');
+    expect(gpx).toContain('<time>2026-01-05T10:00:00.000Z</time>');
+  });
+
+  it('should escape attraction names', () => {
+    const itinerary = createItinerary(1);
+    itinerary.stops[0].attraction.name = 'Café <"Bar">';
+
+    expect(buildItineraryGpx(itinerary, 'Trip')).toContain('<name>Café &lt;&quot;Bar&quot;&gt;</name>');
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Tests for the travel journal
+ * Coverage target: 90%
+ */
+
+import { buildJournal, toLocalDate } from '../../src/utils/journal';
+import { Favorite } from '../../src/types';
+import { createMockAttraction } from '../fixtures/attractions';
+
+const visit = (id: string, visitedAt?: Date): Favorite => ({
+  ...createMockAttraction({ id, name: `Place ${id}` }),
+  visitStatus: 'visited',
+  visitedAt: visitedAt?.toISOString(),
+});
+
+describe('toLocalDate', () => {
+  it('should use the local calendar date', () => {
+    expect(toLocalDate(new Date(2027, 4, 1, 23, 30).toISOString())).toBe('2027-05-01');
+  });
+});
+
+describe('buildJournal', () => {
+  it('should group visits by day in chronological order', () => {
+    const journal = buildJournal([
+      visit('c', new Date(2027, 4, 2, 9, 0)),
+      visit('b', new Date(2027, 4, 1, 18, 0)),
+      visit('a', new Date(2027, 4, 1, 10, 0)),
+    ]);
+
+    expect(journal.map(day => day.date)).toEqual(['2027-05-01', '2027-05-02']);
+    expect(journal[0].entries.map(entry => entry.id)).toEqual(['a', 'b']);
+  });
+
+  it('should leave out planned favorites', () => {
+    const planned: Favorite = { ...createMockAttraction({ id: 'p' }), visitStatus: 'planned' };
+
+    expect(buildJournal([planned, createMockAttraction({ id: 'q' })])).toEqual([]);
+  });
+
+  it('should collect visits without a date last', () => {
+    const journal = buildJournal([visit('undated'), visit('a', new Date(2027, 4, 1, 10, 0))]);
+
+    expect(journal.map(day => day.date)).toEqual(['2027-05-01', '']);
+    expect(journal[1].entries[0].id).toBe('undated');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Tests for language helpers
+ * Coverage target: 90%
+ */
+
+import { getContentLanguage, getLanguageChain, toAcceptLanguage } from '../../src/utils/language';
+
+describe('getContentLanguage', () => {
+  it('should use English content in English', () => {
+    expect(getContentLanguage('en')).toBe('en');
+  });
+
+  it('should use German content otherwise', () => {
+    expect(getContentLanguage('de')).toBe('de');
+    expect(getContentLanguage('fr')).toBe('de');
+    expect(getContentLanguage(undefined)).toBe('de');
+  });
+});
+
+describe('getLanguageChain', () => {
+  it('should put the app language before the fallback', () => {
+    expect(getLanguageChain('de')).toEqual(['de', 'en']);
+  });
+
+  it('should not repeat the fallback language', () => {
+    expect(getLanguageChain('en')).toEqual(['en']);
+  });
+
+  it('should fall back from a regional language to its base language', () => {
+    expect(getLanguageChain('de-CH', ['en', 'fr'])).toEqual(['de-ch', 'de', 'en', 'fr']);
+  });
+
+  it('should use the fallbacks without a language', () => {
+    expect(getLanguageChain(undefined)).toEqual(['en']);
+    expect(getLanguageChain('')).toEqual(['en']);
+  });
+});
+
+describe('toAcceptLanguage', () => {
+  it('should weight later languages lower', () => {
+    expect(toAcceptLanguage(['de-at', 'de', 'en'])).toBe('de-at,de;q=0.9,en;q=0.8');
+  });
+
+  it('should keep weights positive for long chains', () => {
+    const chain = Array.from({ length: 12 }, (_, index) => `l${index}`);
+
+    expect(toAcceptLanguage(chain).endsWith('l11;q=0.1')).toBe(true);
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Tests for opening_hours parser and evaluator
+ * Coverage target: 90%
+ *
+ * All evaluations use Europe/Berlin so results don't depend on the machine timezone.
+ * 2024-06-05 is a Wednesday (UTC+2), 2024-01-10 is a Wednesday (UTC+1).
+ */
+
+import {
+  parseOpeningHours,
+  getOpeningStatus,
+  isOpenAt,
+  LocalDate,
+} from '../../src/utils/openingHours';
+
+const timeZone = 'Europe/Berlin';
+const options = { timeZone };
+
+/** Berlin wall-clock time in summer 2024 as instant */
+const summer = (day: number, time: string) =>
+  new Date(`2024-06-${String(day).padStart(2, '0')}T${time}:00+02:00`);
+
+/** Berlin wall-clock time in winter 2024 as instant */
+const winter = (day: number, time: string) =>
+  new Date(`2024-01-${String(day).padStart(2, '0')}T${time}:00+01:00`);
+
+describe('parseOpeningHours', () => {
+  it('should parse weekday ranges with time spans', () => {
+    expect(parseOpeningHours('Mo-Fr 09:00-17:00')).toEqual([
+      {
+        months: null,
+        weekdays: [0, 1, 2, 3, 4],
+        publicHoliday: false,
+        times: [{ start: 540, end: 1020 }],
+        additional: false,
+      },
+    ]);
+  });
+
+  it('should parse weekday lists and wrapping ranges', () => {
+    expect(parseOpeningHours('Sa,Su 10:00-14:00')?.[0].weekdays).toEqual([5, 6]);
+    expect(parseOpeningHours('Fr-Mo 10:00-14:00')?.[0].weekdays).toEqual([0, 4, 5, 6]);
+  });
+
+  it('should parse multiple time spans', () => {
+    expect(parseOpeningHours('Mo 08:00-12:00,13:00-18:00')?.[0].times).toEqual([
+      { start: 480, end: 720 },
+      { start: 780, end: 1080 },
+    ]);
+  });
+
+  it('should extend overnight spans into the next day', () => {
+    expect(parseOpeningHours('Fr 22:00-02:00')?.[0].times).toEqual([{ start: 1320, end: 1560 }]);
+  });
+
+  it('should parse 24/7 as open all day', () => {
+    expect(parseOpeningHours('24/7')?.[0].times).toEqual([{ start: 0, end: 1440 }]);
+  });
+
+  it('should parse off and closed as no time spans', () => {
+    expect(parseOpeningHours('Su off')?.[0].times).toEqual([]);
+    expect(parseOpeningHours('Su closed')?.[0].times).toEqual([]);
+  });
+
+  it('should parse month and date ranges', () => {
+    expect(parseOpeningHours('Apr-Oct 10:00-18:00')?.[0].months).toEqual([{ start: 401, end: 1031 }]);
+    expect(parseOpeningHours('Dec 24-26 off')?.[0].months).toEqual([{ start: 1224, end: 1226 }]);
+    expect(parseOpeningHours('Dec 24 off')?.[0].months).toEqual([{ start: 1224, end: 1224 }]);
+    expect(parseOpeningHours('Apr 15-Oct 15 Mo-Fr 10:00-18:00')?.[0]).toMatchObject({
+      months: [{ start: 415, end: 1015 }],
+      weekdays: [0, 1, 2, 3, 4],
+    });
+  });
+
+  it('should parse public holiday selectors', () => {
+    expect(parseOpeningHours('PH off')?.[0]).toMatchObject({ weekdays: [], publicHoliday: true });
+    expect(parseOpeningHours('Su,PH 10:00-12:00')?.[0]).toMatchObject({
+      weekdays: [6],
+      publicHoliday: true,
+    });
+  });
+
+  it('should treat a selector without times as open all day', () => {
+    expect(parseOpeningHours('Sa')?.[0].times).toEqual([{ start: 0, end: 1440 }]);
+  });
+
+  it('should accept a colon after the day selector', () => {
+    expect(parseOpeningHours('Mo-Fr: 09:00-17:00')?.[0].times).toEqual([{ start: 540, end: 1020 }]);
+  });
+
+  it('should split rules on semicolons and fallback separators', () => {
+    expect(parseOpeningHours('Mo-Fr 09:00-17:00; Sa 10:00-14:00')).toHaveLength(2);
+    expect(parseOpeningHours('Mo-Fr 09:00-17:00 || "by appointment"')).toHaveLength(1);
+  });
+
+  it('should mark comma separated rules as additional', () => {
+    const rules = parseOpeningHours('Mo-Fr 08:00-12:00, We 14:00-18:00');
+
+    expect(rules).toHaveLength(2);
+    expect(rules?.[1]).toMatchObject({ weekdays: [2], additional: true });
+  });
+
+  it('should ignore comments', () => {
+    expect(parseOpeningHours('Mo-Fr 09:00-17:00 "call ahead"')).toHaveLength(1);
+  });
+
+  it('should return null for unsupported or invalid values', () => {
+    expect(parseOpeningHours('')).toBeNull();
+    expect(parseOpeningHours('"on request"')).toBeNull();
+    expect(parseOpeningHours('Mo-Fr sunrise-sunset')).toBeNull();
+    expect(parseOpeningHours('Mo[1] 10:00-12:00')).toBeNull();
+    expect(parseOpeningHours('Mo-Fr 9-17')).toBeNull();
+    expect(parseOpeningHours('Mo 10:75-12:00')).toBeNull();
+  });
+});
+
+describe('getOpeningStatus', () => {
+  describe('Weekday rules', () => {
+    const hours = 'Mo-Fr 09:00-17:00; Sa 10:00-14:00';
+
+    it('should be open during opening hours', () => {
+      const status = getOpeningStatus(hours, summer(5, '10:00'), options);
+
+      expect(status?.isOpen).toBe(true);
+      expect(status?.nextOpen).toBeNull();
+      expect(status?.nextClose).toEqual(summer(5, '17:00'));
+    });
+
+    it('should be closed before opening and report next opening', () => {
+      const status = getOpeningStatus(hours, summer(5, '08:30'), options);
+
+      expect(status?.isOpen).toBe(false);
+      expect(status?.nextOpen).toEqual(summer(5, '09:00'));
+      expect(status?.nextClose).toBeNull();
+    });
+
+    it('should treat the closing minute as closed', () => {
+      expect(isOpenAt(hours, summer(5, '17:00'), options)).toBe(false);
+    });
+
+    it('should skip closed days when looking for the next opening', () => {
+      // Saturday afternoon -> Monday morning
+      const status = getOpeningStatus(hours, summer(8, '15:00'), options);
+
+      expect(status?.nextOpen).toEqual(summer(10, '09:00'));
+    });
+  });
+
+  describe('Multiple spans', () => {
+    const hours = 'Mo-Fr 08:00-12:00,13:00-18:00';
+
+    it('should be closed during the lunch break', () => {
+      const status = getOpeningStatus(hours, summer(5, '12:30'), options);
+
+      expect(status?.isOpen).toBe(false);
+      expect(status?.nextOpen).toEqual(summer(5, '13:00'));
+    });
+
+    it('should close at the end of the current span', () => {
+      expect(getOpeningStatus(hours, summer(5, '09:00'), options)?.nextClose).toEqual(
+        summer(5, '12:00')
+      );
+    });
+  });
+
+  describe('Overnight spans', () => {
+    const hours = 'Fr,Sa 22:00-03:00';
+
+    it('should be open after midnight from the previous day', () => {
+      // Saturday 01:00 from Friday's span
+      const status = getOpeningStatus(hours, summer(8, '01:00'), options);
+
+      expect(status?.isOpen).toBe(true);
+      expect(status?.nextClose).toEqual(summer(8, '03:00'));
+    });
+
+    it('should only use spans of the last matching rule', () => {
+      const status = getOpeningStatus('Mo-Su 18:00-24:00; Mo-Su 00:00-02:00', summer(5, '20:00'), options);
+
+      // Spans are replaced by the later rule, so only 00:00-02:00 remains
+      expect(status?.isOpen).toBe(false);
+      expect(status?.nextOpen).toEqual(summer(6, '00:00'));
+    });
+
+    it('should keep open through midnight for additional rules', () => {
+      const status = getOpeningStatus('Mo-Su 18:00-24:00, Mo-Su 00:00-02:00', summer(5, '20:00'), options);
+
+      expect(status?.isOpen).toBe(true);
+      expect(status?.nextClose).toEqual(summer(6, '02:00'));
+    });
+  });
+
+  describe('Rule overrides', () => {
+    it('should let later rules override earlier ones for matching days', () => {
+      const hours = 'Mo-Su 10:00-18:00; We off';
+
+      expect(isOpenAt(hours, summer(5, '12:00'), options)).toBe(false);
+      expect(isOpenAt(hours, summer(6, '12:00'), options)).toBe(true);
+    });
+
+    it('should add times from additional rules', () => {
+      const hours = 'Mo-Fr 08:00-12:00, We 14:00-18:00';
+
+      expect(isOpenAt(hours, summer(5, '15:00'), options)).toBe(true);
+      expect(isOpenAt(hours, summer(6, '15:00'), options)).toBe(false);
+    });
+  });
+
+  describe('24/7', () => {
+    it('should be open without a next closing', () => {
+      const status = getOpeningStatus('24/7', summer(5, '03:00'), options);
+
+      expect(status).toEqual({ isOpen: true, nextOpen: null, nextClose: null });
+    });
+  });
+
+  describe('Month ranges', () => {
+    const hours = 'Apr-Oct Tu-Su 10:00-18:00; Nov-Mar off';
+
+    it('should be open in season', () => {
+      expect(isOpenAt(hours, summer(5, '12:00'), options)).toBe(true);
+    });
+
+    it('should be closed out of season and open again in April', () => {
+      const status = getOpeningStatus(hours, winter(10, '12:00'), options);
+
+      expect(status?.isOpen).toBe(false);
+      // 2024-04-02 is the first Tuesday in April (UTC+2)
+      expect(status?.nextOpen).toEqual(new Date('2024-04-02T10:00:00+02:00'));
+    });
+
+    it('should handle ranges wrapping the new year', () => {
+      expect(isOpenAt('Nov-Feb 10:00-16:00', winter(10, '12:00'), options)).toBe(true);
+      expect(isOpenAt('Nov-Feb 10:00-16:00', summer(5, '12:00'), options)).toBe(false);
+    });
+
+    it('should handle single dates', () => {
+      const christmas = new Date('2024-12-24T12:00:00+01:00');
+
+      expect(isOpenAt('Mo-Su 10:00-18:00; Dec 24-26 off', christmas, options)).toBe(false);
+    });
+  });
+
+  describe('Public holidays', () => {
+    const hours = 'Mo-Sa 10:00-18:00; PH off';
+    const isPublicHoliday = (date: LocalDate) => date.month === 6 && date.day === 5;
+
+    it('should ignore PH rules without a holiday provider', () => {
+      expect(isOpenAt(hours, summer(5, '12:00'), options)).toBe(true);
+    });
+
+    it('should apply PH rules on public holidays', () => {
+      const status = getOpeningStatus(hours, summer(5, '12:00'), { timeZone, isPublicHoliday });
+
+      expect(status?.isOpen).toBe(false);
+      expect(status?.nextOpen).toEqual(summer(6, '10:00'));
+    });
+
+    it('should open on holidays listed with weekdays', () => {
+      expect(
+        isOpenAt('Su,PH 11:00-15:00', summer(5, '12:00'), { timeZone, isPublicHoliday })
+      ).toBe(true);
+    });
+  });
+
+  describe('Timezones', () => {
+    it('should evaluate in the given timezone', () => {
+      const at = new Date('2024-06-05T08:30:00Z');
+
+      // 10:30 in Berlin, 04:30 in New York
+      expect(isOpenAt('Mo-Fr 09:00-17:00', at, { timeZone: 'Europe/Berlin' })).toBe(true);
+      expect(isOpenAt('Mo-Fr 09:00-17:00', at, { timeZone: 'America/New_York' })).toBe(false);
+    });
+
+    it('should convert the next change back to an instant', () => {
+      const status = getOpeningStatus(
+        'Mo-Fr 09:00-17:00',
+        new Date('2024-06-05T08:30:00Z'),
+        { timeZone: 'America/New_York' }
+      );
+
+      expect(status?.nextOpen).toEqual(new Date('2024-06-05T13:00:00Z'));
+    });
+
+    it('should handle daylight saving time transitions', () => {
+      // Clocks go forward on 2024-03-31 in Berlin
+      const status = getOpeningStatus(
+        'Su 10:00-18:00',
+        new Date('2024-03-30T12:00:00+01:00'),
+        options
+      );
+
+      expect(status?.nextOpen).toEqual(new Date('2024-03-31T10:00:00+02:00'));
+    });
+
+    it('should fall back to the device timezone', () => {
+      const at = new Date(2024, 5, 5, 10, 0);
+
+      expect(getOpeningStatus('Mo-Fr 09:00-17:00', at)?.nextClose).toEqual(
+        new Date(2024, 5, 5, 17, 0)
+      );
+    });
+  });
+
+  it('should return null for unparseable values', () => {
+    expect(getOpeningStatus('sunrise-sunset', summer(5, '12:00'), options)).toBeNull();
+    expect(isOpenAt('sunrise-sunset', summer(5, '12:00'), options)).toBeNull();
+  });
+
+  it('should only look for the next opening within the scanned days', () => {
+    const hours = 'Dec 24 10:00-14:00';
+
+    expect(getOpeningStatus(hours, summer(5, '12:00'), options)?.nextOpen).not.toBeNull();
+    expect(getOpeningStatus(hours, summer(5, '12:00'), { ...options, scanDays: 7 })?.nextOpen).toBeNull();
+  });
+
+  it('should report no next opening when never open', () => {
+    expect(getOpeningStatus('off', summer(5, '12:00'), options)).toEqual({
+      isOpen: false,
+      nextOpen: null,
+      nextClose: null,
+    });
+  });
+});
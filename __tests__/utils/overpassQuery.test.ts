@@ -0,0 +1,165 @@
+/**
+ * Tests for Overpass query builder
+ * Coverage target: 90%
+ */
+
+import {
+  mergeTagFilters,
+  getFiltersForInterests,
+  formatTagFilter,
+  buildOverpassQuery,
+  buildElementLookupQuery,
+  getFilterSetKey,
+} from '../../src/utils/overpassQuery';
+import { OVERPASS_CONFIG } from '../../src/constants';
+import { berlinCoordinates } from '../fixtures/locations';
+
+describe('mergeTagFilters', () => {
+  it('should combine values of filters with the same key', () => {
+    const result = mergeTagFilters([
+      { key: 'amenity', values: ['restaurant'] },
+      { key: 'amenity', values: ['bar', 'restaurant'] },
+    ]);
+
+    expect(result).toEqual([{ key: 'amenity', values: ['bar', 'restaurant'] }]);
+  });
+
+  it('should let a key without values absorb value filters', () => {
+    const result = mergeTagFilters([
+      { key: 'tourism', values: ['museum'] },
+      { key: 'tourism' },
+      { key: 'tourism', values: ['gallery'] },
+    ]);
+
+    expect(result).toEqual([{ key: 'tourism' }]);
+  });
+
+  it('should treat an empty value list as any value', () => {
+    expect(mergeTagFilters([{ key: 'shop', values: [] }])).toEqual([{ key: 'shop' }]);
+  });
+
+  it('should sort filters by key', () => {
+    const result = mergeTagFilters([{ key: 'natural' }, { key: 'amenity' }]);
+
+    expect(result.map(f => f.key)).toEqual(['amenity', 'natural']);
+  });
+});
+
+describe('getFiltersForInterests', () => {
+  it('should return base filters when no interests are selected', () => {
+    expect(getFiltersForInterests([])).toEqual([
+      { key: 'historic' },
+      { key: 'tourism' },
+    ]);
+  });
+
+  it('should add filters for selected interests', () => {
+    const result = getFiltersForInterests(['nightlife', 'beaches']);
+
+    expect(result).toContainEqual({ key: 'amenity', values: ['bar', 'nightclub', 'pub'] });
+    expect(result).toContainEqual({ key: 'natural', values: ['beach'] });
+    expect(result).toContainEqual({ key: 'leisure', values: ['beach_resort'] });
+  });
+
+  it('should not duplicate base keys covered by interest filters', () => {
+    const result = getFiltersForInterests(['museums']);
+
+    expect(result.filter(f => f.key === 'tourism')).toEqual([{ key: 'tourism' }]);
+  });
+
+  it('should ignore unknown interest ids', () => {
+    expect(getFiltersForInterests(['unknown'])).toEqual(getFiltersForInterests([]));
+  });
+});
+
+describe('formatTagFilter', () => {
+  it('should format a key-only filter', () => {
+    expect(formatTagFilter({ key: 'historic' })).toBe('["historic"]');
+  });
+
+  it('should format a single value filter as exact match', () => {
+    expect(formatTagFilter({ key: 'natural', values: ['beach'] })).toBe('["natural"="beach"]');
+  });
+
+  it('should format multiple values as anchored regex', () => {
+    expect(formatTagFilter({ key: 'amenity', values: ['bar', 'pub'] })).toBe(
+      '["amenity"~"^(bar|pub)$"]'
+    );
+  });
+});
+
+describe('buildOverpassQuery', () => {
+  it('should build a query with one nwr statement per filter', () => {
+    const query = buildOverpassQuery({
+      coordinates: berlinCoordinates,
+      radius: 2000,
+      filters: [{ key: 'tourism' }, { key: 'natural', values: ['beach'] }],
+    });
+
+    const around = `(around:2000,${berlinCoordinates.latitude},${berlinCoordinates.longitude})`;
+    expect(query).toContain(`nwr["tourism"]${around};`);
+    expect(query).toContain(`nwr["natural"="beach"]${around};`);
+  });
+
+  it('should use default timeout and limit', () => {
+    const query = buildOverpassQuery({
+      coordinates: berlinCoordinates,
+      radius: 1000,
+      filters: [{ key: 'tourism' }],
+    });
+
+    expect(query.startsWith('[out:json][timeout:20];')).toBe(true);
+    expect(query.endsWith(`out center ${OVERPASS_CONFIG.RESULT_LIMIT};`)).toBe(true);
+  });
+
+  it('should apply custom timeout and limit', () => {
+    const query = buildOverpassQuery({
+      coordinates: berlinCoordinates,
+      radius: 1000,
+      filters: [{ key: 'tourism' }],
+      limit: 50,
+      timeout: 10,
+    });
+
+    expect(query).toContain('[timeout:10]');
+    expect(query).toContain('out center 50;');
+  });
+});
+
+describe('buildElementLookupQuery', () => {
+  it('should look up the ids for every element type', () => {
+    const query = buildElementLookupQuery([100, 200], 25);
+
+    expect(query).toContain('[timeout:25]');
+    expect(query).toContain('node(id:100,200);');
+    expect(query).toContain('way(id:100,200);');
+    expect(query).toContain('relation(id:100,200);');
+    expect(query).toMatch(/out center;$/);
+  });
+});
+
+describe('getFilterSetKey', () => {
+  it('should be stable for equivalent filter sets', () => {
+    const a = getFilterSetKey([
+      { key: 'amenity', values: ['bar', 'pub'] },
+      { key: 'tourism' },
+    ]);
+    const b = getFilterSetKey([
+      { key: 'tourism' },
+      { key: 'amenity', values: ['pub'] },
+      { key: 'amenity', values: ['bar'] },
+    ]);
+
+    expect(a).toBe(b);
+  });
+
+  it('should differ for different filter sets', () => {
+    expect(getFilterSetKey(getFiltersForInterests([]))).not.toBe(
+      getFilterSetKey(getFiltersForInterests(['food']))
+    );
+  });
+
+  it('should only contain base36 characters', () => {
+    expect(getFilterSetKey([{ key: 'tourism' }])).toMatch(/^[0-9a-z]+$/);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Tests for finding places worth a proximity alert
+ * Coverage target: 90%
+ */
+
+import { findNearbyPlaces } from '../../src/utils/proximity';
+import { Favorite } from '../../src/types';
+import { createMockAttraction } from '../fixtures/attractions';
+
+// About 110 m, 330 m and 1.1 km north of the position
+const position = { latitude: 52.5, longitude: 13.4 };
+const close = { latitude: 52.501, longitude: 13.4 };
+const walkable = { latitude: 52.503, longitude: 13.4 };
+const far = { latitude: 52.51, longitude: 13.4 };
+
+const ids = (alerts: { attraction: { id: string } }[]) => alerts.map(alert => alert.attraction.id);
+
+describe('findNearbyPlaces', () => {
+  it('should alert about favorites within the radius, closest first', () => {
+    const favorites: Favorite[] = [
+      createMockAttraction({ id: 'walkable', ...walkable }),
+      createMockAttraction({ id: 'close', ...close }),
+      createMockAttraction({ id: 'far', ...far }),
+    ];
+
+    const alerts = findNearbyPlaces(position, favorites, [], 500);
+
+    expect(ids(alerts)).toEqual(['close', 'walkable']);
+    expect(alerts[0]).toMatchObject({ reason: 'favorite' });
+    expect(alerts[0].distance).toBeCloseTo(111, 0);
+  });
+
+  it('should skip visited favorites', () => {
+    const favorites: Favorite[] = [{ ...createMockAttraction({ id: 'done', ...close }), visitStatus: 'visited' }];
+
+    expect(findNearbyPlaces(position, favorites, [], 500)).toEqual([]);
+  });
+
+  it('should alert about attractions with a high match score only', () => {
+    const attractions = [
+      createMockAttraction({ id: 'top', interestScore: 8, ...walkable }),
+      createMockAttraction({ id: 'good', interestScore: 7, ...close }),
+      createMockAttraction({ id: 'unscored', ...close }),
+    ];
+
+    const alerts = findNearbyPlaces(position, [], attractions, 500);
+
+    expect(ids(alerts)).toEqual(['top']);
+    expect(alerts[0].reason).toBe('highMatch');
+  });
+
+  it('should alert about a favorite with a high match score once', () => {
+    const attraction = createMockAttraction({ id: 'both', interestScore: 9, ...close });
+
+    const alerts = findNearbyPlaces(position, [attraction], [attraction], 500);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].reason).toBe('favorite');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Tests for route heuristics and formatting
+ * Coverage target: 90%
+ */
+
+import { estimateLegHeuristic, formatDistance, formatDuration } from '../../src/utils/routing';
+import { calculateDistance } from '../../src/utils/distance';
+import { ROUTING_CONFIG } from '../../src/constants';
+import { berlinCoordinates } from '../fixtures/locations';
+
+describe('estimateLegHeuristic', () => {
+  const destination = { latitude: berlinCoordinates.latitude + 0.01, longitude: berlinCoordinates.longitude };
+  const straightLine = calculateDistance(berlinCoordinates, destination);
+
+  it('should stretch the straight-line distance by the detour factor', () => {
+    const leg = estimateLegHeuristic(berlinCoordinates, destination, 'walking');
+
+    expect(leg.distance).toBe(Math.round(straightLine * ROUTING_CONFIG.DETOUR_FACTORS.walking));
+    expect(leg.duration).toBe(
+      Math.round((straightLine * ROUTING_CONFIG.DETOUR_FACTORS.walking) / ROUTING_CONFIG.SPEEDS.walking)
+    );
+  });
+
+  it('should be faster by bike and car than on foot', () => {
+    const walking = estimateLegHeuristic(berlinCoordinates, destination, 'walking');
+    const cycling = estimateLegHeuristic(berlinCoordinates, destination, 'cycling');
+    const driving = estimateLegHeuristic(berlinCoordinates, destination, 'driving');
+
+    expect(cycling.duration).toBeLessThan(walking.duration);
+    expect(driving.duration).toBeLessThan(cycling.duration);
+  });
+});
+
+describe('formatDistance', () => {
+  it('should show meters rounded to ten below one kilometer', () => {
+    expect(formatDistance(454)).toBe('450 m');
+  });
+
+  it('should show kilometers with one decimal below ten kilometers', () => {
+    expect(formatDistance(1234, 'en')).toBe('1.2 km');
+    expect(formatDistance(1234, 'de')).toBe('1,2 km');
+  });
+
+  it('should show whole kilometers for longer distances', () => {
+    expect(formatDistance(12600, 'en')).toBe('13 km');
+  });
+});
+
+describe('formatDuration', () => {
+  it('should show at least one minute', () => {
+    expect(formatDuration(10)).toBe('1 min');
+  });
+
+  it('should show hours and minutes', () => {
+    expect(formatDuration(45 * 60)).toBe('45 min');
+    expect(formatDuration(65 * 60)).toBe('1 h 5 min');
+    expect(formatDuration(120 * 60)).toBe('2 h');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Tests for search history helpers
+ * Coverage target: 90%
+ */
+
+import {
+  addToSearchHistory,
+  getHistoryScore,
+  pinSearchHistoryEntry,
+  rankSearchHistory,
+} from '../../src/utils/searchHistory';
+import { SEARCH_HISTORY_CONFIG } from '../../src/constants';
+import { SearchHistoryEntry, SearchResult } from '../../src/types';
+
+const HALF_LIFE = SEARCH_HISTORY_CONFIG.RECENCY_HALF_LIFE;
+const NOW = 100 * HALF_LIFE;
+
+const place = (id: string, primaryName = `Place ${id}`): SearchResult => ({
+  id,
+  displayName: primaryName,
+  primaryName,
+  secondaryInfo: 'Germany',
+  coordinates: { latitude: 52.5, longitude: 13.4 },
+  type: 'city',
+  importance: 0.5,
+});
+
+const entry = (id: string, count: number, age: number, pinned?: SearchHistoryEntry['pinned']): SearchHistoryEntry => ({
+  result: place(id),
+  count,
+  lastSelectedAt: NOW - age,
+  pinned,
+});
+
+const ids = (entries: SearchHistoryEntry[]) => entries.map(item => item.result.id);
+
+describe('getHistoryScore', () => {
+  it('should halve per half-life since the last selection', () => {
+    expect(getHistoryScore(entry('a', 4, 0), NOW)).toBe(4);
+    expect(getHistoryScore(entry('a', 4, HALF_LIFE), NOW)).toBe(2);
+    expect(getHistoryScore(entry('a', 4, 2 * HALF_LIFE), NOW)).toBe(1);
+  });
+
+  it('should not grow for selections in the future', () => {
+    expect(getHistoryScore(entry('a', 4, -HALF_LIFE), NOW)).toBe(4);
+  });
+});
+
+describe('rankSearchHistory', () => {
+  it('should put home before hotel before everything else', () => {
+    const ranked = rankSearchHistory(
+      [entry('recent', 9, 0), entry('hotel', 1, HALF_LIFE, 'hotel'), entry('home', 1, 5 * HALF_LIFE, 'home')],
+      NOW
+    );
+
+    expect(ids(ranked)).toEqual(['home', 'hotel', 'recent']);
+  });
+
+  it('should rank frequent places above a single recent visit', () => {
+    const ranked = rankSearchHistory([entry('once', 1, 0), entry('often', 6, 2 * HALF_LIFE)], NOW);
+
+    expect(ids(ranked)).toEqual(['often', 'once']);
+  });
+
+  it('should let old favorites fade behind recent places', () => {
+    const ranked = rankSearchHistory([entry('old', 6, 10 * HALF_LIFE), entry('new', 1, 0)], NOW);
+
+    expect(ids(ranked)).toEqual(['new', 'old']);
+  });
+});
+
+describe('addToSearchHistory', () => {
+  it('should add a new place', () => {
+    const history = addToSearchHistory([], place('a'), NOW);
+
+    expect(history).toEqual([{ result: place('a'), count: 1, lastSelectedAt: NOW }]);
+  });
+
+  it('should count a place selected again and keep its latest name', () => {
+    const history = addToSearchHistory([entry('a', 2, HALF_LIFE, 'home')], place('a', 'München'), NOW);
+
+    expect(history).toEqual([{ result: place('a', 'München'), count: 3, lastSelectedAt: NOW, pinned: 'home' }]);
+  });
+
+  it('should drop the lowest ranked places beyond the limit', () => {
+    const full = Array.from({ length: SEARCH_HISTORY_CONFIG.MAX_RECENT }, (_, index) => entry(`r${index}`, 1, index * 1000));
+
+    const history = addToSearchHistory(full, place('new'), NOW);
+
+    expect(history).toHaveLength(SEARCH_HISTORY_CONFIG.MAX_RECENT);
+    expect(ids(history)).toContain('new');
+    expect(ids(history)).not.toContain(`r${SEARCH_HISTORY_CONFIG.MAX_RECENT - 1}`);
+  });
+
+  it('should never drop pinned places', () => {
+    const full = [
+      entry('home', 1, 50 * HALF_LIFE, 'home'),
+      ...Array.from({ length: SEARCH_HISTORY_CONFIG.MAX_RECENT }, (_, index) => entry(`r${index}`, 5, 0)),
+    ];
+
+    const history = addToSearchHistory(full, place('new'), NOW);
+
+    expect(ids(history)[0]).toBe('home');
+    expect(history.filter(item => !item.pinned)).toHaveLength(SEARCH_HISTORY_CONFIG.MAX_RECENT);
+  });
+});
+
+describe('pinSearchHistoryEntry', () => {
+  it('should pin a place', () => {
+    const history = pinSearchHistoryEntry([entry('a', 1, 0), entry('b', 1, 0)], 'b', 'hotel');
+
+    expect(history.map(item => item.pinned)).toEqual([undefined, 'hotel']);
+  });
+
+  it('should move a pin to the new place', () => {
+    const history = pinSearchHistoryEntry([entry('a', 1, 0, 'home'), entry('b', 1, 0, 'hotel')], 'b', 'home');
+
+    expect(history.map(item => item.pinned)).toEqual([undefined, 'home']);
+  });
+
+  it('should unpin a place', () => {
+    const history = pinSearchHistoryEntry([entry('a', 1, 0, 'home'), entry('b', 1, 0, 'hotel')], 'a', null);
+
+    expect(history.map(item => item.pinned)).toEqual([undefined, 'hotel']);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for search result utilities
+ * Coverage target: 90%
+ */
+
+import {
+  attractionToSearchResult,
+  findLoadedAttractions,
+  mergeSearchResults,
+} from '../../src/utils/searchResults';
+import { SearchResult } from '../../src/types';
+import { createMockAttraction, mockAttractions } from '../fixtures/attractions';
+
+const createPlace = (overrides?: Partial<SearchResult>): SearchResult => ({
+  id: '240109189',
+  displayName: 'Berlin, Deutschland',
+  primaryName: 'Berlin',
+  secondaryInfo: 'Deutschland',
+  coordinates: { latitude: 52.517, longitude: 13.3889 },
+  type: 'city',
+  importance: 0.9,
+  ...overrides,
+});
+
+describe('attractionToSearchResult', () => {
+  it('should build a result opening the attraction', () => {
+    const attraction = createMockAttraction();
+
+    expect(attractionToSearchResult(attraction, 'nearby')).toEqual({
+      id: '1',
+      displayName: 'Brandenburg Gate',
+      primaryName: 'Brandenburg Gate',
+      secondaryInfo: 'Historic neoclassical monument',
+      coordinates: { latitude: 52.5163, longitude: 13.3777 },
+      type: 'monument',
+      importance: 0,
+      kind: 'nearby',
+      attraction,
+    });
+  });
+
+  it('should leave the secondary info empty without a description', () => {
+    const result = attractionToSearchResult(createMockAttraction({ description: undefined }), 'attraction');
+
+    expect(result.secondaryInfo).toBe('');
+  });
+});
+
+describe('findLoadedAttractions', () => {
+  it('should find attractions by word prefix and with typos', () => {
+    expect(findLoadedAttractions('cathed', mockAttractions).map(result => result.id)).toEqual(['3']);
+    expect(findLoadedAttractions('reichstga', mockAttractions).map(result => result.id)).toEqual(['2']);
+  });
+
+  it('should mark the results as nearby', () => {
+    const [result] = findLoadedAttractions('Reichstag', mockAttractions);
+
+    expect(result.kind).toBe('nearby');
+    expect(result.attraction).toBe(mockAttractions[1]);
+  });
+
+  it('should match names in other languages', () => {
+    const attractions = [createMockAttraction({ name: 'Berliner Dom', names: { en: 'Berlin Cathedral' } })];
+
+    expect(findLoadedAttractions('cathedral', attractions)).toHaveLength(1);
+  });
+
+  it('should rank better matches and ratings first and respect the limit', () => {
+    const attractions = [
+      createMockAttraction({ id: 'a', name: 'Altes Museum', rating: 4.8 }),
+      createMockAttraction({ id: 'b', name: 'Museum für Naturkunde', rating: 3 }),
+      createMockAttraction({ id: 'c', name: 'Museum Island', rating: 4 }),
+    ];
+
+    expect(findLoadedAttractions('museum', attractions).map(result => result.id)).toEqual(['c', 'b', 'a']);
+    expect(findLoadedAttractions('museum', attractions, 1)).toHaveLength(1);
+  });
+
+  it('should return nothing without a match', () => {
+    expect(findLoadedAttractions('Hamburg', mockAttractions)).toEqual([]);
+  });
+});
+
+describe('mergeSearchResults', () => {
+  it('should keep the order of the groups', () => {
+    const nearby = attractionToSearchResult(mockAttractions[0], 'nearby');
+    const place = createPlace();
+
+    expect(mergeSearchResults([[nearby], [place]])).toEqual([nearby, place]);
+  });
+
+  it('should drop results for the same attraction', () => {
+    const nearby = attractionToSearchResult(mockAttractions[1], 'nearby');
+    const found = createPlace({ id: '99', primaryName: 'Reichstagsgebäude', attraction: mockAttractions[1] });
+
+    expect(mergeSearchResults([[nearby], [found]])).toEqual([nearby]);
+  });
+
+  it('should drop results with the same name nearby', () => {
+    const place = createPlace();
+    const article = attractionToSearchResult(
+      createMockAttraction({ id: 'wiki:de:Berlin', name: 'Berlin', latitude: 52.52, longitude: 13.405 }),
+      'attraction'
+    );
+
+    expect(mergeSearchResults([[place], [article]])).toEqual([place]);
+  });
+
+  it('should keep results with the same name far apart', () => {
+    const berlin = createPlace();
+    const berlinUsa = createPlace({ id: '2', coordinates: { latitude: 44.4686, longitude: -71.1851 } });
+
+    expect(mergeSearchResults([[berlin, berlinUsa]])).toHaveLength(2);
+  });
+});
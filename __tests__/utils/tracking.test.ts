@@ -0,0 +1,83 @@
+/**
+ * Tests for walking tour tracking helpers
+ * Coverage target: 90%
+ */
+
+import { appendTrackPoint, buildTrackGpx, getTrackingProfile, getTrackLength } from '../../src/utils/tracking';
+import { TRACKING_CONFIG } from '../../src/constants';
+import { TrackPoint } from '../../src/types';
+
+// About 111 m apart along a meridian
+const point = (index: number, timestamp = index * 60000): TrackPoint => ({
+  latitude: 52.5 + index * 0.001,
+  longitude: 13.4,
+  timestamp,
+});
+
+describe('getTrackingProfile', () => {
+  it('should tell standing, walking and faster movement apart', () => {
+    expect(getTrackingProfile(0.2)).toBe('stationary');
+    expect(getTrackingProfile(1.4)).toBe('walking');
+    expect(getTrackingProfile(TRACKING_CONFIG.WALKING_SPEED)).toBe('walking');
+    expect(getTrackingProfile(8)).toBe('moving');
+  });
+
+  it('should assume walking when the speed is unknown', () => {
+    expect(getTrackingProfile(null)).toBe('walking');
+    expect(getTrackingProfile(undefined)).toBe('walking');
+    expect(getTrackingProfile(-1)).toBe('walking');
+  });
+
+  it('should walk with the saving profile on a low battery', () => {
+    expect(getTrackingProfile(1.4, true)).toBe('saving');
+    expect(getTrackingProfile(null, true)).toBe('saving');
+    expect(getTrackingProfile(0.2, true)).toBe('stationary');
+    expect(getTrackingProfile(8, true)).toBe('moving');
+  });
+});
+
+describe('appendTrackPoint', () => {
+  it('should add points to the end', () => {
+    const track = appendTrackPoint([point(0)], point(1));
+
+    expect(track).toEqual([point(0), point(1)]);
+  });
+
+  it('should skip points close to the previous one', () => {
+    const track = [point(0)];
+    const close = { latitude: 52.50003, longitude: 13.4, timestamp: 1 };
+
+    expect(appendTrackPoint(track, close)).toBe(track);
+  });
+
+  it('should drop the oldest points beyond the limit', () => {
+    const track = Array.from({ length: TRACKING_CONFIG.MAX_TRACK_POINTS }, (_, index) => point(index));
+
+    const updated = appendTrackPoint(track, point(TRACKING_CONFIG.MAX_TRACK_POINTS));
+
+    expect(updated).toHaveLength(TRACKING_CONFIG.MAX_TRACK_POINTS);
+    expect(updated[0]).toEqual(point(1));
+  });
+});
+
+describe('getTrackLength', () => {
+  it('should add up the distances between points', () => {
+    expect(getTrackLength([point(0), point(1), point(2)])).toBeCloseTo(222, 0);
+  });
+
+  it('should be zero for short tracks', () => {
+    expect(getTrackLength([])).toBe(0);
+    expect(getTrackLength([point(0)])).toBe(0);
+  });
+});
+
+describe('buildTrackGpx', () => {
+  it('should write the track as one segment with times', () => {
+    const gpx = buildTrackGpx([point(0, Date.parse('2026-06-01T10:00:00.000Z')), point(1, Date.parse('2026-06-01T10:02:00.000Z'))], 'Old town & harbour');
+
+    expect(gpx).toContain('<name>Old town &amp; harbour</name>');
+    expect(gpx).toContain('<trkpt lat="52.5" lon="13.4">');
+    expect(gpx).toContain('<time>2026-06-01T10:02:00.000Z</time>');
+    expect(gpx.match(/<trkseg>/g)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for XML helpers
+ * Coverage target: 90%
+ */
+
+import { escapeXml, findElements, getAttribute, getElementText, unescapeXml } from '../../src/utils/xml';
+
+describe('escapeXml / unescapeXml', () => {
+  it('should round-trip special characters', () => {
+    const text = `Tom & Jerry's <"Bar">`;
+
+    expect(escapeXml(text)).toBe('Tom &amp; Jerry&apos;s &lt;&quot;Bar&quot;&gt;');
+    expect(unescapeXml(escapeXml(text))).toBe(text);
+  });
+
+  it('should resolve numeric entities', () => {
+    expect(unescapeXml('Caf&#233; &#x1F3DB;')).toBe('Café 🏛');
+  });
+
+  it('should keep numeric entities outside the Unicode range', () => {
+    expect(unescapeXml('&#x110000; &#99999999999;')).toBe('&#x110000; &#99999999999;');
+  });
+
+  it('should keep unknown entities', () => {
+    expect(unescapeXml('&nbsp;')).toBe('&nbsp;');
+  });
+
+  it('should return CDATA content verbatim', () => {
+    expect(unescapeXml(' <![CDATA[<b>Bold</b> &amp;]]> ')).toBe('<b>Bold</b> &amp;');
+  });
+});
+
+describe('findElements', () => {
+  it('should find elements with and without namespace prefix', () => {
+    const xml = '<a><id>1</id><tg:id>2</tg:id><identifier>3</identifier></a>';
+
+    expect(findElements(xml, 'id').map(element => element.content)).toEqual(['1', '2']);
+  });
+
+  it('should find self-closing elements', () => {
+    const [element] = findElements('<wpt lat="1" lon="2"/>', 'wpt');
+
+    expect(element.content).toBe('');
+    expect(getAttribute(element.attributes, 'lon')).toBe('2');
+  });
+});
+
+describe('getElementText', () => {
+  it('should return trimmed text of the first element', () => {
+    expect(getElementText('<name> First </name><name>Second</name>', 'name')).toBe('First');
+  });
+
+  it('should return undefined for missing or empty elements', () => {
+    expect(getElementText('<desc></desc>', 'desc')).toBeUndefined();
+    expect(getElementText('<desc>x</desc>', 'name')).toBeUndefined();
+  });
+});
+
+describe('getAttribute', () => {
+  it('should read single and double quoted attributes', () => {
+    expect(getAttribute(` lat='52.5' name="A &amp; B"`, 'lat')).toBe('52.5');
+    expect(getAttribute(` lat='52.5' name="A &amp; B"`, 'name')).toBe('A & B');
+  });
+
+  it('should return undefined for missing attributes', () => {
+    expect(getAttribute(' lat="1"', 'lon')).toBeUndefined();
+  });
+});
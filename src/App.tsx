@@ -14,6 +14,8 @@ import DetailsScreen from './screens/DetailsScreen';
 import WebViewScreen from './screens/WebViewScreen';
 import SettingsScreen from './screens/SettingsScreen';
 import FavoritesScreen from './screens/FavoritesScreen';
+import ItineraryScreen from './screens/ItineraryScreen';
+import JournalScreen from './screens/JournalScreen';
 
 import { RootStackParamList, TabParamList } from './types/navigation';
 
@@ -97,6 +99,22 @@ const App: React.FC = () => {
               headerBackTitle: t('home'),
             }}
           />
+          <Stack.Screen
+            name="Itinerary"
+            component={ItineraryScreen}
+            options={{
+              headerTitle: t('itinerary'),
+              headerBackTitle: t('home'),
+            }}
+          />
+          <Stack.Screen
+            name="Journal"
+            component={JournalScreen}
+            options={{
+              headerTitle: t('journal'),
+              headerBackTitle: t('favorites'),
+            }}
+          />
         </Stack.Navigator>
       </NavigationContainer>
       <StatusBar style="auto" />
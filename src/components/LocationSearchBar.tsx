@@ -1,4 +1,4 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import {
   View,
   TextInput,
@@ -8,19 +8,42 @@ import {
   ActivityIndicator,
   StyleSheet,
   Keyboard,
+  Alert,
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
 import { useLocationSearch } from '../hooks';
-import { SearchResult } from '../types';
+import { Attraction, PinnedLocationKind, SearchHistoryEntry, SearchResult } from '../types';
+import { getAttractionTypeInfo } from '../utils/attractionTypes';
+
+const PIN_ICONS: Record<PinnedLocationKind, string> = {
+  home: '🏠',
+  hotel: '🏨',
+};
+
+const PIN_LABELS: Record<PinnedLocationKind, string> = {
+  home: 'pinnedHome',
+  hotel: 'pinnedHotel',
+};
+
+const PLACE_ICON = '📍';
+
+const getResultIcon = (result: SearchResult) =>
+  result.attraction ? getAttractionTypeInfo(result.attraction.type).icon : PLACE_ICON;
 
 interface LocationSearchBarProps {
   onSelectLocation: (result: SearchResult) => void;
+  // Called instead of onSelectLocation for attraction results
+  onSelectAttraction?: (attraction: Attraction) => void;
+  // Loaded attractions, matched without a request
+  attractions?: Attraction[];
   placeholder?: string;
   autoFocus?: boolean;
 }
 
 export const LocationSearchBar: React.FC<LocationSearchBarProps> = ({
   onSelectLocation,
+  onSelectAttraction,
+  attractions,
   placeholder,
   autoFocus = false,
 }) => {
@@ -30,17 +53,28 @@ export const LocationSearchBar: React.FC<LocationSearchBarProps> = ({
     results,
     loading,
     error,
+    history,
     setQuery,
     selectResult,
     clearSearch,
-  } = useLocationSearch();
+    removeHistoryEntry,
+    pinHistoryEntry,
+  } = useLocationSearch(undefined, attractions);
 
   const inputRef = useRef<TextInput>(null);
-  const showDropdown = results.length > 0 || loading || (query.length > 0 && !loading && results.length === 0);
+  const [focused, setFocused] = useState(false);
+  // Recent and pinned places are offered before anything is typed
+  const showHistory = focused && query.length === 0 && history.length > 0;
+  const showDropdown =
+    showHistory || results.length > 0 || loading || (query.length > 0 && !loading && results.length === 0);
 
   const handleSelectResult = (result: SearchResult) => {
     selectResult(result);
-    onSelectLocation(result);
+    if (result.attraction && onSelectAttraction) {
+      onSelectAttraction(result.attraction);
+    } else {
+      onSelectLocation(result);
+    }
     clearSearch(); // Clear the search field after selection
     Keyboard.dismiss();
   };
@@ -50,16 +84,69 @@ export const LocationSearchBar: React.FC<LocationSearchBarProps> = ({
     Keyboard.dismiss();
   };
 
+  const handlePinEntry = (entry: SearchHistoryEntry) => {
+    Alert.alert(t('pinLocation'), entry.result.primaryName, [
+      { text: t('pinAsHome'), onPress: () => pinHistoryEntry(entry.result.id, 'home') },
+      { text: t('pinAsHotel'), onPress: () => pinHistoryEntry(entry.result.id, 'hotel') },
+      ...(entry.pinned ? [{ text: t('unpinLocation'), onPress: () => pinHistoryEntry(entry.result.id, null) }] : []),
+      { text: t('cancel'), style: 'cancel' as const },
+    ]);
+  };
+
+  const renderHistoryEntry = ({ item }: { item: SearchHistoryEntry }) => (
+    <View style={styles.historyItem}>
+      <TouchableOpacity
+        style={styles.historyEntry}
+        onPress={() => handleSelectResult(item.result)}
+        testID={`search-history-${item.result.id}`}
+      >
+        <Text style={styles.historyIcon}>{item.pinned ? PIN_ICONS[item.pinned] : '🕘'}</Text>
+        <View style={styles.resultTextContainer}>
+          <Text style={styles.resultPrimary}>
+            {item.pinned ? `${t(PIN_LABELS[item.pinned])}: ` : ''}
+            {item.result.primaryName}
+          </Text>
+          {!!item.result.secondaryInfo && (
+            <Text style={styles.resultSecondary}>{item.result.secondaryInfo}</Text>
+          )}
+        </View>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.historyAction}
+        onPress={() => handlePinEntry(item)}
+        accessibilityLabel={t('pinLocation')}
+        testID={`search-history-pin-${item.result.id}`}
+      >
+        <Text style={styles.historyActionText}>📌</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.historyAction}
+        onPress={() => removeHistoryEntry(item.result.id)}
+        accessibilityLabel={t('removeFromHistory')}
+        testID={`search-history-remove-${item.result.id}`}
+      >
+        <Text style={styles.historyActionText}>✕</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
   const renderResult = ({ item }: { item: SearchResult }) => (
     <TouchableOpacity
       style={styles.resultItem}
       onPress={() => handleSelectResult(item)}
       testID={`search-result-${item.id}`}
     >
+      <Text style={styles.resultIcon} testID={`search-result-icon-${item.id}`}>
+        {getResultIcon(item)}
+      </Text>
       <View style={styles.resultTextContainer}>
         <Text style={styles.resultPrimary}>{item.primaryName}</Text>
-        {item.secondaryInfo && (
-          <Text style={styles.resultSecondary}>{item.secondaryInfo}</Text>
+        {item.kind === 'nearby' ? (
+          <Text style={styles.resultSecondary}>
+            {[t('searchResultNearby'), item.secondaryInfo].filter(Boolean).join(' · ')}
+          </Text>
+        ) : (
+          !!item.secondaryInfo && <Text style={styles.resultSecondary}>{item.secondaryInfo}</Text>
         )}
       </View>
     </TouchableOpacity>
@@ -104,6 +191,8 @@ export const LocationSearchBar: React.FC<LocationSearchBarProps> = ({
           placeholder={placeholder || t('searchLocationPlaceholder')}
           value={query}
           onChangeText={setQuery}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
           autoFocus={autoFocus}
           autoCorrect={false}
           autoCapitalize="words"
@@ -130,7 +219,23 @@ export const LocationSearchBar: React.FC<LocationSearchBarProps> = ({
 
       {showDropdown && (
         <View style={styles.dropdown}>
-          {results.length > 0 ? (
+          {showHistory ? (
+            <>
+              <View style={styles.dropdownHeader}>
+                <Text style={styles.dropdownHeaderText}>
+                  {t('recentLocations')}
+                </Text>
+              </View>
+              <FlatList
+                data={history}
+                renderItem={renderHistoryEntry}
+                keyExtractor={(item) => item.result.id}
+                style={styles.resultsList}
+                keyboardShouldPersistTaps="handled"
+                testID="search-history-list"
+              />
+            </>
+          ) : results.length > 0 ? (
             <>
               <View style={styles.dropdownHeader}>
                 <Text style={styles.dropdownHeaderText}>
@@ -222,14 +327,45 @@ const styles = StyleSheet.create({
     maxHeight: 350,
   },
   resultItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
     paddingHorizontal: 16,
     paddingVertical: 12,
     borderBottomWidth: 1,
     borderBottomColor: '#f0f0f0',
   },
+  resultIcon: {
+    fontSize: 18,
+    marginRight: 12,
+  },
   resultTextContainer: {
     flex: 1,
   },
+  historyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  historyEntry: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: 16,
+    paddingVertical: 12,
+  },
+  historyIcon: {
+    fontSize: 18,
+    marginRight: 12,
+  },
+  historyAction: {
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  historyActionText: {
+    fontSize: 16,
+    color: '#999',
+  },
   resultPrimary: {
     fontSize: 16,
     fontWeight: '600',
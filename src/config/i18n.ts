@@ -25,8 +25,106 @@ const resources = {
       refreshing: 'Refreshing...',
       aboutThisPlace: 'About this place',
       openingHours: 'Opening Hours',
+      openNow: 'Open now',
+      closedNow: 'Closed',
+      opensAt: 'opens {{time}}',
+      closesAt: 'closes {{time}}',
+      noOpenAttractions: 'No attractions open right now',
+      searchRadius: 'Radius',
+      radiusAuto: 'Auto',
+      travelMode: 'Travel',
+      travelModes: {
+        walking: 'Walk',
+        cycling: 'Bike',
+        driving: 'Car',
+      },
+      sortBy: 'Sort',
+      planTrip: 'Plan trip',
+      itinerary: 'Itinerary',
+      timeBudget: 'Time',
+      itinerarySummary: '{{stops}} stops · {{duration}} · {{distance}}',
+      itineraryEmpty: 'Select stops to plan a trip',
+      itinerarySkipped: 'Not included',
+      skippedClosed: 'Closed when you would arrive',
+      skippedTimeBudget: 'Does not fit the time budget',
+      itineraryCandidates: 'Choose stops (max. {{max}})',
+      locatingStart: 'Determining start position…',
+      openInGoogleMaps: 'Google Maps',
+      openInAppleMaps: 'Apple Maps',
+      shareGpx: 'Share GPX',
+      defaultCollection: 'Saved places',
+      newCollectionPlaceholder: 'New list, e.g. "Rostock weekend"',
+      createCollection: 'Create',
+      deleteCollection: 'Delete list',
+      deleteCollectionMessage: 'Delete "{{name}}"? Its {{count}} favorites move to your saved places.',
+      delete: 'Delete',
+      cancel: 'Cancel',
+      moveTo: 'Move to',
+      visitPlanned: 'Planned',
+      visitVisited: 'Visited',
+      addNote: 'Note',
+      notePlaceholder: 'Add a note…',
+      exportFavorites: 'Export',
+      importFavorites: 'Import',
+      journal: 'Travel journal',
+      journalEmpty: 'No visits yet. Places are marked as visited when you get close or when you mark them yourself.',
+      journalProgress: '{{visited}} of {{total}} places visited',
+      visitDateUnknown: 'Date unknown',
+      visitedAutomatically: 'recorded nearby',
+      visitedOn: 'Visited {{date}}',
+      visitRecorded: 'Marked as visited: {{names}}',
+      personalRating: 'Your rating',
+      exportFailed: 'The favorites could not be exported',
+      importFailed: 'The file could not be read',
+      importInvalidFile: 'This is not a GPX, KML or GeoJSON file',
+      importResult: '{{added}} added, {{duplicates}} duplicates skipped, {{invalid}} invalid',
+      searchFavoritesPlaceholder: 'Search favorites...',
+      noMatchingFavorites: 'No favorites match your search',
+      nearbyFavorites: 'Within walking distance',
+      proximityAlerts: 'Nearby alerts',
+      proximityAlertsDescription: 'Let me know when I get close to a favorite or a top match',
+      proximityRadius: 'Alert distance',
+      proximityFavorite: 'Your favorite {{name}} is nearby',
+      proximityHighMatch: '{{name}} matches your interests',
+      proximityDistance: '{{distance}} away',
+      proximityAlsoNearby: 'Also nearby: {{names}}',
+      walkingTour: 'Walking tour',
+      walkingTourOn: 'Walking tour on',
+      walkingTourRecording: 'Your route is being recorded',
+      shareTrack: 'Share track',
+      shareFailed: 'Sharing failed. Please try again.',
+      sortDistance: 'Distance',
+      sortMatch: 'Match',
+      sortRating: 'Rating',
+      sortName: 'Name',
+      sortSavedAt: 'Date saved',
+      favoritesOnly: 'Favorites',
+      minMatchScore: 'Match ≥ {{score}}',
+      clearFilters: 'Clear filters',
+      noMatchingAttractions: 'No attractions match the selected filters',
       contact: 'Contact',
       website: 'Website',
+      phone: 'Phone',
+      address: 'Address',
+      wheelchairAccess: 'Wheelchair access',
+      wheelchairValues: {
+        yes: 'Accessible',
+        limited: 'Partially accessible',
+        no: 'Not accessible',
+      },
+      admission: 'Admission',
+      admissionFee: 'Fee required',
+      admissionFree: 'Free',
+      // Rating
+      ratingBreakdown: 'Why this rating',
+      ratingSignals: {
+        wikipedia: 'Wikipedia article',
+        wikidata: 'Wikidata entry',
+        heritage: 'Listed heritage site',
+        openingHours: 'Opening hours known',
+        tagRichness: 'Well documented',
+        wikipediaArticle: 'Detailed Wikipedia article',
+      },
       // Empty States
       noFavoritesSaved: 'No favorites saved',
       noInformationAvailable: 'No information available.',
@@ -47,6 +145,16 @@ const resources = {
       noResultsFound: 'No results found',
       searchingLocations: 'Searching...',
       selectLocation: 'Select a location',
+      searchResultNearby: 'Nearby',
+      // Search History
+      recentLocations: 'Recent and pinned places',
+      pinnedHome: 'Home',
+      pinnedHotel: 'Hotel',
+      pinLocation: 'Pin place',
+      pinAsHome: 'Pin as home',
+      pinAsHotel: 'Pin as hotel',
+      unpinLocation: 'Unpin',
+      removeFromHistory: 'Remove from history',
       // GPS Button
       useCurrentLocation: 'Use my location',
       detectingLocation: 'Detecting location...',
@@ -72,6 +180,84 @@ const resources = {
       dataSources: 'Data Sources',
       aboutThisApp: 'About this App',
       aboutDescription: 'This travel guide app uses GPS locations to find interesting places nearby. Data is sourced from Wikitravel and AI services to provide you with the best information about attractions and cities.',
+      // Attraction types
+      attractionTypes: {
+        attraction: 'Attraction',
+        viewpoint: 'Viewpoint',
+        artwork: 'Artwork',
+        gallery: 'Gallery',
+        museum: 'Museum',
+        zoo: 'Zoo',
+        aquarium: 'Aquarium',
+        theme_park: 'Theme park',
+        picnic_site: 'Picnic site',
+        information: 'Tourist information',
+        hotel: 'Hotel',
+        hostel: 'Hostel',
+        guest_house: 'Guest house',
+        camp_site: 'Campsite',
+        monument: 'Monument',
+        memorial: 'Memorial',
+        castle: 'Castle',
+        palace: 'Palace',
+        ruins: 'Ruins',
+        archaeological_site: 'Archaeological site',
+        building: 'Historic building',
+        city_gate: 'City gate',
+        fort: 'Fort',
+        manor: 'Manor house',
+        tomb: 'Tomb',
+        battlefield: 'Battlefield',
+        church: 'Historic church',
+        wayside_cross: 'Wayside cross',
+        wayside_shrine: 'Wayside shrine',
+        place_of_worship: 'Place of worship',
+        fountain: 'Fountain',
+        arts_centre: 'Arts centre',
+        theatre: 'Theatre',
+        restaurant: 'Restaurant',
+        cafe: 'Café',
+        biergarten: 'Beer garden',
+        ice_cream: 'Ice cream parlour',
+        food_court: 'Food court',
+        bar: 'Bar',
+        pub: 'Pub',
+        nightclub: 'Nightclub',
+        marketplace: 'Market',
+        park: 'Park',
+        garden: 'Garden',
+        nature_reserve: 'Nature reserve',
+        beach_resort: 'Beach resort',
+        stadium: 'Stadium',
+        sports_centre: 'Sports centre',
+        golf_course: 'Golf course',
+        water_park: 'Water park',
+        peak: 'Peak',
+        waterfall: 'Waterfall',
+        cave_entrance: 'Cave',
+        spring: 'Spring',
+        beach: 'Beach',
+        tower: 'Tower',
+        lighthouse: 'Lighthouse',
+        bridge: 'Bridge',
+        mall: 'Shopping mall',
+        department_store: 'Department store',
+        gift: 'Gift shop',
+        souvenir: 'Souvenir shop',
+      },
+      attractionCategories: {
+        sights: 'Sights',
+        history: 'History',
+        culture: 'Culture',
+        religion: 'Religion',
+        nature: 'Nature',
+        leisure: 'Leisure',
+        food: 'Food & drink',
+        nightlife: 'Nightlife',
+        shopping: 'Shopping',
+        accommodation: 'Accommodation',
+        other: 'Other',
+      },
       // Error Messages
       errorTitle: 'Error',
       locationNotFoundError: 'Location not found',
@@ -86,6 +272,7 @@ const resources = {
           permissionDenied: 'Location access is required to find nearby attractions. Please enable location in settings.',
           unavailable: 'Unable to determine your location. Please try again.',
           timeout: 'Location request timed out. Please try again.',
+          backgroundPermissionDenied: 'Walking tours need location access while the app is in the background. Please allow it in settings.',
         },
         network: {
           offline: 'No internet connection. Please check your connection and try again.',
@@ -99,6 +286,7 @@ const resources = {
         api: {
           openaiUnavailable: 'Unable to personalize recommendations. Showing all attractions.',
           wikiUnavailable: 'Additional information not available for this attraction.',
+          attractionsUnavailable: 'Unable to load nearby attractions. Please try again later.',
           rateLimited: 'Too many requests. Please wait a moment.',
         },
         actions: {
@@ -133,8 +321,106 @@ const resources = {
       refreshing: 'Aktualisieren...',
       aboutThisPlace: 'Über diesen Ort',
       openingHours: 'Öffnungszeiten',
+      openNow: 'Jetzt geöffnet',
+      closedNow: 'Geschlossen',
+      opensAt: 'öffnet {{time}}',
+      closesAt: 'schließt {{time}}',
+      noOpenAttractions: 'Derzeit keine geöffneten Sehenswürdigkeiten',
+      searchRadius: 'Umkreis',
+      radiusAuto: 'Automatisch',
+      travelMode: 'Unterwegs',
+      travelModes: {
+        walking: 'Zu Fuß',
+        cycling: 'Fahrrad',
+        driving: 'Auto',
+      },
+      sortBy: 'Sortieren',
+      planTrip: 'Tour planen',
+      itinerary: 'Tourenplan',
+      timeBudget: 'Zeit',
+      itinerarySummary: '{{stops}} Stopps · {{duration}} · {{distance}}',
+      itineraryEmpty: 'Wähle Stopps aus, um eine Tour zu planen',
+      itinerarySkipped: 'Nicht enthalten',
+      skippedClosed: 'Bei Ankunft geschlossen',
+      skippedTimeBudget: 'Passt nicht ins Zeitbudget',
+      itineraryCandidates: 'Stopps wählen (max. {{max}})',
+      locatingStart: 'Startposition wird ermittelt…',
+      openInGoogleMaps: 'Google Maps',
+      openInAppleMaps: 'Apple Maps',
+      shareGpx: 'GPX teilen',
+      defaultCollection: 'Gespeicherte Orte',
+      newCollectionPlaceholder: 'Neue Liste, z. B. „Rostock-Wochenende"',
+      createCollection: 'Anlegen',
+      deleteCollection: 'Liste löschen',
+      deleteCollectionMessage: '„{{name}}" löschen? Die {{count}} Favoriten darin kommen zu deinen gespeicherten Orten.',
+      delete: 'Löschen',
+      cancel: 'Abbrechen',
+      moveTo: 'Verschieben nach',
+      visitPlanned: 'Geplant',
+      visitVisited: 'Besucht',
+      addNote: 'Notiz',
+      notePlaceholder: 'Notiz hinzufügen…',
+      exportFavorites: 'Exportieren',
+      importFavorites: 'Importieren',
+      journal: 'Reisetagebuch',
+      journalEmpty: 'Noch keine Besuche. Orte werden als besucht markiert, wenn du in der Nähe bist oder sie selbst markierst.',
+      journalProgress: '{{visited}} von {{total}} Orten besucht',
+      visitDateUnknown: 'Datum unbekannt',
+      visitedAutomatically: 'vor Ort erfasst',
+      visitedOn: 'Besucht am {{date}}',
+      visitRecorded: 'Als besucht markiert: {{names}}',
+      personalRating: 'Deine Bewertung',
+      exportFailed: 'Die Favoriten konnten nicht exportiert werden',
+      importFailed: 'Die Datei konnte nicht gelesen werden',
+      importInvalidFile: 'Das ist keine GPX-, KML- oder GeoJSON-Datei',
+      importResult: '{{added}} hinzugefügt, {{duplicates}} Duplikate übersprungen, {{invalid}} ungültig',
+      searchFavoritesPlaceholder: 'Favoriten durchsuchen...',
+      noMatchingFavorites: 'Keine Favoriten passen zur Suche',
+      nearbyFavorites: 'In Gehweite',
+      proximityAlerts: 'Hinweise in der Nähe',
+      proximityAlertsDescription: 'Hinweis, wenn ich mich einem Favoriten oder einem Top-Treffer nähere',
+      proximityRadius: 'Hinweis-Entfernung',
+      proximityFavorite: 'Dein Favorit {{name}} ist in der Nähe',
+      proximityHighMatch: '{{name}} passt zu deinen Interessen',
+      proximityDistance: '{{distance}} entfernt',
+      proximityAlsoNearby: 'Auch in der Nähe: {{names}}',
+      walkingTour: 'Rundgang',
+      walkingTourOn: 'Rundgang läuft',
+      walkingTourRecording: 'Deine Strecke wird aufgezeichnet',
+      shareTrack: 'Strecke teilen',
+      shareFailed: 'Teilen fehlgeschlagen. Bitte versuche es erneut.',
+      sortDistance: 'Entfernung',
+      sortMatch: 'Übereinstimmung',
+      sortRating: 'Bewertung',
+      sortName: 'Name',
+      sortSavedAt: 'Gespeichert am',
+      favoritesOnly: 'Favoriten',
+      minMatchScore: 'Treffer ≥ {{score}}',
+      clearFilters: 'Filter zurücksetzen',
+      noMatchingAttractions: 'Keine Sehenswürdigkeiten entsprechen den gewählten Filtern',
       contact: 'Kontakt',
       website: 'Webseite',
+      phone: 'Telefon',
+      address: 'Adresse',
+      wheelchairAccess: 'Rollstuhlzugang',
+      wheelchairValues: {
+        yes: 'Barrierefrei',
+        limited: 'Eingeschränkt barrierefrei',
+        no: 'Nicht barrierefrei',
+      },
+      admission: 'Eintritt',
+      admissionFee: 'Kostenpflichtig',
+      admissionFree: 'Kostenlos',
+      // Rating
+      ratingBreakdown: 'So entsteht die Bewertung',
+      ratingSignals: {
+        wikipedia: 'Wikipedia-Artikel',
+        wikidata: 'Wikidata-Eintrag',
+        heritage: 'Denkmalgeschützt',
+        openingHours: 'Öffnungszeiten bekannt',
+        tagRichness: 'Gut dokumentiert',
+        wikipediaArticle: 'Ausführlicher Wikipedia-Artikel',
+      },
       // Empty States
       noFavoritesSaved: 'Keine Favoriten gespeichert',
       noInformationAvailable: 'Keine Informationen verfügbar.',
@@ -155,6 +441,16 @@ const resources = {
       noResultsFound: 'Keine Ergebnisse gefunden',
       searchingLocations: 'Suche läuft...',
       selectLocation: 'Ort auswählen',
+      searchResultNearby: 'In der Nähe',
+      // Search History
+      recentLocations: 'Letzte und angeheftete Orte',
+      pinnedHome: 'Zuhause',
+      pinnedHotel: 'Hotel',
+      pinLocation: 'Ort anheften',
+      pinAsHome: 'Als Zuhause anheften',
+      pinAsHotel: 'Als Hotel anheften',
+      unpinLocation: 'Nicht mehr anheften',
+      removeFromHistory: 'Aus dem Verlauf entfernen',
       // GPS Button
       useCurrentLocation: 'Meinen Standort verwenden',
       detectingLocation: 'Standort wird ermittelt...',
@@ -180,6 +476,84 @@ const resources = {
       dataSources: 'Datenquellen',
       aboutThisApp: 'Über diese App',
       aboutDescription: 'Diese Reiseführer-App nutzt GPS-Standorte, um interessante Orte in Ihrer Nähe zu finden. Daten werden von Wikitravel und KI-Diensten bezogen, um Ihnen die besten Informationen über Sehenswürdigkeiten und Städte zu liefern.',
+      // Attraction types
+      attractionTypes: {
+        attraction: 'Sehenswürdigkeit',
+        viewpoint: 'Aussichtspunkt',
+        artwork: 'Kunstwerk',
+        gallery: 'Galerie',
+        museum: 'Museum',
+        zoo: 'Zoo',
+        aquarium: 'Aquarium',
+        theme_park: 'Freizeitpark',
+        picnic_site: 'Picknickplatz',
+        information: 'Touristeninformation',
+        hotel: 'Hotel',
+        hostel: 'Hostel',
+        guest_house: 'Pension',
+        camp_site: 'Campingplatz',
+        monument: 'Denkmal',
+        memorial: 'Gedenkstätte',
+        castle: 'Burg / Schloss',
+        palace: 'Palast',
+        ruins: 'Ruine',
+        archaeological_site: 'Ausgrabungsstätte',
+        building: 'Historisches Gebäude',
+        city_gate: 'Stadttor',
+        fort: 'Festung',
+        manor: 'Herrenhaus',
+        tomb: 'Grabmal',
+        battlefield: 'Schlachtfeld',
+        church: 'Historische Kirche',
+        wayside_cross: 'Wegkreuz',
+        wayside_shrine: 'Bildstock',
+        place_of_worship: 'Gotteshaus',
+        fountain: 'Brunnen',
+        arts_centre: 'Kulturzentrum',
+        theatre: 'Theater',
+        restaurant: 'Restaurant',
+        cafe: 'Café',
+        biergarten: 'Biergarten',
+        ice_cream: 'Eisdiele',
+        food_court: 'Food Court',
+        bar: 'Bar',
+        pub: 'Kneipe',
+        nightclub: 'Club',
+        marketplace: 'Markt',
+        park: 'Park',
+        garden: 'Garten',
+        nature_reserve: 'Naturschutzgebiet',
+        beach_resort: 'Strandbad',
+        stadium: 'Stadion',
+        sports_centre: 'Sportzentrum',
+        golf_course: 'Golfplatz',
+        water_park: 'Spaßbad',
+        peak: 'Gipfel',
+        waterfall: 'Wasserfall',
+        cave_entrance: 'Höhle',
+        spring: 'Quelle',
+        beach: 'Strand',
+        tower: 'Turm',
+        lighthouse: 'Leuchtturm',
+        bridge: 'Brücke',
+        mall: 'Einkaufszentrum',
+        department_store: 'Kaufhaus',
+        gift: 'Geschenkeladen',
+        souvenir: 'Souvenirladen',
+      },
+      attractionCategories: {
+        sights: 'Sehenswertes',
+        history: 'Geschichte',
+        culture: 'Kultur',
+        religion: 'Religion',
+        nature: 'Natur',
+        leisure: 'Freizeit',
+        food: 'Essen & Trinken',
+        nightlife: 'Nachtleben',
+        shopping: 'Shopping',
+        accommodation: 'Unterkunft',
+        other: 'Sonstiges',
+      },
       // Error Messages
       errorTitle: 'Fehler',
       locationNotFoundError: 'Ort nicht gefunden',
@@ -194,6 +568,7 @@ const resources = {
           permissionDenied: 'Standortzugriff ist erforderlich, um Sehenswürdigkeiten in der Nähe zu finden. Bitte aktivieren Sie den Standort in den Einstellungen.',
           unavailable: 'Ihr Standort kann nicht ermittelt werden. Bitte versuchen Sie es erneut.',
           timeout: 'Standortanfrage ist abgelaufen. Bitte versuchen Sie es erneut.',
+          backgroundPermissionDenied: 'Rundgänge benötigen Standortzugriff im Hintergrund. Bitte erlauben Sie ihn in den Einstellungen.',
         },
         network: {
           offline: 'Keine Internetverbindung. Bitte überprüfen Sie Ihre Verbindung und versuchen Sie es erneut.',
@@ -207,6 +582,7 @@ const resources = {
         api: {
           openaiUnavailable: 'Empfehlungen können nicht personalisiert werden. Alle Sehenswürdigkeiten werden angezeigt.',
           wikiUnavailable: 'Zusätzliche Informationen für diese Sehenswürdigkeit nicht verfügbar.',
+          attractionsUnavailable: 'Sehenswürdigkeiten in der Nähe können nicht geladen werden. Bitte versuchen Sie es später erneut.',
           rateLimited: 'Zu viele Anfragen. Bitte warten Sie einen Moment.',
         },
         actions: {
@@ -3,6 +3,9 @@ import productionConfig from './production.json';
 
 interface Config {
   openai_api_key: string;
+  geocoder?: string; // nominatim, photon, pelias or stub
+  geocoder_endpoint?: string; // empty for the public instance
+  geocoder_api_key?: string;
 }
 
 class AppConfig {
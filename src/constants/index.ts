@@ -1,16 +1,28 @@
+import { AttractionSource, OverpassTagFilter } from '../types';
+
 export const STORAGE_KEYS = {
   FAVORITES: '@travel_guide_favorites',
+  FAVORITES_MIGRATED: '@travel_guide_favorites_migrated',
   INTERESTS: '@travel_guide_interests',
   MAP_DATA: '@travel_guide_map_data',
   ATTRACTIONS_CACHE: '@travel_guide_attractions_cache',
   CITY_IMAGES: '@travel_guide_city_images',
   AI_DESCRIPTIONS: '@travel_guide_ai_descriptions',
+  LIST_OPTIONS: '@travel_guide_list_options',
+  FAVORITE_COLLECTIONS: '@travel_guide_favorite_collections',
+  PROXIMITY_ALERT_SETTINGS: '@travel_guide_proximity_alert_settings',
+  PROXIMITY_ALERT_HISTORY: '@travel_guide_proximity_alert_history',
+  WALKING_TOUR: '@travel_guide_walking_tour',
+  WALKING_TOUR_TRACK: '@travel_guide_walking_tour_track',
+  SEARCH_HISTORY: '@travel_guide_search_history',
+  GEOCODING_CACHE: '@travel_guide_geocoding_cache',
 } as const;
 
 export const API_ENDPOINTS = {
   OVERPASS: 'https://overpass-api.de/api/interpreter',
   NOMINATIM: 'https://nominatim.openstreetmap.org',
-  NOMINATIM_SEARCH: 'https://nominatim.openstreetmap.org/search',
+  PHOTON: 'https://photon.komoot.io',
+  PELIAS: 'https://api.geocode.earth/v1',
   OPENAI: 'https://api.openai.com/v1/chat/completions',
   WIKITRAVEL: 'https://wikitravel.org/wiki',
   WIKIPEDIA: 'https://wikipedia.org/w/api.php',
@@ -22,12 +34,63 @@ export const CACHE_DURATION = {
   CITY_IMAGE: 7 * 24 * 60 * 60 * 1000, // 7 days
 } as const;
 
+export const GEOCODING_CONFIG = {
+  MIN_REQUEST_INTERVAL: 1000, // ms between requests, as Nominatim allows 1 per second
+  PHOTON_LANGUAGES: ['de', 'en', 'fr', 'it'], // others are answered in local names
+  FALLBACK_LANGUAGES: ['en'], // asked for after the app language
+  CACHE_SIZE: 200, // geocoding results kept in memory across languages
+  OFFLINE_CACHE_SIZE: 500, // search results kept on the device for offline matching
+  FUZZY_MIN_LENGTH: 4, // query words this long tolerate one typo
+} as const;
+
+export const SEARCH_CONFIG = {
+  // OSM classes of geocoding results offered as attractions rather than places
+  ATTRACTION_CLASSES: ['tourism', 'historic', 'leisure', 'natural', 'man_made'],
+  MAX_NEARBY_RESULTS: 3, // loaded attractions listed above the other results
+  MAX_WIKIPEDIA_RESULTS: 3,
+  DUPLICATE_RADIUS: 2000, // meters; results with the same name closer than this are merged
+} as const;
+
+export const SEARCH_HISTORY_CONFIG = {
+  MAX_RECENT: 10, // unpinned entries kept; pinned ones are never dropped
+  RECENCY_HALF_LIFE: 7 * 24 * 60 * 60 * 1000, // a selection counts half after a week
+  PINNED_KINDS: ['home', 'hotel'], // shown in this order above recent entries
+} as const;
+
 export const LOCATION_CONFIG = {
   DEFAULT_RADIUS: 5000, // meters
   DISTANCE_INTERVAL: 500, // meters
   TIME_INTERVAL: 120000, // 2 minutes
   ACCURACY: 'Balanced' as const,
-  MAX_ATTRACTIONS: 20,
+  CLOSE_RANGE: 1000, // meters; within this of a watched place the position is tracked closely
+  MAX_ATTRACTIONS: 20, // page size
+  MAX_RETAINED_ATTRACTIONS: 200, // results kept for paging, bounds the cache entry
+} as const;
+
+// Walking tours track more precisely, adapting to the current speed
+export const TRACKING_CONFIG = {
+  STATIONARY_SPEED: 0.5, // m/s; slower counts as standing still
+  WALKING_SPEED: 2.5, // m/s; faster counts as cycling or driving
+  PROFILES: {
+    stationary: { ACCURACY: 'Low', DISTANCE_INTERVAL: 25, TIME_INTERVAL: 60000 },
+    walking: { ACCURACY: 'High', DISTANCE_INTERVAL: 10, TIME_INTERVAL: 10000 },
+    moving: { ACCURACY: 'Balanced', DISTANCE_INTERVAL: 100, TIME_INTERVAL: 15000 },
+    saving: { ACCURACY: 'Balanced', DISTANCE_INTERVAL: 50, TIME_INTERVAL: 30000 },
+  },
+  LOW_BATTERY_LEVEL: 0.2, // 0-1; walking is tracked with the saving profile below this
+  MIN_TRACK_POINT_DISTANCE: 10, // meters between recorded points
+  MAX_TRACK_POINTS: 5000, // the oldest points are dropped beyond this
+} as const;
+
+export const RADIUS_CONFIG = {
+  MIN: 500, // meters
+  MAX: 50000, // meters
+  OPTIONS: [1000, 2000, 5000, 10000, 25000], // user-selectable fixed radii
+  MIN_RESULTS: 5, // expand below this count
+  DENSE_FRACTION: 0.25, // shrink if MAX_ATTRACTIONS fit into this share of the radius
+  SCALE_FACTOR: 2,
+  MAX_STEPS: 4, // adjustments per search
+  SEARCH_BUDGET: 60000, // ms, total time across all steps of a search
 } as const;
 
 export const AVAILABLE_INTERESTS = [
@@ -43,6 +106,172 @@ export const AVAILABLE_INTERESTS = [
   { id: 'museums', label: 'Museen', icon: '🖼️' },
 ] as const;
 
+/**
+ * OSM tag filters queried for each interest id.
+ * A filter without values matches any value of the key.
+ */
+export const INTEREST_OSM_FILTERS: Record<string, readonly OverpassTagFilter[]> = {
+  history: [
+    { key: 'historic' },
+    { key: 'heritage' },
+  ],
+  nature: [
+    { key: 'leisure', values: ['park', 'nature_reserve', 'garden'] },
+    { key: 'natural', values: ['peak', 'waterfall', 'cave_entrance', 'spring'] },
+    { key: 'boundary', values: ['national_park'] },
+  ],
+  architecture: [
+    { key: 'amenity', values: ['place_of_worship'] },
+    { key: 'building', values: ['cathedral', 'church', 'palace', 'castle'] },
+    { key: 'man_made', values: ['tower', 'lighthouse', 'bridge'] },
+  ],
+  art: [
+    { key: 'tourism', values: ['artwork', 'gallery'] },
+    { key: 'amenity', values: ['arts_centre', 'theatre'] },
+  ],
+  food: [
+    { key: 'amenity', values: ['restaurant', 'cafe', 'biergarten', 'ice_cream', 'food_court'] },
+  ],
+  shopping: [
+    { key: 'amenity', values: ['marketplace'] },
+    { key: 'shop', values: ['mall', 'department_store', 'gift', 'souvenir'] },
+  ],
+  nightlife: [
+    { key: 'amenity', values: ['bar', 'pub', 'nightclub'] },
+  ],
+  sports: [
+    { key: 'leisure', values: ['stadium', 'sports_centre', 'golf_course', 'water_park'] },
+  ],
+  beaches: [
+    { key: 'natural', values: ['beach'] },
+    { key: 'leisure', values: ['beach_resort'] },
+  ],
+  museums: [
+    { key: 'tourism', values: ['museum', 'gallery'] },
+  ],
+};
+
+/**
+ * Filters that are always queried, regardless of selected interests
+ */
+export const BASE_OSM_FILTERS: readonly OverpassTagFilter[] = [
+  { key: 'tourism' },
+  { key: 'historic' },
+];
+
+/**
+ * Coordinate types (GeoHack `type:` parameter) of geotagged Wikipedia articles
+ * kept for each interest id. Untyped articles are always kept.
+ */
+export const INTEREST_WIKIPEDIA_TYPES: Record<string, readonly string[]> = {
+  history: ['event'],
+  nature: ['mountain', 'forest', 'glacier', 'river', 'waterbody', 'isle', 'pass'],
+  beaches: ['isle', 'waterbody'],
+};
+
+/**
+ * Article coordinate types that are always kept, regardless of selected interests
+ */
+export const BASE_WIKIPEDIA_TYPES: readonly string[] = ['landmark'];
+
+export const OVERPASS_CONFIG = {
+  TIMEOUT: 20, // seconds, server-side query timeout
+  // Elements per query; Overpass returns them in no particular order, so the
+  // cap only guards against huge responses and the nearest are kept on the device
+  RESULT_LIMIT: 1000,
+  // Tried in order; unhealthy mirrors move to the back
+  MIRRORS: [
+    API_ENDPOINTS.OVERPASS,
+    'https://overpass.kumi.systems/api/interpreter',
+    'https://overpass.private.coffee/api/interpreter',
+  ] as readonly string[],
+  REQUEST_BUDGET: 45000, // ms, total time across all mirrors
+  ATTEMPT_TIMEOUT: 20000, // ms, per mirror
+  MIN_ATTEMPT_TIME: 5000, // ms, don't start an attempt with less budget left
+  STATUS_TIMEOUT: 5000, // ms, slot status check
+  BACKOFF_BASE: 30000, // ms, doubled per consecutive failure
+  BACKOFF_MAX: 600000, // ms
+} as const;
+
+export const ATTRACTION_PROVIDERS_CONFIG = {
+  // Order defines merge priority: earlier providers win on conflicting fields
+  ENABLED: ['overpass', 'wikipedia', 'local'] as readonly AttractionSource[],
+  WIKIPEDIA_MAX_RADIUS: 10000, // meters, geosearch API limit
+  WIKIPEDIA_RESULT_LIMIT: 50,
+  MERGE_MAX_DISTANCE: 150, // meters
+  MERGE_MIN_NAME_SIMILARITY: 0.6,
+} as const;
+
+export const ROUTING_CONFIG = {
+  BACKEND: 'osrm' as 'osrm' | 'valhalla',
+  // OSRM serves one profile per instance
+  OSRM_ENDPOINTS: {
+    walking: 'https://routing.openstreetmap.de/routed-foot',
+    cycling: 'https://routing.openstreetmap.de/routed-bike',
+    driving: 'https://routing.openstreetmap.de/routed-car',
+  },
+  VALHALLA_ENDPOINT: 'https://valhalla1.openstreetmap.de',
+  MAX_DESTINATIONS: 50, // per matrix request
+  CACHE_SIZE: 500, // route estimates kept in memory
+  // Offline heuristic: straight-line distance times detour factor at typical speed
+  DETOUR_FACTORS: { walking: 1.3, cycling: 1.35, driving: 1.5 },
+  SPEEDS: { walking: 1.4, cycling: 4.2, driving: 8.3 }, // m/s
+} as const;
+
+export const FAVORITES_CONFIG = {
+  DEFAULT_COLLECTION_ID: 'default', // holds favorites saved before collections existed
+  MAX_COLLECTION_NAME_LENGTH: 60,
+  VISIT_GEOFENCE_RADIUS: 75, // meters; closer favorites are marked as visited
+  MAX_PERSONAL_RATING: 5,
+  NEARBY_RADIUS: 1000, // meters; favorites within walking range of the position
+  MIGRATION_RETRY_DELAY: 10 * 60 * 1000, // a failed id migration is retried no sooner than this
+  SORT_KEYS: ['distance', 'savedAt', 'name'],
+  // Offered in the file picker; file managers often label GPX and KML as generic files
+  IMPORT_MIME_TYPES: [
+    'application/gpx+xml',
+    'application/vnd.google-earth.kml+xml',
+    'application/geo+json',
+    'application/json',
+    'application/xml',
+    'text/xml',
+    'application/octet-stream',
+  ],
+} as const;
+
+export const PROXIMITY_ALERT_CONFIG = {
+  ENABLED_BY_DEFAULT: true,
+  DEFAULT_RADIUS: 500, // meters
+  RADIUS_OPTIONS: [250, 500, 1000], // meters
+  COOLDOWN: 6 * 60 * 60 * 1000, // 6 hours before the same place alerts again
+} as const;
+
+export const ITINERARY_CONFIG = {
+  MAX_STOPS: 10, // MAX_MAP_WAYPOINTS plus the destination, so map links include every stop
+  VISIT_DURATION: 45 * 60, // seconds per stop
+  TIME_BUDGETS: [2 * 3600, 4 * 3600, 8 * 3600], // seconds
+  DEFAULT_TIME_BUDGET: 4 * 3600,
+  MAX_WAIT: 30 * 60, // seconds, wait for a closed stop to open rather than skip it
+  MAX_MAP_WAYPOINTS: 9, // intermediate stops supported by map URLs
+  MAX_OPTIMIZATION_PASSES: 50, // 2-opt passes over the route
+} as const;
+
+export const RATING_CONFIG = {
+  BASE: 3.0,
+  MAX: 5.0,
+  WIKIPEDIA: 0.5,
+  WIKIDATA: 0.3,
+  HERITAGE_NATIONAL: 0.6, // heritage=1
+  HERITAGE_REGIONAL: 0.4, // heritage=2
+  HERITAGE_OTHER: 0.2,
+  OPENING_HOURS: 0.1,
+  TAG_RICHNESS_PER_TAG: 0.05,
+  TAG_RICHNESS_MAX: 0.4,
+  ARTICLE_LONG: 0.2,
+  ARTICLE_VERY_LONG: 0.4,
+  ARTICLE_LONG_LENGTH: 10000, // bytes
+  ARTICLE_VERY_LONG_LENGTH: 40000, // bytes
+} as const;
+
 export const APP_CONFIG = {
   USER_AGENT: 'TravelGuideApp/1.0',
   REQUEST_TIMEOUT: 20000,
@@ -50,3 +279,9 @@ export const APP_CONFIG = {
   MIN_INTEREST_SCORE: 7,
   HIGH_INTEREST_SCORE: 8,
 } as const;
+
+export const LIST_OPTIONS_CONFIG = {
+  SORT_KEYS: ['distance', 'match', 'rating', 'name'],
+  MATCH_SCORE_OPTIONS: [APP_CONFIG.MIN_INTEREST_SCORE, APP_CONFIG.HIGH_INTEREST_SCORE], // minimum match filter
+  OPENING_STATUS_DAYS: 7, // days ahead the list looks for the next opening or closing
+} as const;
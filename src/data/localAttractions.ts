@@ -0,0 +1,117 @@
+/**
+ * Bundled landmark dataset, available without network access
+ */
+
+export interface LocalAttractionRecord {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  type: string;
+  wikipedia?: string;
+}
+
+export const LOCAL_ATTRACTIONS: readonly LocalAttractionRecord[] = [
+  // Berlin
+  {
+    id: 'local:brandenburger-tor',
+    name: 'Brandenburger Tor',
+    latitude: 52.516275,
+    longitude: 13.377704,
+    type: 'attraction',
+    wikipedia: 'de:Brandenburger Tor',
+  },
+  {
+    id: 'local:reichstagsgebaeude',
+    name: 'Reichstagsgebäude',
+    latitude: 52.518611,
+    longitude: 13.376111,
+    type: 'attraction',
+    wikipedia: 'de:Reichstagsgebäude',
+  },
+  {
+    id: 'local:berliner-dom',
+    name: 'Berliner Dom',
+    latitude: 52.519167,
+    longitude: 13.401111,
+    type: 'attraction',
+    wikipedia: 'de:Berliner Dom',
+  },
+  {
+    id: 'local:berliner-fernsehturm',
+    name: 'Berliner Fernsehturm',
+    latitude: 52.520833,
+    longitude: 13.409444,
+    type: 'viewpoint',
+    wikipedia: 'de:Berliner Fernsehturm',
+  },
+  {
+    id: 'local:pergamonmuseum',
+    name: 'Pergamonmuseum',
+    latitude: 52.521111,
+    longitude: 13.396667,
+    type: 'museum',
+    wikipedia: 'de:Pergamonmuseum',
+  },
+  // Hamburg
+  {
+    id: 'local:elbphilharmonie',
+    name: 'Elbphilharmonie',
+    latitude: 53.541389,
+    longitude: 9.984444,
+    type: 'attraction',
+    wikipedia: 'de:Elbphilharmonie',
+  },
+  // Cologne
+  {
+    id: 'local:koelner-dom',
+    name: 'Kölner Dom',
+    latitude: 50.941389,
+    longitude: 6.958056,
+    type: 'attraction',
+    wikipedia: 'de:Kölner Dom',
+  },
+  // Dresden
+  {
+    id: 'local:frauenkirche-dresden',
+    name: 'Frauenkirche',
+    latitude: 51.051944,
+    longitude: 13.741667,
+    type: 'attraction',
+    wikipedia: 'de:Frauenkirche (Dresden)',
+  },
+  {
+    id: 'local:zwinger',
+    name: 'Zwinger',
+    latitude: 51.053056,
+    longitude: 13.733889,
+    type: 'attraction',
+    wikipedia: 'de:Dresdner Zwinger',
+  },
+  // Munich
+  {
+    id: 'local:marienplatz',
+    name: 'Marienplatz',
+    latitude: 48.137222,
+    longitude: 11.575556,
+    type: 'attraction',
+    wikipedia: 'de:Marienplatz',
+  },
+  {
+    id: 'local:frauenkirche-muenchen',
+    name: 'Frauenkirche',
+    latitude: 48.138611,
+    longitude: 11.573611,
+    type: 'attraction',
+    wikipedia: 'de:Frauenkirche (München)',
+  },
+  // Bavaria
+  {
+    id: 'local:neuschwanstein',
+    name: 'Schloss Neuschwanstein',
+    latitude: 47.5575,
+    longitude: 10.75,
+    type: 'castle',
+    wikipedia: 'de:Schloss Neuschwanstein',
+  },
+];
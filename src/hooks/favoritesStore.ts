@@ -0,0 +1,231 @@
+import {
+  Attraction,
+  Coordinates,
+  Favorite,
+  FavoriteChanges,
+  FavoriteCollection,
+  FavoritesImportResult,
+} from '../types';
+import { FAVORITES_CONFIG } from '../constants';
+import { favoritesService } from '../services';
+
+export interface FavoritesState {
+  favorites: Favorite[];
+  favoriteIds: Set<string>;
+  collections: FavoriteCollection[];
+  loading: boolean;
+}
+
+type FavoritesUpdate = (favorites: Favorite[]) => Favorite[];
+
+const INITIAL_STATE: FavoritesState = {
+  favorites: [],
+  favoriteIds: new Set(),
+  collections: [],
+  loading: true,
+};
+
+/**
+ * Favorites shared by every `useFavorites` caller
+ * Reloads from storage whenever a first caller subscribes. Changes are applied
+ * at once and persisted one after another; the stored result then replaces the
+ * optimistic one, which rolls a change back if saving failed.
+ */
+class FavoritesStore {
+  private state: FavoritesState = INITIAL_STATE;
+  private listeners = new Set<() => void>();
+  // Favorites as last read from or written to storage
+  private stored: Favorite[] = [];
+  // Optimistic updates not yet persisted, oldest first
+  private pending: FavoritesUpdate[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      // Storage may have changed while nobody was listening
+      this.stored = [];
+      this.state = INITIAL_STATE;
+      this.load();
+    }
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getState = (): FavoritesState => this.state;
+
+  /**
+   * Read favorites and collections from storage
+   */
+  load = (): Promise<void> => {
+    this.setState({ loading: true });
+    return this.enqueue(async () => {
+      try {
+        const [favorites, collections] = await Promise.all([
+          favoritesService.getFavorites(),
+          favoritesService.getCollections(),
+        ]);
+        this.stored = favorites;
+        this.setState({ collections: collections || [] });
+        this.publishFavorites();
+        // Its lookup can take a while, so it runs after the favorites show
+        this.migrate();
+      } catch (error) {
+        console.error('Error loading favorites:', error);
+      } finally {
+        this.setState({ loading: false });
+      }
+    });
+  };
+
+  addFavorite = (...args: Parameters<typeof favoritesService.addFavorite>): Promise<void> => {
+    const [attraction, collectionId] = args;
+    return this.change(
+      favorites =>
+        favorites.some(favorite => favorite.id === attraction.id)
+          ? favorites
+          : [
+              ...favorites,
+              {
+                ...attraction,
+                savedAt: new Date().toISOString(),
+                collectionId: collectionId ?? FAVORITES_CONFIG.DEFAULT_COLLECTION_ID,
+                visitStatus: 'planned',
+              },
+            ],
+      () => favoritesService.addFavorite(...args)
+    );
+  };
+
+  removeFavorite = (attractionId: string): Promise<void> =>
+    this.change(
+      favorites => favorites.filter(favorite => favorite.id !== attractionId),
+      () => favoritesService.removeFavorite(attractionId)
+    );
+
+  toggleFavorite = (attraction: Attraction): Promise<void> =>
+    this.state.favoriteIds.has(attraction.id)
+      ? this.removeFavorite(attraction.id)
+      : this.addFavorite(attraction);
+
+  updateFavorite = (attractionId: string, changes: FavoriteChanges): Promise<void> =>
+    this.change(
+      favorites => favorites.map(favorite => (favorite.id === attractionId ? { ...favorite, ...changes } : favorite)),
+      () => favoritesService.updateFavorite(attractionId, changes)
+    );
+
+  moveFavorite = (attractionId: string, collectionId: string): Promise<void> =>
+    this.change(
+      favorites => favorites.map(favorite => (favorite.id === attractionId ? { ...favorite, collectionId } : favorite)),
+      () => favoritesService.moveFavorite(attractionId, collectionId)
+    );
+
+  /**
+   * Mark favorites near the position as visited
+   * @returns The newly visited favorites
+   */
+  recordVisitsNear = (position: Coordinates): Promise<Favorite[]> =>
+    this.enqueue(async () => {
+      const visited = await favoritesService.recordVisitsNear(position);
+      if (visited.length > 0) {
+        const visits = new Map(visited.map(favorite => [favorite.id, favorite]));
+        this.stored = this.stored.map(favorite => visits.get(favorite.id) ?? favorite);
+        this.publishFavorites();
+      }
+      return visited;
+    });
+
+  importFavorites = (
+    ...args: Parameters<typeof favoritesService.importFavorites>
+  ): Promise<FavoritesImportResult | null> =>
+    this.enqueue(async () => {
+      const result = await favoritesService.importFavorites(...args);
+      if (result) {
+        this.stored = result.favorites;
+        this.publishFavorites();
+      }
+      return result;
+    });
+
+  exportFavorites = (...args: Parameters<typeof favoritesService.exportFavorites>): Promise<string> =>
+    this.enqueue(() => favoritesService.exportFavorites(...args));
+
+  createCollection = (name: string): Promise<FavoriteCollection | null> =>
+    this.enqueue(async () => {
+      const collection = await favoritesService.createCollection(name);
+      if (collection) {
+        this.setState({ collections: [...this.state.collections, collection] });
+      }
+      return collection;
+    });
+
+  renameCollection = (collectionId: string, name: string): Promise<void> =>
+    this.enqueue(async () => {
+      this.setState({ collections: await favoritesService.renameCollection(collectionId, name) });
+    });
+
+  // Deleting a collection also deletes its favorites
+  deleteCollection = (collectionId: string): Promise<void> =>
+    this.enqueue(async () => {
+      this.setState({ collections: await favoritesService.deleteCollection(collectionId) });
+      this.stored = await favoritesService.getFavorites();
+      this.publishFavorites();
+    });
+
+  /**
+   * Migrate legacy favorite ids and show the migrated favorites
+   */
+  private async migrate(): Promise<void> {
+    try {
+      if (await favoritesService.migrateFavorites()) {
+        await this.enqueue(async () => {
+          this.stored = await favoritesService.getFavorites();
+          this.publishFavorites();
+        });
+      }
+    } catch (error) {
+      console.error('Error migrating favorites:', error);
+    }
+  }
+
+  /**
+   * Show an update at once and persist it after all earlier ones
+   */
+  private change(update: FavoritesUpdate, persist: () => Promise<Favorite[]>): Promise<void> {
+    this.pending.push(update);
+    this.publishFavorites();
+
+    return this.enqueue(async () => {
+      try {
+        this.stored = await persist();
+      } catch (error) {
+        console.error('Error saving favorites:', error);
+      } finally {
+        this.pending.shift();
+        this.publishFavorites();
+      }
+    });
+  }
+
+  /**
+   * Run storage work after all earlier work, so writes never overtake each other
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private publishFavorites(): void {
+    const favorites = this.pending.reduce((current, update) => update(current), this.stored);
+    this.setState({ favorites, favoriteIds: new Set(favorites.map(favorite => favorite.id)) });
+  }
+
+  private setState(changes: Partial<FavoritesState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default new FavoritesStore();
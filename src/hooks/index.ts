@@ -2,3 +2,8 @@ export { useLocation } from './useLocation';
 export { useFavorites } from './useFavorites';
 export { useAttractions } from './useAttractions';
 export { useLocationSearch } from './useLocationSearch';
+export { useListOptions } from './useListOptions';
+export { useRouteEstimates } from './useRouteEstimates';
+export { useVisitTracking } from './useVisitTracking';
+export { useProximityAlerts } from './useProximityAlerts';
+export { useWalkingTour } from './useWalkingTour';
@@ -0,0 +1,293 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import * as Location from 'expo-location';
+import { Coordinates, CityInfo, GPSStatus, TrackingProfile } from '../types';
+import { locationService, trackingService } from '../services';
+import { LOCATION_CONFIG } from '../constants';
+import { calculateDistance, hasSignificantMovement } from '../utils/distance';
+
+export interface LocationState {
+  location: Coordinates | null;
+  // Follows only larger moves, for work too costly to repeat for every position
+  areaLocation: Coordinates | null;
+  cityInfo: CityInfo | null;
+  loading: boolean;
+  error: string | null;
+  gpsStatus: GPSStatus;
+}
+
+type TrackingMode = 'off' | 'foreground' | 'tour';
+
+// 'coarse' watches only larger moves, the profiles track closely
+type WatchProfile = TrackingProfile | 'coarse';
+
+interface TrackingRequest {
+  tour: boolean;
+}
+
+const INITIAL_STATE: LocationState = {
+  location: null,
+  areaLocation: null,
+  cityInfo: null,
+  loading: true,
+  error: null,
+  gpsStatus: 'SEARCHING',
+};
+
+/**
+ * Position shared by every `useLocation` caller
+ * Looks the position up when a first caller subscribes and keeps one watch
+ * for all callers that track it. The watch only follows larger moves, except
+ * near watched places, e.g. favorites to visit: there it adapts to the speed
+ * and reports positions meters apart, close enough for visit geofences. During
+ * walking tours the positions come from the walking tour task instead, which
+ * also tracks in the background.
+ */
+class LocationStore {
+  private state: LocationState = INITIAL_STATE;
+  private listeners = new Set<() => void>();
+  private requests = new Set<TrackingRequest>();
+  private mode: TrackingMode = 'off';
+  private subscription: Location.LocationSubscription | null = null;
+  // Places the position is watched closely near
+  private places = new Set<Coordinates[]>();
+  private profile: TrackingProfile = 'walking';
+  // Profile the running watch tracks with
+  private watchProfile: WatchProfile | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  // Stops listening to the walking tour task while it tracks
+  private stopTour: (() => void) | null = null;
+  private trackingQueue: Promise<void> = Promise.resolve();
+  // Bumped when the last caller leaves, so lookups still running are dropped
+  private session = 0;
+  // Position the city info belongs to
+  private geocoded: Coordinates | null = null;
+  private language: string | null = null;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.refresh();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        // The position is looked up again once somebody listens
+        this.session++;
+        this.state = INITIAL_STATE;
+        this.geocoded = null;
+        this.language = null;
+        this.profile = 'walking';
+      }
+    };
+  };
+
+  getState = (): LocationState => this.state;
+
+  /**
+   * Look up the current position and its city
+   */
+  refresh = async (): Promise<void> => {
+    const session = this.session;
+    const update = (changes: Partial<LocationState>) => {
+      if (session === this.session) this.setState(changes);
+    };
+    update({ loading: true, error: null, gpsStatus: 'SEARCHING' });
+
+    try {
+      // Check permissions first
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        update({ gpsStatus: 'PERMISSION_DENIED', error: 'Location permission denied' });
+        return;
+      }
+
+      const currentLocation = await locationService.getCurrentLocation();
+      if (currentLocation) {
+        const coords = {
+          latitude: currentLocation.coords.latitude,
+          longitude: currentLocation.coords.longitude,
+        };
+        if (session === this.session) this.geocoded = coords;
+        update({
+          location: coords,
+          areaLocation: coords,
+          gpsStatus: AppState.currentState === 'background' ? 'BACKGROUND' : 'ACTIVE',
+        });
+        this.updateWatch();
+
+        update({ cityInfo: await locationService.reverseGeocode(coords) });
+      } else {
+        update({ gpsStatus: 'UNAVAILABLE' });
+      }
+    } catch (err: any) {
+      update({ error: err.message || 'Failed to get location', gpsStatus: 'UNAVAILABLE' });
+    } finally {
+      update({ loading: false });
+    }
+  };
+
+  /**
+   * Track the position until the returned function is called
+   * @param tour - Track with the walking tour task and report every position
+   */
+  requestTracking = (tour: boolean): (() => void) => {
+    const request: TrackingRequest = { tour };
+    this.requests.add(request);
+    this.updateMode();
+    return () => {
+      this.requests.delete(request);
+      this.updateMode();
+    };
+  };
+
+  /**
+   * Watch the position closely near the places until the returned function is called
+   */
+  watchPlaces = (places: Coordinates[]): (() => void) => {
+    this.places.add(places);
+    this.updateWatch();
+    return () => {
+      this.places.delete(places);
+      this.updateWatch();
+    };
+  };
+
+  /**
+   * Name the city in a new app language
+   */
+  setLanguage = (language: string): void => {
+    const previous = this.language;
+    this.language = language;
+    if (previous === null || previous === language) return;
+
+    const coords = this.geocoded;
+    if (!coords) return;
+    locationService.reverseGeocode(coords).then(cityInfo => {
+      if (cityInfo && this.geocoded === coords) this.setState({ cityInfo });
+    });
+  };
+
+  private updateMode(): void {
+    const requests = [...this.requests];
+    const mode: TrackingMode = requests.some(request => request.tour)
+      ? 'tour'
+      : requests.length > 0 ? 'foreground' : 'off';
+    if (mode === this.mode) return;
+
+    this.mode = mode;
+    this.syncTracking();
+
+    // Only walking tours keep tracking while the app is in the background
+    if (mode === 'tour' && !this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener('change', this.handleAppState);
+    } else if (mode !== 'tour') {
+      this.appStateSubscription?.remove();
+      this.appStateSubscription = null;
+    }
+  }
+
+  /**
+   * Bring the watch and the walking tour task in line with the mode
+   * Runs one change after another, so quick changes never start a second watch.
+   */
+  private syncTracking(): Promise<void> {
+    this.trackingQueue = this.trackingQueue
+      .then(async () => {
+        const touring = this.mode === 'tour' && (this.stopTour !== null || (await trackingService.startBackgroundUpdates()));
+        if (touring && !this.stopTour) {
+          this.stopTour = trackingService.subscribeToPositions(this.handlePosition);
+        } else if (!touring && this.stopTour) {
+          this.stopTour();
+          this.stopTour = null;
+          await trackingService.stopBackgroundUpdates();
+        }
+
+        // Without the task, e.g. when it couldn't start, positions come from the watch
+        const profile = this.mode !== 'off' && !touring ? this.getWatchProfile() : null;
+        if (profile === this.watchProfile) return;
+        this.subscription?.remove();
+        this.subscription = null;
+        this.watchProfile = profile;
+        if (profile === 'coarse') {
+          this.subscription = await locationService.watchPosition(this.handlePosition);
+        } else if (profile) {
+          this.subscription = await locationService.watchPosition(
+            this.handlePosition,
+            trackingService.getWatchOptions(profile)
+          );
+        }
+      })
+      .catch(error => {
+        console.error('Error changing location tracking:', error);
+      });
+    return this.trackingQueue;
+  }
+
+  private handlePosition = (position: Location.LocationObject): void => {
+    const coords = {
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+    };
+
+    this.setState({ location: coords });
+    if (this.subscription) {
+      this.adaptWatch(position.coords.speed);
+    }
+
+    // City info only changes over larger distances
+    if (hasSignificantMovement(this.geocoded, coords)) {
+      this.geocoded = coords;
+      this.setState({ areaLocation: coords });
+      const session = this.session;
+      locationService.reverseGeocode(coords).then(cityInfo => {
+        if (session === this.session) this.setState({ cityInfo });
+      });
+    }
+  };
+
+  /**
+   * Profile for the watch: walking tours and watched places nearby need close tracking
+   */
+  private getWatchProfile(): WatchProfile {
+    const { location } = this.state;
+    const nearPlace =
+      location !== null &&
+      [...this.places].some(places =>
+        places.some(place => calculateDistance(location, place) <= LOCATION_CONFIG.CLOSE_RANGE)
+      );
+    return this.mode === 'tour' || nearPlace ? this.profile : 'coarse';
+  }
+
+  private updateWatch(): void {
+    if (this.mode !== 'off' && this.getWatchProfile() !== this.watchProfile) {
+      this.syncTracking();
+    }
+  }
+
+  /**
+   * Watch less often while standing still or on a low battery, like the walking tour task
+   */
+  private async adaptWatch(speed: number | null): Promise<void> {
+    if (this.getWatchProfile() !== 'coarse') {
+      this.profile = await trackingService.selectProfile(speed);
+    }
+    this.updateWatch();
+  }
+
+  private handleAppState = async (appState: AppStateStatus): Promise<void> => {
+    if (appState !== 'active' && appState !== 'background') return;
+    // Only a running task keeps tracking while the app is in the background
+    const background = appState === 'background' && (await trackingService.isTrackingInBackground());
+    const { gpsStatus } = this.state;
+    if (gpsStatus === 'ACTIVE' || gpsStatus === 'BACKGROUND') {
+      this.setState({ gpsStatus: background ? 'BACKGROUND' : 'ACTIVE' });
+    }
+  };
+
+  private setState(changes: Partial<LocationState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default new LocationStore();
@@ -1,24 +1,61 @@
-import { useState, useCallback } from 'react';
-import { Attraction, Coordinates } from '../types';
-import { attractionsService, openaiService, interestsService } from '../services';
+import { useState, useCallback, useRef } from 'react';
+import { Attraction, AttractionSearchResult, Coordinates, RadiusSetting } from '../types';
+import { attractionsService, openaiService, interestsService, ratingService } from '../services';
 
 interface UseAttractionsResult {
   attractions: Attraction[];
   loading: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
   error: string | null;
-  loadAttractions: (coordinates: Coordinates) => Promise<void>;
+  radius: number | null; // radius the current attractions were found in
+  loadAttractions: (coordinates: Coordinates, radiusSetting?: RadiusSetting) => Promise<void>;
+  loadMoreAttractions: () => Promise<void>;
   classifyAttractions: () => Promise<void>;
 }
 
+interface AttractionsQuery {
+  coordinates: Coordinates;
+  interests: string[];
+  radiusSetting: RadiusSetting;
+  radius: number;
+}
+
 /**
  * Hook for managing attractions state
  */
 export const useAttractions = (): UseAttractionsResult => {
   const [attractions, setAttractions] = useState<Attraction[]>([]);
+  const [remaining, setRemaining] = useState<Attraction[]>([]);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [radius, setRadius] = useState<number | null>(null);
+  // Query of the shown results; pages requested for an older query are dropped
+  const queryRef = useRef<AttractionsQuery | null>(null);
+  // Result last cached per query, so refinements finishing late don't drop loaded pages
+  const cachedRef = useRef(new WeakMap<AttractionsQuery, AttractionSearchResult>());
+
+  const showResult = (result: AttractionSearchResult) => {
+    setAttractions(result.attractions);
+    setRemaining(result.remaining);
+    setRadius(result.radius);
+  };
+
+  const cacheResult = (query: AttractionsQuery, result: AttractionSearchResult) => {
+    cachedRef.current.set(query, result);
+    return attractionsService.cacheAttractions(
+      query.coordinates,
+      result,
+      query.interests,
+      query.radiusSetting
+    );
+  };
 
-  const loadAttractions = useCallback(async (coordinates: Coordinates) => {
+  const loadAttractions = useCallback(async (
+    coordinates: Coordinates,
+    radiusSetting: RadiusSetting = 'auto'
+  ) => {
     setLoading(true);
     setError(null);
 
@@ -28,25 +65,25 @@ export const useAttractions = (): UseAttractionsResult => {
       // Check cache first
       const cached = await attractionsService.getCachedAttractions(
         coordinates,
-        userInterests
+        userInterests,
+        radiusSetting
       );
       
       if (cached) {
-        setAttractions(cached);
+        queryRef.current = { coordinates, interests: userInterests, radiusSetting, radius: cached.radius };
+        showResult(cached);
         setLoading(false);
         return;
       }
       
       // Fetch from API
-      const nearby = await attractionsService.getNearbyAttractions(coordinates);
-      setAttractions(nearby);
+      const result = await attractionsService.searchAttractions(coordinates, userInterests, radiusSetting);
+      const query = { coordinates, interests: userInterests, radiusSetting, radius: result.radius };
+      queryRef.current = query;
+      showResult(result);
       
-      // Classify in background if user has interests
-      if (userInterests.length > 0) {
-        classifyInBackground(nearby, coordinates, userInterests);
-      } else {
-        await attractionsService.cacheAttractions(coordinates, nearby, userInterests);
-      }
+      // Refined ratings and interest scores follow once available
+      refineInBackground(result, query);
     } catch (err: any) {
       setError(err.message || 'Failed to load attractions');
     } finally {
@@ -54,25 +91,77 @@ export const useAttractions = (): UseAttractionsResult => {
     }
   }, []);
 
-  const classifyInBackground = async (
-    attractionsList: Attraction[],
-    coordinates: Coordinates,
-    userInterests: string[]
+  /**
+   * Refine the ratings of a page and classify it for the user's interests
+   * Both take extra requests, so they run side by side; a failed step is skipped.
+   * Classified pages are sorted by interest score.
+   */
+  const refinePage = async (page: Attraction[], interests: string[]): Promise<Attraction[]> => {
+    const [rated, classified] = await Promise.all([
+      ratingService.applyWikipediaMetadata(page).catch(error => {
+        console.log('Rating refinement skipped:', error);
+        return page;
+      }),
+      interests.length > 0
+        ? openaiService.classifyAttractions(page, interests).catch(error => {
+            console.log('Classification skipped:', error);
+            return null;
+          })
+        : null,
+    ]);
+    if (!classified) return rated;
+
+    const ratedById = new Map(rated.map(attraction => [attraction.id, attraction]));
+    return attractionsService.sortByInterestScore(
+      classified.map(attraction => {
+        const refined = ratedById.get(attraction.id);
+        return refined
+          ? { ...attraction, rating: refined.rating, ratingBreakdown: refined.ratingBreakdown }
+          : attraction;
+      })
+    );
+  };
+
+  const refineInBackground = async (
+    result: AttractionSearchResult,
+    query: AttractionsQuery
   ) => {
     try {
-      const classified = await openaiService.classifyAttractions(
-        attractionsList,
-        userInterests
-      );
-      const sorted = attractionsService.sortByInterestScore(classified);
-      setAttractions(sorted);
-      await attractionsService.cacheAttractions(coordinates, sorted, userInterests);
+      const refined = await refinePage(result.attractions, query.interests);
+      // Results of a newer query may be shown by now; they are only cached then
+      if (queryRef.current === query) {
+        // Keep pages that were loaded while refining
+        setAttractions(current => [...refined, ...current.slice(refined.length)]);
+      }
+      const latest = cachedRef.current.get(query) ?? result;
+      await cacheResult(query, { ...latest, attractions: [...refined, ...latest.attractions.slice(refined.length)] });
     } catch (error) {
-      console.log('Classification skipped:', error);
-      await attractionsService.cacheAttractions(coordinates, attractionsList, userInterests);
+      console.error('Error refining attractions:', error);
     }
   };
 
+  const loadMoreAttractions = useCallback(async () => {
+    const query = queryRef.current;
+    if (!query || loadingMore || remaining.length === 0) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await attractionsService.getNextPage(remaining);
+      const pageAttractions = await refinePage(page.attractions, query.interests);
+
+      if (queryRef.current !== query) return;
+
+      const loaded = [...attractions, ...pageAttractions];
+      setAttractions(loaded);
+      setRemaining(page.remaining);
+      await cacheResult(query, { attractions: loaded, remaining: page.remaining, radius: query.radius });
+    } catch (err: any) {
+      setError(err.message || 'Failed to load more attractions');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [attractions, remaining, loadingMore]);
+
   const classifyAttractions = useCallback(async () => {
     if (attractions.length === 0) return;
 
@@ -97,8 +186,12 @@ export const useAttractions = (): UseAttractionsResult => {
   return {
     attractions,
     loading,
+    loadingMore,
+    hasMore: remaining.length > 0,
     error,
+    radius,
     loadAttractions,
+    loadMoreAttractions,
     classifyAttractions,
   };
 };
@@ -1,79 +1,65 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Attraction } from '../types';
-import { favoritesService } from '../services';
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  Attraction,
+  Favorite,
+  FavoriteChanges,
+  FavoriteCollection,
+  FavoritesFileFormat,
+  FavoritesImportResult,
+} from '../types';
+import favoritesStore from './favoritesStore';
 
 interface UseFavoritesResult {
-  favorites: Attraction[];
-  favoriteIds: Set<string | number>;
+  favorites: Favorite[];
+  favoriteIds: Set<string>;
+  collections: FavoriteCollection[];
   loading: boolean;
-  addFavorite: (attraction: Attraction) => Promise<void>;
-  removeFavorite: (attractionId: string | number) => Promise<void>;
+  addFavorite: (attraction: Attraction, collectionId?: string) => Promise<void>;
+  removeFavorite: (attractionId: string) => Promise<void>;
   toggleFavorite: (attraction: Attraction) => Promise<void>;
-  isFavorite: (attractionId: string | number) => boolean;
+  isFavorite: (attractionId: string) => boolean;
+  updateFavorite: (attractionId: string, changes: FavoriteChanges) => Promise<void>;
+  moveFavorite: (attractionId: string, collectionId: string) => Promise<void>;
+  createCollection: (name: string) => Promise<FavoriteCollection | null>;
+  renameCollection: (collectionId: string, name: string) => Promise<void>;
+  deleteCollection: (collectionId: string) => Promise<void>;
+  exportFavorites: (format: FavoritesFileFormat, name: string, collectionId?: string) => Promise<string>;
+  importFavorites: (content: string, collectionId?: string) => Promise<FavoritesImportResult | null>;
   refreshFavorites: () => Promise<void>;
 }
 
 /**
- * Hook for managing favorites state
+ * Hook for managing favorites and their collections
+ * All callers share one store, so a change made on one screen shows up on
+ * every other screen right away.
  */
 export const useFavorites = (): UseFavoritesResult => {
-  const [favorites, setFavorites] = useState<Attraction[]>([]);
-  const [favoriteIds, setFavoriteIds] = useState<Set<string | number>>(new Set());
-  const [loading, setLoading] = useState(true);
-
-  const loadFavorites = useCallback(async () => {
-    setLoading(true);
-    try {
-      const favs = await favoritesService.getFavorites();
-      setFavorites(favs);
-      setFavoriteIds(new Set(favs.map(f => f.id)));
-    } catch (error) {
-      console.error('Error loading favorites:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    loadFavorites();
-  }, [loadFavorites]);
-
-  const addFavorite = useCallback(async (attraction: Attraction) => {
-    const newFavorites = await favoritesService.addFavorite(attraction);
-    setFavorites(newFavorites);
-    setFavoriteIds(new Set(newFavorites.map(f => f.id)));
-  }, []);
-
-  const removeFavorite = useCallback(async (attractionId: string | number) => {
-    const newFavorites = await favoritesService.removeFavorite(attractionId);
-    setFavorites(newFavorites);
-    setFavoriteIds(new Set(newFavorites.map(f => f.id)));
-  }, []);
-
-  const toggleFavorite = useCallback(
-    async (attraction: Attraction) => {
-      if (favoriteIds.has(attraction.id)) {
-        await removeFavorite(attraction.id);
-      } else {
-        await addFavorite(attraction);
-      }
-    },
-    [favoriteIds, addFavorite, removeFavorite]
+  const { favorites, favoriteIds, collections, loading } = useSyncExternalStore(
+    favoritesStore.subscribe,
+    favoritesStore.getState
   );
 
   const isFavorite = useCallback(
-    (attractionId: string | number) => favoriteIds.has(attractionId),
+    (attractionId: string) => favoriteIds.has(attractionId),
     [favoriteIds]
   );
 
   return {
     favorites,
     favoriteIds,
+    collections,
     loading,
-    addFavorite,
-    removeFavorite,
-    toggleFavorite,
+    addFavorite: favoritesStore.addFavorite,
+    removeFavorite: favoritesStore.removeFavorite,
+    toggleFavorite: favoritesStore.toggleFavorite,
     isFavorite,
-    refreshFavorites: loadFavorites,
+    updateFavorite: favoritesStore.updateFavorite,
+    moveFavorite: favoritesStore.moveFavorite,
+    createCollection: favoritesStore.createCollection,
+    renameCollection: favoritesStore.renameCollection,
+    deleteCollection: favoritesStore.deleteCollection,
+    exportFavorites: favoritesStore.exportFavorites,
+    importFavorites: favoritesStore.importFavorites,
+    refreshFavorites: favoritesStore.load,
   };
 };
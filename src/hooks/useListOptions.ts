@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AttractionListOptions } from '../types';
+import { storageService } from '../services';
+import { STORAGE_KEYS } from '../constants';
+import { DEFAULT_LIST_OPTIONS, normalizeListOptions } from '../utils/attractionList';
+
+type ListOptionsUpdate =
+  | Partial<AttractionListOptions>
+  | ((current: AttractionListOptions) => Partial<AttractionListOptions>);
+
+interface UseListOptionsResult {
+  listOptions: AttractionListOptions;
+  updateListOptions: (update: ListOptionsUpdate) => void;
+  toggleType: (type: string) => void;
+  clearFilters: () => void;
+}
+
+/**
+ * Hook for the persisted sort and filter options of the attraction list
+ */
+export const useListOptions = (): UseListOptionsResult => {
+  const [listOptions, setListOptions] = useState<AttractionListOptions>(DEFAULT_LIST_OPTIONS);
+  const optionsRef = useRef(listOptions);
+  const changedRef = useRef(false);
+
+  useEffect(() => {
+    storageService.get<Partial<AttractionListOptions>>(STORAGE_KEYS.LIST_OPTIONS).then(stored => {
+      // Choices made before the stored options arrived take precedence
+      if (!changedRef.current && stored) {
+        optionsRef.current = normalizeListOptions(stored);
+        setListOptions(optionsRef.current);
+      }
+    });
+  }, []);
+
+  const updateListOptions = useCallback((update: ListOptionsUpdate) => {
+    const changes = typeof update === 'function' ? update(optionsRef.current) : update;
+    changedRef.current = true;
+    optionsRef.current = { ...optionsRef.current, ...changes };
+    setListOptions(optionsRef.current);
+    storageService.set(STORAGE_KEYS.LIST_OPTIONS, optionsRef.current);
+  }, []);
+
+  const toggleType = useCallback(
+    (type: string) =>
+      updateListOptions(current => ({
+        types: current.types.includes(type)
+          ? current.types.filter(selected => selected !== type)
+          : [...current.types, type],
+      })),
+    [updateListOptions]
+  );
+
+  const clearFilters = useCallback(
+    () =>
+      updateListOptions({
+        types: DEFAULT_LIST_OPTIONS.types,
+        minMatchScore: DEFAULT_LIST_OPTIONS.minMatchScore,
+        favoritesOnly: DEFAULT_LIST_OPTIONS.favoritesOnly,
+      }),
+    [updateListOptions]
+  );
+
+  return { listOptions, updateListOptions, toggleType, clearFilters };
+};
@@ -1,11 +1,12 @@
-import { useState, useEffect, useCallback } from 'react';
-import * as Location from 'expo-location';
+import { useEffect, useSyncExternalStore } from 'react';
+import { useTranslation } from 'react-i18next';
 import { Coordinates, CityInfo, GPSStatus } from '../types';
-import { locationService } from '../services';
-import { hasSignificantMovement } from '../utils/distance';
+import locationStore from './locationStore';
 
 interface UseLocationResult {
   location: Coordinates | null;
+  // Changes only after larger moves, like the city info
+  areaLocation: Coordinates | null;
   cityInfo: CityInfo | null;
   loading: boolean;
   error: string | null;
@@ -15,85 +16,35 @@ interface UseLocationResult {
 
 /**
  * Hook for managing location state
+ * All callers share one position, so screens showing it side by side don't
+ * each watch the position and look up the city.
+ * @param backgroundTracking - Walking tour: report every position, keep tracking
+ * in the background, record the track and adapt tracking to the speed
  */
-export const useLocation = (enableTracking: boolean = true): UseLocationResult => {
-  const [location, setLocation] = useState<Coordinates | null>(null);
-  const [cityInfo, setCityInfo] = useState<CityInfo | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [gpsStatus, setGpsStatus] = useState<GPSStatus>('SEARCHING');
-
-  const loadLocation = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    setGpsStatus('SEARCHING');
-
-    try {
-      // Check permissions first
-      const { status } = await Location.requestForegroundPermissionsAsync();
-      if (status !== 'granted') {
-        setGpsStatus('PERMISSION_DENIED');
-        setError('Location permission denied');
-        setLoading(false);
-        return;
-      }
-
-      const currentLocation = await locationService.getCurrentLocation();
-      if (currentLocation) {
-        const coords = {
-          latitude: currentLocation.coords.latitude,
-          longitude: currentLocation.coords.longitude,
-        };
-        setLocation(coords);
-        setGpsStatus('ACTIVE');
-
-        const city = await locationService.reverseGeocode(coords);
-        setCityInfo(city);
-      } else {
-        setGpsStatus('UNAVAILABLE');
-      }
-    } catch (err: any) {
-      setError(err.message || 'Failed to get location');
-      setGpsStatus('UNAVAILABLE');
-    } finally {
-      setLoading(false);
-    }
-  }, []);
+export const useLocation = (enableTracking: boolean = true, backgroundTracking: boolean = false): UseLocationResult => {
+  const { location, areaLocation, cityInfo, loading, error, gpsStatus } = useSyncExternalStore(
+    locationStore.subscribe,
+    locationStore.getState
+  );
+  const { i18n } = useTranslation();
 
   useEffect(() => {
-    loadLocation();
-
     if (!enableTracking) return;
+    return locationStore.requestTracking(backgroundTracking);
+  }, [enableTracking, backgroundTracking]);
 
-    let subscription: Location.LocationSubscription | null = null;
-
-    const startTracking = async () => {
-      subscription = await locationService.watchPosition((newLocation) => {
-        const newCoords = {
-          latitude: newLocation.coords.latitude,
-          longitude: newLocation.coords.longitude,
-        };
-
-        if (hasSignificantMovement(location, newCoords)) {
-          setLocation(newCoords);
-          locationService.reverseGeocode(newCoords).then(setCityInfo);
-        }
-      });
-    };
-
-    startTracking();
-
-    return () => {
-      subscription?.remove();
-    };
-  }, [enableTracking, loadLocation]);
+  // City names follow the app language
+  useEffect(() => {
+    locationStore.setLanguage(i18n.language);
+  }, [i18n.language]);
 
   return {
     location,
+    areaLocation,
     cityInfo,
     loading,
     error,
     gpsStatus,
-    refreshLocation: loadLocation,
+    refreshLocation: locationStore.refresh,
   };
 };
@@ -1,12 +1,23 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { LocationSearchState, SearchResult, CityInfo } from '../types';
+import {
+  Attraction,
+  LocationSearchState,
+  SearchResult,
+  CityInfo,
+  PinnedLocationKind,
+  SearchHistoryEntry,
+} from '../types';
 import locationService from '../services/location.service';
+import searchService from '../services/search.service';
+import searchHistoryService from '../services/search-history.service';
 
 /**
  * Hook for managing location search state with debouncing
+ * Selected results are kept in a history, offered again while the query is empty.
  * @param debounceMs - Debounce delay in milliseconds (default: 300ms)
+ * @param attractions - Attractions already loaded, matched without a request
  */
-export function useLocationSearch(debounceMs: number = 300) {
+export function useLocationSearch(debounceMs: number = 300, attractions: Attraction[] = []) {
   const [state, setState] = useState<LocationSearchState>({
     query: '',
     results: [],
@@ -14,9 +25,12 @@ export function useLocationSearch(debounceMs: number = 300) {
     error: null,
     selectedResult: null,
   });
+  const [history, setHistory] = useState<SearchHistoryEntry[]>([]);
 
   const debounceTimerRef = useRef<number | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const attractionsRef = useRef(attractions);
+  attractionsRef.current = attractions;
 
   /**
    * Set search query and trigger debounced search
@@ -50,12 +64,28 @@ export function useLocationSearch(debounceMs: number = 300) {
       return;
     }
 
+    // Loaded attractions and places found before answer at once, the network search follows
+    showCachedResults(query);
+
     // Debounce the search
     debounceTimerRef.current = setTimeout(() => {
       performSearch(query);
     }, debounceMs);
   }, [debounceMs]);
 
+  /**
+   * Show matches found without a request, unless the search already finished
+   */
+  const showCachedResults = async (query: string) => {
+    try {
+      const cached = await searchService.searchOffline(query, attractionsRef.current, 5);
+      if (cached.length === 0) return;
+      setState(prev => (prev.loading && prev.query === query ? { ...prev, results: cached } : prev));
+    } catch (error) {
+      console.error('Error searching cached locations:', error);
+    }
+  };
+
   /**
    * Perform the actual search
    */
@@ -67,7 +97,7 @@ export function useLocationSearch(debounceMs: number = 300) {
     try {
       abortControllerRef.current = new AbortController();
       
-      const results = await locationService.searchLocations(query.trim(), 5);
+      const results = await searchService.search(query, attractionsRef.current, 5);
       
       setState(prev => ({
         ...prev,
@@ -101,8 +131,31 @@ export function useLocationSearch(debounceMs: number = 300) {
       query: result.primaryName,
       results: [],
     }));
+    updateHistory(() => searchHistoryService.recordSelection(result));
+  }, []);
+
+  /**
+   * Remove a location from the history
+   */
+  const removeHistoryEntry = useCallback((id: string) => {
+    updateHistory(() => searchHistoryService.removeEntry(id));
   }, []);
 
+  /**
+   * Pin a history location as home or hotel, or unpin it with null
+   */
+  const pinHistoryEntry = useCallback((id: string, kind: PinnedLocationKind | null) => {
+    updateHistory(() => searchHistoryService.pinEntry(id, kind));
+  }, []);
+
+  const updateHistory = async (update: () => Promise<SearchHistoryEntry[]>) => {
+    try {
+      setHistory(await update());
+    } catch (error) {
+      console.error('Error updating search history:', error);
+    }
+  };
+
   /**
    * Clear search state
    */
@@ -134,8 +187,10 @@ export function useLocationSearch(debounceMs: number = 300) {
     return await locationService.selectSearchResult(state.selectedResult);
   }, [state.selectedResult]);
 
-  // Cleanup on unmount
+  // Load the history and clean up on unmount
   useEffect(() => {
+    updateHistory(() => searchHistoryService.getHistory());
+
     return () => {
       if (debounceTimerRef.current) {
         clearTimeout(debounceTimerRef.current);
@@ -152,9 +207,12 @@ export function useLocationSearch(debounceMs: number = 300) {
     loading: state.loading,
     error: state.error,
     selectedResult: state.selectedResult,
+    history,
     setQuery,
     selectResult,
     clearSearch,
     getSelectedCityInfo,
+    removeHistoryEntry,
+    pinHistoryEntry,
   };
 }
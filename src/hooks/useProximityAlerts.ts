@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { Attraction, Coordinates, Favorite, ProximityAlert } from '../types';
+import { proximityService } from '../services';
+
+/**
+ * Hook alerting when the position comes near a favorite or a high-match attraction
+ * Only moves are checked, so loading or changing the places never alerts, and
+ * only places the position just came within range of alert. Positions tracked
+ * in the background are skipped: the alert shows in the app, and checking would
+ * start the cooldown of places the user never got to see.
+ * @param onAlert - Called with the places just approached, closest first
+ */
+export const useProximityAlerts = (
+  location: Coordinates | null,
+  favorites: Favorite[],
+  attractions: Attraction[],
+  onAlert: (alerts: ProximityAlert[]) => void
+): void => {
+  const onAlertRef = useRef(onAlert);
+  onAlertRef.current = onAlert;
+  const placesRef = useRef({ favorites, attractions });
+  placesRef.current = { favorites, attractions };
+  const previousRef = useRef<Coordinates | null>(null);
+
+  useEffect(() => {
+    if (!location || AppState.currentState === 'background') return;
+    const previous = previousRef.current;
+    previousRef.current = location;
+    // The first position has nothing to come from
+    if (!previous) return;
+
+    proximityService
+      .checkPosition(location, placesRef.current.favorites, placesRef.current.attractions, previous)
+      .then(alerts => {
+        if (alerts.length > 0) {
+          onAlertRef.current(alerts);
+        }
+      })
+      .catch(error => {
+        console.error('Error checking nearby places:', error);
+      });
+  }, [location?.latitude, location?.longitude]);
+};
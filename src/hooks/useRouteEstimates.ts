@@ -0,0 +1,52 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Attraction, Coordinates, RouteEstimate, TravelMode } from '../types';
+import { routingService } from '../services';
+
+interface UseRouteEstimatesResult {
+  estimates: Map<string, RouteEstimate>; // by attraction id
+  loading: boolean;
+}
+
+/**
+ * Hook for route estimates from the origin to the given attractions
+ * Estimates are dropped when the origin or travel mode changes, so callers
+ * fall back to the straight-line distance until new ones arrive.
+ */
+export const useRouteEstimates = (
+  origin: Coordinates | null,
+  attractions: Attraction[],
+  mode: TravelMode
+): UseRouteEstimatesResult => {
+  const [estimates, setEstimates] = useState<Map<string, RouteEstimate>>(new Map());
+  const [loading, setLoading] = useState(false);
+  const routeKeyRef = useRef<string | null>(null);
+
+  // Re-sorting the list doesn't change which routes are needed
+  const attractionsKey = useMemo(
+    () => attractions.map(attraction => attraction.id).sort().join('|'),
+    [attractions]
+  );
+  const routeKey = origin ? `${mode}_${origin.latitude}_${origin.longitude}` : null;
+
+  useEffect(() => {
+    if (routeKey !== routeKeyRef.current) {
+      routeKeyRef.current = routeKey;
+      setEstimates(new Map());
+    }
+    if (!origin || attractions.length === 0) return;
+
+    let cancelled = false;
+    setLoading(true);
+    routingService.estimateRoutes(origin, attractions, mode).then(result => {
+      if (cancelled) return;
+      setEstimates(result);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [routeKey, attractionsKey]);
+
+  return { estimates, loading };
+};
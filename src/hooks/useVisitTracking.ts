@@ -0,0 +1,40 @@
+import { useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { Coordinates, Favorite } from '../types';
+import favoritesStore from './favoritesStore';
+import locationStore from './locationStore';
+
+/**
+ * Hook marking favorites as visited when the position comes within their geofence
+ * The position is tracked closely near favorites still to visit, so the small
+ * geofence isn't passed between two positions.
+ * @param onVisited - Called with the favorites that were just marked as visited
+ */
+export const useVisitTracking = (
+  location: Coordinates | null,
+  onVisited?: (visited: Favorite[]) => void
+): void => {
+  const onVisitedRef = useRef(onVisited);
+  onVisitedRef.current = onVisited;
+  const { favorites } = useSyncExternalStore(favoritesStore.subscribe, favoritesStore.getState);
+  const toVisit = useMemo(
+    () => favorites.filter(favorite => favorite.visitStatus !== 'visited' && favorite.visitSource !== 'manual'),
+    [favorites]
+  );
+
+  useEffect(() => locationStore.watchPlaces(toVisit), [toVisit]);
+
+  useEffect(() => {
+    if (!location) return;
+
+    favoritesStore
+      .recordVisitsNear(location)
+      .then(visited => {
+        if (visited.length > 0) {
+          onVisitedRef.current?.(visited);
+        }
+      })
+      .catch(error => {
+        console.error('Error recording visits:', error);
+      });
+  }, [location?.latitude, location?.longitude]);
+};
@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trackingService } from '../services';
+import { buildTrackGpx } from '../utils/tracking';
+
+interface UseWalkingTourResult {
+  enabled: boolean;
+  setEnabled: (enabled: boolean) => Promise<void>;
+  exportTrack: (name: string) => Promise<string>;
+}
+
+/**
+ * Hook for the walking tour opt-in and the recorded track
+ */
+export const useWalkingTour = (): UseWalkingTourResult => {
+  const [enabled, setEnabledState] = useState(false);
+
+  useEffect(() => {
+    trackingService.isWalkingTourEnabled().then(setEnabledState);
+  }, []);
+
+  const setEnabled = useCallback(async (next: boolean) => {
+    setEnabledState(await trackingService.setWalkingTourEnabled(next));
+  }, []);
+
+  const exportTrack = useCallback(
+    async (name: string) => buildTrackGpx(await trackingService.getTrack(), name),
+    []
+  );
+
+  return { enabled, setEnabled, exportTrack };
+};
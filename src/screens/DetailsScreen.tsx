@@ -5,11 +5,13 @@ import {
   StyleSheet,
   ScrollView,
   ActivityIndicator,
-  TouchableOpacity
+  TouchableOpacity,
+  Linking
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
 import { RouteProp } from '@react-navigation/native';
 import { RootStackParamList } from '../types/navigation';
+import { Attraction, AttractionAddress, Language } from '../types';
 import { fetchWikitravelData } from '../services/wiki.service';
 import { fetchLLMDescription } from '../services/openai.service';
 import { getInterestLabels, AVAILABLE_INTERESTS } from '../services/interests.service';
@@ -22,7 +24,7 @@ interface Props {
 }
 
 export default function DetailsScreen({ route }: Props) {
-  const { location, coordinates } = route.params;
+  const { location, coordinates, attraction } = route.params;
   const { t, i18n } = useTranslation();
   const [wikitravelData, setWikitravelData] = useState<any>(null);
   const [llmDescription, setLLMDescription] = useState<string | null>(null);
@@ -80,6 +82,81 @@ export default function DetailsScreen({ route }: Props) {
     }
   };
 
+  const formatAddress = (address: AttractionAddress): string => {
+    const street = [address.street, address.houseNumber].filter(Boolean).join(' ');
+    const city = [address.postcode, address.city].filter(Boolean).join(' ');
+    return [street, city, address.country].filter(Boolean).join(', ');
+  };
+
+  const renderFacts = (item: Attraction) => {
+    const rows: { key: string; label: string; value: string; onPress?: () => void }[] = [];
+
+    if (item.openingHours) {
+      rows.push({
+        key: 'openingHours',
+        label: t('openingHours'),
+        value: item.openingHours.split(';').map(rule => rule.trim()).join('\n'),
+      });
+    }
+    if (item.address) {
+      rows.push({ key: 'address', label: t('address'), value: formatAddress(item.address) });
+    }
+    if (item.website) {
+      const website = item.website;
+      rows.push({
+        key: 'website',
+        label: t('website'),
+        value: website,
+        onPress: () => Linking.openURL(website),
+      });
+    }
+    if (item.phone) {
+      const phone = item.phone;
+      rows.push({
+        key: 'phone',
+        label: t('phone'),
+        value: phone,
+        onPress: () => Linking.openURL(`tel:${phone.replace(/\s/g, '')}`),
+      });
+    }
+    if (item.wheelchair) {
+      rows.push({
+        key: 'wheelchair',
+        label: t('wheelchairAccess'),
+        value: t(`wheelchairValues.${item.wheelchair}`),
+      });
+    }
+    if (item.fee !== undefined) {
+      rows.push({
+        key: 'fee',
+        label: t('admission'),
+        value: item.fee ? t('admissionFee') : t('admissionFree'),
+      });
+    }
+    if (item.wikidata) {
+      rows.push({ key: 'wikidata', label: 'Wikidata', value: item.wikidata });
+    }
+
+    if (rows.length === 0) return null;
+
+    return (
+      <View style={styles.factsContainer} testID="attraction-facts">
+        {rows.map(row => (
+          <View key={row.key} style={styles.factRow}>
+            <Text style={styles.infoLabel}>{row.label}</Text>
+            {row.onPress ? (
+              <TouchableOpacity onPress={row.onPress}>
+                <Text style={[styles.infoText, styles.factLink]}>{row.value}</Text>
+              </TouchableOpacity>
+            ) : (
+              <Text style={styles.infoText}>{row.value}</Text>
+            )}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -92,7 +169,9 @@ export default function DetailsScreen({ route }: Props) {
   return (
     <ScrollView style={styles.container}>
       <View style={styles.header}>
-        <Text style={styles.title}>{location}</Text>
+        <Text style={styles.title}>
+          {attraction?.names?.[i18n.language as Language] || location}
+        </Text>
         {coordinates && (
           <Text style={styles.coordinates}>
             📍 {coordinates.latitude.toFixed(4)}, {coordinates.longitude.toFixed(4)}
@@ -100,6 +179,8 @@ export default function DetailsScreen({ route }: Props) {
         )}
       </View>
 
+      {attraction && renderFacts(attraction)}
+
       <View style={styles.tabContainer}>
         <TouchableOpacity
           style={[styles.tab, activeTab === 'wikitravel' && styles.activeTab]}
@@ -260,6 +341,19 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#444',
   },
+  factsContainer: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  factRow: {
+    paddingVertical: 8,
+  },
+  factLink: {
+    color: '#007AFF',
+  },
   noData: {
     fontSize: 16,
     color: '#999',
@@ -1,53 +1,438 @@
-import React from 'react';
-import { View, Text, FlatList, StyleSheet, TouchableOpacity } from 'react-native';
+import React, { useMemo, useState } from 'react';
+import { View, Text, SectionList, StyleSheet, TouchableOpacity, TextInput, Alert, Share } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useTranslation } from 'react-i18next';
-import { useFavorites } from '../hooks';
-import { Attraction } from '../types';
+import { useFavorites, useLocation } from '../hooks';
+import { favoritesService } from '../services';
+import { Favorite, FavoriteCollection, FavoriteSortKey, FavoritesFileFormat } from '../types';
 import { RootStackParamList } from '../types/navigation';
+import { FAVORITES_CONFIG } from '../constants';
+import { formatAttractionType } from '../utils/attractionTypes';
+import { formatDistance } from '../utils/routing';
+import { getNearbyFavorites, searchFavorites, sortFavorites, withDistanceFrom } from '../utils/favoritesList';
 
 type FavoritesScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
+const FILE_FORMATS: Array<{ format: FavoritesFileFormat; label: string }> = [
+  { format: 'gpx', label: 'GPX' },
+  { format: 'kml', label: 'KML' },
+  { format: 'geojson', label: 'GeoJSON' },
+];
+
+const SORT_LABEL_KEYS: Record<FavoriteSortKey, string> = {
+  distance: 'sortDistance',
+  savedAt: 'sortSavedAt',
+  name: 'sortName',
+};
+
+const NEARBY_SECTION_KEY = 'nearby';
+
+// Sections are collections, preceded by favorites within walking range
+interface FavoritesSection {
+  key: string;
+  collection?: FavoriteCollection;
+  data: Favorite[];
+}
+
 const FavoritesScreen: React.FC = () => {
   const navigation = useNavigation<FavoritesScreenNavigationProp>();
-  const { t } = useTranslation();
-  const { favorites, toggleFavorite } = useFavorites();
-
-  const renderFavorite = ({ item }: { item: Attraction }) => (
-    <TouchableOpacity
-      style={styles.card}
-      onPress={() => navigation.navigate('WebView', { name: item.name })}
-    >
-      <View style={styles.info}>
-        <Text style={styles.name}>{item.name}</Text>
-        <Text style={styles.type}>{item.type}</Text>
-        <Text style={styles.rating}>⭐ {item.rating.toFixed(1)}</Text>
+  const { t, i18n } = useTranslation();
+  const {
+    favorites,
+    collections,
+    toggleFavorite,
+    updateFavorite,
+    moveFavorite,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    exportFavorites,
+    importFavorites,
+  } = useFavorites();
+  const { location } = useLocation(true);
+  const [query, setQuery] = useState('');
+  const [sortBy, setSortBy] = useState<FavoriteSortKey>('distance');
+  const [newCollectionName, setNewCollectionName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [editingNote, setEditingNote] = useState<{ id: string; note: string } | null>(null);
+  const [movingId, setMovingId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  // Distance is only known once there is a position
+  const sortOptions = FAVORITES_CONFIG.SORT_KEYS.filter(key => location || key !== 'distance');
+  const activeSort: FavoriteSortKey = location || sortBy !== 'distance' ? sortBy : 'savedAt';
+  const searching = query.trim().length > 0;
+
+  // Named collections are always listed so new ones can be filled; the
+  // default collection only when it has favorites. While searching, only
+  // collections with matches are listed.
+  const sections = useMemo((): FavoritesSection[] => {
+    const located = location ? withDistanceFrom(favorites, location) : favorites;
+    const matching = sortFavorites(searchFavorites(located, query), activeSort);
+    const knownIds = new Set(collections.map(collection => collection.id));
+    const grouped = new Map<string, Favorite[]>();
+    for (const favorite of matching) {
+      const collectionId =
+        favorite.collectionId && knownIds.has(favorite.collectionId)
+          ? favorite.collectionId
+          : FAVORITES_CONFIG.DEFAULT_COLLECTION_ID;
+      grouped.set(collectionId, [...(grouped.get(collectionId) || []), favorite]);
+    }
+
+    const nearby = location ? getNearbyFavorites(matching) : [];
+    const collectionSections = collections
+      .map(collection => ({ key: collection.id, collection, data: grouped.get(collection.id) || [] }))
+      .filter(
+        section =>
+          section.data.length > 0 ||
+          (!searching && section.collection.id !== FAVORITES_CONFIG.DEFAULT_COLLECTION_ID)
+      );
+    return nearby.length > 0
+      ? [{ key: NEARBY_SECTION_KEY, data: nearby }, ...collectionSections]
+      : collectionSections;
+  }, [favorites, collections, location, query, activeSort, searching]);
+
+  const getCollectionName = (collection: FavoriteCollection) => collection.name || t('defaultCollection');
+
+  const handleCreateCollection = async () => {
+    const collection = await createCollection(newCollectionName);
+    if (collection) {
+      setNewCollectionName('');
+    }
+  };
+
+  const handleRename = () => {
+    if (!renaming) return;
+    renameCollection(renaming.id, renaming.name);
+    setRenaming(null);
+  };
+
+  const handleSaveNote = () => {
+    if (!editingNote) return;
+    updateFavorite(editingNote.id, { note: editingNote.note.trim() || undefined });
+    setEditingNote(null);
+  };
+
+  const confirmDelete = (collection: FavoriteCollection) => {
+    // Search may hide some of the favorites that get deleted
+    const count = favorites.filter(favorite => favorite.collectionId === collection.id).length;
+    Alert.alert(
+      t('deleteCollection'),
+      t('deleteCollectionMessage', { name: getCollectionName(collection), count }),
+      [
+        { text: t('cancel'), style: 'cancel' },
+        { text: t('delete'), style: 'destructive', onPress: () => deleteCollection(collection.id) },
+      ]
+    );
+  };
+
+  const handleExport = async (format: FavoritesFileFormat) => {
+    setExporting(false);
+    try {
+      const content = await exportFavorites(format, t('favorites'));
+      await Share.share({ title: t('favorites'), message: content });
+    } catch (error) {
+      console.error('Error exporting favorites:', error);
+      Alert.alert(t('errorTitle'), t('exportFailed'));
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const content = await favoritesService.pickFavoritesFile();
+      if (content === null) return;
+
+      const result = await importFavorites(content);
+      if (!result) {
+        Alert.alert(t('errorTitle'), t('importInvalidFile'));
+        return;
+      }
+      const { added, duplicates, invalid } = result;
+      Alert.alert(t('importFavorites'), t('importResult', { added, duplicates, invalid }));
+    } catch (error) {
+      console.error('Error importing favorites:', error);
+      Alert.alert(t('errorTitle'), t('importFailed'));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const renderSortOption = (key: FavoriteSortKey) => {
+    const selected = activeSort === key;
+    return (
+      <TouchableOpacity
+        key={key}
+        testID={`favorites-sort-${key}`}
+        style={[styles.chip, selected && styles.chipActive]}
+        onPress={() => setSortBy(key)}
+      >
+        <Text style={[styles.chipText, selected && styles.chipTextActive]}>{t(SORT_LABEL_KEYS[key])}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderSectionHeader = ({ section }: { section: FavoritesSection }) => {
+    const { collection, data } = section;
+    if (!collection) {
+      return (
+        <View style={styles.sectionHeader} testID="nearby-section">
+          <Text style={styles.sectionTitle}>
+            🚶 {t('nearbyFavorites')} ({data.length})
+          </Text>
+        </View>
+      );
+    }
+    const isRenaming = renaming?.id === collection.id;
+
+    return (
+      <View style={styles.sectionHeader} testID={`collection-${collection.id}`}>
+        {isRenaming ? (
+          <TextInput
+            testID="collection-name-input"
+            style={[styles.input, styles.sectionInput]}
+            value={renaming.name}
+            onChangeText={name => setRenaming({ id: collection.id, name })}
+            onEndEditing={handleRename}
+            maxLength={FAVORITES_CONFIG.MAX_COLLECTION_NAME_LENGTH}
+            autoFocus
+          />
+        ) : (
+          <Text style={styles.sectionTitle}>
+            {getCollectionName(collection)} ({data.length})
+          </Text>
+        )}
+        <TouchableOpacity
+          testID={`journal-${collection.id}`}
+          style={styles.iconButton}
+          onPress={() => navigation.navigate('Journal', { collectionId: collection.id })}
+        >
+          <Text>📔</Text>
+        </TouchableOpacity>
+        {data.length > 1 && (
+          <TouchableOpacity
+            testID={`plan-trip-${collection.id}`}
+            style={styles.iconButton}
+            onPress={() => navigation.navigate('Itinerary', { attractions: data })}
+          >
+            <Text>🧭</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          testID={`rename-collection-${collection.id}`}
+          style={styles.iconButton}
+          onPress={() => setRenaming({ id: collection.id, name: getCollectionName(collection) })}
+        >
+          <Text>✏️</Text>
+        </TouchableOpacity>
+        {collection.id !== FAVORITES_CONFIG.DEFAULT_COLLECTION_ID && (
+          <TouchableOpacity
+            testID={`delete-collection-${collection.id}`}
+            style={styles.iconButton}
+            onPress={() => confirmDelete(collection)}
+          >
+            <Text>🗑️</Text>
+          </TouchableOpacity>
+        )}
       </View>
+    );
+  };
+
+  const renderFavorite = ({ item }: { item: Favorite }) => {
+    const visited = item.visitStatus === 'visited';
+    const isEditingNote = editingNote?.id === item.id;
+
+    return (
       <TouchableOpacity
-        style={styles.favoriteButton}
-        onPress={(e) => {
-          e?.stopPropagation?.();
-          toggleFavorite(item);
-        }}
+        style={styles.card}
+        onPress={() => navigation.navigate('WebView', { name: item.name })}
       >
-        <Text style={styles.favoriteIcon}>❤️</Text>
+        <View style={styles.cardRow}>
+          <View style={styles.info}>
+            <Text style={styles.name}>{item.name}</Text>
+            <Text style={styles.type}>{formatAttractionType(item.type, t)}</Text>
+            <Text style={styles.rating}>⭐ {item.rating.toFixed(1)}</Text>
+            {!!location && (
+              <Text style={styles.distance} testID={`favorite-distance-${item.id}`}>
+                📍 {formatDistance(item.distance, i18n.language)}
+              </Text>
+            )}
+          </View>
+          <TouchableOpacity
+            style={styles.favoriteButton}
+            onPress={(e) => {
+              e?.stopPropagation?.();
+              toggleFavorite(item);
+            }}
+          >
+            <Text style={styles.favoriteIcon}>❤️</Text>
+          </TouchableOpacity>
+        </View>
+
+        {isEditingNote ? (
+          <TextInput
+            testID={`note-input-${item.id}`}
+            style={styles.input}
+            value={editingNote.note}
+            placeholder={t('notePlaceholder')}
+            onChangeText={note => setEditingNote({ id: item.id, note })}
+            onSubmitEditing={handleSaveNote}
+            onBlur={handleSaveNote}
+            autoFocus
+          />
+        ) : (
+          !!item.note && <Text style={styles.note}>📝 {item.note}</Text>
+        )}
+
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            testID={`visit-status-${item.id}`}
+            style={[styles.chip, visited && styles.chipActive]}
+            onPress={() => updateFavorite(item.id, { visitStatus: visited ? 'planned' : 'visited' })}
+          >
+            <Text style={[styles.chipText, visited && styles.chipTextActive]}>
+              {visited
+                ? `✅ ${item.visitedAt
+                  ? t('visitedOn', { date: new Date(item.visitedAt).toLocaleDateString(i18n.language) })
+                  : t('visitVisited')}`
+                : `📌 ${t('visitPlanned')}`}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            testID={`edit-note-${item.id}`}
+            style={styles.chip}
+            onPress={() => setEditingNote({ id: item.id, note: item.note || '' })}
+          >
+            <Text style={styles.chipText}>📝 {t('addNote')}</Text>
+          </TouchableOpacity>
+          {collections.length > 1 && (
+            <TouchableOpacity
+              testID={`move-favorite-${item.id}`}
+              style={styles.chip}
+              onPress={() => setMovingId(movingId === item.id ? null : item.id)}
+            >
+              <Text style={styles.chipText}>📂 {t('moveTo')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {movingId === item.id && (
+          <View style={styles.actionRow}>
+            {collections
+              .filter(collection => collection.id !== (item.collectionId ?? FAVORITES_CONFIG.DEFAULT_COLLECTION_ID))
+              .map(collection => (
+                <TouchableOpacity
+                  key={collection.id}
+                  testID={`move-to-${item.id}-${collection.id}`}
+                  style={styles.chip}
+                  onPress={() => {
+                    moveFavorite(item.id, collection.id);
+                    setMovingId(null);
+                  }}
+                >
+                  <Text style={styles.chipText}>{getCollectionName(collection)}</Text>
+                </TouchableOpacity>
+              ))}
+          </View>
+        )}
       </TouchableOpacity>
-    </TouchableOpacity>
-  );
+    );
+  };
 
   return (
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>{t('favorites')}</Text>
         <Text style={styles.count}>{favorites.length} {favorites.length === 1 ? 'Favorit' : 'Favoriten'}</Text>
+        {favorites.length > 1 && (
+          <TouchableOpacity
+            testID="plan-trip-button"
+            style={styles.planTripButton}
+            onPress={() => navigation.navigate('Itinerary', { attractions: favorites })}
+          >
+            <Text style={styles.planTripButtonText}>🧭 {t('planTrip')}</Text>
+          </TouchableOpacity>
+        )}
+        <View style={styles.actionRow}>
+          {favorites.length > 0 && (
+            <TouchableOpacity
+              testID="export-favorites-button"
+              style={[styles.chip, exporting && styles.chipActive]}
+              onPress={() => setExporting(!exporting)}
+            >
+              <Text style={[styles.chipText, exporting && styles.chipTextActive]}>
+                📤 {t('exportFavorites')}
+              </Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            testID="import-favorites-button"
+            style={[styles.chip, importing && styles.buttonDisabled]}
+            onPress={handleImport}
+            disabled={importing}
+          >
+            <Text style={styles.chipText}>📥 {t('importFavorites')}</Text>
+          </TouchableOpacity>
+        </View>
+        {exporting && (
+          <View style={styles.actionRow}>
+            {FILE_FORMATS.map(({ format, label }) => (
+              <TouchableOpacity
+                key={format}
+                testID={`export-format-${format}`}
+                style={styles.chip}
+                onPress={() => handleExport(format)}
+              >
+                <Text style={styles.chipText}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        {favorites.length > 0 && (
+          <>
+            <TextInput
+              testID="favorites-search-input"
+              style={[styles.input, styles.searchInput]}
+              value={query}
+              placeholder={t('searchFavoritesPlaceholder')}
+              onChangeText={setQuery}
+              clearButtonMode="while-editing"
+            />
+            <View style={styles.actionRow}>
+              <Text style={styles.sortLabel}>↕️ {t('sortBy')}</Text>
+              {sortOptions.map(renderSortOption)}
+            </View>
+          </>
+        )}
+        <View style={styles.createRow}>
+          <TextInput
+            testID="new-collection-input"
+            style={[styles.input, styles.createInput]}
+            value={newCollectionName}
+            placeholder={t('newCollectionPlaceholder')}
+            onChangeText={setNewCollectionName}
+            onSubmitEditing={handleCreateCollection}
+            maxLength={FAVORITES_CONFIG.MAX_COLLECTION_NAME_LENGTH}
+          />
+          <TouchableOpacity
+            testID="create-collection-button"
+            style={[styles.planTripButton, styles.createButton]}
+            onPress={handleCreateCollection}
+          >
+            <Text style={styles.planTripButtonText}>＋ {t('createCollection')}</Text>
+          </TouchableOpacity>
+        </View>
       </View>
-      <FlatList
-        data={favorites}
+      <SectionList
+        sections={sections}
         renderItem={renderFavorite}
+        renderSectionHeader={renderSectionHeader}
         keyExtractor={(item) => item.id.toString()}
+        stickySectionHeadersEnabled={false}
         ListEmptyComponent={
-          <Text style={styles.emptyText}>{t('noFavoritesSaved')}</Text>
+          <Text style={styles.emptyText}>{t(searching ? 'noMatchingFavorites' : 'noFavoritesSaved')}</Text>
         }
       />
     </View>
@@ -75,8 +460,72 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
-  card: {
+  planTripButton: {
+    marginTop: 12,
+    backgroundColor: '#007AFF',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    alignSelf: 'flex-start',
+  },
+  planTripButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  searchInput: {
+    marginTop: 12,
+  },
+  sortLabel: {
+    fontSize: 13,
+    color: '#666',
+    alignSelf: 'center',
+  },
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    gap: 8,
+  },
+  createInput: {
+    flex: 1,
+  },
+  createButton: {
+    marginTop: 0,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: '#333',
+    backgroundColor: '#fff',
+  },
+  sectionHeader: {
     flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sectionInput: {
+    flex: 1,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  card: {
     backgroundColor: '#fff',
     marginHorizontal: 16,
     marginVertical: 8,
@@ -88,6 +537,9 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  cardRow: {
+    flexDirection: 'row',
+  },
   info: {
     flex: 1,
   },
@@ -107,6 +559,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  distance: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
   favoriteButton: {
     justifyContent: 'center',
     padding: 4,
@@ -114,6 +571,35 @@ const styles = StyleSheet.create({
   favoriteIcon: {
     fontSize: 24,
   },
+  note: {
+    fontSize: 14,
+    color: '#555',
+    marginTop: 8,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
   emptyText: {
     textAlign: 'center',
     marginTop: 50,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -11,53 +11,188 @@ import {
   Alert,
   Linking,
   Platform,
+  ScrollView,
+  Share,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useTranslation } from 'react-i18next';
+import Toast from 'react-native-toast-message';
 
-import { Attraction, Coordinates, MapData, SearchResult } from '../types';
+import {
+  Attraction,
+  AttractionSortKey,
+  CityInfo,
+  Coordinates,
+  MapData,
+  ProximityAlert,
+  RadiusSetting,
+  SearchResult,
+  TravelMode,
+} from '../types';
 import { RootStackParamList } from '../types/navigation';
-import { useLocation, useFavorites, useAttractions } from '../hooks';
+import {
+  useLocation,
+  useFavorites,
+  useAttractions,
+  useListOptions,
+  useRouteEstimates,
+  useVisitTracking,
+  useProximityAlerts,
+  useWalkingTour,
+} from '../hooks';
 import LocationSearchBar from '../components/LocationSearchBar';
 import { locationService, storageService } from '../services';
-import { STORAGE_KEYS, APP_CONFIG } from '../constants';
+import { STORAGE_KEYS, APP_CONFIG, RADIUS_CONFIG, LIST_OPTIONS_CONFIG } from '../constants';
+import { getOpeningStatus, OpeningStatus } from '../utils/openingHours';
+import { formatAttractionType } from '../utils/attractionTypes';
+import { applyListOptions, getAttractionTypeCounts, hasActiveFilters } from '../utils/attractionList';
+import { formatDistance, formatDuration, TRAVEL_MODE_ICONS } from '../utils/routing';
 
 type HomeScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
+const SORT_LABEL_KEYS: Record<AttractionSortKey, string> = {
+  distance: 'sortDistance',
+  match: 'sortMatch',
+  rating: 'sortRating',
+  name: 'sortName',
+};
+
 const HomeScreen: React.FC = () => {
   const navigation = useNavigation<HomeScreenNavigationProp>();
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   
   const [refreshing, setRefreshing] = useState(false);
   const [selectedSearchLocation, setSelectedSearchLocation] = useState<Coordinates | null>(null);
   const [selectedCityInfo, setSelectedCityInfo] = useState<any>(null);
   const [isRefreshingGPS, setIsRefreshingGPS] = useState(false);
+  const [openNowOnly, setOpenNowOnly] = useState(false);
+  const [radiusSetting, setRadiusSetting] = useState<RadiusSetting>('auto');
+  const [travelMode, setTravelMode] = useState<TravelMode>('walking');
+  const languageRef = useRef(i18n.language);
   
-  const { location, cityInfo, loading: locationLoading, error: locationError, gpsStatus, refreshLocation } = useLocation(true);
-  const { favoriteIds, toggleFavorite } = useFavorites();
-  const { attractions, loading: attractionsLoading, loadAttractions } = useAttractions();
+  const walkingTour = useWalkingTour();
+  const {
+    location,
+    areaLocation,
+    cityInfo,
+    loading: locationLoading,
+    error: locationError,
+    gpsStatus,
+    refreshLocation,
+  } = useLocation(true, walkingTour.enabled);
+  const { favorites, favoriteIds, toggleFavorite } = useFavorites();
+  // Favorites within reach of the GPS position count as visited
+  useVisitTracking(location, visited => {
+    Toast.show({
+      type: 'success',
+      text1: t('visitRecorded', { names: visited.map(favorite => favorite.name).join(', ') }),
+    });
+  });
+  const {
+    attractions,
+    radius,
+    loading: attractionsLoading,
+    loadingMore,
+    hasMore,
+    loadAttractions,
+    loadMoreAttractions,
+  } = useAttractions();
+  const { listOptions, updateListOptions, toggleType, clearFilters } = useListOptions();
+  // Alerts are about the GPS position, not a searched location
+  useProximityAlerts(location, favorites, attractions, ([closest, ...others]: ProximityAlert[]) => {
+    const { attraction, reason, distance } = closest;
+    Toast.show({
+      type: 'info',
+      text1: t(reason === 'favorite' ? 'proximityFavorite' : 'proximityHighMatch', { name: attraction.name }),
+      text2: [
+        t('proximityDistance', { distance: formatDistance(distance, i18n.language) }),
+        ...(others.length > 0
+          ? [t('proximityAlsoNearby', { names: others.map(other => other.attraction.name).join(', ') })]
+          : []),
+      ].join(' · '),
+      onPress: () => {
+        Toast.hide();
+        navigation.navigate('Details', {
+          location: attraction.name,
+          coordinates: { latitude: attraction.latitude, longitude: attraction.longitude },
+          attraction,
+        });
+      },
+    });
+  });
+
+  // Evaluated once per result set; attractions without parseable hours have no status.
+  // There is no holiday calendar, so PH rules are ignored and holidays count as usual days.
+  const openingStatusById = useMemo(() => {
+    const statusById = new Map<Attraction['id'], OpeningStatus>();
+    const options = { scanDays: LIST_OPTIONS_CONFIG.OPENING_STATUS_DAYS };
+    attractions.forEach(attraction => {
+      const status = attraction.openingHours && getOpeningStatus(attraction.openingHours, new Date(), options);
+      if (status) statusById.set(attraction.id, status);
+    });
+    return statusById;
+  }, [attractions]);
+
+  const visibleAttractions = useMemo(() => {
+    const filtered = openNowOnly
+      ? attractions.filter(attraction => openingStatusById.get(attraction.id)?.isOpen)
+      : attractions;
+    return applyListOptions(filtered, listOptions, favoriteIds);
+  }, [attractions, openNowOnly, openingStatusById, listOptions, favoriteIds]);
+
+  // Selected types stay listed so they can be deselected after moving elsewhere
+  const typeOptions = useMemo(() => {
+    const present = getAttractionTypeCounts(attractions).map(([type]) => type);
+    return [...listOptions.types.filter(type => !present.includes(type)), ...present];
+  }, [attractions, listOptions.types]);
+
+  const hasScores = attractions.some(attraction => attraction.interestScore !== undefined);
 
+  const { estimates: routeEstimates } = useRouteEstimates(
+    selectedSearchLocation || areaLocation,
+    visibleAttractions,
+    travelMode
+  );
+
+  // Walking tours update the position every few meters; attractions only follow larger moves
+  const gpsReady = gpsStatus !== 'SEARCHING';
   useEffect(() => {
-    const effectiveLocation = selectedSearchLocation || location;
+    const effectiveLocation = selectedSearchLocation || areaLocation;
     // Load attractions if we have a valid location from manual selection OR GPS is ready
-    if (effectiveLocation && (selectedSearchLocation || gpsStatus !== 'SEARCHING')) {
-      loadAttractions(effectiveLocation);
-      saveMapData(effectiveLocation, attractions);
+    if (effectiveLocation && (selectedSearchLocation || gpsReady)) {
+      loadAttractions(effectiveLocation, radiusSetting);
+      saveMapData(effectiveLocation, visibleAttractions);
     }
-  }, [location, selectedSearchLocation, gpsStatus]);
+  }, [areaLocation, selectedSearchLocation, gpsReady, radiusSetting]);
 
+  // A searched place is named in the new language, like the GPS city
   useEffect(() => {
-    if (attractions.length > 0 && location) {
-      saveMapData(location, attractions);
+    if (languageRef.current === i18n.language) return;
+    languageRef.current = i18n.language;
+    if (!selectedSearchLocation) return;
+
+    locationService.reverseGeocode(selectedSearchLocation).then(city => {
+      if (city) {
+        setSelectedCityInfo((current: CityInfo | null) => (current ? { ...city, ...selectedSearchLocation } : current));
+      }
+    });
+  }, [i18n.language, selectedSearchLocation]);
+
+  // The map shows the same filtered selection as the list, around the same place
+  useEffect(() => {
+    const effectiveLocation = selectedSearchLocation || areaLocation;
+    if (attractions.length > 0 && effectiveLocation) {
+      saveMapData(effectiveLocation, visibleAttractions);
     }
-  }, [attractions]);
+  }, [visibleAttractions, radius, selectedSearchLocation, areaLocation]);
 
   const saveMapData = async (coords: Coordinates, attractionsList: Attraction[]) => {
     const mapData: MapData = {
       location: coords,
       attractions: attractionsList,
       useGPS: !selectedSearchLocation, // true if using GPS, false if search result
+      radius: radius ?? undefined,
     };
     await storageService.set(STORAGE_KEYS.MAP_DATA, mapData);
   };
@@ -72,13 +207,21 @@ const HomeScreen: React.FC = () => {
       
       setSelectedSearchLocation(coords);
       setSelectedCityInfo(cityInfoData);
-      await loadAttractions(coords);
-      saveMapData(coords, attractions);
+      await loadAttractions(coords, radiusSetting);
+      saveMapData(coords, visibleAttractions);
     } catch (error) {
       Alert.alert(t('error'), t('locationSearchError'));
     }
   };
 
+  const handleSelectAttraction = (attraction: Attraction) => {
+    navigation.navigate('Details', {
+      location: attraction.name,
+      coordinates: { latitude: attraction.latitude, longitude: attraction.longitude },
+      attraction,
+    });
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     setSelectedSearchLocation(null); // Clear search selection
@@ -105,6 +248,16 @@ const HomeScreen: React.FC = () => {
     }
   };
 
+  const handleShareTrack = async () => {
+    try {
+      const gpx = await walkingTour.exportTrack(t('walkingTour'));
+      await Share.share({ title: t('walkingTour'), message: gpx });
+    } catch (error) {
+      console.error('Error sharing track:', error);
+      Alert.alert(t('errorTitle'), t('shareFailed'));
+    }
+  };
+
   const openInMaps = (item: Attraction) => {
     const { latitude, longitude, name } = item;
     const label = encodeURIComponent(name);
@@ -132,6 +285,129 @@ const HomeScreen: React.FC = () => {
       });
   };
 
+  const formatRadius = (meters: number) =>
+    meters >= 1000 ? `${meters / 1000} km` : `${meters} m`;
+
+  const renderRadiusOption = (option: RadiusSetting) => {
+    const selected = radiusSetting === option;
+    let label: string;
+    if (option === 'auto') {
+      label = selected && radius ? `${t('radiusAuto')} (${formatRadius(radius)})` : t('radiusAuto');
+    } else {
+      label = formatRadius(option);
+    }
+
+    return (
+      <TouchableOpacity
+        key={option}
+        testID={`radius-option-${option}`}
+        style={[styles.filterChip, selected && styles.filterChipActive]}
+        onPress={() => setRadiusSetting(option)}
+      >
+        <Text style={[styles.filterChipText, selected && styles.filterChipTextActive]}>{label}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderTravelModeOption = (mode: TravelMode) => {
+    const selected = travelMode === mode;
+    return (
+      <TouchableOpacity
+        key={mode}
+        testID={`travel-mode-${mode}`}
+        style={[styles.filterChip, selected && styles.filterChipActive]}
+        onPress={() => setTravelMode(mode)}
+      >
+        <Text style={[styles.filterChipText, selected && styles.filterChipTextActive]}>
+          {TRAVEL_MODE_ICONS[mode]} {t(`travelModes.${mode}`)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  // Route time and distance once estimated, the straight-line distance until then
+  const renderDistance = (item: Attraction) => {
+    const estimate = routeEstimates.get(item.id);
+    if (!estimate) {
+      return `${t('distance')}: ${formatDistance(item.distance, i18n.language)}`;
+    }
+    const approximate = estimate.estimated ? '~' : '';
+    return `${TRAVEL_MODE_ICONS[travelMode]} ${approximate}${formatDuration(estimate.duration)} · ${approximate}${formatDistance(estimate.distance, i18n.language)}`;
+  };
+
+  const renderSortOption = (sortBy: AttractionSortKey) => {
+    const selected = listOptions.sortBy === sortBy;
+    return (
+      <TouchableOpacity
+        key={sortBy}
+        testID={`sort-option-${sortBy}`}
+        style={[styles.filterChip, selected && styles.filterChipActive]}
+        onPress={() => updateListOptions({ sortBy })}
+      >
+        <Text style={[styles.filterChipText, selected && styles.filterChipTextActive]}>
+          {t(SORT_LABEL_KEYS[sortBy])}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderMatchScoreOption = (score: number) => {
+    const selected = listOptions.minMatchScore === score;
+    return (
+      <TouchableOpacity
+        key={score}
+        testID={`match-filter-${score}`}
+        style={[styles.filterChip, selected && styles.filterChipActive]}
+        onPress={() => updateListOptions({ minMatchScore: selected ? 0 : score })}
+      >
+        <Text style={[styles.filterChipText, selected && styles.filterChipTextActive]}>
+          ✨ {t('minMatchScore', { score })}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderTypeOption = (type: string) => {
+    const selected = listOptions.types.includes(type);
+    return (
+      <TouchableOpacity
+        key={type}
+        testID={`type-filter-${type}`}
+        style={[styles.filterChip, selected && styles.filterChipActive]}
+        onPress={() => toggleType(type)}
+      >
+        <Text style={[styles.filterChipText, selected && styles.filterChipTextActive]}>
+          {formatAttractionType(type, t)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const formatNextChange = (date: Date) => {
+    const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    if (date.toDateString() === new Date().toDateString()) {
+      return time;
+    }
+    return `${date.toLocaleDateString([], { weekday: 'short' })} ${time}`;
+  };
+
+  const renderOpeningStatus = (item: Attraction) => {
+    const status = openingStatusById.get(item.id);
+    if (!status) return null;
+
+    const nextChange = status.isOpen ? status.nextClose : status.nextOpen;
+    return (
+      <Text
+        testID={`opening-status-${item.id}`}
+        style={[styles.openingStatus, status.isOpen ? styles.openNow : styles.closedNow]}
+      >
+        {status.isOpen ? t('openNow') : t('closedNow')}
+        {nextChange &&
+          ` · ${t(status.isOpen ? 'closesAt' : 'opensAt', { time: formatNextChange(nextChange) })}`}
+      </Text>
+    );
+  };
+
   const renderAttraction = ({ item }: { item: Attraction }) => (
     <TouchableOpacity
       style={[
@@ -152,9 +428,10 @@ const HomeScreen: React.FC = () => {
         {item.interestReason && item.interestScore && item.interestScore >= APP_CONFIG.MIN_INTEREST_SCORE && (
           <Text style={styles.interestReason}>💡 {item.interestReason}</Text>
         )}
-        <Text style={styles.attractionType}>{item.type}</Text>
-        <Text style={styles.attractionDistance}>
-          {t('distance')}: {item.distance}m
+        <Text style={styles.attractionType}>{formatAttractionType(item.type, t)}</Text>
+        {renderOpeningStatus(item)}
+        <Text style={styles.attractionDistance} testID={`route-estimate-${item.id}`}>
+          {renderDistance(item)}
         </Text>
         <TouchableOpacity
           style={styles.routeButton}
@@ -165,6 +442,20 @@ const HomeScreen: React.FC = () => {
         >
           <Text style={styles.routeButtonText}>🗺️ Route</Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.detailsButton}
+          testID={`details-button-${item.id}`}
+          onPress={(e) => {
+            e?.stopPropagation?.();
+            navigation.navigate('Details', {
+              location: item.name,
+              coordinates: { latitude: item.latitude, longitude: item.longitude },
+              attraction: item,
+            });
+          }}
+        >
+          <Text style={styles.detailsButtonText}>ℹ️ {t('viewDetails')}</Text>
+        </TouchableOpacity>
       </View>
       <View style={styles.ratingContainer}>
         {item.interestScore && (
@@ -191,6 +482,12 @@ const HomeScreen: React.FC = () => {
 
   const loading = locationLoading || attractionsLoading;
 
+  const handleEndReached = () => {
+    if (!loading && hasMore) {
+      loadMoreAttractions();
+    }
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.searchContainer}>
@@ -198,7 +495,9 @@ const HomeScreen: React.FC = () => {
           <View style={styles.searchBarWrapper}>
             <LocationSearchBar 
               onSelectLocation={handleSelectLocation}
-              placeholder={t('searchLocationPlaceholder')}
+              onSelectAttraction={handleSelectAttraction}
+              attractions={attractions}
+              placeholder={t('searchPlaceholder')}
             />
           </View>
           <TouchableOpacity
@@ -220,7 +519,39 @@ const HomeScreen: React.FC = () => {
       </View>
 
       <View style={styles.headerContainer}>
-        <Text style={styles.headerTitle}>{t('nearbyAttractions')}</Text>
+        <View style={styles.headerRow}>
+          <Text style={styles.headerTitle}>{t('nearbyAttractions')}</Text>
+          {visibleAttractions.length > 1 && (
+            <TouchableOpacity
+              testID="plan-trip-button"
+              style={styles.planTripButton}
+              onPress={() =>
+                navigation.navigate('Itinerary', {
+                  attractions: visibleAttractions,
+                  origin: selectedSearchLocation || location || undefined,
+                })
+              }
+            >
+              <Text style={styles.planTripButtonText}>🧭 {t('planTrip')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <View style={styles.walkingTourRow}>
+          <TouchableOpacity
+            testID="walking-tour-button"
+            style={[styles.filterChip, walkingTour.enabled && styles.filterChipActive]}
+            onPress={() => walkingTour.setEnabled(!walkingTour.enabled)}
+          >
+            <Text style={[styles.filterChipText, walkingTour.enabled && styles.filterChipTextActive]}>
+              🚶 {t(walkingTour.enabled ? 'walkingTourOn' : 'walkingTour')}
+            </Text>
+          </TouchableOpacity>
+          {walkingTour.enabled && (
+            <TouchableOpacity testID="share-track-button" style={styles.filterChip} onPress={handleShareTrack}>
+              <Text style={styles.filterChipText}>📤 {t('shareTrack')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
         {(selectedCityInfo || cityInfo) && (() => {
           const displayCityInfo = selectedCityInfo || cityInfo;
           return (
@@ -252,6 +583,72 @@ const HomeScreen: React.FC = () => {
         )}
       </View>
 
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.optionRow}
+        contentContainerStyle={styles.optionRowContent}
+      >
+        <TouchableOpacity
+          testID="open-now-filter"
+          style={[styles.filterChip, openNowOnly && styles.filterChipActive]}
+          onPress={() => setOpenNowOnly(value => !value)}
+        >
+          <Text style={[styles.filterChipText, openNowOnly && styles.filterChipTextActive]}>
+            🕒 {t('openNow')}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          testID="favorites-filter"
+          style={[styles.filterChip, listOptions.favoritesOnly && styles.filterChipActive]}
+          onPress={() => updateListOptions(current => ({ favoritesOnly: !current.favoritesOnly }))}
+        >
+          <Text style={[styles.filterChipText, listOptions.favoritesOnly && styles.filterChipTextActive]}>
+            ❤️ {t('favoritesOnly')}
+          </Text>
+        </TouchableOpacity>
+        {(hasScores || listOptions.minMatchScore > 0) &&
+          LIST_OPTIONS_CONFIG.MATCH_SCORE_OPTIONS.map(renderMatchScoreOption)}
+        {hasActiveFilters(listOptions) && (
+          <TouchableOpacity testID="clear-filters" onPress={clearFilters}>
+            <Text style={styles.clearFiltersText}>✕ {t('clearFilters')}</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      {typeOptions.length > 1 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.optionRow}
+          contentContainerStyle={styles.optionRowContent}
+        >
+          {typeOptions.map(renderTypeOption)}
+        </ScrollView>
+      )}
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.optionRow}
+        contentContainerStyle={styles.optionRowContent}
+      >
+        <Text style={styles.optionLabel}>🧭 {t('travelMode')}</Text>
+        {(Object.keys(TRAVEL_MODE_ICONS) as TravelMode[]).map(renderTravelModeOption)}
+        <Text style={styles.optionLabel}>↕️ {t('sortBy')}</Text>
+        {LIST_OPTIONS_CONFIG.SORT_KEYS.map(renderSortOption)}
+      </ScrollView>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.optionRow}
+        contentContainerStyle={styles.optionRowContent}
+      >
+        <Text style={styles.optionLabel}>📏 {t('searchRadius')}</Text>
+        {(['auto', ...RADIUS_CONFIG.OPTIONS] as RadiusSetting[]).map(renderRadiusOption)}
+      </ScrollView>
+
       {locationError && (
         <View style={styles.errorContainer}>
           <Text style={styles.errorText}>⚠️ {locationError}</Text>
@@ -263,14 +660,27 @@ const HomeScreen: React.FC = () => {
       ) : (
         <FlatList
           testID="attractions-list"
-          data={attractions}
+          data={visibleAttractions}
           renderItem={renderAttraction}
           keyExtractor={(item) => item.id.toString()}
           refreshControl={
             <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
           }
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            loadingMore ? (
+              <ActivityIndicator testID="load-more-indicator" color="#007AFF" style={styles.loadMoreIndicator} />
+            ) : null
+          }
           ListEmptyComponent={
-            <Text style={styles.emptyText}>{t('noAttractionsFound')}</Text>
+            <Text style={styles.emptyText}>
+              {attractions.length === 0
+                ? t('noAttractionsFound')
+                : hasActiveFilters(listOptions)
+                  ? t('noMatchingAttractions')
+                  : t('noOpenAttractions')}
+            </Text>
           }
         />
       )}
@@ -319,11 +729,68 @@ const styles = StyleSheet.create({
     padding: 16,
     backgroundColor: '#fff',
   },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
   headerTitle: {
     fontSize: 24,
     fontWeight: 'bold',
     color: '#333',
   },
+  walkingTourRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  planTripButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+  },
+  planTripButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  filterChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  filterChipActive: {
+    backgroundColor: '#007AFF',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  filterChipTextActive: {
+    color: '#fff',
+  },
+  clearFiltersText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  optionRow: {
+    flexGrow: 0,
+    backgroundColor: '#fff',
+  },
+  optionRowContent: {
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  optionLabel: {
+    fontSize: 13,
+    color: '#666',
+  },
   locationText: {
     fontSize: 14,
     color: '#666',
@@ -422,6 +889,17 @@ const styles = StyleSheet.create({
     marginBottom: 4,
     textTransform: 'capitalize',
   },
+  openingStatus: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  openNow: {
+    color: '#2E7D32',
+  },
+  closedNow: {
+    color: '#C62828',
+  },
   attractionDistance: {
     fontSize: 14,
     color: '#999',
@@ -440,6 +918,20 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
+  detailsButton: {
+    marginTop: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignSelf: 'flex-start',
+  },
+  detailsButtonText: {
+    color: '#007AFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   ratingContainer: {
     justifyContent: 'center',
     alignItems: 'center',
@@ -473,6 +965,9 @@ const styles = StyleSheet.create({
   favoriteIcon: {
     fontSize: 24,
   },
+  loadMoreIndicator: {
+    marginVertical: 16,
+  },
   loader: {
     marginTop: 50,
   },
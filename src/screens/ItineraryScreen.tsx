@@ -0,0 +1,346 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Linking,
+  Share,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { RouteProp } from '@react-navigation/native';
+import { RootStackParamList } from '../types/navigation';
+import { Attraction, Coordinates, TravelMode } from '../types';
+import { locationService } from '../services';
+import { ITINERARY_CONFIG } from '../constants';
+import { planItinerary } from '../utils/itinerary';
+import { buildAppleMapsUrl, buildGoogleMapsUrl, buildItineraryGpx } from '../utils/itineraryExport';
+import { formatDistance, formatDuration, TRAVEL_MODE_ICONS } from '../utils/routing';
+import { formatAttractionType } from '../utils/attractionTypes';
+
+type ItineraryScreenRouteProp = RouteProp<RootStackParamList, 'Itinerary'>;
+
+interface Props {
+  route: ItineraryScreenRouteProp;
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export default function ItineraryScreen({ route }: Props) {
+  const { attractions: candidates, origin: initialOrigin } = route.params;
+  const { t, i18n } = useTranslation();
+  const [origin, setOrigin] = useState<Coordinates | null>(initialOrigin ?? null);
+  const [locating, setLocating] = useState(!initialOrigin);
+  const [selectedIds, setSelectedIds] = useState(
+    () => new Set(candidates.slice(0, ITINERARY_CONFIG.MAX_STOPS).map(attraction => attraction.id))
+  );
+  const [timeBudget, setTimeBudget] = useState<number>(ITINERARY_CONFIG.DEFAULT_TIME_BUDGET);
+  const [travelMode, setTravelMode] = useState<TravelMode>('walking');
+  // Plan from when the screen was opened so the schedule doesn't shift while editing
+  const [start] = useState(() => new Date());
+
+  useEffect(() => {
+    if (initialOrigin) return;
+
+    locationService.getCurrentLocation().then(current => {
+      if (current) {
+        setOrigin({ latitude: current.coords.latitude, longitude: current.coords.longitude });
+      }
+      setLocating(false);
+    });
+  }, [initialOrigin]);
+
+  const selected = candidates.filter(attraction => selectedIds.has(attraction.id));
+  // Without a position the trip starts at the first selected stop
+  const startPoint = origin ?? selected[0] ?? null;
+
+  const itinerary = useMemo(
+    () => (startPoint ? planItinerary(startPoint, selected, { start, timeBudget, mode: travelMode }) : null),
+    [startPoint?.latitude, startPoint?.longitude, selectedIds, start, timeBudget, travelMode]
+  );
+
+  const toggleStop = (attraction: Attraction) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(attraction.id)) {
+        next.delete(attraction.id);
+      } else if (next.size < ITINERARY_CONFIG.MAX_STOPS) {
+        next.add(attraction.id);
+      }
+      return next;
+    });
+  };
+
+  const openUrl = (url: string | null) => {
+    if (!url) return;
+    Linking.openURL(url).catch(() => {
+      Alert.alert(t('errorTitle'), t('routePlannerError'));
+    });
+  };
+
+  const shareGpx = async () => {
+    if (!itinerary) return;
+    try {
+      await Share.share({ title: t('itinerary'), message: buildItineraryGpx(itinerary, t('itinerary')) });
+    } catch (error) {
+      console.error('Error sharing itinerary:', error);
+      Alert.alert(t('errorTitle'), t('shareFailed'));
+    }
+  };
+
+  const renderChip = (key: string, label: string, selectedChip: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      testID={key}
+      style={[styles.chip, selectedChip && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selectedChip && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  if (locating) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator testID="itinerary-locating" size="large" color="#007AFF" />
+        <Text style={styles.hint}>{t('locatingStart')}</Text>
+      </View>
+    );
+  }
+
+  const hasStops = !!itinerary && itinerary.stops.length > 0;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.optionRow}>
+        <Text style={styles.optionLabel}>⏱️ {t('timeBudget')}</Text>
+        {ITINERARY_CONFIG.TIME_BUDGETS.map(budget =>
+          renderChip(`time-budget-${budget}`, formatDuration(budget), timeBudget === budget, () => setTimeBudget(budget))
+        )}
+      </View>
+      <View style={styles.optionRow}>
+        {(Object.keys(TRAVEL_MODE_ICONS) as TravelMode[]).map(mode =>
+          renderChip(
+            `itinerary-mode-${mode}`,
+            `${TRAVEL_MODE_ICONS[mode]} ${t(`travelModes.${mode}`)}`,
+            travelMode === mode,
+            () => setTravelMode(mode)
+          )
+        )}
+      </View>
+
+      {hasStops ? (
+        <View style={styles.section}>
+          <Text style={styles.summary} testID="itinerary-summary">
+            {t('itinerarySummary', {
+              stops: itinerary.stops.length,
+              duration: formatDuration(itinerary.totalDuration),
+              distance: formatDistance(itinerary.totalDistance, i18n.language),
+            })}
+          </Text>
+          {itinerary.stops.map((stop, index) => (
+            <View key={stop.attraction.id} style={styles.stop} testID={`itinerary-stop-${index}`}>
+              <Text style={styles.stopNumber}>{index + 1}</Text>
+              <View style={styles.stopInfo}>
+                <Text style={styles.stopName}>{stop.attraction.name}</Text>
+                <Text style={styles.stopDetails}>
+                  {formatTime(stop.arrival)}–{formatTime(stop.departure)} · {TRAVEL_MODE_ICONS[travelMode]}{' '}
+                  {formatDuration(stop.legDuration)}
+                </Text>
+              </View>
+            </View>
+          ))}
+          <View style={styles.exportRow}>
+            <TouchableOpacity
+              testID="export-google-maps"
+              style={styles.exportButton}
+              onPress={() => openUrl(buildGoogleMapsUrl(startPoint!, itinerary, travelMode))}
+            >
+              <Text style={styles.exportButtonText}>🗺️ {t('openInGoogleMaps')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              testID="export-apple-maps"
+              style={styles.exportButton}
+              onPress={() => openUrl(buildAppleMapsUrl(startPoint!, itinerary, travelMode))}
+            >
+              <Text style={styles.exportButtonText}>🍎 {t('openInAppleMaps')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity testID="export-gpx" style={styles.exportButton} onPress={shareGpx}>
+              <Text style={styles.exportButtonText}>📤 {t('shareGpx')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <Text style={styles.hint}>{t('itineraryEmpty')}</Text>
+      )}
+
+      {!!itinerary && itinerary.skipped.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('itinerarySkipped')}</Text>
+          {itinerary.skipped.map(({ attraction, reason }) => (
+            <Text key={attraction.id} style={styles.skipped} testID={`itinerary-skipped-${attraction.id}`}>
+              {attraction.name} · {t(reason === 'closed' ? 'skippedClosed' : 'skippedTimeBudget')}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>
+          {t('itineraryCandidates', { max: ITINERARY_CONFIG.MAX_STOPS })}
+        </Text>
+        {candidates.map(attraction => {
+          const isSelected = selectedIds.has(attraction.id);
+          return (
+            <TouchableOpacity
+              key={attraction.id}
+              testID={`itinerary-candidate-${attraction.id}`}
+              style={styles.candidate}
+              onPress={() => toggleStop(attraction)}
+            >
+              <Text style={styles.checkbox}>{isSelected ? '✅' : '⬜'}</Text>
+              <View style={styles.stopInfo}>
+                <Text style={styles.stopName}>{attraction.name}</Text>
+                <Text style={styles.stopDetails}>{formatAttractionType(attraction.type, t)}</Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    paddingVertical: 8,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  optionLabel: {
+    fontSize: 13,
+    color: '#666',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  section: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginVertical: 8,
+    padding: 16,
+    borderRadius: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  summary: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginBottom: 12,
+  },
+  stop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  stopNumber: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#007AFF',
+    color: '#fff',
+    fontWeight: 'bold',
+    textAlign: 'center',
+    lineHeight: 28,
+    marginRight: 12,
+  },
+  stopInfo: {
+    flex: 1,
+  },
+  stopName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  stopDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  exportButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+  },
+  exportButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  skipped: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 4,
+  },
+  candidate: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  checkbox: {
+    fontSize: 18,
+    marginRight: 12,
+  },
+  hint: {
+    textAlign: 'center',
+    marginVertical: 24,
+    fontSize: 15,
+    color: '#999',
+  },
+});
@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { RouteProp } from '@react-navigation/native';
+import { RootStackParamList } from '../types/navigation';
+import { Favorite } from '../types';
+import { useFavorites } from '../hooks';
+import { FAVORITES_CONFIG } from '../constants';
+import { buildJournal } from '../utils/journal';
+
+type JournalScreenRouteProp = RouteProp<RootStackParamList, 'Journal'>;
+
+interface Props {
+  route: JournalScreenRouteProp;
+}
+
+const RATING_STEPS = Array.from({ length: FAVORITES_CONFIG.MAX_PERSONAL_RATING }, (_, index) => index + 1);
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export default function JournalScreen({ route }: Props) {
+  const { collectionId } = route.params;
+  const { t, i18n } = useTranslation();
+  const { favorites, collections, updateFavorite } = useFavorites();
+  const [editingNote, setEditingNote] = useState<{ id: string; note: string } | null>(null);
+
+  const collection = collections.find(item => item.id === collectionId);
+  const tripFavorites = useMemo(
+    () =>
+      favorites.filter(
+        favorite => (favorite.collectionId ?? FAVORITES_CONFIG.DEFAULT_COLLECTION_ID) === collectionId
+      ),
+    [favorites, collectionId]
+  );
+  const journal = useMemo(() => buildJournal(tripFavorites), [tripFavorites]);
+  const visitedCount = journal.reduce((count, day) => count + day.entries.length, 0);
+
+  const formatDay = (date: string) =>
+    date
+      ? new Date(`${date}T00:00:00`).toLocaleDateString(i18n.language, {
+          weekday: 'long',
+          day: 'numeric',
+          month: 'long',
+          year: 'numeric',
+        })
+      : t('visitDateUnknown');
+
+  const handleSaveNote = () => {
+    if (!editingNote) return;
+    updateFavorite(editingNote.id, { note: editingNote.note.trim() || undefined });
+    setEditingNote(null);
+  };
+
+  const renderEntry = (favorite: Favorite) => (
+    <View key={favorite.id} style={styles.entry} testID={`journal-entry-${favorite.id}`}>
+      <Text style={styles.entryName}>{favorite.name}</Text>
+      {!!favorite.visitedAt && (
+        <Text style={styles.entryDetails}>
+          {formatTime(favorite.visitedAt)}
+          {favorite.visitSource === 'geofence' ? ` · 📍 ${t('visitedAutomatically')}` : ''}
+        </Text>
+      )}
+      <View style={styles.ratingRow}>
+        <Text style={styles.entryDetails}>{t('personalRating')}</Text>
+        {RATING_STEPS.map(step => (
+          <TouchableOpacity
+            key={step}
+            testID={`rating-${favorite.id}-${step}`}
+            onPress={() => updateFavorite(favorite.id, { personalRating: step })}
+          >
+            <Text style={styles.star}>{step <= (favorite.personalRating ?? 0) ? '★' : '☆'}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {editingNote?.id === favorite.id ? (
+        <TextInput
+          testID={`journal-note-input-${favorite.id}`}
+          style={styles.input}
+          value={editingNote.note}
+          placeholder={t('notePlaceholder')}
+          onChangeText={note => setEditingNote({ id: favorite.id, note })}
+          onSubmitEditing={handleSaveNote}
+          onBlur={handleSaveNote}
+          multiline
+          autoFocus
+        />
+      ) : (
+        <TouchableOpacity
+          testID={`journal-note-${favorite.id}`}
+          onPress={() => setEditingNote({ id: favorite.id, note: favorite.note || '' })}
+        >
+          <Text style={favorite.note ? styles.note : styles.notePlaceholder}>
+            📝 {favorite.note || t('notePlaceholder')}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{collection?.name || t('defaultCollection')}</Text>
+        <Text style={styles.progress} testID="journal-progress">
+          {t('journalProgress', { visited: visitedCount, total: tripFavorites.length })}
+        </Text>
+      </View>
+
+      {journal.length === 0 ? (
+        <Text style={styles.hint}>{t('journalEmpty')}</Text>
+      ) : (
+        journal.map(day => (
+          <View key={day.date} style={styles.day} testID={`journal-day-${day.date || 'undated'}`}>
+            <Text style={styles.dayTitle}>{formatDay(day.date)}</Text>
+            {day.entries.map(renderEntry)}
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    paddingVertical: 8,
+  },
+  header: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  progress: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  day: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginVertical: 8,
+    padding: 16,
+    borderRadius: 12,
+  },
+  dayTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginBottom: 8,
+  },
+  entry: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  entryName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  entryDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  star: {
+    fontSize: 20,
+    color: '#f5a623',
+  },
+  note: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 6,
+  },
+  notePlaceholder: {
+    fontSize: 14,
+    color: '#999',
+    marginTop: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: '#333',
+    marginTop: 6,
+  },
+  hint: {
+    textAlign: 'center',
+    marginVertical: 24,
+    fontSize: 15,
+    color: '#999',
+  },
+});
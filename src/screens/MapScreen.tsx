@@ -17,13 +17,15 @@ import { useTranslation } from 'react-i18next';
 import { getNearbyAttractions } from '../services/attractions.service';
 import { RootStackParamList } from '../types/navigation';
 import { Attraction, Coordinates } from '../types';
+import { formatAttractionType, getAttractionTypeInfo, getCategoryLabel } from '../utils/attractionTypes';
 
 // Only import MapView on native platforms
-let MapView: any, Marker: any, PROVIDER_GOOGLE: any;
+let MapView: any, Marker: any, Circle: any, PROVIDER_GOOGLE: any;
 if (Platform.OS !== 'web') {
   const Maps = require('react-native-maps');
   MapView = Maps.default;
   Marker = Maps.Marker;
+  Circle = Maps.Circle;
   PROVIDER_GOOGLE = Maps.PROVIDER_GOOGLE;
 }
 
@@ -40,6 +42,7 @@ export default function MapScreen({ navigation }: Props) {
   const [loading, setLoading] = useState(true);
   const [selectedAttraction, setSelectedAttraction] = useState<Attraction | null>(null);
   const [useGPS, setUseGPS] = useState(true);
+  const [searchRadius, setSearchRadius] = useState<number | null>(null);
   const [mapRef, setMapRef] = useState<any>(null);
 
   // Load data from HomeScreen when screen is focused
@@ -77,11 +80,17 @@ export default function MapScreen({ navigation }: Props) {
           const savedData = await AsyncStorage.getItem('@travel_guide_map_data');
           
           if (savedData) {
-            const { location: savedLocation, attractions: savedAttractions, useGPS: savedUseGPS } = JSON.parse(savedData);
+            const {
+              location: savedLocation,
+              attractions: savedAttractions,
+              useGPS: savedUseGPS,
+              radius: savedRadius,
+            } = JSON.parse(savedData);
             
             setLocation(savedLocation);
             setAttractions(savedAttractions || []);
             setUseGPS(savedUseGPS);
+            setSearchRadius(savedRadius ?? null);
             setLoading(false);
             
             // Recenter map on the location
@@ -132,6 +141,13 @@ export default function MapScreen({ navigation }: Props) {
     }
   };
 
+  // Type with its parent category, e.g. "🏰 Castle · History"
+  const describeType = (attraction: Attraction) => {
+    const { category } = getAttractionTypeInfo(attraction.type);
+    const label = formatAttractionType(attraction.type, t);
+    return category === 'other' ? label : `${label} · ${getCategoryLabel(category, t)}`;
+  };
+
   const handleMarkerPress = (attraction: Attraction) => {
     try {
       setSelectedAttraction(attraction);
@@ -153,6 +169,21 @@ export default function MapScreen({ navigation }: Props) {
     }
   };
 
+  const renderRatingBreakdown = (attraction: Attraction) => {
+    if (!attraction.ratingBreakdown?.length) return null;
+
+    return (
+      <View style={styles.ratingBreakdown} testID="rating-breakdown">
+        <Text style={styles.ratingBreakdownTitle}>{t('ratingBreakdown')}</Text>
+        {attraction.ratingBreakdown.map((factor) => (
+          <Text key={factor.signal} style={styles.ratingBreakdownItem}>
+            {t(`ratingSignals.${factor.signal}`)} +{factor.points.toFixed(1)}
+          </Text>
+        ))}
+      </View>
+    );
+  };
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -209,9 +240,9 @@ export default function MapScreen({ navigation }: Props) {
               }}
             >
               <Text style={styles.webAttractionName}>{attraction.name}</Text>
-              <Text style={styles.webAttractionType}>{attraction.type}</Text>
+              <Text style={styles.webAttractionType}>{formatAttractionType(attraction.type, t)}</Text>
               <Text style={styles.webAttractionDistance}>
-                {t('distance')}: {attraction.distance}m | ⭐ {attraction.rating}
+                {t('distance')}: {attraction.distance}m | ⭐ {attraction.rating.toFixed(1)}
               </Text>
             </TouchableOpacity>
           ))}
@@ -220,11 +251,12 @@ export default function MapScreen({ navigation }: Props) {
           <View style={styles.infoCard}>
             <View style={styles.infoContent}>
               <Text style={styles.infoTitle}>{selectedAttraction.name}</Text>
-              <Text style={styles.infoType}>{selectedAttraction.type}</Text>
+              <Text style={styles.infoType}>{describeType(selectedAttraction)}</Text>
               <Text style={styles.infoDistance}>
                 {t('distance')}: {selectedAttraction.distance}m
               </Text>
-              <Text style={styles.infoRating}>⭐ {selectedAttraction.rating}</Text>
+              <Text style={styles.infoRating}>⭐ {selectedAttraction.rating.toFixed(1)}</Text>
+              {renderRatingBreakdown(selectedAttraction)}
             </View>
             <TouchableOpacity
               style={styles.detailsButton}
@@ -255,6 +287,15 @@ export default function MapScreen({ navigation }: Props) {
           showsUserLocation
           showsMyLocationButton
         >
+          {!!searchRadius && (
+            <Circle
+              testID="search-radius"
+              center={{ latitude: coords.latitude, longitude: coords.longitude }}
+              radius={searchRadius}
+              strokeColor="rgba(0, 122, 255, 0.6)"
+              fillColor="rgba(0, 122, 255, 0.08)"
+            />
+          )}
           {attractions.map((attraction) => (
             <Marker
               key={attraction.id}
@@ -263,7 +304,7 @@ export default function MapScreen({ navigation }: Props) {
                 longitude: attraction.longitude,
               }}
               title={attraction.name}
-              description={`${attraction.type} - ${attraction.distance}m`}
+              description={`${formatAttractionType(attraction.type, t)} - ${attraction.distance}m`}
               onPress={() => handleMarkerPress(attraction)}
             />
           ))}
@@ -273,11 +314,12 @@ export default function MapScreen({ navigation }: Props) {
           <View style={styles.infoCard}>
             <View style={styles.infoContent}>
               <Text style={styles.infoTitle}>{selectedAttraction.name}</Text>
-              <Text style={styles.infoType}>{selectedAttraction.type}</Text>
+              <Text style={styles.infoType}>{describeType(selectedAttraction)}</Text>
               <Text style={styles.infoDistance}>
                 {t('distance')}: {selectedAttraction.distance}m
               </Text>
-              <Text style={styles.infoRating}>⭐ {selectedAttraction.rating}</Text>
+              <Text style={styles.infoRating}>⭐ {selectedAttraction.rating.toFixed(1)}</Text>
+              {renderRatingBreakdown(selectedAttraction)}
             </View>
             <TouchableOpacity
               style={styles.detailsButton}
@@ -396,6 +438,19 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  ratingBreakdown: {
+    marginTop: 8,
+  },
+  ratingBreakdownTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 2,
+  },
+  ratingBreakdownItem: {
+    fontSize: 13,
+    color: '#999',
+  },
   detailsButton: {
     backgroundColor: '#007AFF',
     borderRadius: 8,
@@ -9,14 +9,20 @@ import {
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
 import { AVAILABLE_INTERESTS, getInterests, saveInterests } from '../services/interests.service';
+import proximityService from '../services/proximity.service';
+import { PROXIMITY_ALERT_CONFIG } from '../constants';
+import { ProximityAlertSettings } from '../types';
+import { formatDistance } from '../utils/routing';
 
 export default function SettingsScreen() {
   const { t, i18n } = useTranslation();
   const [language, setLanguage] = useState(i18n.language);
   const [selectedInterests, setSelectedInterests] = useState<string[]>([]);
+  const [proximitySettings, setProximitySettings] = useState<ProximityAlertSettings | null>(null);
 
   useEffect(() => {
     loadInterests();
+    proximityService.getSettings().then(setProximitySettings);
   }, []);
 
   const loadInterests = async () => {
@@ -40,6 +46,13 @@ export default function SettingsScreen() {
     await saveInterests(newInterests);
   };
 
+  const updateProximitySettings = async (changes: Partial<ProximityAlertSettings>) => {
+    if (!proximitySettings) return;
+    const settings = { ...proximitySettings, ...changes };
+    setProximitySettings(settings);
+    await proximityService.saveSettings(settings);
+  };
+
   return (
     <ScrollView style={styles.container}>
       <View style={styles.section}>
@@ -99,6 +112,40 @@ export default function SettingsScreen() {
         ))}
       </View>
 
+      {proximitySettings && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('proximityAlerts')}</Text>
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>{t('proximityAlertsDescription')}</Text>
+            <Switch
+              testID="proximity-alerts-switch"
+              value={proximitySettings.enabled}
+              onValueChange={enabled => updateProximitySettings({ enabled })}
+            />
+          </View>
+          {proximitySettings.enabled && (
+            <>
+              <Text style={styles.interestsSubtitle}>{t('proximityRadius')}</Text>
+              <View style={styles.radiusOptions}>
+                {PROXIMITY_ALERT_CONFIG.RADIUS_OPTIONS.map(radius => {
+                  const selected = proximitySettings.radius === radius;
+                  return (
+                    <TouchableOpacity
+                      key={radius}
+                      testID={`proximity-radius-${radius}`}
+                      style={[styles.radiusOption, selected && styles.selectedInterest]}
+                      onPress={() => updateProximitySettings({ radius })}
+                    >
+                      <Text style={styles.interestText}>{formatDistance(radius, i18n.language)}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+        </View>
+      )}
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>{t('appInformation')}</Text>
         <View style={styles.infoCard}>
@@ -204,6 +251,31 @@ const styles = StyleSheet.create({
     color: '#333',
     fontWeight: '400',
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+    marginRight: 12,
+  },
+  radiusOptions: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  radiusOption: {
+    flex: 1,
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: '#f9f9f9',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
   infoCard: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1,155 +1,301 @@
 import axios from 'axios';
-import { Attraction, Coordinates } from '../types';
-import { API_ENDPOINTS, APP_CONFIG, LOCATION_CONFIG, STORAGE_KEYS, CACHE_DURATION } from '../constants';
-import { calculateDistance } from '../utils/distance';
+import {
+  Attraction,
+  AttractionPage,
+  AttractionProvider,
+  AttractionSearchResult,
+  AttractionSource,
+  Coordinates,
+  RadiusSetting,
+} from '../types';
+import {
+  ATTRACTION_PROVIDERS_CONFIG,
+  LOCATION_CONFIG,
+  OVERPASS_CONFIG,
+  RADIUS_CONFIG,
+  STORAGE_KEYS,
+  CACHE_DURATION,
+} from '../constants';
+import { getFiltersForInterests, getFilterSetKey } from '../utils/overpassQuery';
+import { mergeAttractions } from '../utils/attractionMerge';
+import { getContentLanguage } from '../utils/language';
+import i18n from '../config/i18n';
 import storageService from './storage.service';
+import ratingService from './rating.service';
+import { overpassProvider, wikipediaProvider, localProvider } from './providers';
+import { OverpassBusyError } from './overpass.service';
 import errorNotificationService from './error-notification.service';
 import { ErrorType, ErrorSource, ErrorSeverity } from '../types/errors';
 
-interface OverpassElement {
-  id: number;
-  lat?: number;
-  lon?: number;
-  center?: { lat: number; lon: number };
-  tags: {
-    name?: string;
-    tourism?: string;
-    historic?: string;
-    amenity?: string;
-    description?: string;
-    'wikipedia:de'?: string;
-  };
+// Attractions found within a radius, sorted by distance
+interface RadiusSearchResult {
+  attractions: Attraction[];
+  radius: number;
 }
 
 /**
  * Service for fetching and managing attractions
  */
 class AttractionsService {
+  private providers: AttractionProvider[] = [overpassProvider, wikipediaProvider, localProvider];
+  private enabledProviders = new Set<AttractionSource>(ATTRACTION_PROVIDERS_CONFIG.ENABLED);
+
   /**
-   * Get nearby attractions from Overpass API
+   * Get nearby attractions from all enabled providers within a fixed radius
+   * Results are merged so a place known to several sources appears once.
+   * An error is only shown if every enabled provider failed.
+   * Ratings of the returned page are refined with Wikipedia metadata.
+   * @param interests - Interest ids used to extend the queried OSM categories
    */
   async getNearbyAttractions(
     coordinates: Coordinates,
-    radius: number = LOCATION_CONFIG.DEFAULT_RADIUS
+    radius: number = LOCATION_CONFIG.DEFAULT_RADIUS,
+    interests: string[] = []
   ): Promise<Attraction[]> {
-    try {
-      const query = `
-        [out:json][timeout:20];
-        (
-          node["tourism"](around:${radius},${coordinates.latitude},${coordinates.longitude});
-          node["historic"](around:${radius},${coordinates.latitude},${coordinates.longitude});
-        );
-        out center 30;
-      `;
-
-      const response = await axios.post(
-        API_ENDPOINTS.OVERPASS,
-        `data=${encodeURIComponent(query)}`,
-        {
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-          timeout: APP_CONFIG.REQUEST_TIMEOUT,
-        }
-      );
-
-      if (response.data?.elements) {
-        return this.parseOverpassElements(response.data.elements, coordinates);
+    const attractions = await this.fetchFromProviders(coordinates, radius, interests);
+    const firstPage = await this.getNextPage(attractions || []);
+    return ratingService.applyWikipediaMetadata(firstPage.attractions);
+  }
+
+  /**
+   * Search nearby attractions with a fixed or adaptive radius
+   * In 'auto' mode the radius starts at LOCATION_CONFIG.DEFAULT_RADIUS, expands until
+   * RADIUS_CONFIG.MIN_RESULTS are found and shrinks while the nearest
+   * MAX_ATTRACTIONS fit into a small part of the searched area. Shrinking
+   * filters the attractions already found instead of searching again. Steps
+   * stop once RADIUS_CONFIG.SEARCH_BUDGET is used up, and errors of later steps
+   * are not shown as long as an earlier step found attractions.
+   * @returns First page of attractions, the retained rest and the radius they were found in
+   */
+  async searchAttractions(
+    coordinates: Coordinates,
+    interests: string[] = [],
+    radiusSetting: RadiusSetting = 'auto'
+  ): Promise<AttractionSearchResult> {
+    if (radiusSetting !== 'auto') {
+      const attractions = await this.fetchFromProviders(coordinates, radiusSetting, interests);
+      return { ...(await this.getNextPage(attractions || [])), radius: radiusSetting };
+    }
+
+    let radius: number = LOCATION_CONFIG.DEFAULT_RADIUS;
+    // Best result so far, returned if a later step fails
+    let accepted: RadiusSearchResult | null = null;
+    const deadline = Date.now() + RADIUS_CONFIG.SEARCH_BUDGET;
+
+    for (let step = 0; ; step++) {
+      if (step > 0 && deadline - Date.now() < OVERPASS_CONFIG.MIN_ATTEMPT_TIME) break;
+
+      const attractions = await this.fetchFromProviders(coordinates, radius, interests, deadline, !accepted);
+      if (!attractions) break;
+      accepted = { attractions, radius };
+
+      if (
+        attractions.length < RADIUS_CONFIG.MIN_RESULTS &&
+        step < RADIUS_CONFIG.MAX_STEPS &&
+        radius < RADIUS_CONFIG.MAX
+      ) {
+        radius = Math.min(RADIUS_CONFIG.MAX, radius * RADIUS_CONFIG.SCALE_FACTOR);
+        continue;
+      }
+      // Results found after expanding are never dense
+      if (step === 0) {
+        accepted = this.shrinkWhileDense(accepted);
       }
+      break;
+    }
 
-      return [];
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
-          errorNotificationService.showError({
-            type: ErrorType.Network,
-            source: ErrorSource.AttractionsService,
-            severity: ErrorSeverity.Warning,
-            messageKey: 'errors.network.timeout',
-            error,
-          });
-        } else if (!error.response) {
-          errorNotificationService.showError({
-            type: ErrorType.Network,
-            source: ErrorSource.AttractionsService,
-            severity: ErrorSeverity.Warning,
-            messageKey: 'errors.network.offline',
-            error,
-          });
-        } else {
-          errorNotificationService.showError({
-            type: ErrorType.API,
-            source: ErrorSource.AttractionsService,
-            severity: ErrorSeverity.Warning,
-            messageKey: 'errors.api.attractionsUnavailable',
-            error,
-          });
-        }
+    if (!accepted) {
+      return { attractions: [], remaining: [], radius };
+    }
+    return { ...(await this.getNextPage(accepted.attractions)), radius: accepted.radius };
+  }
+
+  /**
+   * Take the next page from retained results
+   * Ratings are not yet refined with Wikipedia metadata, which takes further
+   * requests; see ratingService.applyWikipediaMetadata.
+   * @param remaining - Results not yet shown, in distance order
+   */
+  async getNextPage(remaining: Attraction[]): Promise<AttractionPage> {
+    return {
+      attractions: remaining.slice(0, LOCATION_CONFIG.MAX_ATTRACTIONS),
+      remaining: remaining.slice(LOCATION_CONFIG.MAX_ATTRACTIONS, LOCATION_CONFIG.MAX_RETAINED_ATTRACTIONS),
+    };
+  }
+
+  /**
+   * Query all enabled providers and merge their results, sorted by distance
+   * @param deadline - Time (ms timestamp) for providers to give up at
+   * @param showErrors - Whether to notify the user if every provider failed
+   * @returns Merged attractions, or null if every provider failed
+   */
+  private async fetchFromProviders(
+    coordinates: Coordinates,
+    radius: number,
+    interests: string[],
+    deadline?: number,
+    showErrors: boolean = true
+  ): Promise<Attraction[] | null> {
+    const providers = this.getEnabledProviders();
+    const language = getContentLanguage(i18n.language);
+    const results = await Promise.allSettled(
+      providers.map(provider =>
+        provider.fetchAttractions({ coordinates, radius, interests, language, deadline })
+      )
+    );
+
+    const lists: Attraction[][] = [];
+    const failures: unknown[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        lists.push(result.value);
       } else {
-        errorNotificationService.showError({
-          type: ErrorType.API,
+        failures.push(result.reason);
+        errorNotificationService.logDebugInfo({
           source: ErrorSource.AttractionsService,
-          severity: ErrorSeverity.Warning,
-          messageKey: 'errors.api.attractionsUnavailable',
-          error: error instanceof Error ? error : new Error(String(error)),
+          method: 'getNearbyAttractions',
+          provider: providers[index].id,
+          error: String(result.reason),
         });
       }
+    });
+
+    if (lists.length === 0) {
+      if (failures.length > 0) {
+        if (showErrors) this.handleFetchError(failures[0]);
+        return null;
+      }
       return [];
     }
+
+    return mergeAttractions(lists)
+      .map(attraction =>
+        (attraction.sources?.length ?? 0) > 1 && attraction.ratingBreakdown
+          ? { ...attraction, rating: ratingService.computeRating(attraction.ratingBreakdown) }
+          : attraction
+      )
+      .sort((a, b) => a.distance - b.distance);
   }
 
   /**
-   * Parse Overpass API elements to Attraction objects
+   * Halve the radius while the nearest MAX_ATTRACTIONS lie within a small part of it
+   * @param result - Attractions sorted by distance, so the nearer ones are all included
    */
-  private parseOverpassElements(
-    elements: OverpassElement[],
-    userLocation: Coordinates
-  ): Attraction[] {
-    const attractions = elements
-      .filter(element => element.tags?.name)
-      .map((element, index) => {
-        const lat = element.lat || element.center?.lat;
-        const lon = element.lon || element.center?.lon;
-        
-        if (!lat || !lon) return null;
-        
-        const distance = calculateDistance(
-          userLocation,
-          { latitude: lat, longitude: lon }
-        );
-        
-        let type = 'attraction';
-        if (element.tags.tourism) type = element.tags.tourism;
-        else if (element.tags.historic) type = element.tags.historic;
-        else if (element.tags.amenity) type = element.tags.amenity;
-        
-        return {
-          id: element.id || index,
-          name: element.tags.name!,
-          latitude: lat,
-          longitude: lon,
-          type,
-          distance: Math.round(distance),
-          rating: 4.0 + Math.random() * 1.0,
-          description: element.tags.description || element.tags['wikipedia:de'] || '',
-        };
-      })
-      .filter((item): item is NonNullable<typeof item> => item !== null)
-      .sort((a, b) => a.distance - b.distance)
-      .slice(0, LOCATION_CONFIG.MAX_ATTRACTIONS);
-    
-    return attractions;
+  private shrinkWhileDense(result: RadiusSearchResult): RadiusSearchResult {
+    let { attractions, radius } = result;
+    for (
+      let step = 0;
+      step < RADIUS_CONFIG.MAX_STEPS && radius > RADIUS_CONFIG.MIN && this.isDense(attractions, radius);
+      step++
+    ) {
+      radius = Math.max(RADIUS_CONFIG.MIN, Math.round(radius / RADIUS_CONFIG.SCALE_FACTOR));
+      const maxDistance = radius;
+      attractions = attractions.filter(attraction => attraction.distance <= maxDistance);
+    }
+    return { attractions, radius };
+  }
+
+  /**
+   * Whether the nearest MAX_ATTRACTIONS lie within a small part of the radius
+   * @param attractions - Attractions sorted by distance
+   */
+  private isDense(attractions: Attraction[], radius: number): boolean {
+    const farthestShown = attractions[LOCATION_CONFIG.MAX_ATTRACTIONS - 1];
+    return !!farthestShown && farthestShown.distance <= radius * RADIUS_CONFIG.DENSE_FRACTION;
+  }
+
+  /**
+   * Enable or disable a provider for subsequent requests
+   */
+  setProviderEnabled(id: AttractionSource, enabled: boolean): void {
+    if (enabled) {
+      this.enabledProviders.add(id);
+    } else {
+      this.enabledProviders.delete(id);
+    }
+  }
+
+  /**
+   * Check whether a provider is enabled
+   */
+  isProviderEnabled(id: AttractionSource): boolean {
+    return this.enabledProviders.has(id);
+  }
+
+  /**
+   * Enabled providers in merge priority order
+   */
+  private getEnabledProviders(): AttractionProvider[] {
+    return this.providers.filter(provider => this.enabledProviders.has(provider.id));
+  }
+
+  /**
+   * Notify the user about a failed attractions request
+   */
+  private handleFetchError(error: unknown): void {
+    if (error instanceof OverpassBusyError) {
+      errorNotificationService.showError({
+        type: ErrorType.API,
+        source: ErrorSource.AttractionsService,
+        severity: ErrorSeverity.Warning,
+        messageKey: 'errors.api.rateLimited',
+        error,
+      });
+    } else if (axios.isAxiosError(error)) {
+      if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
+        errorNotificationService.showError({
+          type: ErrorType.Network,
+          source: ErrorSource.AttractionsService,
+          severity: ErrorSeverity.Warning,
+          messageKey: 'errors.network.timeout',
+          error,
+        });
+      } else if (!error.response) {
+        errorNotificationService.showError({
+          type: ErrorType.Network,
+          source: ErrorSource.AttractionsService,
+          severity: ErrorSeverity.Warning,
+          messageKey: 'errors.network.offline',
+          error,
+        });
+      } else {
+        errorNotificationService.showError({
+          type: ErrorType.API,
+          source: ErrorSource.AttractionsService,
+          severity: ErrorSeverity.Warning,
+          messageKey: 'errors.api.attractionsUnavailable',
+          error,
+        });
+      }
+    } else {
+      errorNotificationService.showError({
+        type: ErrorType.API,
+        source: ErrorSource.AttractionsService,
+        severity: ErrorSeverity.Warning,
+        messageKey: 'errors.api.attractionsUnavailable',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
   }
 
   /**
    * Get cached attractions
+   * @returns Cached search result, or null if missing, expired or in an outdated format
    */
   async getCachedAttractions(
     coordinates: Coordinates,
-    interests: string[]
-  ): Promise<Attraction[] | null> {
-    const cacheKey = this.getCacheKey(coordinates, interests);
-    return storageService.getCached<Attraction[]>(cacheKey);
+    interests: string[],
+    radius: RadiusSetting = 'auto'
+  ): Promise<AttractionSearchResult | null> {
+    const cacheKey = this.getCacheKey(coordinates, interests, radius);
+    const cached = await storageService.getCached<AttractionSearchResult>(cacheKey);
+    // Entries written before the radius was stored hold a plain list,
+    // entries from before namespaced ids contain bare OSM ids
+    if (!cached || Array.isArray(cached) || cached.attractions.some(a => typeof a.id !== 'string')) {
+      return null;
+    }
+    // Entries written before paging have no retained results
+    return { ...cached, remaining: cached.remaining || [] };
   }
 
   /**
@@ -157,25 +303,29 @@ class AttractionsService {
    */
   async cacheAttractions(
     coordinates: Coordinates,
-    attractions: Attraction[],
-    interests: string[]
+    result: AttractionSearchResult,
+    interests: string[],
+    radius: RadiusSetting = 'auto'
   ): Promise<boolean> {
-    const cacheKey = this.getCacheKey(coordinates, interests);
+    const cacheKey = this.getCacheKey(coordinates, interests, radius);
     return storageService.setCached(
       cacheKey,
-      attractions,
+      result,
       CACHE_DURATION.ATTRACTIONS
     );
   }
 
   /**
    * Generate cache key for attractions
+   * Includes the queried filter set, language and enabled providers so changes to any invalidate old entries
    */
-  private getCacheKey(coordinates: Coordinates, interests: string[]): string {
+  private getCacheKey(coordinates: Coordinates, interests: string[], radius: RadiusSetting): string {
     const lat = coordinates.latitude.toFixed(2);
     const lng = coordinates.longitude.toFixed(2);
-    const interestsKey = interests.sort().join(',');
-    return `${STORAGE_KEYS.ATTRACTIONS_CACHE}_${lat}_${lng}_${interestsKey}`;
+    const interestsKey = [...interests].sort().join(',');
+    const filtersKey = getFilterSetKey(getFiltersForInterests(interests));
+    const providersKey = [...this.enabledProviders].sort().join('+');
+    return `${STORAGE_KEYS.ATTRACTIONS_CACHE}_${radius}_${lat}_${lng}_${interestsKey}_${filtersKey}_${getContentLanguage(i18n.language)}_${providersKey}`;
   }
 
   /**
@@ -193,5 +343,5 @@ const attractionsServiceInstance = new AttractionsService();
 export default attractionsServiceInstance;
 
 // Export helper function for backward compatibility
-export const getNearbyAttractions = (coordinates: Coordinates, radius?: number) => 
-  attractionsServiceInstance.getNearbyAttractions(coordinates, radius);
+export const getNearbyAttractions = (coordinates: Coordinates, radius?: number, interests?: string[]) => 
+  attractionsServiceInstance.getNearbyAttractions(coordinates, radius, interests);
@@ -1,33 +1,161 @@
-import { Attraction } from '../types';
-import { STORAGE_KEYS } from '../constants';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import {
+  Attraction,
+  Coordinates,
+  Favorite,
+  FavoriteChanges,
+  FavoriteCollection,
+  FavoritesFileFormat,
+  FavoritesImportResult,
+} from '../types';
+import { ATTRACTION_PROVIDERS_CONFIG, FAVORITES_CONFIG, STORAGE_KEYS } from '../constants';
 import storageService from './storage.service';
+import overpassService from './overpass.service';
+import errorNotificationService from './error-notification.service';
+import { ErrorSource } from '../types/errors';
+import { OsmElementType, osmAttractionId } from '../utils/attractionId';
+import { buildElementLookupQuery } from '../utils/overpassQuery';
+import { calculateDistance } from '../utils/distance';
+import { isSameAttraction } from '../utils/attractionMerge';
+import { parseFavoritesFile, serializeFavorites } from '../utils/favoritesFile';
+
+/** Favorite as stored by earlier versions, which used bare OSM element ids */
+type StoredFavorite = Omit<Favorite, 'id'> & { id: string | number };
+
+interface OsmLookupElement {
+  type: OsmElementType;
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+}
+
+// Marks OSM ids whose element type could not be looked up yet
+const UNRESOLVED_OSM_PREFIX = 'legacy:osm:';
+
+/**
+ * Bare OSM id of a favorite that still needs migration, otherwise null
+ */
+const getLegacyOsmId = (favorite: StoredFavorite): number | null => {
+  if (typeof favorite.id === 'number') return favorite.id;
+  if (favorite.id.startsWith(UNRESOLVED_OSM_PREFIX)) {
+    return Number(favorite.id.slice(UNRESOLVED_OSM_PREFIX.length));
+  }
+  return null;
+};
 
 /**
- * Service for managing favorite attractions
+ * Favorite with a bare OSM id marked as unresolved, so every id is a string
+ */
+const withStringId = (favorite: StoredFavorite): Favorite => ({
+  ...favorite,
+  id: typeof favorite.id === 'number' ? `${UNRESOLVED_OSM_PREFIX}${favorite.id}` : favorite.id,
+});
+
+const withDefaults = (favorite: Favorite): Favorite => ({
+  ...favorite,
+  collectionId: favorite.collectionId ?? FAVORITES_CONFIG.DEFAULT_COLLECTION_ID,
+  visitStatus: favorite.visitStatus ?? 'planned',
+});
+
+const clampRating = (rating: number): number =>
+  Math.min(FAVORITES_CONFIG.MAX_PERSONAL_RATING, Math.max(1, Math.round(rating)));
+
+/**
+ * Apply user changes to a favorite
+ * Marking it as visited stamps the visit date unless one is given; marking it
+ * as planned clears the date.
+ */
+const applyChanges = (favorite: Favorite, changes: FavoriteChanges): Favorite => {
+  const updated: Favorite = { ...favorite, ...changes };
+  if (changes.visitStatus) {
+    updated.visitSource = 'manual';
+    updated.visitedAt = changes.visitStatus === 'visited'
+      ? changes.visitedAt ?? favorite.visitedAt ?? new Date().toISOString()
+      : undefined;
+  }
+  if (changes.personalRating !== undefined) {
+    updated.personalRating = clampRating(changes.personalRating);
+  }
+  return updated;
+};
+
+const createDefaultCollection = (): FavoriteCollection => ({
+  id: FAVORITES_CONFIG.DEFAULT_COLLECTION_ID,
+  name: '',
+  createdAt: new Date(0).toISOString(),
+});
+
+const normalizeCollectionName = (name: string): string =>
+  name.trim().slice(0, FAVORITES_CONFIG.MAX_COLLECTION_NAME_LENGTH);
+
+/**
+ * Service for managing favorite attractions and their trip collections
+ * Favorites are one flat list, each referencing its collection; favorites
+ * saved before collections existed belong to the default collection.
+ * Changes return the favorites as stored, so they are unchanged when saving fails.
  */
 class FavoritesService {
+  private migration: Promise<boolean> | null = null;
+  // Time before which a failed migration is not tried again
+  private retryMigrationAt = 0;
+
   /**
    * Get all favorites
+   * Favorites saved with bare OSM ids keep them, marked as unresolved, until
+   * `migrateFavorites` has run.
+   */
+  async getFavorites(): Promise<Favorite[]> {
+    const favorites = await storageService.get<StoredFavorite[]>(STORAGE_KEYS.FAVORITES);
+    if (!favorites) {
+      return [];
+    }
+    return favorites.map(withStringId).map(withDefaults);
+  }
+
+  /**
+   * Replace bare OSM ids with namespaced ids and persist the result
+   * Node, way and relation ids overlap, so the element type is looked up on
+   * Overpass, which can take a while; run it in the background. Once done it
+   * is skipped for good. If the lookup fails the ids stay unresolved and the
+   * next call after a delay tries again.
+   * @returns Whether favorites were migrated
    */
-  async getFavorites(): Promise<Attraction[]> {
-    const favorites = await storageService.get<Attraction[]>(STORAGE_KEYS.FAVORITES);
-    return favorites || [];
+  migrateFavorites(): Promise<boolean> {
+    // Concurrent calls share one migration
+    if (!this.migration) {
+      this.migration = this.runMigration().finally(() => {
+        this.migration = null;
+      });
+    }
+    return this.migration;
   }
 
   /**
    * Add attraction to favorites
+   * @param collectionId - Target collection, the default collection if omitted or unknown
    */
-  async addFavorite(attraction: Attraction): Promise<Attraction[]> {
+  async addFavorite(
+    attraction: Attraction,
+    collectionId: string = FAVORITES_CONFIG.DEFAULT_COLLECTION_ID
+  ): Promise<Favorite[]> {
     const favorites = await this.getFavorites();
     const exists = favorites.find(fav => fav.id === attraction.id);
     
     if (!exists) {
-      const newFavorites = [
+      const newFavorites: Favorite[] = [
         ...favorites,
-        { ...attraction, savedAt: new Date().toISOString() }
+        {
+          ...attraction,
+          savedAt: new Date().toISOString(),
+          collectionId: (await this.hasCollection(collectionId))
+            ? collectionId
+            : FAVORITES_CONFIG.DEFAULT_COLLECTION_ID,
+          visitStatus: 'planned',
+        }
       ];
-      await storageService.set(STORAGE_KEYS.FAVORITES, newFavorites);
-      return newFavorites;
+      return this.saveFavorites(newFavorites, favorites);
     }
     
     return favorites;
@@ -36,17 +164,197 @@ class FavoritesService {
   /**
    * Remove attraction from favorites
    */
-  async removeFavorite(attractionId: string | number): Promise<Attraction[]> {
+  async removeFavorite(attractionId: string): Promise<Favorite[]> {
     const favorites = await this.getFavorites();
     const newFavorites = favorites.filter(fav => fav.id !== attractionId);
-    await storageService.set(STORAGE_KEYS.FAVORITES, newFavorites);
-    return newFavorites;
+    return this.saveFavorites(newFavorites, favorites);
+  }
+
+  /**
+   * Update the note, personal rating or visit status of a favorite
+   */
+  async updateFavorite(attractionId: string, changes: FavoriteChanges): Promise<Favorite[]> {
+    return this.updateFavorites(favorite => (favorite.id === attractionId ? applyChanges(favorite, changes) : favorite));
+  }
+
+  /**
+   * Mark planned favorites within the visit geofence of a position as visited
+   * Favorites whose status was last set by hand are left alone.
+   * @returns The newly visited favorites
+   */
+  async recordVisitsNear(position: Coordinates): Promise<Favorite[]> {
+    const favorites = await this.getFavorites();
+    const visitedAt = new Date().toISOString();
+    const visited: Favorite[] = [];
+
+    const updated = favorites.map(favorite => {
+      if (
+        favorite.visitStatus === 'visited' ||
+        favorite.visitSource === 'manual' ||
+        calculateDistance(position, favorite) > FAVORITES_CONFIG.VISIT_GEOFENCE_RADIUS
+      ) {
+        return favorite;
+      }
+      const visit: Favorite = { ...favorite, visitStatus: 'visited', visitSource: 'geofence', visitedAt };
+      visited.push(visit);
+      return visit;
+    });
+
+    if (visited.length === 0 || (await this.saveFavorites(updated, favorites)) === favorites) {
+      return [];
+    }
+    return visited;
+  }
+
+  /**
+   * Move a favorite into another collection
+   */
+  async moveFavorite(attractionId: string, collectionId: string): Promise<Favorite[]> {
+    if (!(await this.hasCollection(collectionId))) {
+      return this.getFavorites();
+    }
+    return this.updateFavorites(favorite => (favorite.id === attractionId ? { ...favorite, collectionId } : favorite));
+  }
+
+  /**
+   * Get all collections, the default collection first
+   */
+  async getCollections(): Promise<FavoriteCollection[]> {
+    const stored = (await storageService.get<FavoriteCollection[]>(STORAGE_KEYS.FAVORITE_COLLECTIONS)) || [];
+    const defaultCollection =
+      stored.find(collection => collection.id === FAVORITES_CONFIG.DEFAULT_COLLECTION_ID) ||
+      createDefaultCollection();
+    return [defaultCollection, ...stored.filter(collection => collection !== defaultCollection)];
+  }
+
+  /**
+   * Create a named collection
+   * @returns The new collection, or null for an empty name or if saving failed
+   */
+  async createCollection(name: string): Promise<FavoriteCollection | null> {
+    const trimmed = normalizeCollectionName(name);
+    if (!trimmed) return null;
+
+    const collection: FavoriteCollection = {
+      id: `collection:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      name: trimmed,
+      createdAt: new Date().toISOString(),
+    };
+    const collections = await this.getCollections();
+    const saved = await storageService.set(STORAGE_KEYS.FAVORITE_COLLECTIONS, [...collections, collection]);
+    return saved ? collection : null;
+  }
+
+  /**
+   * Rename a collection; empty names are ignored
+   */
+  async renameCollection(collectionId: string, name: string): Promise<FavoriteCollection[]> {
+    const collections = await this.getCollections();
+    const trimmed = normalizeCollectionName(name);
+    if (!trimmed) return collections;
+
+    const renamed = collections.map(collection =>
+      collection.id === collectionId ? { ...collection, name: trimmed } : collection
+    );
+    const saved = await storageService.set(STORAGE_KEYS.FAVORITE_COLLECTIONS, renamed);
+    return saved ? renamed : collections;
+  }
+
+  /**
+   * Delete a collection, moving its favorites to the default collection
+   * The default collection cannot be deleted. The collection is removed first:
+   * if its favorites can't be moved afterwards they still show up in the
+   * default collection.
+   */
+  async deleteCollection(collectionId: string): Promise<FavoriteCollection[]> {
+    const collections = await this.getCollections();
+    if (collectionId === FAVORITES_CONFIG.DEFAULT_COLLECTION_ID) return collections;
+
+    const remaining = collections.filter(collection => collection.id !== collectionId);
+    if (!(await storageService.set(STORAGE_KEYS.FAVORITE_COLLECTIONS, remaining))) {
+      return collections;
+    }
+    const favorites = await this.getFavorites();
+    await this.saveFavorites(
+      favorites.map(favorite =>
+        favorite.collectionId === collectionId
+          ? { ...favorite, collectionId: FAVORITES_CONFIG.DEFAULT_COLLECTION_ID }
+          : favorite
+      ),
+      favorites
+    );
+    return remaining;
+  }
+
+  /**
+   * Serialize favorites as GPX, KML or GeoJSON
+   * @param collectionId - Only export this collection
+   */
+  async exportFavorites(format: FavoritesFileFormat, name: string, collectionId?: string): Promise<string> {
+    const favorites = await this.getFavorites();
+    return serializeFavorites(
+      collectionId ? favorites.filter(favorite => favorite.collectionId === collectionId) : favorites,
+      format,
+      name
+    );
+  }
+
+  /**
+   * Let the user pick a file to import favorites from
+   * @returns Content of the file, or null if the user canceled
+   * @throws Errors from the picker or from reading the file
+   */
+  async pickFavoritesFile(): Promise<string | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: [...FAVORITES_CONFIG.IMPORT_MIME_TYPES],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || result.assets.length === 0) return null;
+    return new File(result.assets[0].uri).text();
+  }
+
+  /**
+   * Import favorites from a GPX, KML or GeoJSON file into a collection
+   * Places already saved, or repeated within the file, are skipped as duplicates.
+   * @returns Import counts, or null if the content is not a supported file
+   */
+  async importFavorites(
+    content: string,
+    collectionId: string = FAVORITES_CONFIG.DEFAULT_COLLECTION_ID
+  ): Promise<FavoritesImportResult | null> {
+    const parsed = parseFavoritesFile(content);
+    if (!parsed) return null;
+
+    const favorites = await this.getFavorites();
+    const targetId = (await this.hasCollection(collectionId)) ? collectionId : FAVORITES_CONFIG.DEFAULT_COLLECTION_ID;
+    const savedAt = new Date().toISOString();
+    const added: Favorite[] = [];
+    let duplicates = 0;
+
+    for (const place of parsed.favorites) {
+      const known = [...favorites, ...added];
+      if (known.some(favorite => favorite.id === place.id || isSameAttraction(favorite, place))) {
+        duplicates++;
+        continue;
+      }
+      added.push({
+        ...place,
+        savedAt: place.savedAt ?? savedAt,
+        collectionId: targetId,
+        visitStatus: place.visitStatus ?? 'planned',
+      });
+    }
+
+    if (added.length > 0 && (await this.saveFavorites([...favorites, ...added], favorites)) === favorites) {
+      return { favorites, added: 0, duplicates, invalid: parsed.invalid };
+    }
+    return { favorites: [...favorites, ...added], added: added.length, duplicates, invalid: parsed.invalid };
   }
 
   /**
    * Check if attraction is in favorites
    */
-  async isFavorite(attractionId: string | number): Promise<boolean> {
+  async isFavorite(attractionId: string): Promise<boolean> {
     const favorites = await this.getFavorites();
     return favorites.some(fav => fav.id === attractionId);
   }
@@ -61,10 +369,114 @@ class FavoritesService {
   /**
    * Get favorite IDs as Set
    */
-  async getFavoriteIds(): Promise<Set<string | number>> {
+  async getFavoriteIds(): Promise<Set<string>> {
     const favorites = await this.getFavorites();
     return new Set(favorites.map(f => f.id));
   }
+
+  private async hasCollection(collectionId: string): Promise<boolean> {
+    if (collectionId === FAVORITES_CONFIG.DEFAULT_COLLECTION_ID) return true;
+    const collections = await this.getCollections();
+    return collections.some(collection => collection.id === collectionId);
+  }
+
+  /**
+   * Apply a change to every favorite and persist the result
+   */
+  private async updateFavorites(update: (favorite: Favorite) => Favorite): Promise<Favorite[]> {
+    const favorites = await this.getFavorites();
+    return this.saveFavorites(favorites.map(update), favorites);
+  }
+
+  /**
+   * Persist favorites
+   * @returns The saved favorites, or the previous ones if saving failed
+   */
+  private async saveFavorites(favorites: Favorite[], previous: Favorite[]): Promise<Favorite[]> {
+    return (await storageService.set(STORAGE_KEYS.FAVORITES, favorites)) ? favorites : previous;
+  }
+
+  private async runMigration(): Promise<boolean> {
+    if (Date.now() < this.retryMigrationAt) return false;
+    if (await storageService.get<boolean>(STORAGE_KEYS.FAVORITES_MIGRATED)) return false;
+
+    const favorites = (await storageService.get<StoredFavorite[]>(STORAGE_KEYS.FAVORITES)) || [];
+    const legacyIds = favorites
+      .map(getLegacyOsmId)
+      .filter((id): id is number => id !== null);
+    if (legacyIds.length === 0) {
+      await storageService.set(STORAGE_KEYS.FAVORITES_MIGRATED, true);
+      return false;
+    }
+
+    const elements = await this.lookupOsmElements(legacyIds);
+    if (!elements) {
+      this.retryMigrationAt = Date.now() + FAVORITES_CONFIG.MIGRATION_RETRY_DELAY;
+      return false;
+    }
+
+    // Favorites may have changed during the lookup
+    const current = (await storageService.get<StoredFavorite[]>(STORAGE_KEYS.FAVORITES)) || [];
+    const migrated = current.map(favorite => {
+      const legacyId = getLegacyOsmId(favorite);
+      return legacyId === null
+        ? (favorite as Favorite)
+        : { ...favorite, id: osmAttractionId(this.resolveElementType(favorite, legacyId, elements), legacyId) };
+    });
+    if (!(await storageService.set(STORAGE_KEYS.FAVORITES, migrated))) {
+      this.retryMigrationAt = Date.now() + FAVORITES_CONFIG.MIGRATION_RETRY_DELAY;
+      return false;
+    }
+    await storageService.set(STORAGE_KEYS.FAVORITES_MIGRATED, true);
+    return true;
+  }
+
+  /**
+   * Fetch all elements with the given ids
+   * @returns Elements of any type, or null if Overpass could not be reached
+   */
+  private async lookupOsmElements(ids: number[]): Promise<OsmLookupElement[] | null> {
+    try {
+      const data = await overpassService.runQuery<{ elements?: OsmLookupElement[] }>(timeout =>
+        buildElementLookupQuery(ids, timeout)
+      );
+      return data?.elements || [];
+    } catch (error) {
+      errorNotificationService.logDebugInfo({
+        source: ErrorSource.FavoritesService,
+        method: 'migrateFavorites',
+        error: String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Type of the element with this id at the favorite's position
+   * Elements no longer in OSM cannot be matched and are assumed to be nodes.
+   */
+  private resolveElementType(
+    favorite: StoredFavorite,
+    id: number,
+    elements: OsmLookupElement[]
+  ): OsmElementType {
+    let closest: { type: OsmElementType; distance: number } | null = null;
+
+    for (const element of elements) {
+      const latitude = element.lat ?? element.center?.lat;
+      const longitude = element.lon ?? element.center?.lon;
+      if (element.id !== id || latitude === undefined || longitude === undefined) continue;
+
+      const distance = calculateDistance(favorite, { latitude, longitude });
+      if (!closest || distance < closest.distance) {
+        closest = { type: element.type, distance };
+      }
+    }
+
+    return closest && closest.distance <= ATTRACTION_PROVIDERS_CONFIG.MERGE_MAX_DISTANCE
+      ? closest.type
+      : 'node';
+  }
 }
 
 export default new FavoritesService();
@@ -0,0 +1,82 @@
+import { SearchResult } from '../types';
+import { STORAGE_KEYS, GEOCODING_CONFIG } from '../constants';
+import { matchSearchText } from '../utils/fuzzySearch';
+import storageService from './storage.service';
+
+interface CachedSearchResult {
+  result: SearchResult;
+  language: string;
+  cachedAt: number;
+}
+
+const isValidEntry = (entry: any): entry is CachedSearchResult =>
+  typeof entry?.result?.id === 'string' &&
+  typeof entry.result.primaryName === 'string' &&
+  typeof entry.result.coordinates?.latitude === 'number' &&
+  typeof entry.result.coordinates?.longitude === 'number' &&
+  typeof entry.language === 'string' &&
+  typeof entry.cachedAt === 'number';
+
+/**
+ * Service keeping location search results on the device
+ * Answers searches instantly and offline by fuzzy prefix matching the places
+ * found before, so "muen" finds "München" once it was searched.
+ */
+class GeocodingCacheService {
+  // Newest first; loaded from storage on first use
+  private entries: CachedSearchResult[] | null = null;
+
+  /**
+   * Find cached places matching the query
+   * Places cached in another language are only used when missing in this one.
+   * @returns Best matches first, by match quality and importance
+   */
+  async search(query: string, language: string, limit: number = 5): Promise<SearchResult[]> {
+    const entries = await this.load();
+    const preferred = new Map<string, SearchResult>();
+    entries.forEach(({ result, language: entryLanguage }) => {
+      if (entryLanguage === language || !preferred.has(result.id)) preferred.set(result.id, result);
+    });
+
+    return [...preferred.values()]
+      .map(result => ({ result, quality: matchSearchText(query, result.primaryName, result.displayName) }))
+      .filter((match): match is { result: SearchResult; quality: number } => match.quality !== null)
+      .sort((a, b) => b.quality - a.quality || b.result.importance - a.result.importance)
+      .slice(0, limit)
+      .map(match => match.result);
+  }
+
+  /**
+   * Keep search results, replacing older copies in the same language
+   * Beyond the cache size, the oldest results are dropped.
+   */
+  async store(results: SearchResult[], language: string, now: number = Date.now()): Promise<void> {
+    if (results.length === 0) return;
+
+    const entries = await this.load();
+    const ids = new Set(results.map(result => result.id));
+    this.entries = [
+      ...results.map(result => ({ result, language, cachedAt: now })),
+      ...entries.filter(entry => entry.language !== language || !ids.has(entry.result.id)),
+    ].slice(0, GEOCODING_CONFIG.OFFLINE_CACHE_SIZE);
+    await storageService.set(STORAGE_KEYS.GEOCODING_CACHE, this.entries);
+  }
+
+  /**
+   * Forget all cached results
+   */
+  async clear(): Promise<void> {
+    this.entries = [];
+    await storageService.remove(STORAGE_KEYS.GEOCODING_CACHE);
+  }
+
+  private async load(): Promise<CachedSearchResult[]> {
+    if (!this.entries) {
+      const stored = await storageService.get<unknown[]>(STORAGE_KEYS.GEOCODING_CACHE);
+      this.entries = Array.isArray(stored) ? stored.filter(isValidEntry) : [];
+    }
+    return this.entries;
+  }
+}
+
+export default new GeocodingCacheService();
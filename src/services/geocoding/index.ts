@@ -0,0 +1,25 @@
+import { Geocoder } from '../../types';
+import nominatimGeocoder, { NominatimGeocoder } from './nominatim.geocoder';
+import photonGeocoder, { PhotonGeocoder } from './photon.geocoder';
+import { PeliasGeocoder } from './pelias.geocoder';
+import { StubGeocoder } from './stub.geocoder';
+
+export { nominatimGeocoder, photonGeocoder, NominatimGeocoder, PhotonGeocoder, PeliasGeocoder, StubGeocoder };
+
+/**
+ * Geocoder by id, Nominatim for unknown ids
+ * @param endpoint - Base URL replacing the public instance, e.g. a self-hosted one
+ * @param apiKey - Key for hosted Pelias instances
+ */
+export const createGeocoder = (id?: string, endpoint?: string, apiKey?: string): Geocoder => {
+  switch (id) {
+    case 'photon':
+      return endpoint ? new PhotonGeocoder(endpoint) : photonGeocoder;
+    case 'pelias':
+      return new PeliasGeocoder(endpoint || undefined, apiKey || undefined);
+    case 'stub':
+      return new StubGeocoder();
+    default:
+      return endpoint ? new NominatimGeocoder(endpoint) : nominatimGeocoder;
+  }
+};
@@ -0,0 +1,80 @@
+import axios from 'axios';
+import { CityInfo, Coordinates, Geocoder, GeocoderOptions, SearchResult } from '../../types';
+import { API_ENDPOINTS, APP_CONFIG } from '../../constants';
+import { toAcceptLanguage } from '../../utils/language';
+import { GeocodedPlace, toCityInfo, toSearchResult } from './place';
+
+const OSM_TYPES = ['node', 'way', 'relation'];
+
+/**
+ * Geocoder for the Nominatim API, by default the public OpenStreetMap instance
+ * https://nominatim.org/release-docs/latest/api/Overview/
+ */
+export class NominatimGeocoder implements Geocoder {
+  readonly id = 'nominatim';
+
+  constructor(private readonly endpoint: string = API_ENDPOINTS.NOMINATIM) {}
+
+  async search(query: string, { languages, limit = 5 }: GeocoderOptions): Promise<SearchResult[]> {
+    const response = await axios.get(`${this.endpoint}/search`, {
+      params: {
+        q: query,
+        format: 'json',
+        limit,
+        'accept-language': toAcceptLanguage(languages),
+        addressdetails: 1,
+        extratags: 1,
+      },
+      headers: {
+        'User-Agent': APP_CONFIG.USER_AGENT,
+      },
+      timeout: APP_CONFIG.REQUEST_TIMEOUT,
+    });
+
+    if (!Array.isArray(response.data)) return [];
+    return response.data.map(item => toSearchResult(this.toPlace(item)));
+  }
+
+  async reverse(coordinates: Coordinates, { languages }: GeocoderOptions): Promise<CityInfo | null> {
+    const response = await axios.get(`${this.endpoint}/reverse`, {
+      params: {
+        lat: coordinates.latitude,
+        lon: coordinates.longitude,
+        format: 'json',
+        'accept-language': toAcceptLanguage(languages),
+      },
+      headers: {
+        'User-Agent': APP_CONFIG.USER_AGENT,
+      },
+      timeout: APP_CONFIG.REQUEST_TIMEOUT,
+    });
+
+    // Positions without an address, e.g. at sea, are answered with an error object
+    if (!response.data || response.data.error) return null;
+    return toCityInfo(this.toPlace(response.data));
+  }
+
+  private toPlace(item: any): GeocodedPlace {
+    const address = item.address || {};
+    const place: GeocodedPlace = {
+      id: String(item.place_id),
+      displayName: item.display_name || '',
+      name: item.name,
+      locality: address.city || address.town || address.village || address.municipality,
+      county: address.county,
+      state: address.state,
+      country: address.country,
+      latitude: parseFloat(item.lat),
+      longitude: parseFloat(item.lon),
+      type: item.type,
+      importance: parseFloat(item.importance || '0'),
+    };
+
+    if (OSM_TYPES.includes(item.osm_type)) {
+      place.osm = { type: item.osm_type, id: Number(item.osm_id), class: item.class, tags: item.extratags };
+    }
+    return place;
+  }
+}
+
+export default new NominatimGeocoder();
@@ -0,0 +1,78 @@
+import axios from 'axios';
+import { CityInfo, Coordinates, Geocoder, GeocoderOptions, SearchResult } from '../../types';
+import { API_ENDPOINTS, APP_CONFIG } from '../../constants';
+import { GeocodedPlace, toCityInfo, toSearchResult } from './place';
+
+/**
+ * Geocoder for the Pelias API, by default geocode.earth
+ * Hosted instances require an API key, self-hosted ones usually don't. Pelias
+ * doesn't tell OSM classes apart, so its results are offered as places only.
+ * https://github.com/pelias/documentation
+ */
+export class PeliasGeocoder implements Geocoder {
+  readonly id = 'pelias';
+
+  constructor(
+    private readonly endpoint: string = API_ENDPOINTS.PELIAS,
+    private readonly apiKey?: string
+  ) {}
+
+  async search(query: string, { languages, limit = 5 }: GeocoderOptions): Promise<SearchResult[]> {
+    const response = await axios.get(`${this.endpoint}/search`, {
+      params: {
+        text: query,
+        size: limit,
+        lang: languages[0],
+        ...this.getKeyParams(),
+      },
+      headers: {
+        'User-Agent': APP_CONFIG.USER_AGENT,
+      },
+      timeout: APP_CONFIG.REQUEST_TIMEOUT,
+    });
+
+    const features: any[] = response.data?.features || [];
+    return features.map(feature => toSearchResult(this.toPlace(feature)));
+  }
+
+  async reverse(coordinates: Coordinates, { languages }: GeocoderOptions): Promise<CityInfo | null> {
+    const response = await axios.get(`${this.endpoint}/reverse`, {
+      params: {
+        'point.lat': coordinates.latitude,
+        'point.lon': coordinates.longitude,
+        size: 1,
+        lang: languages[0],
+        ...this.getKeyParams(),
+      },
+      headers: {
+        'User-Agent': APP_CONFIG.USER_AGENT,
+      },
+      timeout: APP_CONFIG.REQUEST_TIMEOUT,
+    });
+
+    const [feature] = response.data?.features || [];
+    return feature ? toCityInfo(this.toPlace(feature)) : null;
+  }
+
+  private getKeyParams(): { api_key?: string } {
+    return this.apiKey ? { api_key: this.apiKey } : {};
+  }
+
+  private toPlace(feature: any): GeocodedPlace {
+    const properties = feature.properties || {};
+    const [longitude, latitude] = feature.geometry?.coordinates || [];
+    return {
+      id: properties.gid,
+      displayName: properties.label || properties.name,
+      name: properties.name,
+      locality: properties.locality || properties.localadmin,
+      county: properties.county,
+      state: properties.region,
+      country: properties.country,
+      latitude,
+      longitude,
+      type: properties.layer,
+      importance: properties.confidence ?? 0,
+    };
+  }
+}
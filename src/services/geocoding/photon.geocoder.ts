@@ -0,0 +1,96 @@
+import axios from 'axios';
+import { CityInfo, Coordinates, Geocoder, GeocoderOptions, SearchResult } from '../../types';
+import { API_ENDPOINTS, APP_CONFIG, GEOCODING_CONFIG } from '../../constants';
+import { OsmElementType } from '../../utils/attractionId';
+import { GeocodedPlace, toCityInfo, toSearchResult } from './place';
+
+const OSM_TYPES: Record<string, OsmElementType> = {
+  N: 'node',
+  W: 'way',
+  R: 'relation',
+};
+
+/**
+ * Geocoder for the Photon API, by default the public instance by Komoot
+ * Photon ranks results without an importance, so earlier results rate higher.
+ * https://github.com/komoot/photon#api
+ */
+export class PhotonGeocoder implements Geocoder {
+  readonly id = 'photon';
+
+  constructor(private readonly endpoint: string = API_ENDPOINTS.PHOTON) {}
+
+  async search(query: string, { languages, limit = 5 }: GeocoderOptions): Promise<SearchResult[]> {
+    const response = await axios.get(`${this.endpoint}/api`, {
+      params: {
+        q: query,
+        limit,
+        lang: this.getLanguage(languages),
+      },
+      headers: {
+        'User-Agent': APP_CONFIG.USER_AGENT,
+      },
+      timeout: APP_CONFIG.REQUEST_TIMEOUT,
+    });
+
+    const features: any[] = response.data?.features || [];
+    return features.map((feature, index) => toSearchResult(this.toPlace(feature, 1 - index / features.length)));
+  }
+
+  async reverse(coordinates: Coordinates, { languages }: GeocoderOptions): Promise<CityInfo | null> {
+    const response = await axios.get(`${this.endpoint}/reverse`, {
+      params: {
+        lat: coordinates.latitude,
+        lon: coordinates.longitude,
+        limit: 1,
+        lang: this.getLanguage(languages),
+      },
+      headers: {
+        'User-Agent': APP_CONFIG.USER_AGENT,
+      },
+      timeout: APP_CONFIG.REQUEST_TIMEOUT,
+    });
+
+    const [feature] = response.data?.features || [];
+    return feature ? toCityInfo(this.toPlace(feature, 1)) : null;
+  }
+
+  /**
+   * First supported language; Photon rejects others
+   */
+  private getLanguage(languages: string[]): string | undefined {
+    return languages
+      .map(language => language.split('-')[0])
+      .find(language => (GEOCODING_CONFIG.PHOTON_LANGUAGES as readonly string[]).includes(language));
+  }
+
+  private toPlace(feature: any, importance: number): GeocodedPlace {
+    const properties = feature.properties || {};
+    const [longitude, latitude] = feature.geometry?.coordinates || [];
+    const osmType = OSM_TYPES[properties.osm_type];
+    const locality = properties.city || properties.town || properties.village;
+    const place: GeocodedPlace = {
+      id: osmType ? `${osmType}:${properties.osm_id}` : `photon:${latitude},${longitude}`,
+      displayName: [properties.name, properties.street, locality, properties.state, properties.country]
+        .filter((part, index, parts) => part && parts.indexOf(part) === index)
+        .join(', '),
+      name: properties.name,
+      // Photon names cities themselves rather than listing them as their own city
+      locality: locality || (properties.osm_key === 'place' ? properties.name : undefined),
+      county: properties.county,
+      state: properties.state,
+      country: properties.country,
+      latitude,
+      longitude,
+      type: properties.osm_value,
+      importance,
+    };
+
+    if (osmType) {
+      place.osm = { type: osmType, id: Number(properties.osm_id), class: properties.osm_key };
+    }
+    return place;
+  }
+}
+
+export default new PhotonGeocoder();
@@ -0,0 +1,104 @@
+import { Attraction, CityInfo, SearchResult } from '../../types';
+import { SEARCH_CONFIG } from '../../constants';
+import { OsmElementType, osmAttractionId } from '../../utils/attractionId';
+import ratingService from '../rating.service';
+
+/**
+ * OpenStreetMap element a geocoding result stems from
+ */
+export interface OsmSource {
+  type: OsmElementType;
+  id: number;
+  class: string; // e.g. tourism, historic or place
+  tags?: Record<string, string | undefined>;
+}
+
+/**
+ * Geocoding result in a form shared by all backends
+ */
+export interface GeocodedPlace {
+  id: string;
+  displayName: string;
+  name?: string;
+  locality?: string; // city, town, village or municipality
+  county?: string;
+  state?: string;
+  country?: string;
+  latitude: number;
+  longitude: number;
+  type: string;
+  importance: number; // 0 to 1
+  osm?: OsmSource;
+}
+
+/**
+ * Attraction from a place of an attraction class, or null for other places
+ */
+export const toAttraction = (place: GeocodedPlace): Attraction | null => {
+  const { osm } = place;
+  if (!osm || !(SEARCH_CONFIG.ATTRACTION_CLASSES as readonly string[]).includes(osm.class) || !osm.id) {
+    return null;
+  }
+
+  const tags = osm.tags || {};
+  const { rating, breakdown } = ratingService.rateTags(tags);
+  const attraction: Attraction = {
+    id: osmAttractionId(osm.type, osm.id),
+    name: place.name || place.displayName.split(',')[0],
+    latitude: place.latitude,
+    longitude: place.longitude,
+    type: place.type || 'attraction',
+    distance: 0,
+    rating,
+    ratingBreakdown: breakdown,
+    description: tags.description || '',
+  };
+
+  if (tags.wikipedia) attraction.wikipedia = tags.wikipedia;
+  if (tags.wikidata) attraction.wikidata = tags.wikidata;
+  if (tags.opening_hours) attraction.openingHours = tags.opening_hours.trim();
+  const website = tags.website || tags['contact:website'] || tags.url;
+  if (website) attraction.website = website;
+
+  return attraction;
+};
+
+/**
+ * Search result named by its city, or by itself for attractions
+ */
+export const toSearchResult = (place: GeocodedPlace): SearchResult => {
+  const result: SearchResult = {
+    id: place.id,
+    displayName: place.displayName,
+    primaryName: place.locality || place.name || place.displayName.split(',')[0],
+    secondaryInfo: [place.state, place.country].filter(Boolean).join(', '),
+    coordinates: {
+      latitude: place.latitude,
+      longitude: place.longitude,
+    },
+    type: place.type || 'unknown',
+    importance: place.importance,
+  };
+
+  const attraction = toAttraction(place);
+  if (!attraction) return result;
+  return {
+    ...result,
+    primaryName: attraction.name,
+    secondaryInfo: [place.locality, place.country].filter(Boolean).join(', '),
+    kind: 'attraction',
+    attraction,
+  };
+};
+
+/**
+ * City a reverse geocoded place lies in
+ */
+export const toCityInfo = (place: GeocodedPlace): CityInfo => ({
+  city: place.locality || place.county || place.displayName.split(',')[0],
+  country: place.country ?? '',
+  state: place.state,
+  fullAddress: place.displayName,
+  latitude: place.latitude,
+  longitude: place.longitude,
+});
@@ -0,0 +1,42 @@
+import { CityInfo, Coordinates, Geocoder, GeocoderOptions, SearchResult } from '../../types';
+import { calculateDistance } from '../../utils/distance';
+import { matchSearchText } from '../../utils/fuzzySearch';
+
+/**
+ * In-memory geocoder without network access, for tests and development
+ * Searches the given places by name and reverse geocodes to the closest one.
+ */
+export class StubGeocoder implements Geocoder {
+  readonly id = 'stub';
+  readonly requests: Array<{ query?: string; coordinates?: Coordinates; options: GeocoderOptions }> = [];
+
+  constructor(private readonly places: SearchResult[] = []) {}
+
+  async search(query: string, options: GeocoderOptions): Promise<SearchResult[]> {
+    this.requests.push({ query, options });
+    return this.places
+      .map(place => ({ place, quality: matchSearchText(query, place.primaryName, place.displayName) }))
+      .filter(({ quality }) => quality !== null)
+      .sort((a, b) => b.quality! - a.quality! || b.place.importance - a.place.importance)
+      .slice(0, options.limit ?? 5)
+      .map(({ place }) => place);
+  }
+
+  async reverse(coordinates: Coordinates, options: GeocoderOptions): Promise<CityInfo | null> {
+    this.requests.push({ coordinates, options });
+    const [closest] = [...this.places].sort(
+      (a, b) => calculateDistance(coordinates, a.coordinates) - calculateDistance(coordinates, b.coordinates)
+    );
+    if (!closest) return null;
+
+    const parts = closest.secondaryInfo.split(', ');
+    return {
+      city: closest.primaryName,
+      country: parts[parts.length - 1],
+      state: parts.length > 1 ? parts[0] : undefined,
+      fullAddress: closest.displayName,
+      latitude: closest.coordinates.latitude,
+      longitude: closest.coordinates.longitude,
+    };
+  }
+}
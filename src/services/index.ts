@@ -5,3 +5,11 @@ export { default as locationService } from './location.service';
 export { default as attractionsService } from './attractions.service';
 export { default as openaiService } from './openai.service';
 export { default as wikiService } from './wiki.service';
+export { default as ratingService } from './rating.service';
+export { default as overpassService } from './overpass.service';
+export { default as routingService } from './routing.service';
+export { default as proximityService } from './proximity.service';
+export { default as trackingService } from './tracking.service';
+export { default as searchHistoryService } from './search-history.service';
+export { default as geocodingCacheService } from './geocoding-cache.service';
+export { default as searchService } from './search.service';
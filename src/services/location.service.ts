@@ -1,16 +1,33 @@
 import * as Location from 'expo-location';
 import axios from 'axios';
-import { Coordinates, CityInfo, SearchResult } from '../types';
-import { API_ENDPOINTS, APP_CONFIG } from '../constants';
+import { Coordinates, CityInfo, Geocoder, GeocoderOptions, SearchResult } from '../types';
+import { GEOCODING_CONFIG, LOCATION_CONFIG } from '../constants';
+import config from '../config';
+import i18n from '../config/i18n';
 import errorNotificationService from './error-notification.service';
+import geocodingCacheService from './geocoding-cache.service';
+import { createGeocoder } from './geocoding';
 import { ErrorType, ErrorSource, ErrorSeverity } from '../types/errors';
+import { getLanguageChain } from '../utils/language';
+
+type GeocodingResult = CityInfo | Coordinates | SearchResult[];
 
 /**
  * Service for location-related operations
+ * Geocoding uses the geocoder named in the app config and follows the app
+ * language. Results are cached per language, so switching back and forth
+ * doesn't repeat requests.
  */
 class LocationService {
   private lastRequestTime = 0;
-  private readonly RATE_LIMIT_MS = 1000; // 1 request per second for Nominatim
+  // Requests waiting for their turn under the rate limit
+  private rateLimitQueue: Promise<void> = Promise.resolve();
+  private cache = new Map<string, GeocodingResult>();
+  private geocoder: Geocoder = createGeocoder(
+    config.get<string | undefined>('geocoder'),
+    config.get<string | undefined>('geocoder_endpoint'),
+    config.get<string | undefined>('geocoder_api_key')
+  );
   /**
    * Request location permissions
    */
@@ -83,9 +100,9 @@ class LocationService {
 
       return await Location.watchPositionAsync(
         options || {
-          accuracy: Location.Accuracy.Balanced,
-          distanceInterval: 500,
-          timeInterval: 120000,
+          accuracy: Location.Accuracy[LOCATION_CONFIG.ACCURACY],
+          distanceInterval: LOCATION_CONFIG.DISTANCE_INTERVAL,
+          timeInterval: LOCATION_CONFIG.TIME_INTERVAL,
         },
         callback
       );
@@ -101,81 +118,34 @@ class LocationService {
     }
   }
 
+  /**
+   * Replace the geocoder, e.g. with a stub in tests
+   */
+  setGeocoder(geocoder: Geocoder): void {
+    this.geocoder = geocoder;
+    this.cache.clear();
+  }
+
+  getGeocoder(): Geocoder {
+    return this.geocoder;
+  }
+
   /**
    * Reverse geocode coordinates to city info
    */
   async reverseGeocode(coordinates: Coordinates): Promise<CityInfo | null> {
-    try {
-      const response = await axios.get(`${API_ENDPOINTS.NOMINATIM}/reverse`, {
-        params: {
-          lat: coordinates.latitude,
-          lon: coordinates.longitude,
-          format: 'json',
-          'accept-language': 'de',
-        },
-        headers: {
-          'User-Agent': APP_CONFIG.USER_AGENT,
-        },
-      });
+    const [language] = this.getLanguages();
+    // Positions within about 10 meters share a city
+    const cacheKey = `reverse_${language}_${coordinates.latitude.toFixed(4)}_${coordinates.longitude.toFixed(4)}`;
+    const cached = this.cache.get(cacheKey) as CityInfo | undefined;
+    if (cached) return cached;
 
-      if (response.data) {
-        const address = response.data.address;
-        
-        const cityName =
-          address.city ||
-          address.town ||
-          address.village ||
-          address.municipality ||
-          address.county ||
-          response.data.display_name.split(',')[0];
-        
-        return {
-          city: cityName,
-          country: address.country,
-          state: address.state,
-          fullAddress: response.data.display_name,
-          latitude: parseFloat(response.data.lat),
-          longitude: parseFloat(response.data.lon),
-        };
-      }
-      
-      return null;
+    try {
+      const cityInfo = await this.geocode((geocoder, options) => geocoder.reverse(coordinates, options));
+      if (cityInfo) this.remember(cacheKey, cityInfo);
+      return cityInfo;
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        if (error.code === 'ECONNABORTED' || error.message?.includes('timeout')) {
-          errorNotificationService.showError({
-            type: ErrorType.Network,
-            source: ErrorSource.LocationService,
-            severity: ErrorSeverity.Warning,
-            messageKey: 'errors.network.timeout',
-            error,
-          });
-        } else if (!error.response) {
-          errorNotificationService.showError({
-            type: ErrorType.Network,
-            source: ErrorSource.LocationService,
-            severity: ErrorSeverity.Warning,
-            messageKey: 'errors.network.offline',
-            error,
-          });
-        } else {
-          errorNotificationService.showError({
-            type: ErrorType.API,
-            source: ErrorSource.LocationService,
-            severity: ErrorSeverity.Warning,
-            messageKey: 'errors.api.genericError',
-            error,
-          });
-        }
-      } else {
-        errorNotificationService.showError({
-          type: ErrorType.API,
-          source: ErrorSource.LocationService,
-          severity: ErrorSeverity.Warning,
-          messageKey: 'errors.api.genericError',
-          error: error instanceof Error ? error : new Error(String(error)),
-        });
-      }
+      this.showGeocodingError(error);
       return null;
     }
   }
@@ -184,85 +154,126 @@ class LocationService {
    * Search location by name
    */
   async searchLocation(locationName: string): Promise<Coordinates | null> {
+    const [language] = this.getLanguages();
+    const cacheKey = `place_${language}_${locationName.trim().toLowerCase()}`;
+    const cached = this.cache.get(cacheKey) as Coordinates | undefined;
+    if (cached) return cached;
+
     try {
-      const response = await axios.get(`${API_ENDPOINTS.NOMINATIM}/search`, {
-        params: {
-          q: locationName,
-          format: 'json',
-          limit: 1,
-          'accept-language': 'de',
-        },
-        headers: {
-          'User-Agent': APP_CONFIG.USER_AGENT,
-        },
-      });
+      const [result] = await this.geocode((geocoder, options) =>
+        geocoder.search(locationName, { ...options, limit: 1 })
+      );
+      if (!result) return null;
 
-      if (response.data && response.data.length > 0) {
-        const result = response.data[0];
-        return {
-          latitude: parseFloat(result.lat),
-          longitude: parseFloat(result.lon),
-        };
-      }
-      
-      return null;
+      this.remember(cacheKey, result.coordinates);
+      return result.coordinates;
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
-          errorNotificationService.showError({
-            type: ErrorType.Network,
-            source: ErrorSource.LocationService,
-            severity: ErrorSeverity.Warning,
-            messageKey: 'errors.network.timeout',
-            error,
-          });
-        } else if (!error.response) {
-          errorNotificationService.showError({
-            type: ErrorType.Network,
-            source: ErrorSource.LocationService,
-            severity: ErrorSeverity.Warning,
-            messageKey: 'errors.network.offline',
-            error,
-          });
-        } else {
-          errorNotificationService.showError({
-            type: ErrorType.API,
-            source: ErrorSource.LocationService,
-            severity: ErrorSeverity.Warning,
-            messageKey: 'errors.api.genericError',
-            error,
-          });
-        }
-      } else {
-        errorNotificationService.showError({
-          type: ErrorType.API,
-          source: ErrorSource.LocationService,
-          severity: ErrorSeverity.Warning,
-          messageKey: 'errors.api.genericError',
-          error: error instanceof Error ? error : new Error(String(error)),
-        });
-      }
+      this.showGeocodingError(error);
       return null;
     }
   }
 
   /**
-   * Apply rate limiting for Nominatim API (1 request per second)
+   * Forget all cached geocoding results
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Languages for geocoding, the app language first
+   */
+  private getLanguages(): string[] {
+    return getLanguageChain(i18n.language);
+  }
+
+  /**
+   * Keep a geocoding result, evicting the oldest beyond the cache size
+   */
+  private remember(key: string, result: GeocodingResult): void {
+    this.cache.delete(key);
+    this.cache.set(key, result);
+    if (this.cache.size > GEOCODING_CONFIG.CACHE_SIZE) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+  }
+
+  /**
+   * Ask the geocoder in the app language, after the rate limit
+   */
+  private async geocode<T>(request: (geocoder: Geocoder, options: GeocoderOptions) => Promise<T>): Promise<T> {
+    await this.applyRateLimit();
+    return request(this.geocoder, { languages: this.getLanguages() });
+  }
+
+  /**
+   * Apply rate limiting shared by all geocoders (1 request per second, as Nominatim allows)
+   * Concurrent requests take turns, so they can't all pass after one wait.
    */
-  private async applyRateLimit(): Promise<void> {
+  private applyRateLimit(): Promise<void> {
+    this.rateLimitQueue = this.rateLimitQueue.then(() => this.waitForNextRequest());
+    return this.rateLimitQueue;
+  }
+
+  private async waitForNextRequest(): Promise<void> {
     const now = Date.now();
     const timeSinceLastRequest = now - this.lastRequestTime;
     
-    if (timeSinceLastRequest < this.RATE_LIMIT_MS) {
-      const waitTime = this.RATE_LIMIT_MS - timeSinceLastRequest;
+    // A clock set back doesn't block requests
+    if (timeSinceLastRequest >= 0 && timeSinceLastRequest < GEOCODING_CONFIG.MIN_REQUEST_INTERVAL) {
+      const waitTime = GEOCODING_CONFIG.MIN_REQUEST_INTERVAL - timeSinceLastRequest;
       await new Promise(resolve => setTimeout(resolve, waitTime));
     }
     
     this.lastRequestTime = Date.now();
   }
 
+  /**
+   * Tell the user why geocoding failed, whichever geocoder is used
+   */
+  private showGeocodingError(error: unknown): void {
+    if (axios.isAxiosError(error)) {
+      if (error.code === 'ECONNABORTED' || error.message?.includes('timeout')) {
+        errorNotificationService.showError({
+          type: ErrorType.Network,
+          source: ErrorSource.LocationService,
+          severity: ErrorSeverity.Warning,
+          messageKey: 'errors.network.timeout',
+          error,
+        });
+      } else if (!error.response) {
+        errorNotificationService.showError({
+          type: ErrorType.Network,
+          source: ErrorSource.LocationService,
+          severity: ErrorSeverity.Warning,
+          messageKey: 'errors.network.offline',
+          error,
+        });
+      } else {
+        errorNotificationService.showError({
+          type: ErrorType.API,
+          source: ErrorSource.LocationService,
+          severity: ErrorSeverity.Warning,
+          messageKey: 'errors.api.genericError',
+          error,
+        });
+      }
+    } else {
+      errorNotificationService.showError({
+        type: ErrorType.API,
+        source: ErrorSource.LocationService,
+        severity: ErrorSeverity.Warning,
+        messageKey: 'errors.api.genericError',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  }
+
   /**
    * Search locations by query string
+   * Results are kept on the device; when the geocoder can't be reached,
+   * matching places found before are returned instead.
    * @param query - Search query (city name, address, etc.)
    * @param limit - Maximum number of results (default: 5)
    * @returns Array of search results
@@ -273,97 +284,42 @@ class LocationService {
       return [];
     }
 
-    try {
-      // Apply rate limiting
-      await this.applyRateLimit();
+    const [language] = this.getLanguages();
+    const cacheKey = `search_${language}_${limit}_${query.trim().toLowerCase()}`;
+    const cached = this.cache.get(cacheKey) as SearchResult[] | undefined;
+    if (cached) return cached;
 
-      const response = await axios.get(API_ENDPOINTS.NOMINATIM_SEARCH, {
-        params: {
-          q: query.trim(),
-          format: 'json',
-          limit,
-          'accept-language': 'de',
-          addressdetails: 1,
-        },
-        headers: {
-          'User-Agent': APP_CONFIG.USER_AGENT,
-        },
-        timeout: APP_CONFIG.REQUEST_TIMEOUT,
-      });
-
-      if (!response.data || !Array.isArray(response.data)) {
-        return [];
+    try {
+      const results = await this.geocode((geocoder, options) =>
+        geocoder.search(query.trim(), { ...options, limit })
+      );
+      this.remember(cacheKey, results);
+      await geocodingCacheService.store(results, language);
+      return results;
+    } catch (error) {
+      const offlineResults = await geocodingCacheService.search(query.trim(), language, limit);
+      if (offlineResults.length > 0) {
+        return offlineResults;
       }
 
-      // Transform Nominatim results to SearchResult format
-      return response.data.map((item: any) => {
-        const address = item.address || {};
-        
-        // Extract primary name (city, town, village)
-        const primaryName = address.city || 
-                           address.town || 
-                           address.village || 
-                           address.municipality ||
-                           item.name ||
-                           item.display_name.split(',')[0];
-
-        // Extract secondary info (state, country)
-        const secondaryParts = [];
-        if (address.state) secondaryParts.push(address.state);
-        if (address.country) secondaryParts.push(address.country);
-        const secondaryInfo = secondaryParts.join(', ');
+      this.showGeocodingError(error);
+      return [];
+    }
+  }
 
-        return {
-          id: item.place_id.toString(),
-          displayName: item.display_name,
-          primaryName,
-          secondaryInfo,
-          coordinates: {
-            latitude: parseFloat(item.lat),
-            longitude: parseFloat(item.lon),
-          },
-          type: item.type || 'unknown',
-          importance: parseFloat(item.importance || '0'),
-        };
-      });
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
-          errorNotificationService.showError({
-            type: ErrorType.Network,
-            source: ErrorSource.LocationService,
-            severity: ErrorSeverity.Warning,
-            messageKey: 'errors.network.timeout',
-            error,
-          });
-        } else if (!error.response) {
-          errorNotificationService.showError({
-            type: ErrorType.Network,
-            source: ErrorSource.LocationService,
-            severity: ErrorSeverity.Warning,
-            messageKey: 'errors.network.offline',
-            error,
-          });
-        } else {
-          errorNotificationService.showError({
-            type: ErrorType.API,
-            source: ErrorSource.LocationService,
-            severity: ErrorSeverity.Warning,
-            messageKey: 'errors.api.genericError',
-            error,
-          });
-        }
-      } else {
-        errorNotificationService.showError({
-          type: ErrorType.API,
-          source: ErrorSource.LocationService,
-          severity: ErrorSeverity.Warning,
-          messageKey: 'errors.api.genericError',
-          error: error instanceof Error ? error : new Error(String(error)),
-        });
-      }
+  /**
+   * Search the places found before, without a network request
+   * Fuzzy prefix matching ignores case and diacritics, so "muen" finds "München".
+   * @param query - Search query, possibly incomplete
+   * @param limit - Maximum number of results (default: 5)
+   */
+  async searchCachedLocations(query: string, limit: number = 5): Promise<SearchResult[]> {
+    if (!query || query.trim().length === 0) {
       return [];
     }
+
+    const [language] = this.getLanguages();
+    return geocodingCacheService.search(query.trim(), language, limit);
   }
 
   /**
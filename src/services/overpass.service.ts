@@ -0,0 +1,198 @@
+import axios from 'axios';
+import { APP_CONFIG, OVERPASS_CONFIG } from '../constants';
+import errorNotificationService from './error-notification.service';
+import { ErrorSource } from '../types/errors';
+
+export interface MirrorHealth {
+  url: string;
+  consecutiveFailures: number;
+  blockedUntil: number; // epoch ms
+  rateLimited: boolean; // last failure was a 429 - check slot status before reuse
+}
+
+/**
+ * Thrown when every mirror is backing off
+ */
+export class OverpassBusyError extends Error {
+  constructor(public readonly retryAt: number) {
+    super('All Overpass mirrors are busy');
+    this.name = 'OverpassBusyError';
+  }
+}
+
+/**
+ * Service for running Overpass queries across mirrors
+ * Tracks mirror health in memory, fails over on 429/5xx/timeouts and
+ * respects Retry-After and the server's slot status.
+ */
+class OverpassService {
+  private health = new Map<string, MirrorHealth>();
+
+  /**
+   * Run a query on the healthiest available mirror
+   * @param buildQuery - Builds the query for the server-side timeout (seconds) of an attempt
+   * @param until - Time (ms timestamp) to give up at if earlier than the request budget
+   * @throws The last mirror error, or OverpassBusyError if all mirrors are backing off
+   */
+  async runQuery<T = unknown>(buildQuery: (timeoutSeconds: number) => string, until: number = Infinity): Promise<T> {
+    const deadline = Math.min(Date.now() + OVERPASS_CONFIG.REQUEST_BUDGET, until);
+    let lastError: unknown = null;
+
+    for (const mirror of this.getMirrorsByHealth()) {
+      const remaining = deadline - Date.now();
+      if (remaining < OVERPASS_CONFIG.MIN_ATTEMPT_TIME) break;
+      if (mirror.blockedUntil > Date.now()) continue;
+      if (mirror.rateLimited && !(await this.hasFreeSlot(mirror))) continue;
+
+      const timeout = Math.min(deadline - Date.now(), OVERPASS_CONFIG.ATTEMPT_TIMEOUT);
+      const query = buildQuery(Math.floor(timeout / 1000));
+
+      try {
+        const response = await axios.post(mirror.url, `data=${encodeURIComponent(query)}`, {
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          timeout,
+        });
+        this.recordSuccess(mirror);
+        return response.data;
+      } catch (error) {
+        if (!this.isRetryable(error)) throw error;
+        this.recordFailure(mirror, error);
+        lastError = error;
+      }
+    }
+
+    if (lastError) throw lastError;
+    throw new OverpassBusyError(this.getNextAvailableTime());
+  }
+
+  /**
+   * Snapshot of the health of all configured mirrors
+   */
+  getMirrorStatus(): MirrorHealth[] {
+    return OVERPASS_CONFIG.MIRRORS.map(url => ({ ...this.getHealth(url) }));
+  }
+
+  /**
+   * Forget all recorded failures
+   */
+  reset(): void {
+    this.health.clear();
+  }
+
+  private getHealth(url: string): MirrorHealth {
+    let mirror = this.health.get(url);
+    if (!mirror) {
+      mirror = { url, consecutiveFailures: 0, blockedUntil: 0, rateLimited: false };
+      this.health.set(url, mirror);
+    }
+    return mirror;
+  }
+
+  /**
+   * Mirrors in configured order, with failing mirrors moved to the back
+   */
+  private getMirrorsByHealth(): MirrorHealth[] {
+    return OVERPASS_CONFIG.MIRRORS.map(url => this.getHealth(url)).sort(
+      (a, b) => a.consecutiveFailures - b.consecutiveFailures
+    );
+  }
+
+  private getNextAvailableTime(): number {
+    return Math.min(...OVERPASS_CONFIG.MIRRORS.map(url => this.getHealth(url).blockedUntil));
+  }
+
+  /**
+   * Only overload and connectivity problems are worth retrying on another mirror
+   */
+  private isRetryable(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) return false;
+    const status = error.response?.status;
+    return status === undefined || status === 429 || status >= 500;
+  }
+
+  private recordSuccess(mirror: MirrorHealth): void {
+    mirror.consecutiveFailures = 0;
+    mirror.blockedUntil = 0;
+    mirror.rateLimited = false;
+  }
+
+  private recordFailure(mirror: MirrorHealth, error: unknown): void {
+    const response = axios.isAxiosError(error) ? error.response : undefined;
+    const retryAfter = this.parseRetryAfter(response?.headers?.['retry-after']);
+    const backoff = Math.min(
+      OVERPASS_CONFIG.BACKOFF_BASE * 2 ** mirror.consecutiveFailures,
+      OVERPASS_CONFIG.BACKOFF_MAX
+    );
+
+    mirror.consecutiveFailures++;
+    mirror.rateLimited = response?.status === 429;
+    mirror.blockedUntil = Date.now() + (retryAfter ?? backoff);
+
+    errorNotificationService.logDebugInfo({
+      source: ErrorSource.AttractionsService,
+      method: 'runQuery',
+      mirror: mirror.url,
+      status: response?.status,
+      blockedUntil: new Date(mirror.blockedUntil).toISOString(),
+    });
+  }
+
+  /**
+   * Parse a Retry-After header (delay in seconds or HTTP date)
+   * @returns Delay in milliseconds, or null if absent or invalid
+   */
+  private parseRetryAfter(value: unknown): number | null {
+    if (typeof value !== 'string' && typeof value !== 'number') return null;
+    const text = String(value).trim();
+
+    if (/^\d+$/.test(text)) {
+      return Number(text) * 1000;
+    }
+
+    const date = Date.parse(text);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Ask the mirror's /status endpoint whether a query slot is free
+   * Blocks the mirror until the next slot if none is. Mirrors without a
+   * readable status are assumed to be available.
+   */
+  private async hasFreeSlot(mirror: MirrorHealth): Promise<boolean> {
+    try {
+      const response = await axios.get(mirror.url.replace(/\/interpreter$/, '/status'), {
+        headers: {
+          'User-Agent': APP_CONFIG.USER_AGENT,
+        },
+        responseType: 'text',
+        timeout: OVERPASS_CONFIG.STATUS_TIMEOUT,
+      });
+      const status = String(response.data);
+
+      if (/\d+ slots? available now/.test(status)) {
+        return true;
+      }
+
+      const waits = Array.from(status.matchAll(/Slot available after: \S+, in (-?\d+) seconds?/g)).map(
+        match => Number(match[1])
+      );
+      if (waits.length === 0) {
+        return true;
+      }
+
+      const wait = Math.min(...waits);
+      if (wait <= 0) {
+        return true;
+      }
+      mirror.blockedUntil = Date.now() + wait * 1000;
+      return false;
+    } catch (error) {
+      // Not all mirrors expose /status - let the query itself decide
+      return true;
+    }
+  }
+}
+
+export default new OverpassService();
@@ -0,0 +1,3 @@
+export { default as overpassProvider } from './overpass.provider';
+export { default as wikipediaProvider } from './wikipedia.provider';
+export { default as localProvider } from './local.provider';
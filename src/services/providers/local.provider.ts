@@ -0,0 +1,44 @@
+import { Attraction, AttractionProvider, AttractionQuery } from '../../types';
+import { LOCAL_ATTRACTIONS, LocalAttractionRecord } from '../../data/localAttractions';
+import { calculateDistance } from '../../utils/distance';
+import ratingService from '../rating.service';
+
+/**
+ * Attraction provider backed by a bundled dataset, works offline
+ */
+export class LocalProvider implements AttractionProvider {
+  readonly id = 'local' as const;
+
+  constructor(private readonly dataset: readonly LocalAttractionRecord[] = LOCAL_ATTRACTIONS) {}
+
+  /**
+   * Return dataset entries within the query radius
+   */
+  async fetchAttractions({ coordinates, radius }: AttractionQuery): Promise<Attraction[]> {
+    return this.dataset
+      .map(record => ({
+        record,
+        distance: calculateDistance(coordinates, record),
+      }))
+      .filter(({ distance }) => distance <= radius)
+      .map(({ record, distance }) => {
+        const { rating, breakdown } = ratingService.rateTags({ wikipedia: record.wikipedia });
+
+        return {
+          id: record.id,
+          name: record.name,
+          latitude: record.latitude,
+          longitude: record.longitude,
+          type: record.type,
+          distance: Math.round(distance),
+          rating,
+          ratingBreakdown: breakdown,
+          description: '',
+          ...(record.wikipedia ? { wikipedia: record.wikipedia } : {}),
+          sources: [this.id],
+        };
+      });
+  }
+}
+
+export default new LocalProvider();
@@ -0,0 +1,158 @@
+import {
+  Attraction,
+  AttractionAddress,
+  AttractionProvider,
+  AttractionQuery,
+  Coordinates,
+  WheelchairAccess,
+} from '../../types';
+import { calculateDistance } from '../../utils/distance';
+import { buildOverpassQuery, getFiltersForInterests } from '../../utils/overpassQuery';
+import { LOCATION_CONFIG } from '../../constants';
+import ratingService from '../rating.service';
+import overpassService from '../overpass.service';
+import { OsmElementType, osmAttractionId } from '../../utils/attractionId';
+
+interface OverpassElement {
+  type?: OsmElementType;
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags: {
+    name?: string;
+    tourism?: string;
+    historic?: string;
+    amenity?: string;
+    leisure?: string;
+    natural?: string;
+    shop?: string;
+    man_made?: string;
+    description?: string;
+    wikipedia?: string;
+    'wikipedia:de'?: string;
+    [key: string]: string | undefined;
+  };
+}
+
+/**
+ * Attraction provider backed by OpenStreetMap data from the Overpass API
+ */
+class OverpassProvider implements AttractionProvider {
+  readonly id = 'overpass' as const;
+
+  /**
+   * Query OSM features matching the interest filters around the coordinates
+   * @returns The nearest MAX_RETAINED_ATTRACTIONS features, sorted by distance
+   * @throws Errors from the last tried mirror, or OverpassBusyError
+   */
+  async fetchAttractions({ coordinates, radius, interests, deadline }: AttractionQuery): Promise<Attraction[]> {
+    const filters = getFiltersForInterests(interests);
+    const data = await overpassService.runQuery<{ elements?: OverpassElement[] }>(
+      timeout => buildOverpassQuery({ coordinates, radius, filters, timeout }),
+      deadline
+    );
+
+    if (!data?.elements) {
+      return [];
+    }
+
+    return this.parseOverpassElements(data.elements, coordinates)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, LOCATION_CONFIG.MAX_RETAINED_ATTRACTIONS);
+  }
+
+  /**
+   * Parse Overpass API elements to Attraction objects
+   */
+  private parseOverpassElements(
+    elements: OverpassElement[],
+    userLocation: Coordinates
+  ): Attraction[] {
+    return elements
+      .filter(element => element.tags?.name && element.id)
+      .map(element => {
+        const lat = element.lat || element.center?.lat;
+        const lon = element.lon || element.center?.lon;
+
+        if (!lat || !lon) return null;
+
+        const distance = calculateDistance(
+          userLocation,
+          { latitude: lat, longitude: lon }
+        );
+
+        let type = 'attraction';
+        if (element.tags.tourism) type = element.tags.tourism;
+        else if (element.tags.historic) type = element.tags.historic;
+        else if (element.tags.amenity) type = element.tags.amenity;
+        else if (element.tags.natural) type = element.tags.natural;
+        else if (element.tags.leisure) type = element.tags.leisure;
+        else if (element.tags.shop) type = element.tags.shop;
+        else if (element.tags.man_made) type = element.tags.man_made;
+
+        const { rating, breakdown } = ratingService.rateTags(element.tags);
+        const wikipedia =
+          element.tags.wikipedia ||
+          (element.tags['wikipedia:de'] ? `de:${element.tags['wikipedia:de']}` : undefined);
+
+        // Overpass always sends the type; partial data falls back to the geometry
+        const elementType = element.type || (element.center ? 'way' : 'node');
+
+        return {
+          id: osmAttractionId(elementType, element.id),
+          name: element.tags.name!,
+          latitude: lat,
+          longitude: lon,
+          type,
+          distance: Math.round(distance),
+          rating,
+          ratingBreakdown: breakdown,
+          description: element.tags.description || element.tags['wikipedia:de'] || '',
+          wikipedia,
+          ...this.parseMetadata(element.tags),
+          sources: [this.id],
+        };
+      })
+      .filter((item): item is NonNullable<typeof item> => item !== null);
+  }
+
+  /**
+   * Parse optional metadata from OSM tags, omitting fields that are not tagged
+   */
+  private parseMetadata(tags: OverpassElement['tags']): Partial<Attraction> {
+    const metadata: Partial<Attraction> = {};
+
+    const names: Attraction['names'] = {};
+    if (tags['name:en']) names.en = tags['name:en'];
+    if (tags['name:de']) names.de = tags['name:de'];
+    if (Object.keys(names).length > 0) metadata.names = names;
+
+    if (tags.wikidata) metadata.wikidata = tags.wikidata;
+    if (tags.opening_hours) metadata.openingHours = tags.opening_hours.trim();
+
+    const website = tags.website || tags['contact:website'] || tags.url;
+    if (website) metadata.website = website;
+
+    const phone = tags.phone || tags['contact:phone'];
+    if (phone) metadata.phone = phone;
+
+    if (tags.wheelchair && ['yes', 'limited', 'no'].includes(tags.wheelchair)) {
+      metadata.wheelchair = tags.wheelchair as WheelchairAccess;
+    }
+
+    if (tags.fee) metadata.fee = tags.fee !== 'no';
+
+    const address: AttractionAddress = {};
+    if (tags['addr:street']) address.street = tags['addr:street'];
+    if (tags['addr:housenumber']) address.houseNumber = tags['addr:housenumber'];
+    if (tags['addr:postcode']) address.postcode = tags['addr:postcode'];
+    if (tags['addr:city']) address.city = tags['addr:city'];
+    if (tags['addr:country']) address.country = tags['addr:country'];
+    if (Object.keys(address).length > 0) metadata.address = address;
+
+    return metadata;
+  }
+}
+
+export default new OverpassProvider();
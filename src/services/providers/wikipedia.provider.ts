@@ -0,0 +1,91 @@
+import axios from 'axios';
+import { Attraction, AttractionProvider, AttractionQuery } from '../../types';
+import {
+  APP_CONFIG,
+  ATTRACTION_PROVIDERS_CONFIG,
+  BASE_WIKIPEDIA_TYPES,
+  INTEREST_WIKIPEDIA_TYPES,
+} from '../../constants';
+import ratingService from '../rating.service';
+import { wikipediaAttractionId } from '../../utils/attractionId';
+
+interface GeosearchResult {
+  pageid: number;
+  ns: number;
+  title: string;
+  lat: number;
+  lon: number;
+  dist: number;
+  type?: string | null;
+}
+
+/**
+ * Coordinate types of the articles worth listing for a set of interests
+ */
+const getTypesForInterests = (interests: string[]): Set<string> =>
+  new Set([...BASE_WIKIPEDIA_TYPES, ...interests.flatMap(id => INTEREST_WIKIPEDIA_TYPES[id] || [])]);
+
+/**
+ * Attraction provider listing geotagged Wikipedia articles (`list=geosearch`)
+ */
+class WikipediaProvider implements AttractionProvider {
+  readonly id = 'wikipedia' as const;
+
+  /**
+   * Find articles around the coordinates in the query language edition
+   * Geosearch has no category filter, so articles are filtered by their
+   * coordinate type: sights, untyped articles and the types of the interests
+   * are kept, while cities, regions, stations and the like are dropped.
+   * @throws Network and API errors from the Wikipedia request
+   */
+  async fetchAttractions({
+    coordinates,
+    radius,
+    interests,
+    language = 'de',
+    deadline = Infinity,
+  }: AttractionQuery): Promise<Attraction[]> {
+    const response = await axios.get(`https://${language}.wikipedia.org/w/api.php`, {
+      params: {
+        action: 'query',
+        format: 'json',
+        list: 'geosearch',
+        gscoord: `${coordinates.latitude}|${coordinates.longitude}`,
+        gsradius: Math.min(Math.round(radius), ATTRACTION_PROVIDERS_CONFIG.WIKIPEDIA_MAX_RADIUS),
+        gslimit: ATTRACTION_PROVIDERS_CONFIG.WIKIPEDIA_RESULT_LIMIT,
+        gsprop: 'type',
+        origin: '*',
+      },
+      headers: {
+        'User-Agent': APP_CONFIG.USER_AGENT,
+      },
+      timeout: Math.max(1, Math.min(APP_CONFIG.REQUEST_TIMEOUT, deadline - Date.now())),
+    });
+
+    const results: GeosearchResult[] = response.data?.query?.geosearch || [];
+    const types = getTypesForInterests(interests);
+
+    return results
+      .filter(result => result.ns === 0 && (!result.type || types.has(result.type)))
+      .map(result => {
+        const wikipedia = `${language}:${result.title}`;
+        const { rating, breakdown } = ratingService.rateTags({ wikipedia });
+
+        return {
+          id: wikipediaAttractionId(language, result.title),
+          name: result.title,
+          latitude: result.lat,
+          longitude: result.lon,
+          type: 'attraction',
+          distance: Math.round(result.dist),
+          rating,
+          ratingBreakdown: breakdown,
+          description: '',
+          wikipedia,
+          sources: [this.id],
+        };
+      });
+  }
+}
+
+export default new WikipediaProvider();
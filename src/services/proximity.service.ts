@@ -0,0 +1,80 @@
+import { Attraction, Coordinates, Favorite, ProximityAlert, ProximityAlertSettings } from '../types';
+import { STORAGE_KEYS, PROXIMITY_ALERT_CONFIG } from '../constants';
+import { findNearbyPlaces } from '../utils/proximity';
+import storageService from './storage.service';
+
+// Time of the last alert per attraction id
+type AlertHistory = Record<string, number>;
+
+const DEFAULT_SETTINGS: ProximityAlertSettings = {
+  enabled: PROXIMITY_ALERT_CONFIG.ENABLED_BY_DEFAULT,
+  radius: PROXIMITY_ALERT_CONFIG.DEFAULT_RADIUS,
+};
+
+/**
+ * Service deciding when to alert the user about nearby places
+ * Each place alerts at most once per cooldown, also across app restarts.
+ */
+class ProximityService {
+  /**
+   * Get the alert settings, falling back to defaults for missing or invalid fields
+   */
+  async getSettings(): Promise<ProximityAlertSettings> {
+    const stored = await storageService.get<Partial<ProximityAlertSettings>>(STORAGE_KEYS.PROXIMITY_ALERT_SETTINGS);
+    return {
+      enabled: typeof stored?.enabled === 'boolean' ? stored.enabled : DEFAULT_SETTINGS.enabled,
+      radius: typeof stored?.radius === 'number' && stored.radius > 0 ? stored.radius : DEFAULT_SETTINGS.radius,
+    };
+  }
+
+  /**
+   * Save the alert settings
+   */
+  async saveSettings(settings: ProximityAlertSettings): Promise<boolean> {
+    return storageService.set(STORAGE_KEYS.PROXIMITY_ALERT_SETTINGS, settings);
+  }
+
+  /**
+   * Alerts for places near the position that did not alert within the cooldown
+   * The returned alerts are recorded, so the next check skips them.
+   * @param previous - Position of the last check; places already near it don't alert again
+   * @returns Alerts closest first; none while alerts are turned off
+   */
+  async checkPosition(
+    position: Coordinates,
+    favorites: Favorite[],
+    attractions: Attraction[],
+    previous: Coordinates | null = null,
+    now: number = Date.now()
+  ): Promise<ProximityAlert[]> {
+    const settings = await this.getSettings();
+    if (!settings.enabled) return [];
+
+    const nearBefore = new Set(
+      previous
+        ? findNearbyPlaces(previous, favorites, attractions, settings.radius).map(alert => alert.attraction.id)
+        : []
+    );
+    const nearby = findNearbyPlaces(position, favorites, attractions, settings.radius).filter(
+      alert => !nearBefore.has(alert.attraction.id)
+    );
+    if (nearby.length === 0) return [];
+
+    const history = (await storageService.get<AlertHistory>(STORAGE_KEYS.PROXIMITY_ALERT_HISTORY)) || {};
+    const isCoolingDown = (id: string) => now - (history[id] ?? -Infinity) < PROXIMITY_ALERT_CONFIG.COOLDOWN;
+    const alerts = nearby.filter(alert => !isCoolingDown(alert.attraction.id));
+    if (alerts.length === 0) return [];
+
+    // Expired entries are dropped so the history doesn't grow with every place passed
+    const updated: AlertHistory = Object.fromEntries(
+      Object.entries(history).filter(([id]) => isCoolingDown(id))
+    );
+    alerts.forEach(alert => {
+      updated[alert.attraction.id] = now;
+    });
+    await storageService.set(STORAGE_KEYS.PROXIMITY_ALERT_HISTORY, updated);
+    return alerts;
+  }
+}
+
+export default new ProximityService();
@@ -0,0 +1,147 @@
+import { Attraction, AttractionRating, RatingFactor } from '../types';
+import { RATING_CONFIG } from '../constants';
+import wikiService from './wiki.service';
+
+type OsmTags = Record<string, string | undefined>;
+
+/**
+ * Tags that describe a place beyond its name and category.
+ * Well-mapped places tend to be the ones worth visiting.
+ */
+const INFORMATIVE_TAGS = [
+  'description',
+  'website',
+  'contact:website',
+  'url',
+  'phone',
+  'contact:phone',
+  'email',
+  'image',
+  'wikimedia_commons',
+  'wheelchair',
+  'fee',
+  'start_date',
+  'architect',
+  'artist_name',
+  'addr:street',
+  'addr:city',
+];
+
+/**
+ * Service for computing deterministic attraction ratings from source data
+ */
+class RatingService {
+  /**
+   * Rate a place from its OSM tags
+   * @returns Rating between RATING_CONFIG.BASE and RATING_CONFIG.MAX with the contributing factors
+   */
+  rateTags(tags: OsmTags): AttractionRating {
+    const breakdown: RatingFactor[] = [];
+
+    if (tags.wikipedia || tags['wikipedia:de'] || tags['wikipedia:en']) {
+      breakdown.push({ signal: 'wikipedia', points: RATING_CONFIG.WIKIPEDIA });
+    }
+
+    if (tags.wikidata) {
+      breakdown.push({ signal: 'wikidata', points: RATING_CONFIG.WIKIDATA });
+    }
+
+    if (tags.heritage) {
+      const points =
+        tags.heritage === '1'
+          ? RATING_CONFIG.HERITAGE_NATIONAL
+          : tags.heritage === '2'
+            ? RATING_CONFIG.HERITAGE_REGIONAL
+            : RATING_CONFIG.HERITAGE_OTHER;
+      breakdown.push({ signal: 'heritage', points });
+    }
+
+    if (tags.opening_hours) {
+      breakdown.push({ signal: 'openingHours', points: RATING_CONFIG.OPENING_HOURS });
+    }
+
+    const informativeCount = INFORMATIVE_TAGS.filter(key => tags[key]).length;
+    if (informativeCount > 0) {
+      breakdown.push({
+        signal: 'tagRichness',
+        points: Math.min(
+          RATING_CONFIG.TAG_RICHNESS_MAX,
+          informativeCount * RATING_CONFIG.TAG_RICHNESS_PER_TAG
+        ),
+      });
+    }
+
+    return { rating: this.computeRating(breakdown), breakdown };
+  }
+
+  /**
+   * Refine ratings with Wikipedia article metadata
+   * Attractions without a `wikipedia` reference are returned unchanged.
+   */
+  async applyWikipediaMetadata(attractions: Attraction[]): Promise<Attraction[]> {
+    const titlesByLanguage = new Map<string, string[]>();
+    attractions.forEach(attraction => {
+      const article = this.parseWikipediaReference(attraction.wikipedia);
+      if (!article) return;
+      const titles = titlesByLanguage.get(article.language) || [];
+      titles.push(article.title);
+      titlesByLanguage.set(article.language, titles);
+    });
+
+    if (titlesByLanguage.size === 0) {
+      return attractions;
+    }
+
+    const lengthsByLanguage = new Map<string, Map<string, number>>(
+      await Promise.all(
+        [...titlesByLanguage].map(
+          async ([language, titles]) => [language, await wikiService.getArticleLengths(titles, language)] as const
+        )
+      )
+    );
+
+    return attractions.map(attraction => {
+      const article = this.parseWikipediaReference(attraction.wikipedia);
+      const length = article && lengthsByLanguage.get(article.language)?.get(article.title);
+      if (!length || length < RATING_CONFIG.ARTICLE_LONG_LENGTH) {
+        return attraction;
+      }
+
+      const points =
+        length >= RATING_CONFIG.ARTICLE_VERY_LONG_LENGTH
+          ? RATING_CONFIG.ARTICLE_VERY_LONG
+          : RATING_CONFIG.ARTICLE_LONG;
+      const breakdown = [
+        ...(attraction.ratingBreakdown || []).filter(f => f.signal !== 'wikipediaArticle'),
+        { signal: 'wikipediaArticle' as const, points },
+      ];
+
+      return {
+        ...attraction,
+        rating: this.computeRating(breakdown),
+        ratingBreakdown: breakdown,
+      };
+    });
+  }
+
+  /**
+   * Sum factors on top of the base rating, capped and rounded to one decimal
+   */
+  computeRating(breakdown: RatingFactor[]): number {
+    const total = breakdown.reduce<number>((sum, factor) => sum + factor.points, RATING_CONFIG.BASE);
+    return Math.round(Math.min(RATING_CONFIG.MAX, total) * 10) / 10;
+  }
+
+  /**
+   * Split an OSM wikipedia value ("de:Brandenburger Tor") into language and title
+   */
+  private parseWikipediaReference(
+    reference?: string
+  ): { language: string; title: string } | null {
+    const match = reference?.match(/^([a-z-]{2,12}):(.+)$/);
+    if (!match) return null;
+    return { language: match[1], title: match[2].trim() };
+  }
+}
+
+export default new RatingService();
@@ -0,0 +1,119 @@
+import { Coordinates, RouteEstimate, RouteLeg, RoutingBackend, TravelMode } from '../types';
+import { ROUTING_CONFIG } from '../constants';
+import { osrmBackend, valhallaBackend } from './routing';
+import { estimateLegHeuristic } from '../utils/routing';
+import errorNotificationService from './error-notification.service';
+import { ErrorSource } from '../types/errors';
+
+export interface RouteDestination extends Coordinates {
+  id: string;
+}
+
+/**
+ * Service for walking, cycling and driving estimates to attractions
+ * Asks the configured routing backend and falls back to a detour-factor
+ * heuristic when it is unreachable or cannot route a destination.
+ */
+class RoutingService {
+  private backend: RoutingBackend = ROUTING_CONFIG.BACKEND === 'valhalla' ? valhallaBackend : osrmBackend;
+  private cache = new Map<string, RouteEstimate>();
+
+  /**
+   * Replace the routing backend, e.g. with a stub in tests
+   */
+  setBackend(backend: RoutingBackend): void {
+    this.backend = backend;
+    this.cache.clear();
+  }
+
+  getBackend(): RoutingBackend {
+    return this.backend;
+  }
+
+  /**
+   * Estimate routes from the origin to each destination
+   * Never throws; heuristic estimates are not cached so they are replaced once
+   * the backend is reachable again.
+   * @returns Estimates by destination id
+   */
+  async estimateRoutes(
+    origin: Coordinates,
+    destinations: RouteDestination[],
+    mode: TravelMode
+  ): Promise<Map<string, RouteEstimate>> {
+    const estimates = new Map<string, RouteEstimate>();
+    const missing = destinations.filter(destination => {
+      const cached = this.cache.get(this.getCacheKey(origin, destination, mode));
+      if (cached) estimates.set(destination.id, cached);
+      return !cached;
+    });
+
+    let backendAvailable = true;
+    for (let start = 0; start < missing.length; start += ROUTING_CONFIG.MAX_DESTINATIONS) {
+      const chunk = missing.slice(start, start + ROUTING_CONFIG.MAX_DESTINATIONS);
+      const legs: Array<RouteLeg | null> | null = backendAvailable ? await this.fetchLegs(origin, chunk, mode) : null;
+      // Don't wait for further timeouts once the backend failed
+      backendAvailable = legs !== null;
+
+      chunk.forEach((destination, index) => {
+        const leg = legs?.[index];
+        if (leg) {
+          const estimate = { ...leg, estimated: false };
+          this.remember(this.getCacheKey(origin, destination, mode), estimate);
+          estimates.set(destination.id, estimate);
+        } else {
+          estimates.set(destination.id, { ...estimateLegHeuristic(origin, destination, mode), estimated: true });
+        }
+      });
+    }
+
+    return estimates;
+  }
+
+  /**
+   * Forget all cached estimates
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Query the backend, or null after logging its failure
+   */
+  private async fetchLegs(
+    origin: Coordinates,
+    destinations: RouteDestination[],
+    mode: TravelMode
+  ): Promise<Array<RouteLeg | null> | null> {
+    try {
+      return await this.backend.getLegs(origin, destinations, mode);
+    } catch (error) {
+      errorNotificationService.logDebugInfo({
+        source: ErrorSource.RoutingService,
+        method: 'estimateRoutes',
+        backend: this.backend.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Keep an estimate, evicting the oldest beyond the cache size
+   */
+  private remember(key: string, estimate: RouteEstimate): void {
+    this.cache.delete(key);
+    this.cache.set(key, estimate);
+    if (this.cache.size > ROUTING_CONFIG.CACHE_SIZE) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+  }
+
+  // Origins within about 10 meters share estimates
+  private getCacheKey(origin: Coordinates, destination: RouteDestination, mode: TravelMode): string {
+    return `${mode}_${origin.latitude.toFixed(4)}_${origin.longitude.toFixed(4)}_${destination.id}`;
+  }
+}
+
+export default new RoutingService();
@@ -0,0 +1,3 @@
+export { default as osrmBackend } from './osrm.backend';
+export { default as valhallaBackend } from './valhalla.backend';
+export { StubRoutingBackend } from './stub.backend';
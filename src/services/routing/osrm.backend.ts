@@ -0,0 +1,63 @@
+import axios from 'axios';
+import { Coordinates, RouteLeg, RoutingBackend, TravelMode } from '../../types';
+import { APP_CONFIG, ROUTING_CONFIG } from '../../constants';
+
+interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  durations?: Array<Array<number | null>>;
+  distances?: Array<Array<number | null>>;
+}
+
+const PROFILES: Record<TravelMode, string> = {
+  walking: 'foot',
+  cycling: 'bike',
+  driving: 'car',
+};
+
+/**
+ * Routing backend for the OSRM table service
+ * https://project-osrm.org/docs/v5.24.0/api/#table-service
+ */
+export class OsrmBackend implements RoutingBackend {
+  readonly id = 'osrm';
+
+  constructor(private readonly endpoints: Record<TravelMode, string> = ROUTING_CONFIG.OSRM_ENDPOINTS) {}
+
+  /**
+   * Request a one-to-many matrix with the origin as the only source
+   */
+  async getLegs(origin: Coordinates, destinations: Coordinates[], mode: TravelMode): Promise<Array<RouteLeg | null>> {
+    const coordinates = [origin, ...destinations]
+      .map(({ latitude, longitude }) => `${longitude},${latitude}`)
+      .join(';');
+
+    const response = await axios.get<OsrmTableResponse>(
+      `${this.endpoints[mode]}/table/v1/${PROFILES[mode]}/${coordinates}`,
+      {
+        params: {
+          sources: 0,
+          annotations: 'duration,distance',
+        },
+        headers: {
+          'User-Agent': APP_CONFIG.USER_AGENT,
+        },
+        timeout: APP_CONFIG.REQUEST_TIMEOUT,
+      }
+    );
+
+    const { code, message, durations, distances } = response.data;
+    if (code !== 'Ok' || !durations?.[0] || !distances?.[0]) {
+      throw new Error(`OSRM table request failed: ${message || code}`);
+    }
+
+    // Column 0 is the origin itself
+    return destinations.map((_, index) => {
+      const duration = durations[0][index + 1];
+      const distance = distances[0][index + 1];
+      return duration != null && distance != null ? { distance, duration } : null;
+    });
+  }
+}
+
+export default new OsrmBackend();
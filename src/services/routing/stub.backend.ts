@@ -0,0 +1,20 @@
+import { Coordinates, RouteLeg, RoutingBackend, TravelMode } from '../../types';
+import { estimateLegHeuristic } from '../../utils/routing';
+
+type LegResolver = (origin: Coordinates, destination: Coordinates, mode: TravelMode) => RouteLeg | null;
+
+/**
+ * Local routing backend without network access, for tests and development
+ * Resolves legs with the given function, by default the straight-line heuristic.
+ */
+export class StubRoutingBackend implements RoutingBackend {
+  readonly id = 'stub';
+  readonly requests: Array<{ origin: Coordinates; destinations: Coordinates[]; mode: TravelMode }> = [];
+
+  constructor(private readonly resolveLeg: LegResolver = estimateLegHeuristic) {}
+
+  async getLegs(origin: Coordinates, destinations: Coordinates[], mode: TravelMode): Promise<Array<RouteLeg | null>> {
+    this.requests.push({ origin, destinations, mode });
+    return destinations.map(destination => this.resolveLeg(origin, destination, mode));
+  }
+}
@@ -0,0 +1,67 @@
+import axios from 'axios';
+import { Coordinates, RouteLeg, RoutingBackend, TravelMode } from '../../types';
+import { APP_CONFIG, ROUTING_CONFIG } from '../../constants';
+
+interface ValhallaMatrixEntry {
+  distance: number | null; // kilometers
+  time: number | null; // seconds
+  to_index: number;
+}
+
+interface ValhallaMatrixResponse {
+  sources_to_targets?: ValhallaMatrixEntry[][];
+}
+
+const COSTING: Record<TravelMode, string> = {
+  walking: 'pedestrian',
+  cycling: 'bicycle',
+  driving: 'auto',
+};
+
+/**
+ * Routing backend for the Valhalla matrix service
+ * https://valhalla.github.io/valhalla/api/matrix/api-reference/
+ */
+export class ValhallaBackend implements RoutingBackend {
+  readonly id = 'valhalla';
+
+  constructor(private readonly endpoint: string = ROUTING_CONFIG.VALHALLA_ENDPOINT) {}
+
+  /**
+   * Request a one-to-many matrix with the origin as the only source
+   */
+  async getLegs(origin: Coordinates, destinations: Coordinates[], mode: TravelMode): Promise<Array<RouteLeg | null>> {
+    const toLocation = ({ latitude, longitude }: Coordinates) => ({ lat: latitude, lon: longitude });
+
+    const response = await axios.post<ValhallaMatrixResponse>(
+      `${this.endpoint}/sources_to_targets`,
+      {
+        sources: [toLocation(origin)],
+        targets: destinations.map(toLocation),
+        costing: COSTING[mode],
+        units: 'kilometers',
+      },
+      {
+        headers: {
+          'User-Agent': APP_CONFIG.USER_AGENT,
+        },
+        timeout: APP_CONFIG.REQUEST_TIMEOUT,
+      }
+    );
+
+    const row = response.data?.sources_to_targets?.[0];
+    if (!row) {
+      throw new Error('Valhalla matrix response without results');
+    }
+
+    const legs: Array<RouteLeg | null> = destinations.map(() => null);
+    row.forEach(({ distance, time, to_index }) => {
+      if (distance != null && time != null && to_index < legs.length) {
+        legs[to_index] = { distance: distance * 1000, duration: time };
+      }
+    });
+    return legs;
+  }
+}
+
+export default new ValhallaBackend();
@@ -0,0 +1,67 @@
+import { PinnedLocationKind, SearchHistoryEntry, SearchResult } from '../types';
+import { STORAGE_KEYS, SEARCH_HISTORY_CONFIG } from '../constants';
+import { addToSearchHistory, pinSearchHistoryEntry, rankSearchHistory } from '../utils/searchHistory';
+import storageService from './storage.service';
+
+const isValidEntry = (entry: any): entry is SearchHistoryEntry =>
+  typeof entry?.result?.id === 'string' &&
+  typeof entry.result.primaryName === 'string' &&
+  typeof entry.result.coordinates?.latitude === 'number' &&
+  typeof entry.result.coordinates?.longitude === 'number' &&
+  typeof entry.count === 'number' &&
+  typeof entry.lastSelectedAt === 'number' &&
+  (entry.pinned === undefined || SEARCH_HISTORY_CONFIG.PINNED_KINDS.includes(entry.pinned));
+
+/**
+ * Service for locations selected in the search bar and places pinned as home or hotel
+ * Every method returns the history as shown: pinned places first, then the
+ * others by how often and how recently they were selected.
+ */
+class SearchHistoryService {
+  /**
+   * Get the history, skipping invalid stored entries
+   */
+  async getHistory(now: number = Date.now()): Promise<SearchHistoryEntry[]> {
+    const stored = await storageService.get<unknown[]>(STORAGE_KEYS.SEARCH_HISTORY);
+    return rankSearchHistory(Array.isArray(stored) ? stored.filter(isValidEntry) : [], now);
+  }
+
+  /**
+   * Record that a search result was selected
+   */
+  async recordSelection(result: SearchResult, now: number = Date.now()): Promise<SearchHistoryEntry[]> {
+    const history = await this.getHistory(now);
+    return this.saveHistory(history, addToSearchHistory(history, result, now), now);
+  }
+
+  /**
+   * Remove an entry, pinned or not
+   */
+  async removeEntry(id: string, now: number = Date.now()): Promise<SearchHistoryEntry[]> {
+    const history = await this.getHistory(now);
+    return this.saveHistory(history, history.filter(entry => entry.result.id !== id), now);
+  }
+
+  /**
+   * Pin an entry as home or hotel, or unpin it with null
+   */
+  async pinEntry(id: string, kind: PinnedLocationKind | null, now: number = Date.now()): Promise<SearchHistoryEntry[]> {
+    const history = await this.getHistory(now);
+    return this.saveHistory(history, pinSearchHistoryEntry(history, id, kind), now);
+  }
+
+  /**
+   * Save the updated history
+   * @returns The updated history, or the previous one if saving failed
+   */
+  private async saveHistory(
+    previous: SearchHistoryEntry[],
+    updated: SearchHistoryEntry[],
+    now: number
+  ): Promise<SearchHistoryEntry[]> {
+    const saved = await storageService.set(STORAGE_KEYS.SEARCH_HISTORY, updated);
+    return saved ? rankSearchHistory(updated, now) : previous;
+  }
+}
+
+export default new SearchHistoryService();
@@ -0,0 +1,73 @@
+import { Attraction, GeotaggedArticle, Language, SearchResult } from '../types';
+import { SEARCH_CONFIG } from '../constants';
+import i18n from '../config/i18n';
+import locationService from './location.service';
+import wikiService from './wiki.service';
+import ratingService from './rating.service';
+import { wikipediaAttractionId } from '../utils/attractionId';
+import { attractionToSearchResult, findLoadedAttractions, mergeSearchResults } from '../utils/searchResults';
+import { getContentLanguage } from '../utils/language';
+
+/**
+ * Service for the search bar, finding cities and attractions in one list
+ * Loaded attractions come first, then Nominatim places and sights, then
+ * geotagged Wikipedia articles.
+ */
+class SearchService {
+  /**
+   * Search all sources
+   * @param loaded - Attractions already loaded, searched on the device
+   * @param limit - Maximum number of Nominatim results
+   * @throws Errors from the Nominatim search; Wikipedia failures are skipped
+   */
+  async search(query: string, loaded: Attraction[] = [], limit: number = 5): Promise<SearchResult[]> {
+    const trimmed = query.trim();
+    if (!trimmed) return [];
+
+    const language = getContentLanguage(i18n.language);
+    const [places, articles] = await Promise.all([
+      locationService.searchLocations(trimmed, limit),
+      wikiService.searchGeotaggedArticles(trimmed, language, SEARCH_CONFIG.MAX_WIKIPEDIA_RESULTS),
+    ]);
+
+    return mergeSearchResults([
+      findLoadedAttractions(trimmed, loaded),
+      places,
+      articles.map(article => attractionToSearchResult(this.toAttraction(article, language), 'attraction')),
+    ]);
+  }
+
+  /**
+   * Search loaded attractions and places found before, without network requests
+   */
+  async searchOffline(query: string, loaded: Attraction[] = [], limit: number = 5): Promise<SearchResult[]> {
+    const trimmed = query.trim();
+    if (!trimmed) return [];
+
+    return mergeSearchResults([
+      findLoadedAttractions(trimmed, loaded),
+      await locationService.searchCachedLocations(trimmed, limit),
+    ]);
+  }
+
+  private toAttraction(article: GeotaggedArticle, language: Language): Attraction {
+    const wikipedia = `${language}:${article.title}`;
+    const { rating, breakdown } = ratingService.rateTags({ wikipedia });
+
+    return {
+      id: wikipediaAttractionId(language, article.title),
+      name: article.title,
+      latitude: article.latitude,
+      longitude: article.longitude,
+      type: 'attraction',
+      distance: 0,
+      rating,
+      ratingBreakdown: breakdown,
+      description: article.description || '',
+      wikipedia,
+      sources: ['wikipedia'],
+    };
+  }
+}
+
+export default new SearchService();
@@ -0,0 +1,266 @@
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import * as Battery from 'expo-battery';
+import { TrackingProfile, TrackPoint } from '../types';
+import { STORAGE_KEYS, TRACKING_CONFIG } from '../constants';
+import { appendTrackPoint, getTrackingProfile } from '../utils/tracking';
+import i18n from '../config/i18n';
+import storageService from './storage.service';
+import errorNotificationService from './error-notification.service';
+import { ErrorType, ErrorSource, ErrorSeverity } from '../types/errors';
+
+export const WALKING_TOUR_TASK = 'walking-tour-location';
+
+type PositionListener = (position: Location.LocationObject) => void;
+
+/**
+ * Service for walking tours: the opt-in to track in the background, the task
+ * tracking the position and the track walked since it was last cleared
+ */
+class TrackingService {
+  // Kept in memory so recording a point doesn't read the whole track first
+  private track: TrackPoint[] | null = null;
+  // Profile the task tracks with, null while this app session didn't start it
+  private profile: TrackingProfile | null = null;
+  private positionListeners = new Set<PositionListener>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Whether the user opted in to walking tours
+   */
+  async isWalkingTourEnabled(): Promise<boolean> {
+    return (await storageService.get<boolean>(STORAGE_KEYS.WALKING_TOUR)) === true;
+  }
+
+  /**
+   * Turn walking tours on or off
+   * Turning them on asks for background location access and starts a new track.
+   * @returns Whether walking tours are on afterwards
+   */
+  async setWalkingTourEnabled(enabled: boolean): Promise<boolean> {
+    if (enabled && !(await this.requestBackgroundPermission())) {
+      return false;
+    }
+    if (!(await storageService.set(STORAGE_KEYS.WALKING_TOUR, enabled))) {
+      return !enabled;
+    }
+    if (enabled) {
+      await this.clearTrack();
+    } else {
+      await this.stopBackgroundUpdates();
+    }
+    return enabled;
+  }
+
+  /**
+   * Track the position with the walking tour task, which keeps running while
+   * the app is in the background
+   * @returns Whether the task tracks the position
+   */
+  startBackgroundUpdates(): Promise<boolean> {
+    return this.enqueue(async () => {
+      if (this.profile && (await this.isTrackingInBackground())) return true;
+      return this.startUpdates(await this.selectProfile(null));
+    });
+  }
+
+  /**
+   * Stop the walking tour task
+   */
+  stopBackgroundUpdates(): Promise<void> {
+    return this.enqueue(async () => {
+      this.profile = null;
+      try {
+        if (await Location.hasStartedLocationUpdatesAsync(WALKING_TOUR_TASK)) {
+          await Location.stopLocationUpdatesAsync(WALKING_TOUR_TASK);
+        }
+      } catch (error) {
+        console.error('Error stopping walking tour tracking:', error);
+      }
+    });
+  }
+
+  /**
+   * Whether the walking tour task tracks the position
+   */
+  async isTrackingInBackground(): Promise<boolean> {
+    try {
+      return await Location.hasStartedLocationUpdatesAsync(WALKING_TOUR_TASK);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get the positions the walking tour task receives
+   * @returns Function to stop listening
+   */
+  subscribeToPositions(listener: PositionListener): () => void {
+    this.positionListeners.add(listener);
+    return () => {
+      this.positionListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Record positions the walking tour task received and adapt tracking to the
+   * speed and the battery
+   */
+  async handleBackgroundPositions(positions: Location.LocationObject[]): Promise<void> {
+    for (const position of positions) {
+      const { latitude, longitude } = position.coords;
+      try {
+        await this.recordPosition({ latitude, longitude, timestamp: position.timestamp });
+      } catch (error) {
+        console.error('Error recording track:', error);
+      }
+      this.positionListeners.forEach(listener => listener(position));
+    }
+
+    const latest = positions[positions.length - 1];
+    if (!latest) return;
+    const profile = await this.selectProfile(latest.coords.speed);
+    await this.enqueue(async () => {
+      // A stopped task may still deliver positions it received before
+      if (profile !== this.profile && (await this.isTrackingInBackground())) {
+        await this.startUpdates(profile);
+      }
+    });
+  }
+
+  /**
+   * Location watch options for a tracking profile
+   */
+  getWatchOptions(profile: TrackingProfile): Location.LocationOptions {
+    const { ACCURACY, DISTANCE_INTERVAL, TIME_INTERVAL } = TRACKING_CONFIG.PROFILES[profile];
+    return {
+      accuracy: Location.Accuracy[ACCURACY],
+      distanceInterval: DISTANCE_INTERVAL,
+      timeInterval: TIME_INTERVAL,
+    };
+  }
+
+  /**
+   * Tracking profile for a speed in m/s, sparing the battery when it runs low
+   */
+  async selectProfile(speed: number | null): Promise<TrackingProfile> {
+    return getTrackingProfile(speed, await this.isSavingBattery());
+  }
+
+  /**
+   * Get the recorded track, oldest point first
+   */
+  async getTrack(): Promise<TrackPoint[]> {
+    if (!this.track) {
+      this.track = (await storageService.get<TrackPoint[]>(STORAGE_KEYS.WALKING_TOUR_TRACK)) || [];
+    }
+    return this.track;
+  }
+
+  /**
+   * Add a position to the track
+   * @returns The track including the position, unless it was too close to the previous one
+   */
+  async recordPosition(point: TrackPoint): Promise<TrackPoint[]> {
+    const track = await this.getTrack();
+    const updated = appendTrackPoint(track, point);
+    if (updated !== track) {
+      this.track = updated;
+      await storageService.set(STORAGE_KEYS.WALKING_TOUR_TRACK, updated);
+    }
+    return updated;
+  }
+
+  /**
+   * Start a new track
+   */
+  async clearTrack(): Promise<boolean> {
+    this.track = [];
+    return storageService.remove(STORAGE_KEYS.WALKING_TOUR_TRACK);
+  }
+
+  private async startUpdates(profile: TrackingProfile): Promise<boolean> {
+    try {
+      // Starting again with the same task only changes its options
+      await Location.startLocationUpdatesAsync(WALKING_TOUR_TASK, {
+        ...this.getWatchOptions(profile),
+        activityType: Location.ActivityType.Fitness,
+        pausesUpdatesAutomatically: false,
+        showsBackgroundLocationIndicator: true,
+        foregroundService: {
+          notificationTitle: i18n.t('walkingTourOn'),
+          notificationBody: i18n.t('walkingTourRecording'),
+        },
+      });
+      this.profile = profile;
+      return true;
+    } catch (error) {
+      errorNotificationService.showError({
+        type: ErrorType.Location,
+        source: ErrorSource.TrackingService,
+        severity: ErrorSeverity.Warning,
+        messageKey: 'errors.location.notAvailable',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      return false;
+    }
+  }
+
+  private async isSavingBattery(): Promise<boolean> {
+    try {
+      const [level, lowPowerMode] = await Promise.all([
+        Battery.getBatteryLevelAsync(),
+        Battery.isLowPowerModeEnabledAsync(),
+      ]);
+      // The level is -1 where it is unknown
+      return lowPowerMode || (level >= 0 && level < TRACKING_CONFIG.LOW_BATTERY_LEVEL);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Start and stop the task one after another, so a restart never overtakes a stop
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async requestBackgroundPermission(): Promise<boolean> {
+    try {
+      const { status } = await Location.requestBackgroundPermissionsAsync();
+      if (status === 'granted') return true;
+      errorNotificationService.showError({
+        type: ErrorType.Permission,
+        source: ErrorSource.TrackingService,
+        severity: ErrorSeverity.Warning,
+        messageKey: 'errors.location.backgroundPermissionDenied',
+        onOpenSettings: true,
+      });
+    } catch (error) {
+      errorNotificationService.showError({
+        type: ErrorType.Permission,
+        source: ErrorSource.TrackingService,
+        severity: ErrorSeverity.Warning,
+        messageKey: 'errors.location.backgroundPermissionDenied',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+    return false;
+  }
+}
+
+const trackingService = new TrackingService();
+
+// Defined when the bundle loads, as the app may be started in the background just for the task
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(WALKING_TOUR_TASK, async ({ data, error }) => {
+  if (error) {
+    console.error('Error tracking walking tour:', error);
+    return;
+  }
+  await trackingService.handleBackgroundPositions(data.locations);
+});
+
+export default trackingService;
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { WikitravelData, SearchResult, Language } from '../types';
+import { WikitravelData, SearchResult, Language, GeotaggedArticle } from '../types';
 import { APP_CONFIG } from '../constants';
 import errorNotificationService from './error-notification.service';
 import { ErrorType, ErrorSource, ErrorSeverity } from '../types/errors';
@@ -238,6 +238,51 @@ class WikiService {
     }
   }
 
+  /**
+   * Search geotagged Wikipedia articles, e.g. named sights
+   * Failures are only logged, as the results complement other searches.
+   * @returns Articles with a position, best matches first
+   */
+  async searchGeotaggedArticles(query: string, language: Language = 'de', limit: number = 3): Promise<GeotaggedArticle[]> {
+    try {
+      const response = await axios.get(`https://${language}.wikipedia.org/w/api.php`, {
+        params: {
+          action: 'query',
+          format: 'json',
+          generator: 'search',
+          gsrsearch: query,
+          gsrnamespace: 0,
+          gsrlimit: limit,
+          prop: 'coordinates|description',
+          coprimary: 'primary',
+          origin: '*',
+        },
+        headers: {
+          'User-Agent': APP_CONFIG.USER_AGENT,
+        },
+        timeout: APP_CONFIG.REQUEST_TIMEOUT,
+      });
+
+      const pages: any[] = Object.values(response.data?.query?.pages || {});
+      return pages
+        .filter(page => page.coordinates?.[0])
+        .sort((a, b) => a.index - b.index)
+        .map(page => ({
+          title: page.title,
+          description: page.description,
+          latitude: page.coordinates[0].lat,
+          longitude: page.coordinates[0].lon,
+        }));
+    } catch (error) {
+      errorNotificationService.logDebugInfo({
+        source: ErrorSource.WikiService,
+        method: 'searchGeotaggedArticles',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
   /**
    * Get city image from Wikipedia
    */
@@ -281,6 +326,73 @@ class WikiService {
       return null;
     }
   }
+
+  /**
+   * Get article lengths (in bytes) for a batch of Wikipedia titles
+   * @param titles - Article titles, at most 50 per request are sent
+   * @param language - Wikipedia language edition (e.g. 'de', 'en', 'fr')
+   * @returns Map from requested title to article length; missing pages are omitted
+   */
+  async getArticleLengths(titles: string[], language: string): Promise<Map<string, number>> {
+    const lengths = new Map<string, number>();
+    const baseUrl = `https://${language}.wikipedia.org/w/api.php`;
+
+    for (let i = 0; i < titles.length; i += 50) {
+      const batch = titles.slice(i, i + 50);
+
+      try {
+        const response = await axios.get(baseUrl, {
+          params: {
+            action: 'query',
+            format: 'json',
+            prop: 'info',
+            titles: batch.join('|'),
+            redirects: 1,
+            origin: '*',
+          },
+          headers: {
+            'User-Agent': APP_CONFIG.USER_AGENT,
+          },
+          timeout: APP_CONFIG.REQUEST_TIMEOUT,
+        });
+
+        const query = response.data?.query;
+        if (!query?.pages) continue;
+
+        // Follow normalization and redirects back to the requested title
+        const resolved = new Map<string, string>();
+        batch.forEach(title => resolved.set(title, title));
+        [...(query.normalized || []), ...(query.redirects || [])].forEach(
+          ({ from, to }: { from: string; to: string }) => {
+            resolved.forEach((current, requested) => {
+              if (current === from) resolved.set(requested, to);
+            });
+          }
+        );
+
+        const lengthByTitle = new Map<string, number>();
+        Object.values(query.pages).forEach((page: any) => {
+          if (page.missing === undefined && typeof page.length === 'number') {
+            lengthByTitle.set(page.title, page.length);
+          }
+        });
+
+        resolved.forEach((title, requested) => {
+          const length = lengthByTitle.get(title);
+          if (length !== undefined) lengths.set(requested, length);
+        });
+      } catch (error) {
+        // Silent failure - article metadata only refines ratings
+        errorNotificationService.logDebugInfo({
+          source: ErrorSource.WikiService,
+          method: 'getArticleLengths',
+          error: String(error),
+        });
+      }
+    }
+
+    return lengths;
+  }
 }
 
 const wikiServiceInstance = new WikiService();
@@ -18,6 +18,8 @@ export enum ErrorSource {
   StorageService = 'storageService',
   FavoritesService = 'favoritesService',
   InterestsService = 'interestsService',
+  RoutingService = 'routingService',
+  TrackingService = 'trackingService',
   UseLocation = 'useLocation',
   UseAttractions = 'useAttractions',
   UseFavorites = 'useFavorites',
@@ -3,18 +3,128 @@ export interface Coordinates {
   longitude: number;
 }
 
+export interface AttractionAddress {
+  street?: string;
+  houseNumber?: string;
+  postcode?: string;
+  city?: string;
+  country?: string;
+}
+
+export type WheelchairAccess = 'yes' | 'limited' | 'no';
+
 export interface Attraction {
-  id: string | number;
+  id: string; // namespaced, see utils/attractionId
   name: string;
+  names?: Partial<Record<Language, string>>;
   latitude: number;
   longitude: number;
   type: string;
   distance: number;
   rating: number;
+  ratingBreakdown?: RatingFactor[];
   description?: string;
+  wikipedia?: string;
+  wikidata?: string;
+  openingHours?: string;
+  website?: string;
+  phone?: string;
+  wheelchair?: WheelchairAccess;
+  fee?: boolean;
+  address?: AttractionAddress;
   interestScore?: number;
   interestReason?: string;
   savedAt?: string;
+  sources?: AttractionSource[];
+}
+
+export type AttractionSource = 'overpass' | 'wikipedia' | 'local';
+
+export type VisitStatus = 'planned' | 'visited';
+
+/** Favorite attraction with its trip collection */
+/** How the visit status was last set; geofence visits never override a manual choice */
+export type VisitSource = 'manual' | 'geofence';
+
+export interface Favorite extends Attraction {
+  collectionId?: string; // missing on favorites saved before collections, read as the default collection
+  note?: string;
+  visitStatus?: VisitStatus; // defaults to 'planned'
+  visitSource?: VisitSource;
+  visitedAt?: string; // ISO date, set while visited
+  personalRating?: number; // 1-5 stars
+}
+
+export type FavoriteChanges = Partial<Pick<Favorite, 'note' | 'visitStatus' | 'visitedAt' | 'personalRating'>>;
+
+/** Visited favorites of one calendar day, for the travel journal */
+export interface JournalDay {
+  date: string; // local date, YYYY-MM-DD
+  entries: Favorite[]; // in visiting order
+}
+
+export type FavoritesFileFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface FavoritesImportResult {
+  favorites: Favorite[]; // all favorites after the import
+  added: number;
+  duplicates: number; // already saved, or repeated within the file
+  invalid: number; // without a name or valid coordinates
+}
+
+export interface FavoriteCollection {
+  id: string;
+  name: string; // empty for the default collection until renamed
+  createdAt: string;
+}
+
+/** Parent category grouping OSM attraction types */
+export type AttractionCategory =
+  | 'sights'
+  | 'history'
+  | 'culture'
+  | 'religion'
+  | 'nature'
+  | 'leisure'
+  | 'food'
+  | 'nightlife'
+  | 'shopping'
+  | 'accommodation'
+  | 'other';
+
+export interface AttractionQuery {
+  coordinates: Coordinates;
+  radius: number;
+  interests: string[];
+  language?: Language;
+  deadline?: number; // ms timestamp by which the provider should give up
+}
+
+/**
+ * A source of nearby attractions. Providers throw on failure so the
+ * caller can decide how to combine partial results.
+ */
+export interface AttractionProvider {
+  id: AttractionSource;
+  fetchAttractions(query: AttractionQuery): Promise<Attraction[]>;
+}
+
+export type RatingSignal =
+  | 'wikipedia'
+  | 'wikidata'
+  | 'heritage'
+  | 'openingHours'
+  | 'tagRichness'
+  | 'wikipediaArticle';
+
+export interface RatingFactor {
+  signal: RatingSignal;
+  points: number;
+}
+
+export interface AttractionRating {
+  rating: number;
+  breakdown: RatingFactor[];
 }
 
 export interface CityInfo {
@@ -26,6 +136,12 @@ export interface CityInfo {
   longitude: number;
 }
 
+/** Wikipedia article with a position, found by a full-text search */
+export interface GeotaggedArticle extends Coordinates {
+  title: string;
+  description?: string;
+}
+
 export interface WikitravelData {
   title: string;
   extract: string;
@@ -40,6 +156,14 @@ export interface WikitravelData {
   };
 }
 
+/**
+ * Kind of search result
+ * - place: city, address or area; selecting it loads attractions around it
+ * - attraction: named attraction found by the geocoder or Wikipedia
+ * - nearby: attraction already loaded around the current position
+ */
+export type SearchResultKind = 'place' | 'attraction' | 'nearby';
+
 export interface SearchResult {
   id: string;
   displayName: string;
@@ -48,9 +172,49 @@ export interface SearchResult {
   coordinates: Coordinates;
   type: string;
   importance: number;
+  kind?: SearchResultKind; // place if missing
+  attraction?: Attraction; // set for attractions, opened directly when selected
+}
+
+export type GeocoderId = 'nominatim' | 'photon' | 'pelias' | 'stub';
+
+export interface GeocoderOptions {
+  languages: string[]; // preferred first, see getLanguageChain
+  limit?: number; // maximum number of search results
+}
+
+/**
+ * A geocoding service resolving place names and positions.
+ * Backends throw on failure; rate limiting, caching and error notifications
+ * are left to the location service so all backends behave the same.
+ */
+export interface Geocoder {
+  id: GeocoderId;
+  search(query: string, options: GeocoderOptions): Promise<SearchResult[]>;
+  reverse(coordinates: Coordinates, options: GeocoderOptions): Promise<CityInfo | null>;
 }
 
-export type GPSStatus = 'ACTIVE' | 'SEARCHING' | 'UNAVAILABLE' | 'PERMISSION_DENIED' | 'DISABLED';
+/** Search location the user pinned for quick access */
+export type PinnedLocationKind = 'home' | 'hotel';
+
+/** Search location selected before, or pinned */
+export interface SearchHistoryEntry {
+  result: SearchResult;
+  count: number; // times selected
+  lastSelectedAt: number; // timestamp of the last selection
+  pinned?: PinnedLocationKind;
+}
+
+// BACKGROUND: the walking tour task keeps tracking while the app is in the background
+export type GPSStatus = 'ACTIVE' | 'BACKGROUND' | 'SEARCHING' | 'UNAVAILABLE' | 'PERMISSION_DENIED' | 'DISABLED';
+
+/** How fast the user moves, deciding how precisely and often to track; saving spares a low battery */
+export type TrackingProfile = 'stationary' | 'walking' | 'moving' | 'saving';
+
+/** Position recorded during a walking tour */
+export interface TrackPoint extends Coordinates {
+  timestamp: number; // ms since epoch
+}
 
 export interface LocationSearchState {
   query: string;
@@ -72,6 +236,11 @@ export interface AttractionScore {
   reason: string;
 }
 
+export interface OverpassTagFilter {
+  key: string;
+  values?: readonly string[];
+}
+
 export interface CacheEntry<T> {
   data: T;
   timestamp: number;
@@ -80,8 +249,94 @@ export interface CacheEntry<T> {
 
 export interface MapData {
   location: Coordinates;
-  attractions: Attraction[];
+  attractions: Attraction[]; // as filtered in the attraction list
   useGPS: boolean;
+  radius?: number; // effective search radius in meters
+}
+
+/** Fixed search radius in meters, or adapt to the local density */
+export type RadiusSetting = number | 'auto';
+
+/** Loaded attractions plus the retained results that come after them */
+export interface AttractionPage {
+  attractions: Attraction[];
+  remaining: Attraction[]; // not yet paged in, in distance order
+}
+
+export interface AttractionSearchResult extends AttractionPage {
+  radius: number; // effective search radius in meters
+}
+
+export type TravelMode = 'walking' | 'cycling' | 'driving';
+
+export interface RouteLeg {
+  distance: number; // meters along the route
+  duration: number; // seconds
+}
+
+export interface RouteEstimate extends RouteLeg {
+  estimated: boolean; // derived from the straight-line distance, no routing engine involved
+}
+
+/**
+ * A routing engine computing legs from one origin to many destinations.
+ * Backends throw on failure; destinations they cannot route are null.
+ */
+export interface RoutingBackend {
+  id: string;
+  getLegs(origin: Coordinates, destinations: Coordinates[], mode: TravelMode): Promise<Array<RouteLeg | null>>;
+}
+
+export interface ItineraryStop {
+  attraction: Attraction;
+  arrival: Date;
+  departure: Date;
+  legDistance: number; // meters from the previous stop
+  legDuration: number; // seconds from the previous stop
+}
+
+export type ItinerarySkipReason = 'closed' | 'timeBudget';
+
+export interface Itinerary {
+  stops: ItineraryStop[]; // in visiting order
+  skipped: Array<{ attraction: Attraction; reason: ItinerarySkipReason }>;
+  totalDistance: number; // meters
+  totalDuration: number; // seconds from the start to the last departure
+}
+
+export interface ItineraryOptions {
+  start: Date;
+  timeBudget: number; // seconds
+  mode: TravelMode;
+  visitDuration?: number; // seconds per stop
+}
+
+export type AttractionSortKey = 'distance' | 'match' | 'rating' | 'name';
+
+/** Orderings of the favorites list; `savedAt` puts the newest first */
+export type FavoriteSortKey = 'distance' | 'savedAt' | 'name';
+
+/** Proximity alert preferences, persisted between sessions */
+export interface ProximityAlertSettings {
+  enabled: boolean;
+  radius: number; // meters
+}
+
+export type ProximityAlertReason = 'favorite' | 'highMatch';
+
+/** A place the user is approaching */
+export interface ProximityAlert {
+  attraction: Attraction;
+  reason: ProximityAlertReason;
+  distance: number; // meters from the position
+}
+
+/** Ordering and filters of the attraction list, persisted between sessions */
+export interface AttractionListOptions {
+  sortBy: AttractionSortKey;
+  types: string[]; // OSM type values, empty for all
+  minMatchScore: number; // 0 to disable
+  favoritesOnly: boolean;
 }
 
 export type Language = 'en' | 'de';
@@ -2,17 +2,25 @@ import { NavigatorScreenParams } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { RouteProp } from '@react-navigation/native';
-import { Coordinates } from './index';
+import { Attraction, Coordinates } from './index';
 
 export type RootStackParamList = {
   Home: NavigatorScreenParams<TabParamList>;
   Details: {
     location: string;
     coordinates?: Coordinates;
+    attraction?: Attraction;
   };
   WebView: {
     name: string;
   };
+  Itinerary: {
+    attractions: Attraction[]; // candidate stops
+    origin?: Coordinates; // defaults to the current position
+  };
+  Journal: {
+    collectionId: string;
+  };
 };
 
 export type TabParamList = {
@@ -30,3 +38,5 @@ export type SettingsTabNavigationProp = BottomTabNavigationProp<TabParamList, 'S
 
 export type DetailsScreenRouteProp = RouteProp<RootStackParamList, 'Details'>;
 export type WebViewScreenRouteProp = RouteProp<RootStackParamList, 'WebView'>;
+export type ItineraryScreenRouteProp = RouteProp<RootStackParamList, 'Itinerary'>;
+export type JournalScreenRouteProp = RouteProp<RootStackParamList, 'Journal'>;
@@ -0,0 +1,28 @@
+/**
+ * Stable, namespaced attraction ids
+ * - OpenStreetMap: `osm:<node|way|relation>:<id>` (element ids are only unique per type)
+ * - Wikipedia: `wiki:<language>:<title>`
+ * - Bundled data: `local:<slug>`
+ * - Imported from a favorites file without one of the above: `import:<lat>,<lon>`
+ */
+
+export type OsmElementType = 'node' | 'way' | 'relation';
+
+export const osmAttractionId = (type: OsmElementType, id: number): string => `osm:${type}:${id}`;
+
+/**
+ * Id of a Wikipedia article; underscores and spaces in titles are equivalent
+ */
+export const wikipediaAttractionId = (language: string, title: string): string =>
+  `wiki:${language}:${title.replace(/_/g, ' ').trim()}`;
+
+/**
+ * Id of an imported place, derived from its position rounded to about a meter
+ */
+export const importedAttractionId = (latitude: number, longitude: number): string =>
+  `import:${latitude.toFixed(5)},${longitude.toFixed(5)}`;
+
+/**
+ * Whether an id uses one of the namespaces above
+ */
+export const isNamespacedId = (id: string): boolean => /^(osm:(node|way|relation):\d+|(wiki|local|import):.+)$/.test(id);
@@ -0,0 +1,72 @@
+import { Attraction, AttractionListOptions, AttractionSortKey } from '../types';
+import { LIST_OPTIONS_CONFIG } from '../constants';
+
+export const DEFAULT_LIST_OPTIONS: AttractionListOptions = {
+  sortBy: 'distance',
+  types: [],
+  minMatchScore: 0,
+  favoritesOnly: false,
+};
+
+const byDistance = (a: Attraction, b: Attraction) => a.distance - b.distance;
+
+// Unclassified attractions sort after every scored one; ties keep distance order
+const COMPARATORS: Record<AttractionSortKey, (a: Attraction, b: Attraction) => number> = {
+  distance: byDistance,
+  match: (a, b) => (b.interestScore ?? -1) - (a.interestScore ?? -1) || byDistance(a, b),
+  rating: (a, b) => b.rating - a.rating || byDistance(a, b),
+  name: (a, b) => a.name.localeCompare(b.name) || byDistance(a, b),
+};
+
+/**
+ * Restore stored list options, dropping fields from older or corrupted entries
+ */
+export const normalizeListOptions = (stored: Partial<AttractionListOptions> | null): AttractionListOptions => {
+  if (!stored || typeof stored !== 'object') return DEFAULT_LIST_OPTIONS;
+
+  const { sortBy, types, minMatchScore, favoritesOnly } = stored;
+  return {
+    sortBy: (LIST_OPTIONS_CONFIG.SORT_KEYS as readonly string[]).includes(sortBy as string)
+      ? (sortBy as AttractionSortKey)
+      : DEFAULT_LIST_OPTIONS.sortBy,
+    types: Array.isArray(types) ? types.filter(type => typeof type === 'string') : DEFAULT_LIST_OPTIONS.types,
+    minMatchScore: typeof minMatchScore === 'number' && minMatchScore > 0 ? minMatchScore : 0,
+    favoritesOnly: favoritesOnly === true,
+  };
+};
+
+/**
+ * Whether any option narrows down the list (sorting alone does not)
+ */
+export const hasActiveFilters = (options: AttractionListOptions): boolean =>
+  options.types.length > 0 || options.minMatchScore > 0 || options.favoritesOnly;
+
+/**
+ * Filter and sort attractions for display
+ * Returns a new array; the input keeps its distance order.
+ */
+export const applyListOptions = (
+  attractions: Attraction[],
+  options: AttractionListOptions,
+  favoriteIds: Set<string>
+): Attraction[] => {
+  const types = new Set(options.types);
+  return attractions
+    .filter(attraction =>
+      (types.size === 0 || types.has(attraction.type)) &&
+      (options.minMatchScore <= 0 || (attraction.interestScore ?? 0) >= options.minMatchScore) &&
+      (!options.favoritesOnly || favoriteIds.has(attraction.id))
+    )
+    .sort(COMPARATORS[options.sortBy]);
+};
+
+/**
+ * Types present in the attractions, most frequent first
+ */
+export const getAttractionTypeCounts = (attractions: Attraction[]): Array<[string, number]> => {
+  const counts = new Map<string, number>();
+  attractions.forEach(attraction => {
+    counts.set(attraction.type, (counts.get(attraction.type) ?? 0) + 1);
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+};
@@ -0,0 +1,144 @@
+import { Attraction, RatingFactor } from '../types';
+import { ATTRACTION_PROVIDERS_CONFIG } from '../constants';
+import { calculateDistance } from './distance';
+
+/**
+ * Normalize a place name for comparison
+ * Lowercases, strips diacritics and parenthesized disambiguations ("Frauenkirche (Dresden)")
+ */
+export const normalizeName = (name: string): string =>
+  name
+    .replace(/\([^)]*\)/g, ' ')
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const getBigrams = (value: string): string[] => {
+  const compact = value.replace(/ /g, '');
+  const bigrams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    bigrams.push(compact.slice(i, i + 2));
+  }
+  return bigrams;
+};
+
+/**
+ * Similarity of two place names between 0 and 1
+ * Uses the Dice coefficient over character bigrams; a name fully contained
+ * in the other ("Reichstag" / "Reichstagsgebäude") counts as highly similar.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const first = normalizeName(a);
+  const second = normalizeName(b);
+
+  if (!first || !second) return 0;
+  if (first === second) return 1;
+
+  const [shorter, longer] = first.length <= second.length ? [first, second] : [second, first];
+  if (shorter.length >= 4 && longer.includes(shorter)) return 0.9;
+
+  const firstBigrams = getBigrams(first);
+  const remaining = getBigrams(second);
+  if (firstBigrams.length === 0 || remaining.length === 0) return 0;
+
+  const total = firstBigrams.length + remaining.length;
+  let shared = 0;
+  firstBigrams.forEach(bigram => {
+    const index = remaining.indexOf(bigram);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  });
+
+  return (2 * shared) / total;
+};
+
+const normalizeWikipedia = (reference: string) => reference.replace(/_/g, ' ').trim();
+
+/**
+ * Whether two attractions from different sources describe the same place
+ * Shared Wikipedia/Wikidata references decide directly, otherwise places must be
+ * close to each other and have similar names.
+ */
+export const isSameAttraction = (a: Attraction, b: Attraction): boolean => {
+  if (a.wikidata && b.wikidata) {
+    return a.wikidata === b.wikidata;
+  }
+  if (a.wikipedia && b.wikipedia && normalizeWikipedia(a.wikipedia) === normalizeWikipedia(b.wikipedia)) {
+    return true;
+  }
+
+  const distance = calculateDistance(a, b);
+  return (
+    distance <= ATTRACTION_PROVIDERS_CONFIG.MERGE_MAX_DISTANCE &&
+    nameSimilarity(a.name, b.name) >= ATTRACTION_PROVIDERS_CONFIG.MERGE_MIN_NAME_SIMILARITY
+  );
+};
+
+const mergeBreakdown = (a: RatingFactor[] = [], b: RatingFactor[] = []): RatingFactor[] => {
+  const pointsBySignal = new Map<RatingFactor['signal'], number>();
+  [...a, ...b].forEach(factor => {
+    pointsBySignal.set(factor.signal, Math.max(pointsBySignal.get(factor.signal) ?? 0, factor.points));
+  });
+  return Array.from(pointsBySignal, ([signal, points]) => ({ signal, points }));
+};
+
+/**
+ * Combine two records of the same place
+ * Fields of `primary` win; missing or empty fields are filled from `secondary`.
+ * The rating is left to the caller since it depends on the merged breakdown.
+ */
+export const combineAttractions = (primary: Attraction, secondary: Attraction): Attraction => {
+  const combined: Attraction = { ...primary };
+  const target = combined as unknown as Record<string, unknown>;
+
+  (Object.keys(secondary) as (keyof Attraction)[]).forEach(key => {
+    const value = target[key];
+    if (value === undefined || value === '') {
+      target[key] = secondary[key];
+    }
+  });
+
+  if (primary.names || secondary.names) {
+    combined.names = { ...secondary.names, ...primary.names };
+  }
+  if (primary.address || secondary.address) {
+    combined.address = { ...secondary.address, ...primary.address };
+  }
+  if (primary.ratingBreakdown || secondary.ratingBreakdown) {
+    combined.ratingBreakdown = mergeBreakdown(primary.ratingBreakdown, secondary.ratingBreakdown);
+  }
+  combined.sources = Array.from(new Set([...(primary.sources || []), ...(secondary.sources || [])]));
+
+  return combined;
+};
+
+/**
+ * Merge provider results into one list without cross-source duplicates
+ * Entries are only matched against earlier lists, so places within one
+ * provider's result are never collapsed.
+ * @param lists - Results per provider, in priority order
+ */
+export const mergeAttractions = (lists: Attraction[][]): Attraction[] => {
+  const merged: Attraction[] = [];
+
+  lists.forEach(list => {
+    const previousCount = merged.length;
+    list.forEach(attraction => {
+      const index = merged
+        .slice(0, previousCount)
+        .findIndex(existing => isSameAttraction(existing, attraction));
+      if (index === -1) {
+        merged.push(attraction);
+      } else {
+        merged[index] = combineAttractions(merged[index], attraction);
+      }
+    });
+  });
+
+  return merged;
+};
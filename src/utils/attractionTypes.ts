@@ -0,0 +1,142 @@
+import { AttractionCategory } from '../types';
+
+interface AttractionTypeDefinition {
+  category: AttractionCategory;
+  icon: string;
+}
+
+export interface AttractionTypeInfo extends AttractionTypeDefinition {
+  known: boolean; // false for types without a translation
+}
+
+type Translate = (key: string) => string;
+
+export const CATEGORY_ICONS: Record<AttractionCategory, string> = {
+  sights: '⭐',
+  history: '🏛️',
+  culture: '🎨',
+  religion: '🛐',
+  nature: '🌲',
+  leisure: '🎡',
+  food: '🍽️',
+  nightlife: '🌃',
+  shopping: '🛍️',
+  accommodation: '🛏️',
+  other: '📍',
+};
+
+/**
+ * Known attraction types by OSM tag value (tourism, historic, amenity, leisure,
+ * natural, man_made and shop). Labels live in i18n under `attractionTypes`.
+ */
+export const ATTRACTION_TYPES: Record<string, AttractionTypeDefinition> = {
+  // tourism
+  attraction: { category: 'sights', icon: '⭐' },
+  viewpoint: { category: 'sights', icon: '🔭' },
+  artwork: { category: 'culture', icon: '🎨' },
+  gallery: { category: 'culture', icon: '🖼️' },
+  museum: { category: 'culture', icon: '🏛️' },
+  zoo: { category: 'leisure', icon: '🦁' },
+  aquarium: { category: 'leisure', icon: '🐠' },
+  theme_park: { category: 'leisure', icon: '🎢' },
+  picnic_site: { category: 'nature', icon: '🧺' },
+  information: { category: 'other', icon: 'ℹ️' },
+  hotel: { category: 'accommodation', icon: '🏨' },
+  hostel: { category: 'accommodation', icon: '🛏️' },
+  guest_house: { category: 'accommodation', icon: '🏡' },
+  camp_site: { category: 'accommodation', icon: '🏕️' },
+  // historic
+  monument: { category: 'history', icon: '🗿' },
+  memorial: { category: 'history', icon: '🕯️' },
+  castle: { category: 'history', icon: '🏰' },
+  palace: { category: 'history', icon: '👑' },
+  ruins: { category: 'history', icon: '🏚️' },
+  archaeological_site: { category: 'history', icon: '⛏️' },
+  building: { category: 'history', icon: '🏛️' },
+  city_gate: { category: 'history', icon: '🚪' },
+  fort: { category: 'history', icon: '🏯' },
+  manor: { category: 'history', icon: '🏡' },
+  tomb: { category: 'history', icon: '⚰️' },
+  battlefield: { category: 'history', icon: '⚔️' },
+  church: { category: 'religion', icon: '⛪' },
+  wayside_cross: { category: 'religion', icon: '✝️' },
+  wayside_shrine: { category: 'religion', icon: '🛐' },
+  // amenity
+  place_of_worship: { category: 'religion', icon: '🛐' },
+  fountain: { category: 'sights', icon: '⛲' },
+  arts_centre: { category: 'culture', icon: '🎭' },
+  theatre: { category: 'culture', icon: '🎭' },
+  restaurant: { category: 'food', icon: '🍽️' },
+  cafe: { category: 'food', icon: '☕' },
+  biergarten: { category: 'food', icon: '🍺' },
+  ice_cream: { category: 'food', icon: '🍦' },
+  food_court: { category: 'food', icon: '🍴' },
+  bar: { category: 'nightlife', icon: '🍸' },
+  pub: { category: 'nightlife', icon: '🍺' },
+  nightclub: { category: 'nightlife', icon: '🪩' },
+  marketplace: { category: 'shopping', icon: '🧺' },
+  // leisure
+  park: { category: 'nature', icon: '🌳' },
+  garden: { category: 'nature', icon: '🌷' },
+  nature_reserve: { category: 'nature', icon: '🦋' },
+  beach_resort: { category: 'nature', icon: '🏖️' },
+  stadium: { category: 'leisure', icon: '🏟️' },
+  sports_centre: { category: 'leisure', icon: '🏅' },
+  golf_course: { category: 'leisure', icon: '⛳' },
+  water_park: { category: 'leisure', icon: '🌊' },
+  // natural
+  peak: { category: 'nature', icon: '⛰️' },
+  waterfall: { category: 'nature', icon: '💧' },
+  cave_entrance: { category: 'nature', icon: '🕳️' },
+  spring: { category: 'nature', icon: '💧' },
+  beach: { category: 'nature', icon: '🏖️' },
+  // man_made
+  tower: { category: 'sights', icon: '🗼' },
+  lighthouse: { category: 'sights', icon: '🗼' },
+  bridge: { category: 'sights', icon: '🌉' },
+  // shop
+  mall: { category: 'shopping', icon: '🛍️' },
+  department_store: { category: 'shopping', icon: '🏬' },
+  gift: { category: 'shopping', icon: '🎁' },
+  souvenir: { category: 'shopping', icon: '🎁' },
+};
+
+/**
+ * Look up the category and icon of an attraction type
+ * Unknown types fall back to the 'other' category.
+ */
+export const getAttractionTypeInfo = (type: string): AttractionTypeInfo => {
+  const definition = Object.prototype.hasOwnProperty.call(ATTRACTION_TYPES, type)
+    ? ATTRACTION_TYPES[type]
+    : undefined;
+  if (definition) {
+    return { ...definition, known: true };
+  }
+  return { category: 'other', icon: CATEGORY_ICONS.other, known: false };
+};
+
+/**
+ * Readable form of a raw tag value ("archaeological_site" -> "Archaeological site")
+ */
+export const humanizeTagValue = (value: string): string => {
+  const text = value.replace(/[_;]+/g, ' ').trim();
+  return text ? text.charAt(0).toUpperCase() + text.slice(1) : value;
+};
+
+/**
+ * Localized label of an attraction type
+ */
+export const getAttractionTypeLabel = (type: string, t: Translate): string =>
+  getAttractionTypeInfo(type).known ? t(`attractionTypes.${type}`) : humanizeTagValue(type);
+
+/**
+ * Icon and localized label, as shown on cards and markers
+ */
+export const formatAttractionType = (type: string, t: Translate): string =>
+  `${getAttractionTypeInfo(type).icon} ${getAttractionTypeLabel(type, t)}`;
+
+/**
+ * Localized label of a parent category
+ */
+export const getCategoryLabel = (category: AttractionCategory, t: Translate): string =>
+  t(`attractionCategories.${category}`);
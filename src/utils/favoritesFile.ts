@@ -0,0 +1,291 @@
+import { Favorite, FavoritesFileFormat, VisitStatus } from '../types';
+import { APP_CONFIG, FAVORITES_CONFIG } from '../constants';
+import { importedAttractionId, isNamespacedId } from './attractionId';
+import { escapeXml, findElements, getAttribute, getElementText } from './xml';
+
+// Namespace of the GPX extension elements carrying app-specific fields
+const GPX_EXTENSION_NAMESPACE = 'urn:travelguide:favorites:1';
+
+// Type of imported places that don't name one
+const IMPORTED_TYPE = 'attraction';
+
+/** Place as read from a file, before validation */
+interface RawPlace {
+  id?: unknown;
+  name?: unknown;
+  latitude?: unknown;
+  longitude?: unknown;
+  type?: unknown;
+  rating?: unknown;
+  note?: unknown;
+  visitStatus?: unknown;
+  visitedAt?: unknown;
+  personalRating?: unknown;
+  savedAt?: unknown;
+}
+
+export interface ParsedFavoritesFile {
+  format: FavoritesFileFormat;
+  favorites: Favorite[];
+  invalid: number; // places without a name or valid coordinates
+}
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  return typeof value === 'string' && value.trim() ? Number(value) : NaN;
+};
+
+const optionalDate = (value: unknown): string | undefined => {
+  const date = optionalString(value);
+  return date && !Number.isNaN(Date.parse(date)) ? date : undefined;
+};
+
+/**
+ * Favorite from a raw place, or null if it has no name or no valid position
+ */
+const toFavorite = (place: RawPlace): Favorite | null => {
+  const name = optionalString(place.name);
+  const latitude = toNumber(place.latitude);
+  const longitude = toNumber(place.longitude);
+  if (
+    !name ||
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return null;
+  }
+
+  const id = optionalString(place.id);
+  const rating = toNumber(place.rating);
+  const personalRating = toNumber(place.personalRating);
+  const visitStatus = place.visitStatus === 'visited' || place.visitStatus === 'planned'
+    ? (place.visitStatus as VisitStatus)
+    : undefined;
+
+  return {
+    id: id && isNamespacedId(id) ? id : importedAttractionId(latitude, longitude),
+    name,
+    latitude,
+    longitude,
+    type: optionalString(place.type) ?? IMPORTED_TYPE,
+    distance: 0,
+    rating: Number.isFinite(rating) ? rating : 0,
+    savedAt: optionalDate(place.savedAt),
+    note: optionalString(place.note),
+    visitStatus,
+    visitedAt: visitStatus === 'visited' ? optionalDate(place.visitedAt) : undefined,
+    personalRating:
+      Number.isInteger(personalRating) && personalRating >= 1 && personalRating <= FAVORITES_CONFIG.MAX_PERSONAL_RATING
+        ? personalRating
+        : undefined,
+  };
+};
+
+const buildGpx = (favorites: Favorite[], name: string): string =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${escapeXml(APP_CONFIG.USER_AGENT)}" xmlns="http://www.topografix.com/GPX/1/1" xmlns:tg="${GPX_EXTENSION_NAMESPACE}">`,
+    '  <metadata>',
+    `    <name>${escapeXml(name)}</name>`,
+    '  </metadata>',
+    ...favorites.flatMap(favorite => [
+      `  <wpt lat="${favorite.latitude}" lon="${favorite.longitude}">`,
+      ...(favorite.savedAt ? [`    <time>${escapeXml(favorite.savedAt)}</time>`] : []),
+      `    <name>${escapeXml(favorite.name)}</name>`,
+      ...(favorite.note ? [`    <desc>${escapeXml(favorite.note)}</desc>`] : []),
+      `    <type>${escapeXml(favorite.type)}</type>`,
+      '    <extensions>',
+      `      <tg:id>${escapeXml(favorite.id)}</tg:id>`,
+      `      <tg:rating>${favorite.rating}</tg:rating>`,
+      ...(favorite.visitStatus ? [`      <tg:visitStatus>${favorite.visitStatus}</tg:visitStatus>`] : []),
+      ...(favorite.visitedAt ? [`      <tg:visitedAt>${escapeXml(favorite.visitedAt)}</tg:visitedAt>`] : []),
+      ...(favorite.personalRating ? [`      <tg:personalRating>${favorite.personalRating}</tg:personalRating>`] : []),
+      '    </extensions>',
+      '  </wpt>',
+    ]),
+    '</gpx>',
+    '',
+  ].join('\n');
+
+const buildKml = (favorites: Favorite[], name: string): string => {
+  const data = (key: string, value: string | number | undefined) =>
+    value === undefined ? [] : [`        <Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...favorites.flatMap(favorite => [
+      '    <Placemark>',
+      `      <name>${escapeXml(favorite.name)}</name>`,
+      ...(favorite.note ? [`      <description>${escapeXml(favorite.note)}</description>`] : []),
+      '      <ExtendedData>',
+      ...data('id', favorite.id),
+      ...data('type', favorite.type),
+      ...data('rating', favorite.rating),
+      ...data('visitStatus', favorite.visitStatus),
+      ...data('visitedAt', favorite.visitedAt),
+      ...data('personalRating', favorite.personalRating),
+      ...data('savedAt', favorite.savedAt),
+      '      </ExtendedData>',
+      // KML lists longitude first
+      `      <Point><coordinates>${favorite.longitude},${favorite.latitude}</coordinates></Point>`,
+      '    </Placemark>',
+    ]),
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+};
+
+const buildGeoJson = (favorites: Favorite[], name: string): string =>
+  JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      name,
+      features: favorites.map(favorite => ({
+        type: 'Feature',
+        id: favorite.id,
+        geometry: { type: 'Point', coordinates: [favorite.longitude, favorite.latitude] },
+        properties: {
+          name: favorite.name,
+          type: favorite.type,
+          rating: favorite.rating,
+          note: favorite.note,
+          visitStatus: favorite.visitStatus,
+          visitedAt: favorite.visitedAt,
+          personalRating: favorite.personalRating,
+          savedAt: favorite.savedAt,
+        },
+      })),
+    },
+    null,
+    2
+  );
+
+/**
+ * Serialize favorites as GPX waypoints, KML placemarks or a GeoJSON FeatureCollection
+ * Ids, ratings, notes and visits are kept so the file can be imported again.
+ */
+export const serializeFavorites = (favorites: Favorite[], format: FavoritesFileFormat, name: string): string => {
+  switch (format) {
+    case 'gpx':
+      return buildGpx(favorites, name);
+    case 'kml':
+      return buildKml(favorites, name);
+    case 'geojson':
+      return buildGeoJson(favorites, name);
+  }
+};
+
+const parseGpx = (xml: string): RawPlace[] =>
+  findElements(xml, 'wpt').map(({ attributes, content }) => ({
+    id: getElementText(content, 'id'),
+    name: getElementText(content, 'name'),
+    latitude: getAttribute(attributes, 'lat'),
+    longitude: getAttribute(attributes, 'lon'),
+    type: getElementText(content, 'type'),
+    rating: getElementText(content, 'rating'),
+    note: getElementText(content, 'desc') ?? getElementText(content, 'cmt'),
+    visitStatus: getElementText(content, 'visitStatus'),
+    visitedAt: getElementText(content, 'visitedAt'),
+    personalRating: getElementText(content, 'personalRating'),
+    savedAt: getElementText(content, 'time'),
+  }));
+
+const parseKml = (xml: string): RawPlace[] =>
+  findElements(xml, 'Placemark').map(({ content }) => {
+    const data = new Map(
+      findElements(content, 'Data').map(({ attributes, content: value }) => [
+        getAttribute(attributes, 'name'),
+        getElementText(value, 'value'),
+      ])
+    );
+    // Only points become favorites; lines and polygons fail validation
+    const [point] = findElements(content, 'Point');
+    const [longitude, latitude] = (point && getElementText(point.content, 'coordinates')?.split(',')) || [];
+
+    return {
+      id: data.get('id'),
+      name: getElementText(content, 'name'),
+      latitude,
+      longitude,
+      type: data.get('type'),
+      rating: data.get('rating'),
+      note: getElementText(content, 'description'),
+      visitStatus: data.get('visitStatus'),
+      visitedAt: data.get('visitedAt'),
+      personalRating: data.get('personalRating'),
+      savedAt: data.get('savedAt'),
+    };
+  });
+
+const parseGeoJson = (json: string): RawPlace[] | null => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  const features: any[] | null =
+    data?.type === 'FeatureCollection' && Array.isArray(data.features)
+      ? data.features
+      : data?.type === 'Feature'
+        ? [data]
+        : null;
+  if (!features) return null;
+
+  return features.map(feature => {
+    const properties = feature?.properties ?? {};
+    const coordinates = feature?.geometry?.type === 'Point' ? feature.geometry.coordinates : [];
+    return {
+      id: typeof feature?.id === 'string' ? feature.id : properties.id,
+      name: properties.name ?? properties.title,
+      latitude: Array.isArray(coordinates) ? coordinates[1] : undefined,
+      longitude: Array.isArray(coordinates) ? coordinates[0] : undefined,
+      type: properties.type,
+      rating: properties.rating,
+      note: properties.note ?? properties.description,
+      visitStatus: properties.visitStatus,
+      visitedAt: properties.visitedAt,
+      personalRating: properties.personalRating,
+      savedAt: properties.savedAt,
+    };
+  });
+};
+
+/**
+ * Detect the format of a favorites file and read its places
+ * @returns Valid favorites and the number of invalid places, or null if the
+ * content is not GPX, KML or GeoJSON
+ */
+export const parseFavoritesFile = (content: string): ParsedFavoritesFile | null => {
+  const trimmed = content.trim();
+  let format: FavoritesFileFormat;
+  let places: RawPlace[] | null;
+
+  if (trimmed.startsWith('{')) {
+    format = 'geojson';
+    places = parseGeoJson(trimmed);
+  } else if (/<gpx\b/.test(trimmed)) {
+    format = 'gpx';
+    places = parseGpx(trimmed);
+  } else if (/<kml\b/.test(trimmed)) {
+    format = 'kml';
+    places = parseKml(trimmed);
+  } else {
+    return null;
+  }
+  if (!places) return null;
+
+  const favorites = places.map(toFavorite);
+  const valid = favorites.filter((favorite): favorite is Favorite => favorite !== null);
+  return { format, favorites: valid, invalid: favorites.length - valid.length };
+};
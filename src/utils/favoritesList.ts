@@ -0,0 +1,47 @@
+import { Coordinates, Favorite, FavoriteSortKey } from '../types';
+import { FAVORITES_CONFIG } from '../constants';
+import { calculateDistance } from './distance';
+
+const byName = (a: Favorite, b: Favorite) => a.name.localeCompare(b.name);
+
+// Favorites saved before dates were recorded sort last, in the order they were saved
+const COMPARATORS: Record<FavoriteSortKey, (a: Favorite, b: Favorite) => number> = {
+  distance: (a, b) => a.distance - b.distance || byName(a, b),
+  savedAt: (a, b) => (b.savedAt ?? '').localeCompare(a.savedAt ?? ''),
+  name: byName,
+};
+
+/**
+ * Recompute distances from the position; the stored distance is from when a
+ * favorite was saved
+ */
+export const withDistanceFrom = (favorites: Favorite[], position: Coordinates): Favorite[] =>
+  favorites.map(favorite => ({ ...favorite, distance: calculateDistance(position, favorite) }));
+
+/**
+ * Favorites whose name, type or note contain the query, ignoring case
+ */
+export const searchFavorites = (favorites: Favorite[], query: string): Favorite[] => {
+  const needle = query.trim().toLocaleLowerCase();
+  if (!needle) return favorites;
+  return favorites.filter(favorite =>
+    [favorite.name, favorite.type.replace(/_/g, ' '), favorite.note ?? ''].some(text =>
+      text.toLocaleLowerCase().includes(needle)
+    )
+  );
+};
+
+/**
+ * Sort favorites for display, returning a new array
+ */
+export const sortFavorites = (favorites: Favorite[], sortBy: FavoriteSortKey): Favorite[] =>
+  [...favorites].sort(COMPARATORS[sortBy]);
+
+/**
+ * Favorites within walking range, closest first
+ * Expects distances recomputed with `withDistanceFrom`.
+ */
+export const getNearbyFavorites = (
+  favorites: Favorite[],
+  radius: number = FAVORITES_CONFIG.NEARBY_RADIUS
+): Favorite[] => sortFavorites(favorites.filter(favorite => favorite.distance <= radius), 'distance');
@@ -0,0 +1,93 @@
+import { GEOCODING_CONFIG } from '../constants';
+
+// Spellings typed on keyboards without umlauts, e.g. "muenchen" for "München"
+const TRANSLITERATIONS: Record<string, string> = {
+  ä: 'ae',
+  ö: 'oe',
+  ü: 'ue',
+  æ: 'ae',
+  ø: 'oe',
+  œ: 'oe',
+};
+
+/** How well a query matches a place, best first */
+export enum MatchQuality {
+  NamePrefix = 3, // the name starts with the query
+  WordPrefix = 2, // every query word starts a word of the place
+  Fuzzy = 1, // like WordPrefix, with one typo per longer word
+}
+
+/**
+ * Lower case without diacritics and punctuation, e.g. "Frankfurt (Oder)" → "frankfurt oder"
+ * Unlike `normalizeName`, disambiguations in parentheses are kept as they can be searched for.
+ */
+export const normalizeSearchText = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Spellings a text can be typed as: without diacritics, and transliterated
+ */
+export const getSearchForms = (text: string): string[] => {
+  const transliterated = text.toLowerCase().replace(/[äöüæøœ]/g, char => TRANSLITERATIONS[char]);
+  return [...new Set([normalizeSearchText(text), normalizeSearchText(transliterated)])];
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// A word starts with the query word, allowing one typo in longer query words
+const isFuzzyPrefix = (queryWord: string, word: string): boolean => {
+  if (queryWord.length < GEOCODING_CONFIG.FUZZY_MIN_LENGTH) return false;
+  return [queryWord.length - 1, queryWord.length, queryWord.length + 1].some(
+    length => editDistance(queryWord, word.slice(0, length)) <= 1
+  );
+};
+
+const matchesWords = (queryWords: string[], words: string[], matches: (queryWord: string, word: string) => boolean) =>
+  queryWords.every(queryWord => words.some(word => matches(queryWord, word)));
+
+/**
+ * Match a query against a place name and its further description
+ * Case, diacritics and transliterated umlauts are ignored, so "muen" finds "München".
+ * @returns The match quality, or null if the query doesn't match
+ */
+export const matchSearchText = (query: string, name: string, description: string = ''): MatchQuality | null => {
+  let best: MatchQuality | null = null;
+
+  for (const queryForm of getSearchForms(query)) {
+    if (!queryForm) continue;
+    const queryWords = queryForm.split(' ');
+
+    for (const nameForm of getSearchForms(name)) {
+      if (nameForm.startsWith(queryForm)) return MatchQuality.NamePrefix;
+    }
+
+    const words = getSearchForms(`${name} ${description}`).flatMap(form => form.split(' '));
+    if (matchesWords(queryWords, words, (queryWord, word) => word.startsWith(queryWord))) {
+      best = MatchQuality.WordPrefix;
+    } else if (best === null && matchesWords(queryWords, words, isFuzzyPrefix)) {
+      best = MatchQuality.Fuzzy;
+    }
+  }
+
+  return best;
+};
@@ -0,0 +1,112 @@
+import { Attraction, Coordinates, Itinerary, ItineraryOptions, ItineraryStop } from '../types';
+import { ITINERARY_CONFIG } from '../constants';
+import { calculateDistance } from './distance';
+import { estimateLegHeuristic } from './routing';
+import { getOpeningStatus } from './openingHours';
+
+/**
+ * Order points into a short open path starting at the origin
+ * Builds a nearest-neighbor tour and improves it with 2-opt moves; the path
+ * does not return to the origin.
+ * @returns Indices into points in visiting order
+ */
+export const orderStops = (origin: Coordinates, points: Coordinates[]): number[] => {
+  if (points.length < 2) return points.map((_, index) => index);
+
+  // Node 0 is the origin, node i + 1 is points[i]
+  const nodes = [origin, ...points];
+  const distances = nodes.map(from => nodes.map(to => calculateDistance(from, to)));
+
+  const route: number[] = [];
+  const unvisited = new Set(points.map((_, index) => index + 1));
+  let current = 0;
+  while (unvisited.size > 0) {
+    let nearest = -1;
+    unvisited.forEach(node => {
+      if (nearest === -1 || distances[current][node] < distances[current][nearest]) nearest = node;
+    });
+    route.push(nearest);
+    unvisited.delete(nearest);
+    current = nearest;
+  }
+
+  // Reversing route[i..k] replaces edges (before i, i) and (k, after k); the open end costs nothing
+  for (let pass = 0; pass < ITINERARY_CONFIG.MAX_OPTIMIZATION_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < route.length - 1; i++) {
+      for (let k = i + 1; k < route.length; k++) {
+        const before = i === 0 ? 0 : route[i - 1];
+        const after = k === route.length - 1 ? null : route[k + 1];
+        const currentLength = distances[before][route[i]] + (after === null ? 0 : distances[route[k]][after]);
+        const swappedLength = distances[before][route[k]] + (after === null ? 0 : distances[route[i]][after]);
+        if (swappedLength < currentLength - 1e-6) {
+          route.splice(i, k - i + 1, ...route.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return route.map(node => node - 1);
+};
+
+/**
+ * Plan a visit of the attractions starting at the origin
+ * Stops are ordered by orderStops and scheduled with heuristic travel times.
+ * A stop closed on arrival is waited for up to MAX_WAIT, otherwise skipped;
+ * stops that would end after the time budget are skipped as well.
+ */
+export const planItinerary = (
+  origin: Coordinates,
+  attractions: Attraction[],
+  { start, timeBudget, mode, visitDuration = ITINERARY_CONFIG.VISIT_DURATION }: ItineraryOptions
+): Itinerary => {
+  const end = start.getTime() + timeBudget * 1000;
+  const stops: ItineraryStop[] = [];
+  const skipped: Itinerary['skipped'] = [];
+  let position = origin;
+  let time = start.getTime();
+  let totalDistance = 0;
+
+  orderStops(origin, attractions).forEach(index => {
+    const attraction = attractions[index];
+    const leg = estimateLegHeuristic(position, attraction, mode);
+    let arrival = time + leg.duration * 1000;
+
+    // Unparseable opening hours are treated as always open
+    const status = attraction.openingHours ? getOpeningStatus(attraction.openingHours, new Date(arrival)) : null;
+    if (status && !status.isOpen) {
+      const wait = status.nextOpen ? status.nextOpen.getTime() - arrival : Infinity;
+      if (wait > ITINERARY_CONFIG.MAX_WAIT * 1000) {
+        skipped.push({ attraction, reason: 'closed' });
+        return;
+      }
+      arrival += wait;
+    }
+
+    const departure = arrival + visitDuration * 1000;
+    if (departure > end) {
+      skipped.push({ attraction, reason: 'timeBudget' });
+      return;
+    }
+
+    stops.push({
+      attraction,
+      arrival: new Date(arrival),
+      departure: new Date(departure),
+      legDistance: leg.distance,
+      legDuration: leg.duration,
+    });
+    totalDistance += leg.distance;
+    position = attraction;
+    time = departure;
+  });
+
+  return {
+    stops,
+    skipped,
+    totalDistance,
+    totalDuration: stops.length > 0 ? Math.round((time - start.getTime()) / 1000) : 0,
+  };
+};
@@ -0,0 +1,91 @@
+import { Coordinates, Itinerary, TravelMode } from '../types';
+import { APP_CONFIG, ITINERARY_CONFIG } from '../constants';
+import { escapeXml } from './xml';
+
+const GOOGLE_TRAVEL_MODES: Record<TravelMode, string> = {
+  walking: 'walking',
+  cycling: 'bicycling',
+  driving: 'driving',
+};
+
+// Apple Maps has no cycling flag, it falls back to the user's default mode
+const APPLE_TRAVEL_MODES: Partial<Record<TravelMode, string>> = {
+  walking: 'w',
+  driving: 'd',
+};
+
+const formatCoordinates = ({ latitude, longitude }: Coordinates) => `${latitude},${longitude}`;
+
+/**
+ * Stops shown in map apps: the destination plus at most MAX_MAP_WAYPOINTS in between
+ */
+const getMapStops = (itinerary: Itinerary): Coordinates[] => {
+  const stops = itinerary.stops.map(stop => stop.attraction);
+  return stops.length > ITINERARY_CONFIG.MAX_MAP_WAYPOINTS + 1
+    ? [...stops.slice(0, ITINERARY_CONFIG.MAX_MAP_WAYPOINTS), stops[stops.length - 1]]
+    : stops;
+};
+
+/**
+ * Google Maps directions URL through all stops
+ * @returns URL, or null for an itinerary without stops
+ */
+export const buildGoogleMapsUrl = (origin: Coordinates, itinerary: Itinerary, mode: TravelMode): string | null => {
+  const stops = getMapStops(itinerary);
+  if (stops.length === 0) return null;
+
+  const params = [
+    'api=1',
+    `origin=${formatCoordinates(origin)}`,
+    `destination=${formatCoordinates(stops[stops.length - 1])}`,
+    `travelmode=${GOOGLE_TRAVEL_MODES[mode]}`,
+  ];
+  if (stops.length > 1) {
+    params.push(`waypoints=${encodeURIComponent(stops.slice(0, -1).map(formatCoordinates).join('|'))}`);
+  }
+  return `https://www.google.com/maps/dir/?${params.join('&')}`;
+};
+
+/**
+ * Apple Maps directions URL through all stops, chained with "+to:"
+ * @returns URL, or null for an itinerary without stops
+ */
+export const buildAppleMapsUrl = (origin: Coordinates, itinerary: Itinerary, mode: TravelMode): string | null => {
+  const stops = getMapStops(itinerary);
+  if (stops.length === 0) return null;
+
+  const params = [`saddr=${formatCoordinates(origin)}`, `daddr=${stops.map(formatCoordinates).join('+to:')}`];
+  if (APPLE_TRAVEL_MODES[mode]) {
+    params.push(`dirflg=${APPLE_TRAVEL_MODES[mode]}`);
+  }
+  return `https://maps.apple.com/?${params.join('&')}`;
+};
+
+/**
+ * GPX 1.1 document with a waypoint per stop and a route through all of them
+ * Child elements follow the order required by the GPX schema.
+ */
+export const buildItineraryGpx = (itinerary: Itinerary, name: string): string => {
+  const point = (tag: string, stop: Itinerary['stops'][number], indent: string) => [
+    `${indent}<${tag} lat="${stop.attraction.latitude}" lon="${stop.attraction.longitude}">`,
+    `${indent}  <time>${stop.arrival.toISOString()}</time>`,
+    `${indent}  <name>${escapeXml(stop.attraction.name)}</name>`,
+    `${indent}  <type>${escapeXml(stop.attraction.type)}</type>`,
+    `${indent}</${tag}>`,
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${escapeXml(APP_CONFIG.USER_AGENT)}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    '  <metadata>',
+    `    <name>${escapeXml(name)}</name>`,
+    '  </metadata>',
+    ...itinerary.stops.flatMap(stop => point('wpt', stop, '  ')),
+    '  <rte>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...itinerary.stops.flatMap(stop => point('rtept', stop, '    ')),
+    '  </rte>',
+    '</gpx>',
+    '',
+  ].join('\n');
+};
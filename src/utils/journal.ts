@@ -0,0 +1,37 @@
+import { Favorite, JournalDay } from '../types';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Local calendar date of a timestamp, as YYYY-MM-DD
+ */
+export const toLocalDate = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Visited favorites grouped by the day of the visit, oldest first
+ * Visits without a date (marked before dates were recorded) are collected in
+ * a last group with an empty date.
+ */
+export const buildJournal = (favorites: Favorite[]): JournalDay[] => {
+  const visited = favorites.filter(favorite => favorite.visitStatus === 'visited');
+  const dated = visited
+    .filter(favorite => favorite.visitedAt)
+    .sort((a, b) => Date.parse(a.visitedAt!) - Date.parse(b.visitedAt!));
+
+  const days: JournalDay[] = [];
+  for (const favorite of dated) {
+    const date = toLocalDate(favorite.visitedAt!);
+    const day = days[days.length - 1];
+    if (day?.date === date) {
+      day.entries.push(favorite);
+    } else {
+      days.push({ date, entries: [favorite] });
+    }
+  }
+
+  const undated = visited.filter(favorite => !favorite.visitedAt);
+  return undated.length > 0 ? [...days, { date: '', entries: undated }] : days;
+};
@@ -0,0 +1,38 @@
+import { Language } from '../types';
+import { GEOCODING_CONFIG } from '../constants';
+
+/**
+ * Language of Wikipedia and OSM content for an app language
+ * Content is available in English and German; German is the default.
+ */
+export const getContentLanguage = (language: string | undefined): Language =>
+  language === 'en' ? 'en' : 'de';
+
+/**
+ * Languages to ask for, most preferred first
+ * A regional language such as 'de-AT' falls back to 'de' and then to the
+ * fallback languages.
+ */
+export const getLanguageChain = (
+  language: string | undefined,
+  fallbacks: readonly string[] = GEOCODING_CONFIG.FALLBACK_LANGUAGES
+): string[] => {
+  const chain: string[] = [];
+  const add = (code: string | undefined) => {
+    const normalized = code?.trim().toLowerCase();
+    if (normalized && !chain.includes(normalized)) chain.push(normalized);
+  };
+
+  add(language);
+  add(language?.split('-')[0]);
+  fallbacks.forEach(add);
+  return chain;
+};
+
+/**
+ * Accept-Language value for a language chain, e.g. 'de-at,de;q=0.9,en;q=0.8'
+ */
+export const toAcceptLanguage = (chain: string[]): string =>
+  chain
+    .map((code, index) => (index === 0 ? code : `${code};q=${Math.max(1 - index / 10, 0.1).toFixed(1)}`))
+    .join(',');
@@ -0,0 +1,403 @@
+/**
+ * Parser and evaluator for the OSM `opening_hours` tag
+ * @see https://wiki.openstreetmap.org/wiki/Key:opening_hours/specification
+ *
+ * Supported subset: 24/7, month and date ranges (Apr-Oct, Dec 24-26),
+ * weekday ranges (Mo-Fr, Sa,Su, Fr-Mo), public holidays (PH),
+ * time spans incl. overnight (22:00-02:00) and open end (18:00+),
+ * off/closed/open, comments, fallback (||) and additional (,) rules.
+ * Anything else (sunrise, week numbers, Mo[1], ...) makes the value unparseable.
+ */
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+const MINUTES_PER_DAY = 24 * 60;
+const MAX_SCAN_DAYS = 366;
+
+const MONTH = `(?:${MONTHS.join('|')})`;
+const MONTH_DATE = `${MONTH}(?:\\s+\\d{1,2}(?!\\d|:))?`;
+const MONTH_RANGE = `${MONTH_DATE}(?:\\s*-\\s*(?:${MONTH_DATE}|\\d{1,2}(?!\\d|:)))?`;
+const MONTH_SELECTOR_RE = new RegExp(`^${MONTH_RANGE}(?:\\s*,\\s*${MONTH_RANGE})*`);
+const MONTH_RANGE_RE = new RegExp(
+  `^(${MONTH})(?:\\s+(\\d{1,2}))?(?:\\s*-\\s*(?:(${MONTH})(?:\\s+(\\d{1,2}))?|(\\d{1,2})))?$`
+);
+
+const WEEKDAY = `(?:${WEEKDAYS.join('|')})`;
+const DAY_ITEM = `(?:${WEEKDAY}(?:\\s*-\\s*${WEEKDAY})?|PH|SH)`;
+const WEEKDAY_SELECTOR_RE = new RegExp(`^${DAY_ITEM}(?:\\s*,\\s*${DAY_ITEM})*(?![A-Za-z\\[])`);
+
+const TIME_SPAN_RE = /^(\d{1,2}):(\d{2})\s*(?:-\s*(\d{1,2}):(\d{2})(\+)?|(\+))$/;
+const ADDITIONAL_RULE_RE = new RegExp(
+  `(\\d|off|closed|open)\\s*,\\s*(?=(?:${WEEKDAY}|PH|SH|${MONTH})\\b)`,
+  'g'
+);
+
+interface MonthRange {
+  start: number; // month * 100 + day
+  end: number;
+}
+
+interface TimeSpan {
+  start: number; // minutes since midnight
+  end: number; // may exceed one day for overnight spans
+}
+
+export interface OpeningHoursRule {
+  months: MonthRange[] | null;
+  weekdays: number[] | null; // 0 = Monday
+  publicHoliday: boolean;
+  times: TimeSpan[];
+  additional: boolean;
+}
+
+export interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface OpeningHoursOptions {
+  /** IANA timezone of the place, defaults to the device timezone */
+  timeZone?: string;
+  /** Decide whether a local date is a public holiday (PH rules never match without it) */
+  isPublicHoliday?: (date: LocalDate) => boolean;
+  /** Days ahead to look for the next change, defaults to a year */
+  scanDays?: number;
+}
+
+export interface OpeningStatus {
+  isOpen: boolean;
+  /** Next time the place opens, null if open or not opening within the scanned days */
+  nextOpen: Date | null;
+  /** Next time the place closes, null if closed or open beyond the scanned days */
+  nextClose: Date | null;
+}
+
+class OpeningHoursSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OpeningHoursSyntaxError';
+  }
+}
+
+const parseMonthRanges = (selector: string): MonthRange[] =>
+  selector.split(',').map(part => {
+    const match = part.trim().match(MONTH_RANGE_RE);
+    if (!match) throw new OpeningHoursSyntaxError(`Invalid month range "${part}"`);
+
+    const [, startMonthName, startDay, endMonthName, endDay, endDayOnly] = match;
+    const startMonth = MONTHS.indexOf(startMonthName) + 1;
+
+    if (endDayOnly) {
+      // "Dec 24-26"
+      if (!startDay) throw new OpeningHoursSyntaxError(`Invalid month range "${part}"`);
+      return { start: startMonth * 100 + Number(startDay), end: startMonth * 100 + Number(endDayOnly) };
+    }
+
+    const endMonth = endMonthName ? MONTHS.indexOf(endMonthName) + 1 : startMonth;
+    const start = startMonth * 100 + (startDay ? Number(startDay) : 1);
+    const end = endMonth * 100 + (endDay ? Number(endDay) : startDay && !endMonthName ? Number(startDay) : 31);
+    return { start, end };
+  });
+
+const parseWeekdays = (
+  selector: string
+): { weekdays: number[]; publicHoliday: boolean } => {
+  const weekdays = new Set<number>();
+  let publicHoliday = false;
+
+  selector.split(',').forEach(part => {
+    const item = part.trim();
+    if (item === 'PH') {
+      publicHoliday = true;
+      return;
+    }
+    if (item === 'SH') {
+      // School holidays are unknown - never match
+      return;
+    }
+    const [from, to] = item.split('-').map(day => WEEKDAYS.indexOf(day.trim()));
+    if (to === undefined) {
+      weekdays.add(from);
+      return;
+    }
+    for (let day = from; ; day = (day + 1) % 7) {
+      weekdays.add(day);
+      if (day === to) break;
+    }
+  });
+
+  return { weekdays: Array.from(weekdays).sort(), publicHoliday };
+};
+
+const parseTimes = (text: string): TimeSpan[] => {
+  if (text === '' || text === 'open') {
+    return [{ start: 0, end: MINUTES_PER_DAY }];
+  }
+  if (text === 'off' || text === 'closed') {
+    return [];
+  }
+
+  return text.split(',').map(part => {
+    const match = part.trim().match(TIME_SPAN_RE);
+    if (!match) throw new OpeningHoursSyntaxError(`Invalid time span "${part}"`);
+
+    const [, startHour, startMinute, endHour, endMinute, , openEndOnly] = match;
+    const start = Number(startHour) * 60 + Number(startMinute);
+    // Open end without closing time: assume open until midnight
+    let end = openEndOnly ? MINUTES_PER_DAY : Number(endHour) * 60 + Number(endMinute);
+
+    if (start > MINUTES_PER_DAY || end > 2 * MINUTES_PER_DAY || Number(startMinute) > 59) {
+      throw new OpeningHoursSyntaxError(`Invalid time span "${part}"`);
+    }
+    if (end <= start) {
+      end += MINUTES_PER_DAY;
+    }
+    return { start, end };
+  });
+};
+
+const parseRule = (text: string, additional: boolean): OpeningHoursRule => {
+  let rest = text.trim();
+
+  if (rest === '24/7') {
+    return { months: null, weekdays: null, publicHoliday: false, times: parseTimes(''), additional };
+  }
+
+  let months: MonthRange[] | null = null;
+  const monthMatch = rest.match(MONTH_SELECTOR_RE);
+  if (monthMatch) {
+    months = parseMonthRanges(monthMatch[0]);
+    rest = rest.slice(monthMatch[0].length).replace(/^:?\s*/, '');
+  }
+
+  let weekdays: number[] | null = null;
+  let publicHoliday = false;
+  const weekdayMatch = rest.match(WEEKDAY_SELECTOR_RE);
+  if (weekdayMatch) {
+    ({ weekdays, publicHoliday } = parseWeekdays(weekdayMatch[0]));
+    rest = rest.slice(weekdayMatch[0].length).replace(/^:?\s*/, '');
+  }
+
+  if (rest === '24/7') rest = '';
+
+  return { months, weekdays, publicHoliday, times: parseTimes(rest), additional };
+};
+
+/**
+ * Parse an opening_hours value into rules
+ * @returns Rules in evaluation order, or null if the value uses unsupported syntax
+ */
+export const parseOpeningHours = (value: string): OpeningHoursRule[] | null => {
+  try {
+    const withoutComments = value.replace(/"[^"]*"/g, '').trim();
+    if (!withoutComments) return null;
+
+    const rules: OpeningHoursRule[] = [];
+    withoutComments
+      .split(/;|\|\|/)
+      .map(part => part.trim())
+      .filter(Boolean)
+      .forEach(part => {
+        part
+          .replace(ADDITIONAL_RULE_RE, '$1\u0000')
+          .split('\u0000')
+          .forEach((ruleText, index) => rules.push(parseRule(ruleText, index > 0)));
+      });
+
+    return rules;
+  } catch (error) {
+    if (error instanceof OpeningHoursSyntaxError) return null;
+    throw error;
+  }
+};
+
+const addDays = (date: LocalDate, days: number): LocalDate & { weekday: number } => {
+  const utc = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: utc.getUTCFullYear(),
+    month: utc.getUTCMonth() + 1,
+    day: utc.getUTCDate(),
+    weekday: (utc.getUTCDay() + 6) % 7,
+  };
+};
+
+const getLocalParts = (
+  date: Date,
+  timeZone?: string
+): LocalDate & { minutes: number } => {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      minutes: date.getHours() * 60 + date.getMinutes(),
+    };
+  }
+
+  const parts: Record<string, number> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  })
+    .formatToParts(date)
+    .forEach(part => {
+      if (part.type !== 'literal') parts[part.type] = Number(part.value);
+    });
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    minutes: (parts.hour % 24) * 60 + parts.minute,
+  };
+};
+
+/**
+ * Convert a local wall-clock time in a timezone to an instant
+ */
+const toInstant = (date: LocalDate, minutes: number, timeZone?: string): Date => {
+  if (!timeZone) {
+    return new Date(date.year, date.month - 1, date.day, 0, minutes);
+  }
+
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, 0, minutes);
+  const offsetAt = (instant: number) => {
+    const local = getLocalParts(new Date(instant), timeZone);
+    return Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes) - instant;
+  };
+  // Two passes settle the offset around DST transitions
+  const firstGuess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(firstGuess));
+};
+
+const matchesMonths = (months: MonthRange[] | null, date: LocalDate): boolean => {
+  if (!months) return true;
+  const ordinal = date.month * 100 + date.day;
+  return months.some(range =>
+    range.start <= range.end
+      ? ordinal >= range.start && ordinal <= range.end
+      : ordinal >= range.start || ordinal <= range.end
+  );
+};
+
+const matchesDay = (
+  rule: OpeningHoursRule,
+  date: LocalDate & { weekday: number },
+  options: OpeningHoursOptions
+): boolean => {
+  if (!matchesMonths(rule.months, date)) return false;
+  if (!rule.weekdays) return true;
+  if (rule.weekdays.includes(date.weekday)) return true;
+  return rule.publicHoliday && !!options.isPublicHoliday?.(date);
+};
+
+/**
+ * Time spans that start on the given day (end may run into the next day)
+ */
+const getDaySpans = (
+  rules: OpeningHoursRule[],
+  date: LocalDate & { weekday: number },
+  options: OpeningHoursOptions
+): TimeSpan[] => {
+  let spans: TimeSpan[] = [];
+  rules.forEach(rule => {
+    if (!matchesDay(rule, date, options)) return;
+    spans = rule.additional ? [...spans, ...rule.times] : rule.times;
+  });
+  return spans;
+};
+
+/**
+ * Open intervals as minute offsets from the start of `from`, merged across day boundaries
+ */
+const getIntervals = (
+  rules: OpeningHoursRule[],
+  from: LocalDate,
+  days: number,
+  options: OpeningHoursOptions
+): TimeSpan[] => {
+  const intervals: TimeSpan[] = [];
+
+  // Start one day early to catch overnight spans running into `from`
+  for (let offset = -1; offset < days; offset++) {
+    getDaySpans(rules, addDays(from, offset), options).forEach(span => {
+      intervals.push({
+        start: offset * MINUTES_PER_DAY + span.start,
+        end: offset * MINUTES_PER_DAY + span.end,
+      });
+    });
+  }
+
+  intervals.sort((a, b) => a.start - b.start);
+  return intervals.reduce<TimeSpan[]>((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Evaluate an opening_hours value at a point in time
+ * @param value - Raw OSM opening_hours value
+ * @param at - Point in time to evaluate (default: now)
+ * @returns Open state with next change, or null if the value cannot be parsed
+ */
+export const getOpeningStatus = (
+  value: string,
+  at: Date = new Date(),
+  options: OpeningHoursOptions = {}
+): OpeningStatus | null => {
+  const rules = parseOpeningHours(value);
+  if (!rules) return null;
+
+  const local = getLocalParts(at, options.timeZone);
+  const today: LocalDate = { year: local.year, month: local.month, day: local.day };
+  const scanDays = options.scanDays ?? MAX_SCAN_DAYS;
+  const intervals = getIntervals(rules, today, scanDays, options);
+  const horizon = scanDays * MINUTES_PER_DAY;
+
+  const toDate = (minutes: number) =>
+    toInstant(
+      addDays(today, Math.floor(minutes / MINUTES_PER_DAY)),
+      ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY,
+      options.timeZone
+    );
+
+  const current = intervals.find(
+    interval => interval.start <= local.minutes && local.minutes < interval.end
+  );
+  if (current) {
+    return {
+      isOpen: true,
+      nextOpen: null,
+      nextClose: current.end >= horizon ? null : toDate(current.end),
+    };
+  }
+
+  const next = intervals.find(interval => interval.start > local.minutes);
+  return {
+    isOpen: false,
+    nextOpen: next ? toDate(next.start) : null,
+    nextClose: null,
+  };
+};
+
+/**
+ * Check whether a place is open at a point in time
+ * @returns true/false, or null if the value cannot be parsed
+ */
+export const isOpenAt = (
+  value: string,
+  at: Date = new Date(),
+  options: OpeningHoursOptions = {}
+): boolean | null => getOpeningStatus(value, at, options)?.isOpen ?? null;
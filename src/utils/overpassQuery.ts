@@ -0,0 +1,110 @@
+import { Coordinates, OverpassTagFilter } from '../types';
+import { BASE_OSM_FILTERS, INTEREST_OSM_FILTERS, OVERPASS_CONFIG } from '../constants';
+
+interface OverpassQueryOptions {
+  coordinates: Coordinates;
+  radius: number;
+  filters: readonly OverpassTagFilter[];
+  limit?: number;
+  timeout?: number;
+}
+
+/**
+ * Merge filters by key. A key without values matches everything,
+ * so it absorbs any value list for the same key.
+ */
+export const mergeTagFilters = (
+  filters: readonly OverpassTagFilter[]
+): OverpassTagFilter[] => {
+  const byKey = new Map<string, Set<string> | null>();
+
+  filters.forEach(filter => {
+    const existing = byKey.get(filter.key);
+    if (existing === null) return;
+
+    if (!filter.values || filter.values.length === 0) {
+      byKey.set(filter.key, null);
+      return;
+    }
+
+    const values = existing || new Set<string>();
+    filter.values.forEach(value => values.add(value));
+    byKey.set(filter.key, values);
+  });
+
+  return Array.from(byKey.keys())
+    .sort()
+    .map(key => {
+      const values = byKey.get(key);
+      return values ? { key, values: Array.from(values).sort() } : { key };
+    });
+};
+
+/**
+ * Get the merged tag filters for a set of user interests
+ * @param interests - Interest ids from AVAILABLE_INTERESTS
+ * @returns Base filters plus the filters of every known interest
+ */
+export const getFiltersForInterests = (interests: string[]): OverpassTagFilter[] => {
+  const interestFilters = interests.flatMap(id => INTEREST_OSM_FILTERS[id] || []);
+  return mergeTagFilters([...BASE_OSM_FILTERS, ...interestFilters]);
+};
+
+/**
+ * Convert a tag filter to Overpass QL selector syntax
+ */
+export const formatTagFilter = (filter: OverpassTagFilter): string => {
+  if (!filter.values || filter.values.length === 0) {
+    return `["${filter.key}"]`;
+  }
+  if (filter.values.length === 1) {
+    return `["${filter.key}"="${filter.values[0]}"]`;
+  }
+  return `["${filter.key}"~"^(${filter.values.join('|')})$"]`;
+};
+
+/**
+ * Build an Overpass QL query for nodes, ways and relations matching the filters
+ */
+export const buildOverpassQuery = ({
+  coordinates,
+  radius,
+  filters,
+  limit = OVERPASS_CONFIG.RESULT_LIMIT,
+  timeout = OVERPASS_CONFIG.TIMEOUT,
+}: OverpassQueryOptions): string => {
+  const around = `(around:${radius},${coordinates.latitude},${coordinates.longitude})`;
+  const statements = filters
+    .map(filter => `  nwr${formatTagFilter(filter)}${around};`)
+    .join('\n');
+
+  return `[out:json][timeout:${timeout}];\n(\n${statements}\n);\nout center ${limit};`;
+};
+
+/**
+ * Build an Overpass QL query fetching elements of any type by id
+ * Used to find out which element type a bare OSM id belongs to.
+ */
+export const buildElementLookupQuery = (
+  ids: number[],
+  timeout: number = OVERPASS_CONFIG.TIMEOUT
+): string => {
+  const idList = ids.join(',');
+  return `[out:json][timeout:${timeout}];\n(\n  node(id:${idList});\n  way(id:${idList});\n  relation(id:${idList});\n);\nout center;`;
+};
+
+/**
+ * Create a short, stable key identifying a filter set (used in cache keys)
+ */
+export const getFilterSetKey = (filters: readonly OverpassTagFilter[]): string => {
+  const signature = mergeTagFilters(filters)
+    .map(filter => (filter.values ? `${filter.key}=${filter.values.join('|')}` : filter.key))
+    .join(';');
+
+  // djb2 string hash
+  let hash = 5381;
+  for (let i = 0; i < signature.length; i++) {
+    hash = ((hash << 5) + hash + signature.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
@@ -0,0 +1,33 @@
+import { Attraction, Coordinates, Favorite, ProximityAlert } from '../types';
+import { APP_CONFIG } from '../constants';
+import { calculateDistance } from './distance';
+
+/**
+ * Places within the radius worth an alert, closest first
+ * Favorites count until they are visited; other attractions only with a high
+ * match score. A place that is both alerts as a favorite.
+ */
+export const findNearbyPlaces = (
+  position: Coordinates,
+  favorites: Favorite[],
+  attractions: Attraction[],
+  radius: number
+): ProximityAlert[] => {
+  const favoriteIds = new Set(favorites.map(favorite => favorite.id));
+  const candidates: Array<Omit<ProximityAlert, 'distance'>> = [
+    ...favorites
+      .filter(favorite => favorite.visitStatus !== 'visited')
+      .map(attraction => ({ attraction, reason: 'favorite' as const })),
+    ...attractions
+      .filter(
+        attraction =>
+          !favoriteIds.has(attraction.id) && (attraction.interestScore ?? 0) >= APP_CONFIG.HIGH_INTEREST_SCORE
+      )
+      .map(attraction => ({ attraction, reason: 'highMatch' as const })),
+  ];
+
+  return candidates
+    .map(candidate => ({ ...candidate, distance: calculateDistance(position, candidate.attraction) }))
+    .filter(alert => alert.distance <= radius)
+    .sort((a, b) => a.distance - b.distance);
+};
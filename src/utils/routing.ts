@@ -0,0 +1,51 @@
+import { Coordinates, RouteLeg, TravelMode } from '../types';
+import { ROUTING_CONFIG } from '../constants';
+import { calculateDistance } from './distance';
+
+export const TRAVEL_MODE_ICONS: Record<TravelMode, string> = {
+  walking: '🚶',
+  cycling: '🚲',
+  driving: '🚗',
+};
+
+/**
+ * Estimate a route leg without a routing engine
+ * Straight-line distance stretched by a per-mode detour factor, at a typical speed.
+ */
+export const estimateLegHeuristic = (
+  origin: Coordinates,
+  destination: Coordinates,
+  mode: TravelMode
+): RouteLeg => {
+  const distance = calculateDistance(origin, destination) * ROUTING_CONFIG.DETOUR_FACTORS[mode];
+  return {
+    distance: Math.round(distance),
+    duration: Math.round(distance / ROUTING_CONFIG.SPEEDS[mode]),
+  };
+};
+
+/**
+ * Format a distance for display, e.g. "450 m" or "1.2 km" ("1,2 km" in German)
+ */
+export const formatDistance = (meters: number, locale?: string): string => {
+  if (meters < 1000) {
+    return `${Math.round(meters / 10) * 10} m`;
+  }
+  const kilometers = new Intl.NumberFormat(locale, {
+    maximumFractionDigits: meters < 10000 ? 1 : 0,
+  }).format(meters / 1000);
+  return `${kilometers} km`;
+};
+
+/**
+ * Format a duration for display, e.g. "12 min" or "1 h 5 min"
+ */
+export const formatDuration = (seconds: number): string => {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+};
@@ -0,0 +1,54 @@
+import { PinnedLocationKind, SearchHistoryEntry, SearchResult } from '../types';
+import { SEARCH_HISTORY_CONFIG } from '../constants';
+
+/**
+ * Ranking score of an entry, combining how often and how recently it was selected
+ * Each selection counts half as much per half-life passed since the last one.
+ */
+export const getHistoryScore = (entry: SearchHistoryEntry, now: number): number =>
+  entry.count * Math.pow(0.5, Math.max(now - entry.lastSelectedAt, 0) / SEARCH_HISTORY_CONFIG.RECENCY_HALF_LIFE);
+
+const pinOrder = (entry: SearchHistoryEntry): number =>
+  entry.pinned ? SEARCH_HISTORY_CONFIG.PINNED_KINDS.indexOf(entry.pinned) : SEARCH_HISTORY_CONFIG.PINNED_KINDS.length;
+
+/**
+ * Pinned entries first, then by score
+ */
+export const rankSearchHistory = (entries: SearchHistoryEntry[], now: number): SearchHistoryEntry[] =>
+  [...entries].sort(
+    (a, b) => pinOrder(a) - pinOrder(b) || getHistoryScore(b, now) - getHistoryScore(a, now)
+  );
+
+/**
+ * Count a selection of the result
+ * The stored result is replaced, so names follow the latest search. Beyond
+ * the limit, the lowest ranked unpinned entries are dropped.
+ */
+export const addToSearchHistory = (
+  entries: SearchHistoryEntry[],
+  result: SearchResult,
+  now: number
+): SearchHistoryEntry[] => {
+  const existing = entries.find(entry => entry.result.id === result.id);
+  const updated = existing
+    ? entries.map(entry => (entry === existing ? { ...entry, result, count: entry.count + 1, lastSelectedAt: now } : entry))
+    : [...entries, { result, count: 1, lastSelectedAt: now }];
+
+  const ranked = rankSearchHistory(updated, now);
+  const dropped = new Set(ranked.filter(entry => !entry.pinned).slice(SEARCH_HISTORY_CONFIG.MAX_RECENT));
+  return ranked.filter(entry => !dropped.has(entry));
+};
+
+/**
+ * Pin an entry as home or hotel, or unpin it with null
+ * Only one entry holds each pin; pinning another moves it.
+ */
+export const pinSearchHistoryEntry = (
+  entries: SearchHistoryEntry[],
+  id: string,
+  kind: PinnedLocationKind | null
+): SearchHistoryEntry[] =>
+  entries.map(entry => {
+    if (entry.result.id === id) return { ...entry, pinned: kind ?? undefined };
+    return kind && entry.pinned === kind ? { ...entry, pinned: undefined } : entry;
+  });
@@ -0,0 +1,60 @@
+import { Attraction, SearchResult, SearchResultKind } from '../types';
+import { SEARCH_CONFIG } from '../constants';
+import { matchSearchText } from './fuzzySearch';
+import { normalizeName } from './attractionMerge';
+import { calculateDistance } from './distance';
+
+/**
+ * Search result opening the attraction when selected
+ */
+export const attractionToSearchResult = (attraction: Attraction, kind: SearchResultKind): SearchResult => ({
+  id: attraction.id,
+  displayName: attraction.name,
+  primaryName: attraction.name,
+  secondaryInfo: attraction.description || '',
+  coordinates: { latitude: attraction.latitude, longitude: attraction.longitude },
+  type: attraction.type,
+  importance: 0,
+  kind,
+  attraction,
+});
+
+/**
+ * Loaded attractions matching the query, best matches and ratings first
+ */
+export const findLoadedAttractions = (
+  query: string,
+  attractions: Attraction[],
+  limit: number = SEARCH_CONFIG.MAX_NEARBY_RESULTS
+): SearchResult[] =>
+  attractions
+    .map(attraction => ({
+      attraction,
+      quality: matchSearchText(query, attraction.name, Object.values(attraction.names || {}).join(' ')),
+    }))
+    .filter((match): match is { attraction: Attraction; quality: number } => match.quality !== null)
+    .sort((a, b) => b.quality - a.quality || b.attraction.rating - a.attraction.rating)
+    .slice(0, limit)
+    .map(({ attraction }) => attractionToSearchResult(attraction, 'nearby'));
+
+const resultId = (result: SearchResult) => result.attraction?.id ?? result.id;
+
+/**
+ * Combine result lists in order, keeping the first of duplicates
+ * Results are duplicates if they share an attraction id, or have the same
+ * name and lie within the duplicate radius ("Berlin" the city and the article).
+ */
+export const mergeSearchResults = (groups: SearchResult[][]): SearchResult[] => {
+  const merged: SearchResult[] = [];
+  groups.flat().forEach(result => {
+    const name = normalizeName(result.primaryName);
+    const isDuplicate = merged.some(
+      other =>
+        resultId(other) === resultId(result) ||
+        (normalizeName(other.primaryName) === name &&
+          calculateDistance(other.coordinates, result.coordinates) < SEARCH_CONFIG.DUPLICATE_RADIUS)
+    );
+    if (!isDuplicate) merged.push(result);
+  });
+  return merged;
+};
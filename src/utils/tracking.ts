@@ -0,0 +1,56 @@
+import { TrackingProfile, TrackPoint } from '../types';
+import { APP_CONFIG, TRACKING_CONFIG } from '../constants';
+import { calculateDistance } from './distance';
+import { escapeXml } from './xml';
+
+/**
+ * Tracking profile for a speed in m/s
+ * Platforms report no or a negative speed when it is unknown; walking is assumed then.
+ * @param savingBattery - Track walking less precisely, the other profiles are sparse already
+ */
+export const getTrackingProfile = (speed: number | null | undefined, savingBattery: boolean = false): TrackingProfile => {
+  const walking = savingBattery ? 'saving' : 'walking';
+  if (speed === null || speed === undefined || speed < 0) return walking;
+  if (speed < TRACKING_CONFIG.STATIONARY_SPEED) return 'stationary';
+  return speed <= TRACKING_CONFIG.WALKING_SPEED ? walking : 'moving';
+};
+
+/**
+ * Add a point to a track, skipping points too close to the previous one
+ * @returns The same track if the point was skipped, otherwise a new one
+ * capped at MAX_TRACK_POINTS
+ */
+export const appendTrackPoint = (track: TrackPoint[], point: TrackPoint): TrackPoint[] => {
+  const last = track[track.length - 1];
+  if (last && calculateDistance(last, point) < TRACKING_CONFIG.MIN_TRACK_POINT_DISTANCE) {
+    return track;
+  }
+  return [...track, point].slice(-TRACKING_CONFIG.MAX_TRACK_POINTS);
+};
+
+/**
+ * Walked distance along a track in meters
+ */
+export const getTrackLength = (track: TrackPoint[]): number =>
+  track.reduce((length, point, index) => (index === 0 ? 0 : length + calculateDistance(track[index - 1], point)), 0);
+
+/**
+ * GPX 1.1 document with the track as one segment
+ */
+export const buildTrackGpx = (track: TrackPoint[], name: string): string =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${escapeXml(APP_CONFIG.USER_AGENT)}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    '    <trkseg>',
+    ...track.flatMap(point => [
+      `      <trkpt lat="${point.latitude}" lon="${point.longitude}">`,
+      `        <time>${new Date(point.timestamp).toISOString()}</time>`,
+      '      </trkpt>',
+    ]),
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
@@ -0,0 +1,59 @@
+/**
+ * Minimal XML helpers for the GPX and KML files the app reads and writes
+ * Enough for flat, well-formed documents; not a general XML parser.
+ */
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Resolve entities and CDATA sections in text content
+ * Numeric entities outside the Unicode range are left as they are.
+ */
+export const unescapeXml = (value: string): string => {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) return cdata[1];
+
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point >= 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code] ?? entity;
+  });
+};
+
+/**
+ * Attributes and inner content of every element with this name, namespace prefixes ignored
+ */
+export const findElements = (xml: string, tag: string): Array<{ attributes: string; content: string }> => {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>)`, 'g');
+  return Array.from(xml.matchAll(pattern), match => ({ attributes: match[1], content: match[2] ?? '' }));
+};
+
+/**
+ * Text of the first element with this name, or undefined if missing or empty
+ */
+export const getElementText = (xml: string, tag: string): string | undefined => {
+  const [element] = findElements(xml, tag);
+  const text = element && unescapeXml(element.content).trim();
+  return text || undefined;
+};
+
+export const getAttribute = (attributes: string, name: string): string | undefined => {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  return match ? unescapeXml(match[1] ?? match[2]) : undefined;
+};